@@ -7,7 +7,7 @@ export default [
         files: ["**/*.{js,mjs,cjs,ts}"],
     },
     {
-        ignores: ["coverage/", "typechain-types/"],
+        ignores: ["coverage/", "typechain-types/", "error-types/"],
     },
     { languageOptions: { globals: globals.node } },
     pluginJs.configs.recommended,
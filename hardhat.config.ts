@@ -1,4 +1,4 @@
-import { type HardhatUserConfig } from "hardhat/config";
+import { type HardhatUserConfig, extendProvider } from "hardhat/config";
 
 import * as dotenv from "dotenv";
 
@@ -9,17 +9,27 @@ import "tsconfig-paths/register";
 
 import "./tasks";
 
+import { networkProfiles } from "./lib/networks";
+import { signerExtender } from "./lib/deploy/signer";
+
 dotenv.config();
 
-const config: HardhatUserConfig = {
-    networks: {
-        hardhat: {
-            mining: {
-                auto: true,
-                interval: 5000,
-            },
-        },
+// See `lib/networks.ts` for the profiles and the variables they read.
+const networks = networkProfiles({
+    mining: {
+        auto: true,
+        interval: 5000,
     },
+});
+
+// Only registered when needed: any extender changes how Hardhat sets up the
+// providers of every network.
+if (Object.values(networks).some(n => n?.signer)) {
+    extendProvider(signerExtender);
+}
+
+const config: HardhatUserConfig = {
+    networks,
     solidity: {
         version: "0.8.27",
         settings: {
@@ -0,0 +1,167 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { createHash } from "crypto";
+import { gzipSync } from "zlib";
+
+/* TYPES
+================================================== */
+export type ArchiveFile = {
+    /** The path of the file within the archive. Uses `/` as the separator. */
+    readonly path: string;
+    readonly content: string | Buffer;
+};
+
+/* CONSTANTS
+================================================== */
+const BLOCK = 512;
+
+/* ARCHIVE
+================================================== */
+/**
+ * Builds a gzipped tar archive (`.tar.gz`) from `files`.
+ *
+ * The archive is reproducible: files are written in path order and every
+ * timestamp, owner and mode is fixed, so the same files always produce the
+ * same bytes.
+ *
+ * # Error
+ *
+ * Will throw an error if a path is too long for the ustar format, or if two
+ * files share a path.
+ *
+ * @throws
+ * @function    tarGz
+ *
+ * @param       {ArchiveFile[]}     files
+ *
+ * @returns     {Buffer}
+ */
+export function tarGz(files: readonly ArchiveFile[]): Buffer {
+    const sorted = [...files].sort(byPath);
+    const blocks: Buffer[] = [];
+
+    for (const [i, f] of sorted.entries()) {
+        if (i > 0 && sorted[i - 1].path === f.path) {
+            throw new Error(`Duplicate archive path: ${f.path}`);
+        }
+
+        const content = Buffer.from(f.content);
+        blocks.push(header(f.path, content.length));
+        blocks.push(content);
+
+        const pad = (BLOCK - (content.length % BLOCK)) % BLOCK;
+        blocks.push(Buffer.alloc(pad));
+    }
+
+    // The end of the archive is marked by two empty blocks.
+    blocks.push(Buffer.alloc(BLOCK * 2));
+
+    return gzipSync(Buffer.concat(blocks), { level: 9 });
+}
+
+/**
+ * Returns the SHA-256 hash of `content` as a hex string.
+ *
+ * @function    sha256
+ * @param       {string | Buffer}   content
+ * @returns     {string}
+ */
+export function sha256(content: string | Buffer): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Returns a checksum manifest for `files` in the format produced (and checked)
+ * by `sha256sum`.
+ *
+ * @function    checksums
+ * @param       {ArchiveFile[]}     files
+ * @returns     {string}
+ */
+export function checksums(files: readonly ArchiveFile[]): string {
+    const lines = [...files]
+        .sort(byPath)
+        .map(f => `${sha256(f.content)}  ${f.path}`);
+
+    return `${lines.join("\n")}\n`;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    byPath
+ * @param       {ArchiveFile}   a
+ * @param       {ArchiveFile}   b
+ * @returns     {number}
+ */
+function byPath(a: ArchiveFile, b: ArchiveFile): number {
+    if (a.path === b.path) return 0;
+    return a.path < b.path ? -1 : 1;
+}
+
+/**
+ * Builds a ustar header for a regular file.
+ *
+ * @throws
+ * @function    header
+ * @param       {string}    filePath
+ * @param       {number}    size
+ * @returns     {Buffer}
+ */
+function header(filePath: string, size: number): Buffer {
+    const h = Buffer.alloc(BLOCK);
+    const [prefix, name] = splitPath(filePath);
+
+    const write = (value: string, offset: number, length: number) => {
+        h.write(value, offset, length, "utf8");
+    };
+
+    const octal = (n: number, length: number) =>
+        `${n.toString(8).padStart(length - 1, "0")}\0`;
+
+    write(name, 0, 100);
+    write(octal(0o644, 8), 100, 8); // mode
+    write(octal(0, 8), 108, 8); // uid
+    write(octal(0, 8), 116, 8); // gid
+    write(octal(size, 12), 124, 12);
+    write(octal(0, 12), 136, 12); // mtime
+    write(" ".repeat(8), 148, 8); // checksum placeholder
+    write("0", 156, 1); // regular file
+    write("ustar\0", 257, 6);
+    write("00", 263, 2);
+    write(prefix, 345, 155);
+
+    let sum = 0;
+    for (const b of h) sum += b;
+    write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+
+    return h;
+}
+
+/**
+ * Splits a path into the ustar `prefix` and `name` fields.
+ *
+ * @throws
+ * @function    splitPath
+ * @param       {string}    filePath
+ * @returns     {[string, string]}
+ */
+function splitPath(filePath: string): [string, string] {
+    if (Buffer.byteLength(filePath) <= 100) return ["", filePath];
+
+    for (let i = filePath.indexOf("/"); i !== -1; ) {
+        const prefix = filePath.slice(0, i);
+        const name = filePath.slice(i + 1);
+
+        if (
+            Buffer.byteLength(prefix) <= 155 &&
+            Buffer.byteLength(name) <= 100
+        ) {
+            return [prefix, name];
+        }
+
+        i = filePath.indexOf("/", i + 1);
+    }
+
+    throw new Error(`Path too long for archive: ${filePath}`);
+}
@@ -0,0 +1,274 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, upgrades } from "hardhat";
+import { Contract, Interface, getBytes, hexlify, zeroPadValue } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { AttachableName, Attached } from "./contracts";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { ATTACHABLE } from "./contracts";
+import { loadDeployment } from "../deploy/manifest";
+
+/* CONSTANTS
+================================================== */
+/**
+ * The ERC-1967 implementation slot. A UUPS implementation returns this value
+ * from `proxiableUUID`.
+ */
+const IMPLEMENTATION_SLOT =
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/** The `PUSH1` and `PUSH32` opcodes. */
+const PUSH1 = 0x60;
+const PUSH32 = 0x7f;
+
+const PROBE_ABI = [
+    "function proxiableUUID() external view returns (bytes32)",
+    "function supportsInterface(bytes4 interfaceId) external view returns (bool)",
+];
+
+/* ATTACH
+================================================== */
+/**
+ * Attaches to the contract registered under `name` at `address` and returns a
+ * typed instance, connected to `signer`.
+ *
+ * Before attaching, verifies on-chain that:
+ *
+ * -    `address` is a UUPS proxy whose implementation has code; and
+ * -    the deployed contract matches the ABI of `name`. See `verifyABI`.
+ *
+ * # Error
+ *
+ * Will throw an error if any of the checks fail.
+ *
+ * @async
+ * @throws
+ * @function    attach
+ *
+ * @param       {K}                     name
+ * @param       {string}                address
+ * @param       {HardhatEthersSigner}   [signer]    Defaults to the first signer.
+ *
+ * @returns     {Promise<Attached<K>>}
+ *
+ * @example
+ *      const auction = await attach("nftAuction", addr, developer);
+ *      await auction.bid({ value }); // typed as `NFTAuction`
+ */
+export async function attach<K extends AttachableName>(
+    name: K,
+    address: string,
+    signer?: HardhatEthersSigner
+): Promise<Attached<K>> {
+    const implementation = await verifyProxy(address);
+    await verifyABI(name, address, implementation);
+
+    const runner = signer ?? (await ethers.getSigners())[0];
+    return ATTACHABLE[name].factory.connect(address, runner) as Attached<K>;
+}
+
+/**
+ * Loads `deployment` from the manifest for `network` and attaches to it as
+ * the contract registered under `name`. See `attach`.
+ *
+ * # Error
+ *
+ * Will throw an error if the deployment does not exist, was recorded as a
+ * different contract, or fails verification.
+ *
+ * @async
+ * @throws
+ * @function    attachDeployed
+ *
+ * @param       {K}                     name
+ * @param       {string}                network
+ * @param       {string}                [deployment]    Defaults to `name`.
+ * @param       {HardhatEthersSigner}   [signer]
+ *
+ * @returns     {Promise<Attached<K>>}
+ *
+ * @example
+ *      const auction = await attachDeployed("nftAuction", "local", "auction");
+ */
+export async function attachDeployed<K extends AttachableName>(
+    name: K,
+    network: string,
+    deployment: string = name,
+    signer?: HardhatEthersSigner
+): Promise<Attached<K>> {
+    const entry = loadDeployment(network, deployment);
+    const expected = ATTACHABLE[name].contract;
+
+    if (entry.contract !== expected) {
+        const err = `Deployment ${deployment} on ${network} is a ${entry.contract}. Expected: ${expected}`;
+        throw new Error(err);
+    }
+
+    return attach(name, entry.address, signer);
+}
+
+/* VERIFY
+================================================== */
+/**
+ * Verifies that `address` is a UUPS proxy and returns the address of its
+ * implementation.
+ *
+ * # Error
+ *
+ * Will throw an error if:
+ *
+ * -    there is no code at `address`;
+ * -    `address` does not have an ERC-1967 implementation set;
+ * -    there is no code at the implementation address; or
+ * -    the implementation is not UUPS compatible.
+ *
+ * @async
+ * @throws
+ * @function    verifyProxy
+ *
+ * @param       {string}    address
+ *
+ * @returns     {Promise<string>}   The implementation address.
+ */
+export async function verifyProxy(address: string): Promise<string> {
+    if (!(await hasCode(address))) {
+        throw new Error(`No contract deployed at ${address}`);
+    }
+
+    let implementation: string;
+    try {
+        implementation =
+            await upgrades.erc1967.getImplementationAddress(address);
+    } catch {
+        throw new Error(`Contract at ${address} is not an ERC-1967 proxy`);
+    }
+
+    if (!(await hasCode(implementation))) {
+        const err = `Implementation of ${address} has no code: ${implementation}`;
+        throw new Error(err);
+    }
+
+    // `proxiableUUID` reverts when called through the proxy, so it is called
+    // on the implementation directly.
+    const impl = new Contract(implementation, PROBE_ABI, ethers.provider);
+
+    let uuid: string;
+    try {
+        uuid = await impl.getFunction("proxiableUUID").staticCall();
+    } catch {
+        uuid = "";
+    }
+
+    if (uuid !== IMPLEMENTATION_SLOT) {
+        const err = `Implementation of ${address} is not UUPS compatible: ${implementation}`;
+        throw new Error(err);
+    }
+
+    return implementation;
+}
+
+/**
+ * Verifies that the contract at `address` matches the ABI of the contract
+ * registered under `name`. Checks that:
+ *
+ * -    each of the contract's ERC-165 interfaces are supported; and
+ * -    each function selector in the ABI is pushed onto the stack by the
+ *      implementation's bytecode, as done by its function dispatcher.
+ *
+ * # Error
+ *
+ * Will throw an error, listing each mismatch, if the contract does not match.
+ *
+ * @async
+ * @throws
+ * @function    verifyABI
+ *
+ * @param       {AttachableName}    name
+ * @param       {string}            address
+ * @param       {string}            implementation
+ *
+ * @returns     {Promise<void>}
+ */
+export async function verifyABI(
+    name: AttachableName,
+    address: string,
+    implementation: string
+): Promise<void> {
+    const { contract, factory, interfaces } = ATTACHABLE[name];
+    const proxy = new Contract(address, PROBE_ABI, ethers.provider);
+    const supportsInterface = proxy.getFunction("supportsInterface");
+
+    const missing: string[] = [];
+
+    for (const id of interfaces) {
+        let ok = false;
+        try {
+            ok = await supportsInterface.staticCall(id);
+        } catch {
+            ok = false;
+        }
+
+        if (!ok) missing.push(`interface ${id}`);
+    }
+
+    const pushed = pushedSelectors(
+        await ethers.provider.getCode(implementation)
+    );
+    new Interface(factory.abi).forEachFunction(f => {
+        if (!pushed.has(f.selector)) missing.push(`function ${f.format()}`);
+    });
+
+    if (missing.length > 0) {
+        const err = `Contract at ${address} does not match ${contract}. Missing:\n\t${missing.join("\n\t")}`;
+        throw new Error(err);
+    }
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Returns every value of up to four bytes pushed by `code` (`PUSH1` to
+ * `PUSH4`), as a selector. The function dispatcher compares the calldata
+ * selector against each function's selector in this way, with any leading
+ * zero bytes dropped. The bytecode is walked opcode by opcode so that the
+ * data of wider pushes is not mistaken for code.
+ *
+ * @function    pushedSelectors
+ * @param       {string}    code
+ * @returns     {Set<string>}
+ */
+function pushedSelectors(code: string): Set<string> {
+    const bytes = getBytes(code);
+    const out = new Set<string>();
+
+    for (let i = 0; i < bytes.length; ++i) {
+        const op = bytes[i];
+        if (op < PUSH1 || op > PUSH32) continue;
+
+        const n = op - PUSH1 + 1;
+        if (n <= 4) {
+            const data = hexlify(bytes.slice(i + 1, i + 1 + n));
+            out.add(zeroPadValue(data, 4));
+        }
+
+        i += n;
+    }
+
+    return out;
+}
+
+/**
+ * @async
+ * @function    hasCode
+ * @param       {string}    address
+ * @returns     {Promise<boolean>}
+ */
+async function hasCode(address: string): Promise<boolean> {
+    const code = await ethers.provider.getCode(address);
+    return code !== "0x";
+}
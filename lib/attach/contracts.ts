@@ -0,0 +1,75 @@
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    FeeContract__factory,
+    NFTAuction__factory,
+    NetworkGuardianController__factory,
+    ProofOfIdentity__factory,
+    SimpleStorage__factory,
+} from "@typechain";
+
+/* INTERFACE IDS
+================================================== */
+/** `type(INetworkGuardian).interfaceId` */
+export const NETWORK_GUARDIAN_INTERFACE_ID = "0x64b581fc";
+
+/** `type(IAccessControlUpgradeable).interfaceId` */
+export const ACCESS_CONTROL_INTERFACE_ID = "0x7965db0b";
+
+/** `type(IERC721Upgradeable).interfaceId` */
+export const ERC721_INTERFACE_ID = "0x80ac58cd";
+
+/* ATTACHABLE
+================================================== */
+/**
+ * The contracts that can be attached to via `attach`, keyed by the same names
+ * used by `DEPLOYERS` in `lib/deploy/plan`.
+ *
+ * -    `contract`:     The contract name, as used by `getContractFactory`.
+ * -    `factory`:      The typechain factory used to build the typed instance.
+ * -    `interfaces`:   ERC-165 interface IDs the contract must report as
+ *                      supported.
+ *
+ * When adding a new contract to `lib/deploy/*`, register it here as well.
+ */
+export const ATTACHABLE = {
+    guardianController: {
+        contract: "NetworkGuardianController",
+        factory: NetworkGuardianController__factory,
+        interfaces: [ACCESS_CONTROL_INTERFACE_ID],
+    },
+    proofOfIdentity: {
+        contract: "ProofOfIdentity",
+        factory: ProofOfIdentity__factory,
+        interfaces: [NETWORK_GUARDIAN_INTERFACE_ID, ERC721_INTERFACE_ID],
+    },
+    feeContract: {
+        contract: "FeeContract",
+        factory: FeeContract__factory,
+        interfaces: [NETWORK_GUARDIAN_INTERFACE_ID],
+    },
+    simpleStorage: {
+        contract: "SimpleStorage",
+        factory: SimpleStorage__factory,
+        interfaces: [NETWORK_GUARDIAN_INTERFACE_ID],
+    },
+    nftAuction: {
+        contract: "NFTAuction",
+        factory: NFTAuction__factory,
+        interfaces: [NETWORK_GUARDIAN_INTERFACE_ID],
+    },
+} as const;
+
+/* TYPES
+================================================== */
+/**
+ * The name of a contract registered in `ATTACHABLE`.
+ */
+export type AttachableName = keyof typeof ATTACHABLE;
+
+/**
+ * The typechain type of the contract registered under `K`.
+ */
+export type Attached<K extends AttachableName> = ReturnType<
+    (typeof ATTACHABLE)[K]["factory"]["connect"]
+>;
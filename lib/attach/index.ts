@@ -0,0 +1,2 @@
+export * from "./attach";
+export * from "./contracts";
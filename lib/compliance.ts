@@ -0,0 +1,374 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts, config } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { BuildInfo } from "hardhat/types";
+
+/* TYPES
+================================================== */
+/**
+ * The rules checked by `checkCompliance`.
+ *
+ * -    `modifiers`:    Every public or external state-changing function must
+ *                      apply both `whenNotGuardianPaused` and `developerFee`.
+ *                      Functions that override a non-payable function of a
+ *                      dependency, such as the OpenZeppelin ERC-20
+ *                      `transfer` or the vendored `IRecoverable`, cannot
+ *                      apply `developerFee` and need only apply
+ *                      `whenNotGuardianPaused`. Overrides of the project's
+ *                      own functions and interfaces are not exempt.
+ * -    `constructor`:  The constructor must call `_disableInitializers`.
+ * -    `initializer`:  The contract must call `__H1DevelopedApplication_init`
+ *                      during initialization.
+ */
+export type ComplianceRule = "modifiers" | "constructor" | "initializer";
+
+/**
+ * A single breach of a `ComplianceRule`.
+ *
+ * -    `file`:     The source name, e.g., `contracts/foo/Foo.sol`.
+ * -    `line`:     1-indexed line of the offending function or contract.
+ * -    `contract`: The contract the violation was found in.
+ */
+export type Violation = {
+    readonly file: string;
+    readonly line: number;
+    readonly contract: string;
+    readonly rule: ComplianceRule;
+    readonly message: string;
+};
+
+type Node = {
+    readonly nodeType: string;
+    readonly id: number;
+    readonly src: string;
+    readonly [key: string]: unknown;
+};
+
+type FunctionNode = Node & {
+    readonly kind: string;
+    readonly name: string;
+    readonly visibility: string;
+    readonly stateMutability: string;
+    readonly implemented: boolean;
+    readonly functionSelector?: string;
+    readonly baseFunctions?: readonly number[];
+    readonly modifiers: readonly { modifierName: { name: string } }[];
+};
+
+type ContractNode = Node & {
+    readonly name: string;
+    readonly abstract: boolean;
+    readonly contractKind: string;
+    readonly linearizedBaseContracts: readonly number[];
+    readonly nodes: readonly Node[];
+};
+
+type Source = {
+    readonly name: string;
+    readonly content: string;
+};
+
+/* CONSTANTS
+================================================== */
+const BASE = "H1DevelopedApplication";
+const GUARDIAN_MODIFIER = "whenNotGuardianPaused";
+const REQUIRED_MODIFIERS = [GUARDIAN_MODIFIER, "developerFee"];
+const INITIALIZER_MODIFIERS = ["initializer", "reinitializer"];
+const DISABLE_INITIALIZERS = "_disableInitializers";
+const BASE_INIT = "__H1DevelopedApplication_init";
+const VENDOR = "contracts/vendor/";
+
+/* COMPLIANCE
+================================================== */
+/**
+ * Checks every compiled, non-abstract contract that inherits
+ * `H1DevelopedApplication` against the `ComplianceRule`s.
+ *
+ * Functions are checked in the contract itself and in any of its bases that
+ * also inherit `H1DevelopedApplication`. Functions that apply `initializer`
+ * or `reinitializer` are exempt from the `modifiers` rule.
+ *
+ * The contracts must be compiled first.
+ *
+ * @async
+ * @function    checkCompliance
+ *
+ * @param       {string[]}  [only]  If supplied, only these contracts are
+ *                                  checked.
+ *
+ * @returns     {Promise<Violation[]>}  Ordered by file and line.
+ */
+export async function checkCompliance(
+    only?: readonly string[]
+): Promise<Violation[]> {
+    const violations = new Map<string, Violation>();
+
+    for (const p of await artifacts.getBuildInfoPaths()) {
+        const info = JSON.parse(fs.readFileSync(p, "utf8")) as BuildInfo;
+
+        for (const v of checkBuild(info, only)) {
+            violations.set(`${v.file}:${v.line}:${v.rule}`, v);
+        }
+    }
+
+    return [...violations.values()].sort(
+        (a, b) => a.file.localeCompare(b.file) || a.line - b.line
+    );
+}
+
+/**
+ * Checks the contracts of a single build against the `ComplianceRule`s. The
+ * build output must include the AST of every source.
+ *
+ * @function    checkBuild
+ *
+ * @param       {BuildInfo}     info
+ * @param       {string[]}      [only]  If supplied, only these contracts are
+ *                                      checked.
+ *
+ * @returns     {Violation[]}
+ */
+export function checkBuild(
+    info: BuildInfo,
+    only?: readonly string[]
+): Violation[] {
+    // AST IDs are unique within a build.
+    const contracts = new Map<number, ContractNode>();
+    const fileOf = new Map<number, Source>();
+
+    for (const [name, { ast }] of Object.entries(info.output.sources)) {
+        const source = { name, content: info.input.sources[name].content };
+
+        for (const n of (ast as { nodes: Node[] }).nodes) {
+            if (n.nodeType !== "ContractDefinition") continue;
+            contracts.set(n.id, n as ContractNode);
+            fileOf.set(n.id, source);
+        }
+    }
+
+    // The source of every function, and the functions it overrides.
+    const functions = new Map<number, { file: string; bases: number[] }>();
+
+    for (const c of contracts.values()) {
+        const file = (fileOf.get(c.id) as Source).name;
+        for (const f of functionsOf(c, true)) {
+            functions.set(f.id, { file, bases: [...(f.baseFunctions ?? [])] });
+        }
+    }
+
+    // Whether `f` overrides, directly or indirectly, a dependency's function.
+    const overridesDependency = (f: FunctionNode): boolean => {
+        const queue = [...(f.baseFunctions ?? [])];
+        const seen = new Set<number>();
+
+        while (queue.length > 0) {
+            const id = queue.pop() as number;
+            if (seen.has(id)) continue;
+            seen.add(id);
+
+            const base = functions.get(id);
+            if (!base) continue;
+            if (isDependency(base.file)) return true;
+
+            queue.push(...base.bases);
+        }
+
+        return false;
+    };
+
+    const violations: Violation[] = [];
+
+    for (const c of contracts.values()) {
+        if (c.abstract || c.contractKind !== "contract" || c.name === BASE) {
+            continue;
+        }
+
+        if (only && !only.includes(c.name)) continue;
+
+        const chain = c.linearizedBaseContracts.map(id => contracts.get(id));
+        const baseIdx = chain.findIndex(b => b?.name === BASE);
+        if (baseIdx === -1) continue;
+
+        // The contract and its bases that inherit `H1DevelopedApplication`.
+        const baseId = c.linearizedBaseContracts[baseIdx];
+        const own = (chain.slice(0, baseIdx) as ContractNode[]).filter(b =>
+            b.linearizedBaseContracts.includes(baseId)
+        );
+
+        const at = (owner: ContractNode, n: Node) => {
+            const source = fileOf.get(owner.id) as Source;
+            return { file: source.name, line: lineOf(source, n.src) };
+        };
+
+        /* Modifiers
+        ======================================== */
+        const seen = new Set<string>();
+        for (const b of own) {
+            for (const f of functionsOf(b)) {
+                if (f.functionSelector) {
+                    if (seen.has(f.functionSelector)) continue;
+                    seen.add(f.functionSelector);
+                }
+
+                const missing = missingModifiers(f, overridesDependency(f));
+                if (missing.length === 0) continue;
+
+                violations.push({
+                    ...at(b, f),
+                    contract: b.name,
+                    rule: "modifiers",
+                    message: `${f.name}() is missing: ${missing.join(", ")}`,
+                });
+            }
+        }
+
+        /* Constructor
+        ======================================== */
+        const ctor = functionsOf(c, true).find(f => f.kind === "constructor");
+
+        if (!ctor || !calls(ctor, DISABLE_INITIALIZERS)) {
+            violations.push({
+                ...at(c, ctor ?? c),
+                contract: c.name,
+                rule: "constructor",
+                message: ctor
+                    ? `constructor does not call ${DISABLE_INITIALIZERS}()`
+                    : `no constructor calling ${DISABLE_INITIALIZERS}()`,
+            });
+        }
+
+        /* Initializer
+        ======================================== */
+        const initializes = own.some(b =>
+            functionsOf(b, true).some(f => calls(f, BASE_INIT))
+        );
+
+        if (!initializes) {
+            violations.push({
+                ...at(c, c),
+                contract: c.name,
+                rule: "initializer",
+                message: `${BASE_INIT}() is never called`,
+            });
+        }
+    }
+
+    return violations;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    functionsOf
+ * @param       {ContractNode}  c
+ * @param       {boolean}       [all]   Include non-public functions.
+ * @returns     {FunctionNode[]}
+ */
+function functionsOf(c: ContractNode, all: boolean = false): FunctionNode[] {
+    return c.nodes.filter(
+        (n): n is FunctionNode =>
+            n.nodeType === "FunctionDefinition" &&
+            (all ||
+                ((n as FunctionNode).kind === "function" &&
+                    (n as FunctionNode).implemented &&
+                    ["public", "external"].includes(
+                        (n as FunctionNode).visibility
+                    )))
+    );
+}
+
+/**
+ * Returns the required modifiers that a public or external function does not
+ * apply. View and pure functions, and initializers, require none. Non-payable
+ * overrides of a dependency's function require only `whenNotGuardianPaused`,
+ * as `developerFee` cannot be applied to a non-payable function and the
+ * dependency cannot be changed.
+ *
+ * @function    missingModifiers
+ * @param       {FunctionNode}  f
+ * @param       {boolean}       overridesDependency
+ * @returns     {string[]}
+ */
+function missingModifiers(
+    f: FunctionNode,
+    overridesDependency: boolean
+): string[] {
+    if (f.stateMutability === "view" || f.stateMutability === "pure") {
+        return [];
+    }
+
+    const applied = f.modifiers.map(m => m.modifierName.name);
+    if (applied.some(m => INITIALIZER_MODIFIERS.includes(m))) {
+        return [];
+    }
+
+    const required =
+        f.stateMutability === "nonpayable" && overridesDependency
+            ? [GUARDIAN_MODIFIER]
+            : REQUIRED_MODIFIERS;
+
+    return required.filter(m => !applied.includes(m));
+}
+
+/**
+ * Whether `sourceName` belongs to a dependency (e.g.,
+ * `@openzeppelin/contracts/...`) rather than to the project. Project sources
+ * are named by their path relative to the project root. Sources vendored
+ * under `contracts/vendor/` are dependencies too.
+ *
+ * @function    isDependency
+ * @param       {string}    sourceName
+ * @returns     {boolean}
+ */
+function isDependency(sourceName: string): boolean {
+    return (
+        sourceName.startsWith(VENDOR) ||
+        !fs.existsSync(path.join(config.paths.root, sourceName))
+    );
+}
+
+/**
+ * Whether the body of `f` calls the function named `name`.
+ *
+ * @function    calls
+ * @param       {FunctionNode}  f
+ * @param       {string}        name
+ * @returns     {boolean}
+ */
+function calls(f: FunctionNode, name: string): boolean {
+    const walk = (v: unknown): boolean => {
+        if (Array.isArray(v)) return v.some(walk);
+        if (typeof v !== "object" || v === null) return false;
+
+        const n = v as Record<string, unknown>;
+        if (n.nodeType === "FunctionCall") {
+            const e = n.expression as { nodeType: string; name?: string };
+            if (e.nodeType === "Identifier" && e.name === name) return true;
+        }
+
+        return Object.values(n).some(walk);
+    };
+
+    return walk(f.body);
+}
+
+/**
+ * Converts an AST `src` (`<byte offset>:<length>:<file index>`) into a
+ * 1-indexed line number.
+ *
+ * @function    lineOf
+ * @param       {Source}    source
+ * @param       {string}    src
+ * @returns     {number}
+ */
+function lineOf(source: Source, src: string): number {
+    const start = Number(src.split(":")[0]);
+    const before = Buffer.from(source.content).subarray(0, start).toString();
+
+    return before.split("\n").length;
+}
@@ -0,0 +1,156 @@
+/* IMPORT TYPES
+================================================== */
+import type { EnvConfig } from "./env";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    asAddress,
+    asChainID,
+    asURL,
+    optional,
+    parseEnv,
+    required,
+} from "./env";
+
+/* TYPES
+================================================== */
+/**
+ * The networks that are configured from the environment.
+ */
+export type ConfigNetwork = keyof typeof PREFIXES;
+
+/**
+ * The config of a network. `vendor` holds the addresses of the vendor
+ * contracts and is only present if requested (see `loadConfig`).
+ *
+ * -    `chainID`:      The expected chain ID of the network.
+ * -    `rpc`:          The RPC URL of the network.
+ * -    `association`:  The Haven1 Association address.
+ * -    `developer`:    The developer address.
+ * -    `feeCollector`: The address that collects the developer fees.
+ * -    `deployer`:     The address of the deployer, if known. Used by dry runs.
+ */
+export type NetworkConfig = EnvConfig<ReturnType<typeof networkSchema>> & {
+    readonly vendor?: VendorConfig;
+};
+
+/**
+ * The addresses of the vendor contracts on a network.
+ */
+export type VendorConfig = EnvConfig<ReturnType<typeof vendorSchema>>;
+
+/**
+ * -    `vendor`:   Whether to read the vendor contract addresses. Defaults to
+ *                  true.
+ * -    `rpc`:      Whether the RPC URL is required. Defaults to false.
+ */
+export type LoadConfigOptions = {
+    readonly vendor?: boolean;
+    readonly rpc?: boolean;
+};
+
+/* CONSTANTS
+================================================== */
+/** The prefix of the environment variables of each network. */
+const PREFIXES = {
+    testnet: "TESTNET",
+    mainnet: "MAINNET",
+} as const;
+
+/* CONFIG
+================================================== */
+/**
+ * Reads and validates the config of `network` from the environment (see
+ * `.env.example`). Addresses are returned checksummed.
+ *
+ * # Error
+ *
+ * Will throw an `EnvError` listing every variable that is missing or invalid.
+ *
+ * @throws
+ * @function    loadConfig
+ *
+ * @param       {ConfigNetwork}         network
+ * @param       {LoadConfigOptions}     [opts]
+ * @param       {Record<string, string | undefined>}   [source]    Defaults to `process.env`.
+ *
+ * @returns     {NetworkConfig}
+ */
+export function loadConfig(
+    network: ConfigNetwork,
+    opts: LoadConfigOptions = {},
+    source: Readonly<Record<string, string | undefined>> = process.env
+): NetworkConfig {
+    const prefix = envPrefix(network);
+    const schema = networkSchema(prefix, opts.rpc ?? false);
+
+    if (!(opts.vendor ?? true)) {
+        return Object.freeze({
+            ...parseEnv(schema, source),
+            vendor: undefined,
+        });
+    }
+
+    // Parsed together so that every issue is reported at once.
+    const { feeContract, proofOfIdentity, guardianController, ...rest } =
+        parseEnv({ ...schema, ...vendorSchema(prefix) }, source);
+
+    return Object.freeze({
+        ...rest,
+        vendor: Object.freeze({
+            feeContract,
+            proofOfIdentity,
+            guardianController,
+        }),
+    });
+}
+
+/**
+ * Returns the prefix of the environment variables of `network`, e.g.,
+ * `MAINNET`.
+ *
+ * @function    envPrefix
+ * @param       {ConfigNetwork}     network
+ * @returns     {string}
+ */
+export function envPrefix(network: ConfigNetwork): string {
+    return PREFIXES[network];
+}
+
+/* SCHEMAS
+================================================== */
+/**
+ * @function    networkSchema
+ * @param       {string}    prefix
+ * @param       {boolean}   [rpc]   Whether the RPC URL is required.
+ * @returns     {EnvSchema}
+ */
+function networkSchema(prefix: string, rpc: boolean = false) {
+    return {
+        chainID: required(`${prefix}_CHAIN_ID`, asChainID),
+        rpc: rpc
+            ? required<string | undefined>(`${prefix}_RPC`, asURL)
+            : optional(`${prefix}_RPC`, asURL),
+        association: required(`${prefix}_ASSOCIATION`, asAddress),
+        developer: required(`${prefix}_DEV`, asAddress),
+        feeCollector: required(`${prefix}_DEV_FEE_COLLECTOR`, asAddress),
+        deployer: optional(`${prefix}_DEPLOYER_ADDRESS`, asAddress),
+    };
+}
+
+/**
+ * @function    vendorSchema
+ * @param       {string}    prefix
+ * @returns     {EnvSchema}
+ */
+function vendorSchema(prefix: string) {
+    return {
+        feeContract: required(`${prefix}_FEE_CONTRACT`, asAddress),
+        proofOfIdentity: required(`${prefix}_POI_CONTRACT`, asAddress),
+        guardianController: required(
+            `${prefix}_GUARDIAN_CONTROLLER_CONTRACT`,
+            asAddress
+        ),
+    };
+}
@@ -0,0 +1,188 @@
+/* IMPORT NODE MODULES
+================================================== */
+import * as fs from "fs";
+import * as path from "path";
+
+/* TYPES
+================================================== */
+/**
+ * A completed `d` or `tx` step.
+ *
+ * -    `abi`:  Only present for deployments. Used to re-attach to the contract
+ *              when the step is skipped.
+ */
+export type JournalEntry = {
+    readonly key: string;
+    readonly kind: "deploy" | "tx";
+    readonly hash: string;
+    readonly nonce: number;
+    readonly address: string;
+    readonly abi?: string;
+    readonly completedAt: string;
+};
+
+type JournalFile = {
+    readonly chainID: string;
+    readonly entries: JournalEntry[];
+};
+
+/* JOURNAL
+================================================== */
+/**
+ * A record of the `d` and `tx` steps that have completed against a chain,
+ * persisted to disk after every step.
+ *
+ * When a journal is passed to `d` or `tx`, steps that are already recorded
+ * are skipped. This allows a deployment that failed part of the way through to
+ * be rerun and pick up from the first incomplete step.
+ *
+ * To start a deployment from scratch, delete the journal file.
+ */
+export class Journal {
+    /* Vars
+    ======================================== */
+    private readonly _filePath: string;
+    private readonly _chainID: bigint;
+    private readonly _entries: Map<string, JournalEntry>;
+
+    /* Init
+    ======================================== */
+    /**
+     * Private constructor. Use `Journal.load` instead.
+     *
+     * @constructor
+     * @private
+     */
+    private constructor(filePath: string, chainID: bigint) {
+        this._filePath = filePath;
+        this._chainID = chainID;
+        this._entries = new Map();
+    }
+
+    /**
+     * Loads the journal at `filePath`, or creates an empty one if the file does
+     * not exist. The file is only written once the first step completes.
+     *
+     * # Error
+     *
+     * Will throw an error if the file cannot be parsed or if it was written
+     * against a different chain.
+     *
+     * @public
+     * @static
+     * @throws
+     *
+     * @method  load
+     *
+     * @param   {string}    filePath    The relative file path. Must end in ".json"
+     * @param   {bigint}    chainID     The ID of the chain being deployed to.
+     *
+     * @returns {Journal}
+     */
+    public static load(filePath: string, chainID: bigint): Journal {
+        if (!filePath.endsWith(".json")) {
+            throw new Error(`Journal path must end in .json. Got: ${filePath}`);
+        }
+
+        const p = path.join(process.cwd(), filePath);
+        const journal = new Journal(p, chainID);
+
+        if (!fs.existsSync(p)) {
+            return journal;
+        }
+
+        const file = JSON.parse(fs.readFileSync(p, "utf8")) as JournalFile;
+
+        if (BigInt(file.chainID) !== chainID) {
+            const err = `Journal ${filePath} was written for chain ID ${file.chainID}. Got chain ID: ${chainID}`;
+            throw new Error(err);
+        }
+
+        for (const entry of file.entries) {
+            journal._entries.set(entry.key, entry);
+        }
+
+        return journal;
+    }
+
+    /* Getters
+    ======================================== */
+    /**
+     * @method      filePath
+     * @returns     {string}
+     */
+    public get filePath(): string {
+        return this._filePath;
+    }
+
+    /**
+     * @method      entries
+     * @returns     {JournalEntry[]}
+     */
+    public get entries(): JournalEntry[] {
+        return [...this._entries.values()];
+    }
+
+    /* Methods
+    ======================================== */
+    /**
+     * @method      get
+     * @param       {string}    key
+     * @returns     {JournalEntry | undefined}
+     */
+    public get(key: string): JournalEntry | undefined {
+        return this._entries.get(key);
+    }
+
+    /**
+     * Records a completed step and writes the journal to disk.
+     *
+     * @throws
+     * @method      record
+     * @param       {Omit<JournalEntry, "completedAt">}  entry
+     */
+    public record(entry: Omit<JournalEntry, "completedAt">): void {
+        const completedAt = new Date().toISOString();
+        this._entries.set(entry.key, { ...entry, completedAt });
+        this.save();
+    }
+
+    /**
+     * Removes a step from the journal and writes the journal to disk. Used
+     * when a recorded step is found to no longer be valid on-chain.
+     *
+     * @throws
+     * @method      remove
+     * @param       {string}    key
+     */
+    public remove(key: string): void {
+        if (this._entries.delete(key)) {
+            this.save();
+        }
+    }
+
+    /* Helpers
+    ======================================== */
+    /**
+     * @private
+     * @throws
+     * @method      save
+     */
+    private save(): void {
+        const dir = path.dirname(this._filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const file: JournalFile = {
+            chainID: this._chainID.toString(),
+            entries: this.entries,
+        };
+
+        // Write to a temp file first so a crash mid-write cannot corrupt the
+        // journal.
+        const tmp = `${this._filePath}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(file, null, 4), "utf8");
+        fs.renameSync(tmp, this._filePath);
+    }
+}
@@ -0,0 +1,394 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts, ethers, network } from "hardhat";
+import { Interface } from "ethers";
+import { Manifest as OZManifest } from "@openzeppelin/upgrades-core";
+
+/* IMPORT TYPES
+================================================== */
+import type { StorageLayout } from "@openzeppelin/upgrades-core";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { IH1DevelopedApplication__factory } from "@typechain";
+
+/* TYPES
+================================================== */
+/**
+ * A single state variable within a storage layout.
+ */
+export type StorageVar = {
+    readonly slot: string;
+    readonly offset: number;
+    readonly label: string;
+    readonly type: string;
+};
+
+/**
+ * The difference between two storage layouts at a given slot and offset.
+ *
+ * -    `before`:   `<label>: <type>` in the current implementation.
+ * -    `after`:    `<label>: <type>` in the new implementation.
+ */
+export type StorageChange = {
+    readonly slot: string;
+    readonly offset: number;
+    readonly before: string;
+    readonly after: string;
+    readonly status: "unchanged" | "changed" | "added" | "removed";
+};
+
+/**
+ * A public or external function that applies the `developerFee` modifier.
+ */
+export type FeeFunction = {
+    readonly signature: string;
+    readonly selector: string;
+};
+
+/**
+ * The difference in fee-bearing functions between two implementations.
+ *
+ * -    `before`:   Whether the function is fee-bearing in the current
+ *                  implementation. `undefined` if unknown.
+ * -    `after`:    Whether the function is fee-bearing in the new
+ *                  implementation.
+ * -    `feeUSD`:   The unadjusted USD fee currently set on-chain for the
+ *                  selector. `undefined` if the contract does not expose
+ *                  `getFnFeeUSD`.
+ */
+export type FeeChange = {
+    readonly signature: string;
+    readonly selector: string;
+    readonly before: boolean | undefined;
+    readonly after: boolean;
+    readonly feeUSD: bigint | undefined;
+};
+
+type FunctionNode = {
+    readonly nodeType: string;
+    readonly kind?: string;
+    readonly visibility?: string;
+    readonly functionSelector?: string;
+    readonly modifiers?: readonly { modifierName: { name: string } }[];
+};
+
+type ContractNode = {
+    readonly nodeType: string;
+    readonly id: number;
+    readonly name: string;
+    readonly linearizedBaseContracts: readonly number[];
+    readonly nodes: readonly FunctionNode[];
+};
+
+/* CONSTANTS
+================================================== */
+const FEE_MODIFIER = "developerFee";
+
+/* STORAGE LAYOUT
+================================================== */
+/**
+ * Returns the storage layout of `contractName`, as produced by the most recent
+ * compilation.
+ *
+ * # Error
+ *
+ * Will throw an error if the contract has not been compiled.
+ *
+ * @async
+ * @throws
+ * @function    compiledLayout
+ *
+ * @param       {string}    contractName
+ *
+ * @returns     {Promise<StorageLayout>}
+ */
+export async function compiledLayout(
+    contractName: string
+): Promise<StorageLayout> {
+    const { sourceName, output } = await compilerOutput(contractName);
+    const contract = output.contracts[sourceName][contractName] as {
+        storageLayout?: StorageLayout;
+    };
+
+    if (!contract.storageLayout) {
+        throw new Error(`No storage layout found for ${contractName}`);
+    }
+
+    return contract.storageLayout;
+}
+
+/**
+ * Returns the storage layout of the implementation deployed at
+ * `implementation`, as recorded by the OpenZeppelin upgrades plugin for the
+ * current network.
+ *
+ * # Error
+ *
+ * Will throw an error if the implementation is not registered with the
+ * upgrades plugin.
+ *
+ * @async
+ * @throws
+ * @function    deployedLayout
+ *
+ * @param       {string}    implementation
+ *
+ * @returns     {Promise<StorageLayout>}
+ */
+export async function deployedLayout(
+    implementation: string
+): Promise<StorageLayout> {
+    const manifest = await OZManifest.forNetwork(network.provider);
+    const data = await manifest.read();
+
+    const impl = Object.values(data.impls).find(
+        i =>
+            i?.address === implementation ||
+            i?.allAddresses?.includes(implementation)
+    );
+
+    if (!impl) {
+        const err = `Implementation ${implementation} is not registered with the upgrades plugin on ${network.name}. Register it with upgrades.forceImport.`;
+        throw new Error(err);
+    }
+
+    return impl.layout;
+}
+
+/**
+ * Flattens a storage layout into its state variables, ordered by slot and
+ * offset.
+ *
+ * @function    storageVars
+ *
+ * @param       {StorageLayout}     layout
+ *
+ * @returns     {StorageVar[]}
+ */
+export function storageVars(layout: StorageLayout): StorageVar[] {
+    return layout.storage
+        .map(s => ({
+            slot: s.slot ?? "0",
+            offset: s.offset ?? 0,
+            label: s.label,
+            type: layout.types[s.type]?.label ?? s.type,
+        }))
+        .sort(bySlot);
+}
+
+/**
+ * Compares two storage layouts slot by slot.
+ *
+ * Note that this is a report only. Use the upgrades plugin's
+ * `validateUpgrade` to determine whether an upgrade is safe. For example, a
+ * reduced `__gap` is reported as `changed` but is safe.
+ *
+ * @function    diffStorage
+ *
+ * @param       {StorageLayout}     before
+ * @param       {StorageLayout}     after
+ *
+ * @returns     {StorageChange[]}
+ */
+export function diffStorage(
+    before: StorageLayout,
+    after: StorageLayout
+): StorageChange[] {
+    const key = (v: StorageVar) => `${v.slot}:${v.offset}`;
+    const fmt = (v?: StorageVar) => (v ? `${v.label}: ${v.type}` : "");
+
+    const prev = new Map(storageVars(before).map(v => [key(v), v]));
+    const next = new Map(storageVars(after).map(v => [key(v), v]));
+
+    const positions = [...prev.values(), ...next.values()]
+        .sort(bySlot)
+        .filter((v, i, arr) => i === 0 || key(arr[i - 1]) !== key(v));
+
+    return positions.map(({ slot, offset }) => {
+        const b = prev.get(`${slot}:${offset}`);
+        const a = next.get(`${slot}:${offset}`);
+
+        let status: StorageChange["status"] = "unchanged";
+        if (!b) status = "added";
+        else if (!a) status = "removed";
+        else if (fmt(a) !== fmt(b)) status = "changed";
+
+        return { slot, offset, before: fmt(b), after: fmt(a), status };
+    });
+}
+
+/* FEE-BEARING FUNCTIONS
+================================================== */
+/**
+ * Returns the public and external functions of `contractName`, including
+ * inherited functions, that apply the `developerFee` modifier.
+ *
+ * # Error
+ *
+ * Will throw an error if the contract has not been compiled.
+ *
+ * @async
+ * @throws
+ * @function    feeFunctions
+ *
+ * @param       {string}    contractName
+ *
+ * @returns     {Promise<FeeFunction[]>}
+ */
+export async function feeFunctions(
+    contractName: string
+): Promise<FeeFunction[]> {
+    const { sourceName, output } = await compilerOutput(contractName);
+    const abi = new Interface(
+        output.contracts[sourceName][contractName].abi as string[]
+    );
+
+    const contracts = new Map<number, ContractNode>();
+    for (const { ast } of Object.values(output.sources)) {
+        for (const node of (ast as { nodes: ContractNode[] }).nodes) {
+            if (node.nodeType === "ContractDefinition") {
+                contracts.set(node.id, node);
+            }
+        }
+    }
+
+    const target = (
+        output.sources[sourceName].ast as { nodes: ContractNode[] }
+    ).nodes.find(
+        c => c.nodeType === "ContractDefinition" && c.name === contractName
+    );
+
+    if (!target) {
+        throw new Error(`No AST found for ${contractName}`);
+    }
+
+    // Walk from the most derived contract to the most base, so that an
+    // override takes precedence over the function it overrides.
+    const seen = new Map<string, boolean>();
+    for (const id of target.linearizedBaseContracts) {
+        for (const n of contracts.get(id)?.nodes ?? []) {
+            if (n.nodeType !== "FunctionDefinition" || !n.functionSelector) {
+                continue;
+            }
+
+            const selector = `0x${n.functionSelector}`;
+            if (seen.has(selector)) continue;
+
+            const hasFee = (n.modifiers ?? []).some(
+                m => m.modifierName.name === FEE_MODIFIER
+            );
+
+            seen.set(selector, hasFee);
+        }
+    }
+
+    return [...seen.entries()]
+        .filter(([, hasFee]) => hasFee)
+        .map(([selector]) => ({
+            signature: abi.getFunction(selector)?.format() ?? selector,
+            selector,
+        }))
+        .sort((a, b) => a.signature.localeCompare(b.signature));
+}
+
+/**
+ * Compares the fee-bearing functions of two implementations and looks up the
+ * fee currently set on-chain for each.
+ *
+ * @async
+ * @function    diffFees
+ *
+ * @param       {string}                        proxy
+ * @param       {FeeFunction[] | undefined}     before  Fee-bearing functions
+ *                                                      of the current
+ *                                                      implementation, if
+ *                                                      known.
+ * @param       {FeeFunction[]}                 after
+ *
+ * @returns     {Promise<FeeChange[]>}
+ */
+export async function diffFees(
+    proxy: string,
+    before: readonly FeeFunction[] | undefined,
+    after: readonly FeeFunction[]
+): Promise<FeeChange[]> {
+    const c = IH1DevelopedApplication__factory.connect(proxy, ethers.provider);
+
+    const prev = new Set(before?.map(f => f.selector));
+    const next = new Set(after.map(f => f.selector));
+
+    const all = [...after, ...(before ?? [])].filter(
+        (f, i, arr) => arr.findIndex(x => x.selector === f.selector) === i
+    );
+
+    const out: FeeChange[] = [];
+    for (const f of all) {
+        let feeUSD: bigint | undefined;
+        try {
+            feeUSD = await c.getFnFeeUSD(f.selector);
+        } catch {
+            feeUSD = undefined;
+        }
+
+        out.push({
+            signature: f.signature,
+            selector: f.selector,
+            before: before ? prev.has(f.selector) : undefined,
+            after: next.has(f.selector),
+            feeUSD,
+        });
+    }
+
+    return out;
+}
+
+/* COMPILER OUTPUT
+================================================== */
+/**
+ * Returns the compiler input and output of the build that produced
+ * `contractName`, along with the name of its source file.
+ *
+ * # Error
+ *
+ * Will throw an error if the contract has not been compiled.
+ *
+ * @async
+ * @throws
+ * @function    compilerOutput
+ *
+ * @param       {string}    contractName
+ */
+export async function compilerOutput(contractName: string) {
+    const artifact = await artifacts.readArtifact(contractName);
+    const fqn = `${artifact.sourceName}:${artifact.contractName}`;
+    const info = await artifacts.getBuildInfo(fqn);
+
+    if (!info) {
+        throw new Error(`No build info found for ${contractName}`);
+    }
+
+    return {
+        sourceName: artifact.sourceName,
+        solcVersion: info.solcLongVersion,
+        input: info.input,
+        output: info.output,
+    };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    bySlot
+ * @param       {StorageVar}    a
+ * @param       {StorageVar}    b
+ * @returns     {number}
+ */
+function bySlot(
+    a: Pick<StorageVar, "slot" | "offset">,
+    b: Pick<StorageVar, "slot" | "offset">
+): number {
+    const d = BigInt(a.slot) - BigInt(b.slot);
+    if (d !== 0n) return d < 0n ? -1 : 1;
+    return a.offset - b.offset;
+}
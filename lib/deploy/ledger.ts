@@ -0,0 +1,319 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { formatUnits } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { SimulatedTx } from "./simulate";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { writeJSON } from "../json";
+
+/* TYPES
+================================================== */
+/**
+ * What a transaction within a step was for.
+ *
+ * -    `implementation`:   Deployment of the implementation behind a proxy.
+ * -    `proxy`:            Deployment of the proxy. The initializer is run
+ *                          within this transaction, so its cost is included.
+ * -    `contract`:         Deployment of a contract that is not a proxy.
+ * -    `tx`:               Any other transaction, e.g., a setup transaction.
+ */
+export type LedgerRole = "implementation" | "proxy" | "contract" | "tx";
+
+/**
+ * -    `cost`: The H1 cost (`gasUsed * effective gas price`), in wei.
+ */
+export type LedgerItem = {
+    readonly role: LedgerRole;
+    readonly hash: string;
+    readonly address: string;
+    readonly gasUsed: bigint;
+    readonly cost: bigint;
+};
+
+/**
+ * The transactions sent by a single `d` or `tx` step.
+ *
+ * -    `key`:  The key of the step, e.g., the plan step ID.
+ */
+export type LedgerEntry = {
+    readonly key: string;
+    readonly kind: "deploy" | "tx";
+    readonly desc: string;
+    readonly items: readonly LedgerItem[];
+    readonly gasUsed: bigint;
+    readonly cost: bigint;
+};
+
+/**
+ * The written form of a `Ledger`.
+ *
+ * -    `byRole`:   The total gas used and H1 spent for each `LedgerRole`.
+ */
+export type LedgerSummary = {
+    readonly network: string;
+    readonly chainID: string;
+    readonly writtenAt: string;
+    readonly entries: readonly LedgerEntry[];
+    readonly byRole: Readonly<
+        Record<LedgerRole, { gasUsed: bigint; cost: bigint }>
+    >;
+    readonly gasUsed: bigint;
+    readonly cost: bigint;
+};
+
+/* CONSTANTS
+================================================== */
+/**
+ * `bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)`
+ */
+const IMPLEMENTATION_SLOT =
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+const ROLES: readonly LedgerRole[] = [
+    "implementation",
+    "proxy",
+    "contract",
+    "tx",
+];
+
+/* LEDGER
+================================================== */
+/**
+ * A record of the gas used and H1 spent by every `d` and `tx` step in a run.
+ *
+ * When a ledger is passed to `d` or `tx`, every transaction sent by the step's
+ * signer while the step runs is recorded against it. For a proxy deployment
+ * this includes the implementation and the proxy (and so the initializer).
+ *
+ * Steps that are skipped because they were found in the journal cost nothing
+ * and are not recorded.
+ */
+export class Ledger {
+    /* Vars
+    ======================================== */
+    private readonly _entries: LedgerEntry[];
+
+    /* Init
+    ======================================== */
+    /**
+     * @constructor
+     */
+    constructor() {
+        this._entries = [];
+    }
+
+    /* Getters
+    ======================================== */
+    /**
+     * @method      entries
+     * @returns     {LedgerEntry[]}
+     */
+    public get entries(): readonly LedgerEntry[] {
+        return this._entries;
+    }
+
+    /**
+     * @method      gasUsed
+     * @returns     {bigint}    The total gas used across every step.
+     */
+    public get gasUsed(): bigint {
+        return this._entries.reduce((acc, e) => acc + e.gasUsed, 0n);
+    }
+
+    /**
+     * @method      cost
+     * @returns     {bigint}    The total H1 spent across every step, in wei.
+     */
+    public get cost(): bigint {
+        return this._entries.reduce((acc, e) => acc + e.cost, 0n);
+    }
+
+    /* Record
+    ======================================== */
+    /**
+     * Records the transactions sent by a step. For a deployment, `address`
+     * is the address of the deployed contract and is used to tell the proxy
+     * apart from its implementation.
+     *
+     * @async
+     * @method  record
+     *
+     * @param   {string}            key
+     * @param   {"deploy" | "tx"}   kind
+     * @param   {string}            desc
+     * @param   {SimulatedTx[]}     txs
+     * @param   {string}            [address]
+     *
+     * @returns {Promise<LedgerEntry>}
+     */
+    public async record(
+        key: string,
+        kind: "deploy" | "tx",
+        desc: string,
+        txs: readonly SimulatedTx[],
+        address?: string
+    ): Promise<LedgerEntry> {
+        const items: LedgerItem[] = [];
+
+        for (const t of txs) {
+            items.push({
+                role: await roleOf(kind, t, address),
+                hash: t.hash,
+                address: t.to,
+                gasUsed: t.gasUsed,
+                cost: t.cost,
+            });
+        }
+
+        const entry: LedgerEntry = {
+            key,
+            kind,
+            desc,
+            items,
+            gasUsed: items.reduce((acc, i) => acc + i.gasUsed, 0n),
+            cost: items.reduce((acc, i) => acc + i.cost, 0n),
+        };
+
+        this._entries.push(entry);
+
+        return entry;
+    }
+
+    /* Output
+    ======================================== */
+    /**
+     * Returns the totals of the ledger, per step and per `LedgerRole`.
+     *
+     * @method  summary
+     *
+     * @param   {string}    network
+     * @param   {bigint}    chainID
+     *
+     * @returns {LedgerSummary}
+     */
+    public summary(network: string, chainID: bigint): LedgerSummary {
+        const byRole = {} as Record<
+            LedgerRole,
+            { gasUsed: bigint; cost: bigint }
+        >;
+
+        for (const r of ROLES) {
+            byRole[r] = { gasUsed: 0n, cost: 0n };
+        }
+
+        for (const i of this._entries.flatMap(e => e.items)) {
+            byRole[i.role].gasUsed += i.gasUsed;
+            byRole[i.role].cost += i.cost;
+        }
+
+        return {
+            network,
+            chainID: chainID.toString(),
+            writtenAt: new Date().toISOString(),
+            entries: this._entries,
+            byRole,
+            gasUsed: this.gasUsed,
+            cost: this.cost,
+        };
+    }
+
+    /**
+     * Logs a table of the gas used and H1 spent by each step and role,
+     * followed by the totals.
+     *
+     * @method  print
+     */
+    public print(): void {
+        console.log("Deployment Costs:");
+        console.table(
+            this._entries.flatMap(e =>
+                e.items.map(i => ({
+                    step: e.key,
+                    role: i.role,
+                    address: i.address,
+                    gas: i.gasUsed,
+                    h1: formatUnits(i.cost, 18),
+                }))
+            )
+        );
+
+        console.table([
+            { attr: "Total Gas", val: this.gasUsed },
+            { attr: "Total H1 Cost", val: formatUnits(this.cost, 18) },
+        ]);
+    }
+
+    /**
+     * Writes the `summary` of the ledger to a new costs file for `network`
+     * (see `ledgerPath`), so each run is kept, and returns its path.
+     *
+     * # Error
+     *
+     * Will throw an error if the file cannot be written.
+     *
+     * @throws
+     * @method  write
+     *
+     * @param   {string}    network
+     * @param   {bigint}    chainID
+     *
+     * @returns {string}
+     */
+    public write(network: string, chainID: bigint): string {
+        const summary = this.summary(network, chainID);
+        const p = ledgerPath(network, Date.parse(summary.writtenAt));
+
+        if (!writeJSON(p, summary, false)) {
+            throw new Error(`Failed to write deployment costs for ${network}`);
+        }
+
+        return p;
+    }
+}
+
+/* PATHS
+================================================== */
+/**
+ * Returns the relative path of the costs file for a run on `network`.
+ *
+ * @function    ledgerPath
+ * @param       {string}    network
+ * @param       {number}    timestamp   The time of the run, in milliseconds.
+ * @returns     {string}
+ */
+export function ledgerPath(network: string, timestamp: number): string {
+    return `./deployment_data/${network}/${timestamp}_costs.json`;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @async
+ * @function    roleOf
+ * @param       {"deploy" | "tx"}   kind
+ * @param       {SimulatedTx}       t
+ * @param       {string}            [address]
+ * @returns     {Promise<LedgerRole>}
+ */
+async function roleOf(
+    kind: "deploy" | "tx",
+    t: SimulatedTx,
+    address?: string
+): Promise<LedgerRole> {
+    if (kind === "tx" || t.selector !== "create") {
+        return "tx";
+    }
+
+    if (t.to.toLowerCase() !== address?.toLowerCase()) {
+        return "implementation";
+    }
+
+    const slot = await ethers.provider.getStorage(t.to, IMPLEMENTATION_SLOT);
+
+    return BigInt(slot) === 0n ? "contract" : "proxy";
+}
@@ -0,0 +1,380 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, upgrades } from "hardhat";
+import { execSync } from "child_process";
+
+/* IMPORT TYPES
+================================================== */
+import type { PlanResult } from "./plan";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { readJSON, writeJSON } from "../json";
+
+/* TYPES
+================================================== */
+/**
+ * A previous version of a deployment, kept when it is redeployed or upgraded.
+ */
+export type ManifestRevision = {
+    readonly address: string;
+    readonly implementation: string;
+    readonly hash: string;
+    readonly block: number;
+    readonly commit: string;
+    readonly replacedAt: string;
+};
+
+/**
+ * A single deployment within the manifest.
+ *
+ * -    `name`:             The deployment name (the plan step ID).
+ * -    `contract`:         The contract name, as used by `getContractFactory`.
+ * -    `address`:          The proxy address, or the contract address if the
+ *                          contract is not upgradeable.
+ * -    `implementation`:   The implementation address. Empty if the contract
+ *                          is not upgradeable.
+ * -    `args`:             The initializer / constructor args.
+ * -    `commit`:           The git commit the deployment was made from.
+ * -    `history`:          Previous versions of this deployment, oldest first.
+ */
+export type ManifestEntry = {
+    readonly name: string;
+    readonly contract: string;
+    readonly address: string;
+    readonly implementation: string;
+    readonly hash: string;
+    readonly block: number;
+    readonly deployer: string;
+    readonly args: unknown;
+    readonly commit: string;
+    readonly deployedAt: string;
+    readonly history: readonly ManifestRevision[];
+};
+
+/**
+ * The deployment manifest for a single network.
+ *
+ * -    `version`:  The manifest format version.
+ * -    `revision`: Incremented each time the manifest is written.
+ */
+export type Manifest = {
+    readonly version: number;
+    readonly network: string;
+    readonly chainID: string;
+    readonly revision: number;
+    readonly updatedAt: string;
+    readonly contracts: Readonly<Record<string, ManifestEntry>>;
+};
+
+/* CONSTANTS
+================================================== */
+/** The current manifest format version. */
+export const MANIFEST_VERSION = 1;
+
+/* PATHS
+================================================== */
+/**
+ * Returns the relative path of the manifest for `network`.
+ *
+ * @function    manifestPath
+ * @param       {string}    network
+ * @returns     {string}
+ */
+export function manifestPath(network: string): string {
+    return `./deployment_data/${network}/manifest.json`;
+}
+
+/* LOAD
+================================================== */
+/**
+ * Loads the deployment manifest for `network`.
+ *
+ * # Error
+ *
+ * Will throw an error if the manifest does not exist or was written with an
+ * unsupported format version.
+ *
+ * @throws
+ * @function    loadManifest
+ *
+ * @param       {string}    network
+ *
+ * @returns     {Manifest}
+ */
+export function loadManifest(network: string): Manifest {
+    const manifest = readJSON<Manifest>(manifestPath(network));
+
+    if (!manifest) {
+        throw new Error(`No deployment manifest found for ${network}`);
+    }
+
+    if (manifest.version !== MANIFEST_VERSION) {
+        const err = `Unsupported manifest version: ${manifest.version}. Expected: ${MANIFEST_VERSION}`;
+        throw new Error(err);
+    }
+
+    return manifest;
+}
+
+/**
+ * Loads a single deployment, by name, from the manifest for `network`.
+ *
+ * # Error
+ *
+ * Will throw an error if the manifest or the deployment does not exist.
+ *
+ * @throws
+ * @function    loadDeployment
+ *
+ * @param       {string}    network
+ * @param       {string}    name
+ *
+ * @returns     {ManifestEntry}
+ */
+export function loadDeployment(network: string, name: string): ManifestEntry {
+    const entry = loadManifest(network).contracts[name];
+
+    if (!entry) {
+        throw new Error(`No deployment named ${name} found for ${network}`);
+    }
+
+    return entry;
+}
+
+/* WRITE
+================================================== */
+/**
+ * Records every contract deployed by a plan in the manifest for `network`,
+ * creating the manifest if it does not exist. Contracts attached via an
+ * `existing` step are not recorded.
+ *
+ * # Error
+ *
+ * Will throw an error if the existing manifest was written against a different
+ * chain, or if the manifest cannot be written.
+ *
+ * @async
+ * @throws
+ * @function    recordDeployments
+ *
+ * @param       {string}        network
+ * @param       {bigint}        chainID
+ * @param       {PlanResult}    result
+ *
+ * @returns     {Promise<Manifest>}
+ */
+export async function recordDeployments(
+    network: string,
+    chainID: bigint,
+    result: PlanResult
+): Promise<Manifest> {
+    const commit = gitCommit();
+    const contracts: Record<string, ManifestEntry> = {
+        ...readManifest(network, chainID)?.contracts,
+    };
+
+    for (const o of Object.values(result.outputs)) {
+        if (o.kind !== "proxy" && o.kind !== "contract") continue;
+
+        const implementation =
+            o.kind === "proxy"
+                ? await upgrades.erc1967.getImplementationAddress(o.address)
+                : "";
+
+        contracts[o.id] = withHistory(contracts[o.id], {
+            name: o.id,
+            contract: o.contract,
+            address: o.address,
+            implementation,
+            hash: o.hash,
+            block: await blockOf(o.hash),
+            deployer: o.from,
+            args: o.args,
+            commit,
+            deployedAt: new Date().toISOString(),
+            history: [],
+        });
+    }
+
+    return saveManifest(network, chainID, contracts);
+}
+
+/**
+ * Records an upgrade of the deployment `name` in the manifest for `network`.
+ * The new implementation address is read from the proxy and the previous
+ * implementation is moved into the deployment's history.
+ *
+ * # Error
+ *
+ * Will throw an error if the deployment does not exist, if the manifest was
+ * written against a different chain, or if the manifest cannot be written.
+ *
+ * @async
+ * @throws
+ * @function    recordUpgrade
+ *
+ * @param       {string}    network
+ * @param       {bigint}    chainID
+ * @param       {string}    name        The deployment name.
+ * @param       {string}    contract    The name of the new contract.
+ * @param       {string}    hash        The hash of the upgrade transaction.
+ *
+ * @returns     {Promise<Manifest>}
+ */
+export async function recordUpgrade(
+    network: string,
+    chainID: bigint,
+    name: string,
+    contract: string,
+    hash: string
+): Promise<Manifest> {
+    const contracts: Record<string, ManifestEntry> = {
+        ...readManifest(network, chainID)?.contracts,
+    };
+
+    const prev = contracts[name];
+    if (!prev) {
+        throw new Error(`No deployment named ${name} found for ${network}`);
+    }
+
+    contracts[name] = withHistory(prev, {
+        ...prev,
+        contract,
+        implementation: await upgrades.erc1967.getImplementationAddress(
+            prev.address
+        ),
+        hash,
+        block: await blockOf(hash),
+        commit: gitCommit(),
+        deployedAt: new Date().toISOString(),
+    });
+
+    return saveManifest(network, chainID, contracts);
+}
+
+/**
+ * Writes `contracts` to the manifest for `network`, incrementing its revision.
+ *
+ * # Error
+ *
+ * Will throw an error if the manifest cannot be written.
+ *
+ * @throws
+ * @function    saveManifest
+ *
+ * @param       {string}                            network
+ * @param       {bigint}                            chainID
+ * @param       {Record<string, ManifestEntry>}     contracts
+ *
+ * @returns     {Manifest}
+ */
+export function saveManifest(
+    network: string,
+    chainID: bigint,
+    contracts: Readonly<Record<string, ManifestEntry>>
+): Manifest {
+    const prev = readManifest(network, chainID);
+
+    const manifest: Manifest = {
+        version: MANIFEST_VERSION,
+        network,
+        chainID: chainID.toString(),
+        revision: (prev?.revision ?? 0) + 1,
+        updatedAt: new Date().toISOString(),
+        contracts,
+    };
+
+    if (!writeJSON(manifestPath(network), manifest, false)) {
+        throw new Error(`Failed to write manifest for ${network}`);
+    }
+
+    return manifest;
+}
+
+/**
+ * Returns a copy of `next` with the history of `prev` carried over. If `prev`
+ * refers to a different address or implementation, it is appended to the
+ * history. If it is the same deployment, its original `deployedAt` is kept.
+ *
+ * @function    withHistory
+ *
+ * @param       {ManifestEntry | undefined}     prev
+ * @param       {ManifestEntry}                 next
+ *
+ * @returns     {ManifestEntry}
+ */
+export function withHistory(
+    prev: ManifestEntry | undefined,
+    next: ManifestEntry
+): ManifestEntry {
+    if (!prev) return next;
+
+    const unchanged =
+        prev.address === next.address &&
+        prev.implementation === next.implementation;
+
+    if (unchanged) {
+        return { ...next, deployedAt: prev.deployedAt, history: prev.history };
+    }
+
+    const revision: ManifestRevision = {
+        address: prev.address,
+        implementation: prev.implementation,
+        hash: prev.hash,
+        block: prev.block,
+        commit: prev.commit,
+        replacedAt: next.deployedAt,
+    };
+
+    return { ...next, history: [...prev.history, revision] };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Returns the current git commit hash, or an empty string if it cannot be
+ * determined (e.g., git is not installed).
+ *
+ * @function    gitCommit
+ * @returns     {string}
+ */
+export function gitCommit(): string {
+    try {
+        return execSync("git rev-parse HEAD", { stdio: "pipe" })
+            .toString()
+            .trim();
+    } catch {
+        return "";
+    }
+}
+
+/**
+ * @throws
+ * @function    readManifest
+ * @param       {string}    network
+ * @param       {bigint}    chainID
+ * @returns     {Manifest | undefined}
+ */
+function readManifest(network: string, chainID: bigint): Manifest | undefined {
+    const manifest = readJSON<Manifest>(manifestPath(network));
+
+    if (manifest && BigInt(manifest.chainID) !== chainID) {
+        const err = `Manifest for ${network} was written for chain ID ${manifest.chainID}. Got chain ID: ${chainID}`;
+        throw new Error(err);
+    }
+
+    return manifest;
+}
+
+/**
+ * @async
+ * @function    blockOf
+ * @param       {string}    hash
+ * @returns     {Promise<number>}   The block the tx was mined in, or 0.
+ */
+async function blockOf(hash: string): Promise<number> {
+    if (!hash) return 0;
+    const rec = await ethers.provider.getTransactionReceipt(hash);
+    return rec?.blockNumber ?? 0;
+}
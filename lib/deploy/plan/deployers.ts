@@ -0,0 +1,40 @@
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { deployFeeContract } from "../fee";
+import { deployGuardianController } from "../network-guardian";
+import { deployNFTAuction } from "../nft-auction";
+import { deployProofOfIdentity } from "../proof-of-identity";
+import { deploySimpleStorage } from "../simple-storage";
+
+/* DEPLOYERS
+================================================== */
+/**
+ * The deployment functions that can be referenced by a `ProxyStep`, along with
+ * the name of the contract they deploy. Each function must accept
+ * `(args, signer, confs)`.
+ *
+ * When adding a new contract to `lib/deploy/*`, register its deployment
+ * function here to make it available to plans.
+ */
+export const DEPLOYERS = {
+    guardianController: {
+        contract: "NetworkGuardianController",
+        deploy: deployGuardianController,
+    },
+    proofOfIdentity: {
+        contract: "ProofOfIdentity",
+        deploy: deployProofOfIdentity,
+    },
+    feeContract: {
+        contract: "FeeContract",
+        deploy: deployFeeContract,
+    },
+    simpleStorage: {
+        contract: "SimpleStorage",
+        deploy: deploySimpleStorage,
+    },
+    nftAuction: {
+        contract: "NFTAuction",
+        deploy: deployNFTAuction,
+    },
+} as const;
@@ -0,0 +1,259 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+
+/* IMPORT TYPES
+================================================== */
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { BaseContract } from "ethers";
+import type { Plan, PlanContext, PlanResult, Step, StepOutput } from "./types";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { type WrapperOptions, d, deployDefaults, tx } from "../wrapper";
+import { DEPLOYERS } from "./deployers";
+import { resolvePlan, resolveRefs } from "./resolve";
+
+/* TYPES
+================================================== */
+type Deployer = (
+    args: unknown,
+    signer: HardhatEthersSigner,
+    confs: number
+) => Promise<BaseContract>;
+
+/* EXECUTE
+================================================== */
+/**
+ * Executes a deployment plan.
+ *
+ * The override named `network` (if supplied) is applied, the steps are ordered
+ * by their dependencies and each step is run through `d` or `tx`. References
+ * in a step's args are resolved against the outputs of the steps before it.
+ * `check` steps produce no output.
+ *
+ * If the context supplies a `journal`, steps that have already completed are
+ * skipped (keyed by step ID), so a failed run can be resumed.
+ *
+ * # Error
+ *
+ * Will throw an error if the plan is invalid or any of its steps fail. The
+ * calling code must handle as desired.
+ *
+ * @async
+ * @throws
+ * @function    executePlan
+ *
+ * @param       {Plan}          plan
+ * @param       {PlanContext}   ctx
+ * @param       {string}        [network]
+ *
+ * @returns     {Promise<PlanResult>}
+ */
+export async function executePlan(
+    plan: Plan,
+    ctx: PlanContext,
+    network?: string
+): Promise<PlanResult> {
+    const resolved = resolvePlan(plan, network);
+    const vars = { ...resolved.vars, ...ctx.vars };
+    const confs = resolved.confs ?? deployDefaults().confirmations;
+
+    const outputs: Record<string, StepOutput> = {};
+    const contracts: Record<string, BaseContract> = {};
+
+    for (const step of resolved.steps) {
+        const signer = signerFor(step, ctx);
+        const scope = { vars, outputs };
+
+        if (step.kind === "tx") {
+            const target = contracts[step.target];
+            const args = resolveRefs(step.args ?? [], scope) as unknown[];
+            const fn = target.connect(signer).getFunction(step.method);
+
+            let nonce = 0;
+            const txRec = await tx(
+                step.desc,
+                async function () {
+                    const txRes = await fn.send(...args);
+                    nonce = txRes.nonce;
+                    return txRes;
+                },
+                confs,
+                wrapperOpts(step, signer, ctx)
+            );
+
+            outputs[step.id] = {
+                id: step.id,
+                kind: step.kind,
+                desc: step.desc,
+                address: await target.getAddress(),
+                hash: txRec?.hash ?? "",
+                nonce: ctx.journal?.get(step.id)?.nonce ?? nonce,
+                contract: "",
+                args,
+                from: signer.address,
+            };
+
+            continue;
+        }
+
+        if (step.kind === "check") {
+            await step.check(resolveRefs(step.args, scope));
+            continue;
+        }
+
+        if (step.kind === "existing") {
+            const address = resolveRefs(step.address, scope) as string;
+
+            outputs[step.id] = {
+                id: step.id,
+                kind: step.kind,
+                desc: step.desc,
+                address,
+                hash: "",
+                nonce: 0,
+                contract: step.contract,
+                args: [],
+                from: signer.address,
+            };
+
+            contracts[step.id] = await ethers.getContractAt(
+                step.contract,
+                address,
+                signer
+            );
+
+            continue;
+        }
+
+        const args = resolveRefs(step.args, scope);
+
+        const data = await d(
+            step.desc,
+            async function () {
+                return await deployStep(step, args, signer, confs);
+            },
+            wrapperOpts(step, signer, ctx)
+        );
+
+        outputs[step.id] = {
+            id: step.id,
+            kind: step.kind,
+            desc: step.desc,
+            address: data.address,
+            hash: data.hash,
+            nonce: data.nonce,
+            contract:
+                step.kind === "proxy"
+                    ? DEPLOYERS[step.deployer].contract
+                    : step.contract,
+            args,
+            from: signer.address,
+        };
+
+        contracts[step.id] = data.contract;
+    }
+
+    return { outputs, contracts };
+}
+
+/**
+ * Returns the address of every contract deployed by the plan, keyed by step ID.
+ * Contracts that were attached via an `existing` step are omitted.
+ *
+ * @function    deployedAddresses
+ *
+ * @param       {PlanResult}    result
+ *
+ * @returns     {Record<string, string>}
+ */
+export function deployedAddresses(result: PlanResult): Record<string, string> {
+    const out: Record<string, string> = {};
+
+    for (const o of Object.values(result.outputs)) {
+        if (o.kind === "tx" || o.kind === "existing") continue;
+        out[o.id] = o.address;
+    }
+
+    return out;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @throws
+ * @function    signerFor
+ * @param       {Step}          step
+ * @param       {PlanContext}   ctx
+ * @returns     {HardhatEthersSigner}
+ */
+function signerFor(step: Step, ctx: PlanContext): HardhatEthersSigner {
+    const name = step.signer ?? "deployer";
+    const signer = ctx.signers[name];
+
+    if (!signer) {
+        throw new Error(`Step ${step.id}: signer ${name} not supplied`);
+    }
+
+    return signer;
+}
+
+/**
+ * @function    wrapperOpts
+ * @param       {Step}                  step
+ * @param       {HardhatEthersSigner}   signer
+ * @param       {PlanContext}           ctx
+ * @returns     {WrapperOptions}
+ */
+function wrapperOpts(
+    step: Step,
+    signer: HardhatEthersSigner,
+    ctx: PlanContext
+): WrapperOptions {
+    return {
+        journal: ctx.journal,
+        key: step.id,
+        runner: signer,
+        simulate: ctx.simulate,
+        reporter: ctx.reporter,
+        ledger: ctx.ledger,
+        retry: ctx.retry,
+    };
+}
+
+/**
+ * @async
+ * @throws
+ * @function    deployStep
+ * @param       {Step}                  step
+ * @param       {unknown}               args    The resolved args.
+ * @param       {HardhatEthersSigner}   signer
+ * @param       {number}                confs
+ * @returns     {Promise<BaseContract>}
+ */
+async function deployStep(
+    step: Extract<Step, { kind: "proxy" | "contract" }>,
+    args: unknown,
+    signer: HardhatEthersSigner,
+    confs: number
+): Promise<BaseContract> {
+    switch (step.kind) {
+        case "proxy": {
+            const deploy = DEPLOYERS[step.deployer].deploy as Deployer;
+            return await deploy(args, signer, confs);
+        }
+
+        case "contract": {
+            const f = await ethers.getContractFactory(step.contract, signer);
+            const c = await f.deploy(...(args as unknown[]));
+            await c.waitForDeployment();
+
+            if (confs > 0) {
+                await c.deploymentTransaction()?.wait(confs);
+            }
+
+            return c;
+        }
+    }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./deployers";
+export * from "./resolve";
+export * from "./execute";
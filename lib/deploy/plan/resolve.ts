@@ -0,0 +1,292 @@
+/* IMPORT TYPES
+================================================== */
+import type { Plan, Step, StepOutput } from "./types";
+
+/* TYPES
+================================================== */
+/**
+ * A plan that has had its override applied and its steps ordered such that
+ * every step runs after its dependencies. `confs` is `undefined` if neither
+ * the plan nor its override set it.
+ */
+export type ResolvedPlan = {
+    readonly name: string;
+    readonly vars: Readonly<Record<string, unknown>>;
+    readonly steps: readonly Step[];
+    readonly confs?: number;
+};
+
+/**
+ * The values that references are resolved against.
+ */
+export type Scope = {
+    readonly vars: Readonly<Record<string, unknown>>;
+    readonly outputs: Readonly<Record<string, StepOutput>>;
+};
+
+/* CONSTANTS
+================================================== */
+const REF_WHOLE = /^\$\{([^}]+)\}$/;
+const REF_ANY = /\$\{([^}]+)\}/g;
+
+/** The kinds of step that produce a contract a `tx` step can target. */
+const CONTRACT_KINDS: readonly Step["kind"][] = [
+    "proxy",
+    "contract",
+    "existing",
+];
+
+/* OVERRIDES
+================================================== */
+/**
+ * Applies the override named `network` to the `plan` and returns the ordered
+ * list of steps.
+ *
+ * # Error
+ *
+ * Will throw an error if:
+ * -    the override does not exist;
+ * -    a replaced or skipped step does not exist;
+ * -    a step ID is duplicated;
+ * -    a step depends on a step that does not exist or was skipped;
+ * -    a `tx` step targets a step that does not produce a contract; or
+ * -    the dependency graph contains a cycle.
+ *
+ * @throws
+ * @function    resolvePlan
+ *
+ * @param       {Plan}      plan
+ * @param       {string}    [network]
+ *
+ * @returns     {ResolvedPlan}
+ */
+export function resolvePlan(plan: Plan, network?: string): ResolvedPlan {
+    const override = network ? plan.overrides?.[network] : undefined;
+
+    if (network && !override) {
+        throw new Error(`Plan ${plan.name} has no override for ${network}`);
+    }
+
+    const ids = new Set(plan.steps.map(s => s.id));
+    const replace = new Map((override?.replace ?? []).map(s => [s.id, s]));
+    const skip = new Set(override?.skip ?? []);
+
+    for (const id of [...replace.keys(), ...skip]) {
+        if (!ids.has(id)) {
+            throw new Error(`Plan ${plan.name}: unknown step ${id}`);
+        }
+    }
+
+    const steps = [
+        ...plan.steps
+            .filter(s => !skip.has(s.id))
+            .map(s => replace.get(s.id) ?? s),
+        ...(override?.append ?? []),
+    ];
+
+    return {
+        name: plan.name,
+        vars: { ...plan.vars, ...override?.vars },
+        steps: orderSteps(steps),
+        confs: override?.confs ?? plan.confs,
+    };
+}
+
+/* DEPENDENCIES
+================================================== */
+/**
+ * Returns the IDs of the steps that `step` depends on. This is the union of
+ * its `dependsOn`, its `target` (if any) and every step referenced in its args.
+ *
+ * @function    stepDependencies
+ *
+ * @param       {Step}      step
+ *
+ * @returns     {string[]}
+ */
+export function stepDependencies(step: Step): string[] {
+    const deps = new Set(step.dependsOn ?? []);
+
+    if (step.kind === "tx") {
+        deps.add(step.target);
+    }
+
+    const refs = findRefs("args" in step ? step.args : undefined);
+
+    if (step.kind === "existing") {
+        refs.push(...findRefs(step.address));
+    }
+
+    for (const ref of refs) {
+        const [scope] = ref.split(".");
+        if (scope !== "vars") deps.add(scope);
+    }
+
+    return [...deps];
+}
+
+/**
+ * Orders the steps such that each step comes after all of its dependencies.
+ * Where steps are independent, their declaration order is kept.
+ *
+ * # Error
+ *
+ * Will throw an error if a step ID is duplicated, a dependency does not exist,
+ * the dependencies contain a cycle, or a `tx` step targets a step that does
+ * not produce a contract.
+ *
+ * @throws
+ * @function    orderSteps
+ *
+ * @param       {Step[]}    steps
+ *
+ * @returns     {Step[]}
+ */
+export function orderSteps(steps: readonly Step[]): Step[] {
+    const byID = new Map<string, Step>();
+
+    for (const step of steps) {
+        if (byID.has(step.id)) {
+            throw new Error(`Duplicate step ID: ${step.id}`);
+        }
+        byID.set(step.id, step);
+    }
+
+    const out: Step[] = [];
+    const done = new Set<string>();
+    const visiting = new Set<string>();
+
+    function visit(step: Step, path: string[]) {
+        if (done.has(step.id)) return;
+
+        if (visiting.has(step.id)) {
+            const cycle = [...path, step.id].join(" -> ");
+            throw new Error(`Dependency cycle: ${cycle}`);
+        }
+
+        visiting.add(step.id);
+
+        for (const id of stepDependencies(step)) {
+            const dep = byID.get(id);
+            if (!dep) {
+                throw new Error(
+                    `Step ${step.id} depends on unknown step ${id}`
+                );
+            }
+            visit(dep, [...path, step.id]);
+        }
+
+        if (step.kind === "tx") {
+            const target = byID.get(step.target) as Step;
+            if (!CONTRACT_KINDS.includes(target.kind)) {
+                throw new Error(
+                    `Step ${step.id}: target ${step.target} is not a contract step`
+                );
+            }
+        }
+
+        visiting.delete(step.id);
+        done.add(step.id);
+        out.push(step);
+    }
+
+    for (const step of steps) {
+        visit(step, []);
+    }
+
+    return out;
+}
+
+/* REFERENCES
+================================================== */
+/**
+ * Replaces every reference within `value` with its value in `scope`.
+ *
+ * A string that consists of a single reference is replaced by the referenced
+ * value as-is (so a `bigint` var stays a `bigint`). References embedded within
+ * a larger string are interpolated.
+ *
+ * # Error
+ *
+ * Will throw an error if a reference cannot be found.
+ *
+ * @throws
+ * @function    resolveRefs
+ *
+ * @param       {unknown}   value
+ * @param       {Scope}     scope
+ *
+ * @returns     {unknown}
+ */
+export function resolveRefs(value: unknown, scope: Scope): unknown {
+    if (typeof value === "string") {
+        const whole = value.match(REF_WHOLE);
+        if (whole) return lookup(whole[1], scope);
+
+        return value.replace(REF_ANY, (_, ref: string) =>
+            String(lookup(ref, scope))
+        );
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(v => resolveRefs(v, scope));
+    }
+
+    if (value !== null && typeof value === "object") {
+        const out: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(value)) {
+            out[k] = resolveRefs(v, scope);
+        }
+        return out;
+    }
+
+    return value;
+}
+
+/**
+ * @function    findRefs
+ * @param       {unknown}   value
+ * @returns     {string[]}  The references found within `value`.
+ */
+function findRefs(value: unknown): string[] {
+    if (typeof value === "string") {
+        return [...value.matchAll(REF_ANY)].map(m => m[1]);
+    }
+
+    if (Array.isArray(value)) {
+        return value.flatMap(findRefs);
+    }
+
+    if (value !== null && typeof value === "object") {
+        return Object.values(value).flatMap(findRefs);
+    }
+
+    return [];
+}
+
+/**
+ * @throws
+ * @function    lookup
+ * @param       {string}    ref
+ * @param       {Scope}     scope
+ * @returns     {unknown}
+ */
+function lookup(ref: string, scope: Scope): unknown {
+    const [head, ...rest] = ref.split(".");
+
+    let val: unknown = head === "vars" ? scope.vars : scope.outputs[head];
+
+    for (const key of rest) {
+        if (val === null || typeof val !== "object") {
+            val = undefined;
+            break;
+        }
+        val = (val as Record<string, unknown>)[key];
+    }
+
+    if (val === undefined) {
+        throw new Error(`Unresolved reference: \${${ref}}`);
+    }
+
+    return val;
+}
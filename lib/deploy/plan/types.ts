@@ -0,0 +1,192 @@
+/* IMPORT TYPES
+================================================== */
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { BaseContract } from "ethers";
+import type { DEPLOYERS } from "./deployers";
+import type { Journal } from "../journal";
+import type { Ledger } from "../ledger";
+import type { Reporter } from "../reporter";
+import type { RetryOptions } from "../retry";
+
+/* REFERENCES
+================================================== */
+/**
+ * A reference to a value that is only known once the plan is running. Takes
+ * the form `${<scope>.<field>}`, where the scope is either `vars` or the ID of
+ * another step. E.g., `${vars.association}` or `${controller.address}`.
+ */
+export type Ref = `\${${string}}`;
+
+/**
+ * Allows any value within `T` to be substituted for a `Ref`. String values
+ * may also embed references, e.g., `"ipfs://${vars.cid}/meta.json"`.
+ */
+export type Refs<T> = T extends string
+    ? string
+    : T extends bigint | number | boolean
+      ? T | Ref
+      : T extends readonly (infer U)[]
+        ? Refs<U>[] | Ref
+        : T extends object
+          ? { readonly [K in keyof T]: Refs<T[K]> }
+          : T;
+
+/* STEPS
+================================================== */
+/**
+ * The name of a deployment function registered in `DEPLOYERS`.
+ */
+export type DeployerName = keyof typeof DEPLOYERS;
+
+/**
+ * The initializer args accepted by the registered deployment function `K`.
+ */
+export type DeployerArgs<K extends DeployerName> = Parameters<
+    (typeof DEPLOYERS)[K]["deploy"]
+>[0];
+
+type StepBase = {
+    /** Unique ID of the step. Other steps reference its outputs by this ID. */
+    readonly id: string;
+    /** Human readable description. Logged by `d` and `tx`. */
+    readonly desc: string;
+    /** Steps that must run first, in addition to any that are referenced. */
+    readonly dependsOn?: readonly string[];
+    /** Name of the signer in the `PlanContext` that executes the step. */
+    readonly signer?: string;
+};
+
+/**
+ * Deploys an upgradeable contract through one of the `lib/deploy/*` functions.
+ */
+export type ProxyStep = {
+    [K in DeployerName]: StepBase & {
+        readonly kind: "proxy";
+        readonly deployer: K;
+        readonly args: Refs<DeployerArgs<K>>;
+    };
+}[DeployerName];
+
+/**
+ * Deploys a non-upgradeable contract directly from its factory.
+ */
+export type ContractStep = StepBase & {
+    readonly kind: "contract";
+    readonly contract: string;
+    readonly args: readonly unknown[];
+};
+
+/**
+ * Calls `method` on the contract produced by the step `target`.
+ */
+export type TxStep = StepBase & {
+    readonly kind: "tx";
+    readonly target: string;
+    readonly method: string;
+    readonly args?: readonly unknown[];
+};
+
+/**
+ * Attaches to a contract that has already been deployed, e.g., the vendor
+ * contracts on Mainnet.
+ */
+export type ExistingStep = StepBase & {
+    readonly kind: "existing";
+    readonly contract: string;
+    readonly address: string;
+};
+
+/**
+ * Runs `check` against the resolved `args` without sending a transaction,
+ * e.g., to validate the inputs of later steps against a deployed contract.
+ * The plan stops if `check` throws. Other steps wait for it through their
+ * `dependsOn`. Checks are not journaled, so they run on every attempt.
+ */
+export type CheckStep = StepBase & {
+    readonly kind: "check";
+    readonly args: unknown;
+    readonly check: (args: unknown) => Promise<void>;
+};
+
+export type Step = ProxyStep | ContractStep | TxStep | ExistingStep | CheckStep;
+
+/* PLAN
+================================================== */
+/**
+ * Network specific changes to a plan.
+ *
+ * -    `vars`:     Merged over the plan's vars.
+ * -    `replace`:  Steps that replace the step with the same ID.
+ * -    `skip`:     IDs of the steps that will not be run.
+ * -    `append`:   Steps added to the end of the plan.
+ * -    `confs`:    Confirmations to wait for after each step. Defaults to the
+ *                  plan's, then the network's (see `deployDefaults`).
+ */
+export type PlanOverride = {
+    readonly vars?: Readonly<Record<string, unknown>>;
+    readonly replace?: readonly Step[];
+    readonly skip?: readonly string[];
+    readonly append?: readonly Step[];
+    readonly confs?: number;
+};
+
+export type Plan = {
+    readonly name: string;
+    readonly vars?: Readonly<Record<string, unknown>>;
+    readonly steps: readonly Step[];
+    readonly overrides?: Readonly<Record<string, PlanOverride>>;
+    readonly confs?: number;
+};
+
+/**
+ * Everything a plan needs from the calling script.
+ *
+ * -    `signers`:  Named signers. Steps without a `signer` use `deployer`.
+ * -    `vars`:     Values made available under the `vars` scope.
+ * -    `journal`:  If supplied, completed steps are recorded and skipped on
+ *                  subsequent runs.
+ * -    `simulate`: Set when running against a simulated chain. Each step
+ *                  reports its transactions, gas and H1 cost.
+ * -    `reporter`: Receives the events of each step. Defaults to the result
+ *                  of `getReporter`.
+ * -    `ledger`:   If supplied, the gas used and H1 spent by each step is
+ *                  recorded.
+ * -    `retry`:    How `tx` steps that are not mined in time are rebroadcast.
+ *                  Defaults to the network's (see `deployDefaults`).
+ */
+export type PlanContext = {
+    readonly signers: Readonly<Record<string, HardhatEthersSigner>>;
+    readonly vars?: Readonly<Record<string, unknown>>;
+    readonly journal?: Journal;
+    readonly simulate?: boolean;
+    readonly reporter?: Reporter;
+    readonly ledger?: Ledger;
+    readonly retry?: RetryOptions;
+};
+
+/* OUTPUT
+================================================== */
+/**
+ * The result of a single step.
+ *
+ * -    `address`:  The deployed contract, or the target of a `tx` step.
+ * -    `contract`: The name of the contract. Empty for `tx` steps.
+ * -    `args`:     The resolved initializer / constructor / call args.
+ * -    `from`:     The address of the signer that executed the step.
+ */
+export type StepOutput = {
+    readonly id: string;
+    readonly kind: Step["kind"];
+    readonly desc: string;
+    readonly address: string;
+    readonly hash: string;
+    readonly nonce: number;
+    readonly contract: string;
+    readonly args: unknown;
+    readonly from: string;
+};
+
+export type PlanResult = {
+    readonly outputs: Readonly<Record<string, StepOutput>>;
+    readonly contracts: Readonly<Record<string, BaseContract>>;
+};
@@ -0,0 +1,217 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts, ethers, upgrades } from "hardhat";
+import { keccak256 } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { ContractFactory } from "ethers";
+import type { ManifestEntry } from "./manifest";
+import type { StorageChange } from "./layout";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { gitCommit } from "./manifest";
+import { compiledLayout, deployedLayout, diffStorage } from "./layout";
+import { writeJSON } from "../json";
+
+/* TYPES
+================================================== */
+/**
+ * Everything the Haven1 Association needs to review and execute an upgrade on
+ * the developer's behalf.
+ *
+ * -    `implementation`:   The new implementation address. Empty if the
+ *                          implementation was only compiled, in which case the
+ *                          Association deploys it from the creation bytecode
+ *                          and `calldata` must be encoded against the
+ *                          resulting address.
+ * -    `call`:             The `data` passed to `upgradeToAndCall`, e.g., a
+ *                          `reinitializer`. `0x` if no call is made.
+ * -    `calldata`:         The encoded `upgradeToAndCall` call, to be sent to
+ *                          the proxy. Empty if there is no implementation
+ *                          address yet.
+ * -    `bytecode`:         keccak256 hashes of the creation bytecode and, if
+ *                          deployed, of the implementation's runtime bytecode.
+ * -    `storage`:          The storage layout report. See `diffStorage`.
+ */
+export type UpgradeProposal = {
+    readonly network: string;
+    readonly chainID: string;
+    readonly name: string;
+    readonly proxy: string;
+    readonly previousContract: string;
+    readonly previousImplementation: string;
+    readonly contract: string;
+    readonly implementation: string;
+    readonly call: string;
+    readonly calldata: string;
+    readonly bytecode: {
+        readonly creationHash: string;
+        readonly runtimeHash: string;
+    };
+    readonly compiler: {
+        readonly version: string;
+        readonly settings: unknown;
+    };
+    readonly storage: readonly StorageChange[];
+    readonly commit: string;
+    readonly createdAt: string;
+};
+
+/**
+ * -    `network`:      The name of the manifest the deployment was loaded from.
+ * -    `entry`:        The deployment to upgrade.
+ * -    `contract`:     The name of the new implementation contract.
+ * -    `deploy`:       Whether to deploy the new implementation. If false, the
+ *                      implementation is only compiled and hashed.
+ * -    `call`:         Optional function to call on the new implementation,
+ *                      via `upgradeToAndCall`, along with its args.
+ */
+export type UpgradeProposalOptions = {
+    readonly network: string;
+    readonly entry: ManifestEntry;
+    readonly contract: string;
+    readonly deploy: boolean;
+    readonly call?: { readonly fn: string; readonly args: readonly unknown[] };
+};
+
+/* PROPOSAL
+================================================== */
+/**
+ * Builds an upgrade proposal for the Haven1 Association to execute.
+ *
+ * The new implementation is validated against the current one with the
+ * OpenZeppelin upgrades plugin. If `deploy` is set, it is then deployed (or
+ * reused, if an identical implementation is already deployed). The proxy is
+ * not upgraded.
+ *
+ * # Error
+ *
+ * Will throw an error if the upgrade is not safe, the current implementation
+ * is not registered with the upgrades plugin, or the deployment fails.
+ *
+ * @async
+ * @throws
+ * @function    buildUpgradeProposal
+ *
+ * @param       {UpgradeProposalOptions}    opts
+ *
+ * @returns     {Promise<UpgradeProposal>}
+ */
+export async function buildUpgradeProposal(
+    opts: UpgradeProposalOptions
+): Promise<UpgradeProposal> {
+    const { entry, contract } = opts;
+
+    const factory = await ethers.getContractFactory(contract);
+    const previousImplementation =
+        await upgrades.erc1967.getImplementationAddress(entry.address);
+
+    const storage = diffStorage(
+        await deployedLayout(previousImplementation),
+        await compiledLayout(contract)
+    );
+
+    await upgrades.validateUpgrade(entry.address, factory, { kind: "uups" });
+
+    let implementation = "";
+    let runtimeHash = "";
+
+    if (opts.deploy) {
+        implementation = await deployImplementation(entry.address, factory);
+        runtimeHash = keccak256(await ethers.provider.getCode(implementation));
+    }
+
+    const call = opts.call
+        ? factory.interface.encodeFunctionData(opts.call.fn, opts.call.args)
+        : "0x";
+
+    const calldata = implementation
+        ? factory.interface.encodeFunctionData("upgradeToAndCall", [
+              implementation,
+              call,
+          ])
+        : "";
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const artifact = await artifacts.readArtifact(contract);
+    const info = await artifacts.getBuildInfo(
+        `${artifact.sourceName}:${artifact.contractName}`
+    );
+
+    return {
+        network: opts.network,
+        chainID: chainId.toString(),
+        name: entry.name,
+        proxy: entry.address,
+        previousContract: entry.contract,
+        previousImplementation,
+        contract,
+        implementation,
+        call,
+        calldata,
+        bytecode: {
+            creationHash: keccak256(artifact.bytecode),
+            runtimeHash,
+        },
+        compiler: {
+            version: info?.solcLongVersion ?? "",
+            settings: info?.input.settings ?? {},
+        },
+        storage,
+        commit: gitCommit(),
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Writes `proposal` to `./deployment_data/<network>/proposals/`, prefixed
+ * with the current timestamp, and returns the relative path.
+ *
+ * # Error
+ *
+ * Will throw an error if the proposal cannot be written.
+ *
+ * @throws
+ * @function    saveUpgradeProposal
+ *
+ * @param       {UpgradeProposal}   proposal
+ *
+ * @returns     {string}
+ */
+export function saveUpgradeProposal(proposal: UpgradeProposal): string {
+    const dir = `./deployment_data/${proposal.network}/proposals`;
+    const p = `${dir}/${Date.now()}_${proposal.name}-${proposal.contract}.json`;
+
+    if (!writeJSON(p, proposal, false)) {
+        throw new Error(`Failed to write upgrade proposal: ${p}`);
+    }
+
+    return p;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @async
+ * @throws
+ * @function    deployImplementation
+ * @param       {string}            proxy
+ * @param       {ContractFactory}   factory
+ * @returns     {Promise<string>}   The implementation address.
+ */
+async function deployImplementation(
+    proxy: string,
+    factory: ContractFactory
+): Promise<string> {
+    const res = await upgrades.prepareUpgrade(proxy, factory, {
+        kind: "uups",
+    });
+
+    if (typeof res !== "string") {
+        throw new Error(`Unexpected response when deploying to ${proxy}`);
+    }
+
+    return res;
+}
@@ -0,0 +1,389 @@
+/* IMPORT NODE MODULES
+================================================== */
+import * as fs from "fs";
+import { formatUnits } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { TxStatus } from "./retry";
+import type { DecodedRevert } from "../revert";
+import type { SimulatedTx, SimulationMode } from "./simulate";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { bigintReplacer } from "../json";
+
+/* TYPES
+================================================== */
+/**
+ * Emitted by `d` and `tx` when a step begins, before anything is sent.
+ */
+export type StartEvent = {
+    readonly event: "start";
+    readonly kind: "deploy" | "tx";
+    readonly desc: string;
+    readonly simulate: boolean;
+};
+
+/**
+ * Emitted by `d` and `tx` when a step completes, or is skipped because it was
+ * found in the journal.
+ *
+ * -    `address`:          The deployed contract, or the target of the
+ *                          transaction.
+ * -    `block`:            The block the transaction was mined in. `null` if
+ *                          the receipt is unavailable.
+ * -    `gasPrice`:         The effective gas price, in wei.
+ * -    `cost`:             The H1 cost (`gasUsed * gasPrice`), in wei.
+ * -    `confirmations`:    At the time of the event.
+ * -    `status`:           Whether the last broadcast, or an earlier one, was
+ *                          mined (see `TxStatus`).
+ * -    `broadcasts`:       The number of times the transaction was broadcast
+ *                          during this run. Zero if the step was skipped.
+ */
+export type StepEvent = {
+    readonly event: "complete" | "skip";
+    readonly kind: "deploy" | "tx";
+    readonly desc: string;
+    readonly address: string;
+    readonly hash: string;
+    readonly nonce: number;
+    readonly block: number | null;
+    readonly gasUsed: bigint;
+    readonly gasPrice: bigint;
+    readonly cost: bigint;
+    readonly confirmations: number;
+    readonly status: "mined" | "repriced";
+    readonly broadcasts: number;
+};
+
+/**
+ * Emitted by `tx` when a transaction that was not mined in time is
+ * rebroadcast with a higher fee.
+ *
+ * -    `replaces`:     The hash of the previous broadcast.
+ * -    `broadcasts`:   The number of broadcasts so far, including this one.
+ */
+export type RetryEvent = {
+    readonly event: "retry";
+    readonly kind: "tx";
+    readonly desc: string;
+    readonly hash: string;
+    readonly replaces: string;
+    readonly nonce: number;
+    readonly broadcasts: number;
+};
+
+/**
+ * Emitted by `d` and `tx` when a step does not succeed, before the error is
+ * thrown.
+ *
+ * -    `status`:   `error` if the step failed for a reason other than those
+ *                  in `TxStatus`, e.g., insufficient funds.
+ * -    `hash`:     Empty if no transaction was sent.
+ * -    `nonce`:    `null` if no transaction was sent.
+ * -    `message`:  The decoded revert, if any. Otherwise, the error message.
+ * -    `revert`:   The decoded revert (see `lib/revert.ts`).
+ */
+export type FailEvent = {
+    readonly event: "fail";
+    readonly kind: "deploy" | "tx";
+    readonly desc: string;
+    readonly status: TxStatus | "error";
+    readonly hash: string;
+    readonly nonce: number | null;
+    readonly message: string;
+    readonly revert?: DecodedRevert;
+};
+
+/**
+ * Emitted by `d` and `tx` when running against a simulated chain, with every
+ * transaction the step sent.
+ *
+ * -    `gasUsed`:  The total across `txs`.
+ * -    `cost`:     The total H1 cost across `txs`, in wei.
+ */
+export type SimulatedEvent = {
+    readonly event: "simulated";
+    readonly kind: "deploy" | "tx";
+    readonly desc: string;
+    readonly txs: readonly SimulatedTx[];
+    readonly gasUsed: bigint;
+    readonly cost: bigint;
+};
+
+/**
+ * Emitted by `startSimulation` once the simulated chain is ready.
+ *
+ * -    `deployer`: The (impersonated) deployer.
+ * -    `balance`:  The deployer's balance on the simulated chain, in wei.
+ */
+export type SimulationEvent = {
+    readonly event: "simulation";
+    readonly mode: SimulationMode;
+    readonly deployer: string;
+    readonly balance: bigint;
+};
+
+/**
+ * Emitted by the `offline` signer each time it records an unsigned
+ * transaction.
+ *
+ * -    `filePath`: The file the unsigned transactions are written to.
+ * -    `count`:    The number of transactions recorded so far.
+ */
+export type UnsignedEvent = {
+    readonly event: "unsigned";
+    readonly from: string;
+    readonly nonce: number;
+    readonly filePath: string;
+    readonly count: number;
+};
+
+export type ReportEvent =
+    | StartEvent
+    | StepEvent
+    | SimulatedEvent
+    | RetryEvent
+    | FailEvent
+    | SimulationEvent
+    | UnsignedEvent;
+
+/**
+ * Receives every event emitted by `d`, `tx`, `startSimulation` and the
+ * `offline` signer.
+ */
+export type Reporter = (e: ReportEvent) => void;
+
+/**
+ * -    `console`:  Human readable tables. The default.
+ * -    `jsonl`:    One JSON object per line, written to stdout.
+ * -    `silent`:   No output.
+ */
+export type ReporterName = "console" | "jsonl" | "silent";
+
+/* CONSTANTS
+================================================== */
+const SEPARATOR = "========================================\n";
+
+/* REPORTERS
+================================================== */
+/**
+ * Writes each event to the console as a table.
+ *
+ * @function    consoleReporter
+ * @param       {ReportEvent}   e
+ */
+export function consoleReporter(e: ReportEvent): void {
+    if (e.event === "simulation") {
+        console.log(`Simulating (${e.mode}) as: ${e.deployer}`);
+        console.log(`Deployer Balance: ${formatUnits(e.balance, 18)} H1\n`);
+        return;
+    }
+
+    if (e.event === "unsigned") {
+        if (e.count === 1) {
+            console.log(`Unsigned transactions written to: ${e.filePath}\n`);
+        }
+        return;
+    }
+
+    const deploy = e.kind === "deploy";
+
+    switch (e.event) {
+        case "start": {
+            const verb = e.simulate
+                ? "Simulating"
+                : deploy
+                  ? "Deploying"
+                  : "Executing";
+            const what = deploy ? "" : " Transaction";
+
+            console.log(`${verb}${what}: ${e.desc}\n`);
+            return;
+        }
+
+        case "simulated": {
+            console.log("\nPlanned Transactions:");
+            console.table(
+                e.txs.map(t => ({
+                    to: t.to,
+                    fn: t.selector,
+                    nonce: t.nonce,
+                    gas: t.gasUsed,
+                    h1: formatUnits(t.cost, 18),
+                }))
+            );
+
+            console.table([
+                { attr: "Estimated Gas", val: e.gasUsed },
+                { attr: "Estimated H1 Cost", val: formatUnits(e.cost, 18) },
+            ]);
+            return;
+        }
+
+        case "skip": {
+            const what = deploy ? "Deployment" : "Transaction";
+            console.log(`Skipping ${what}: ${e.desc} (found in journal)\n`);
+            console.table(stepTable(e));
+            console.log(`\n${SEPARATOR}`);
+            return;
+        }
+
+        case "retry": {
+            console.log(
+                `Rebroadcasting: ${e.desc} (attempt ${e.broadcasts})\n`
+            );
+            console.table([
+                { attr: "Replaces", val: e.replaces },
+                { attr: "Hash", val: e.hash },
+                { attr: "Nonce", val: e.nonce },
+            ]);
+            console.log("");
+            return;
+        }
+
+        case "fail": {
+            const what = deploy ? "Deployment" : "Transaction";
+            console.log(`\n${what} Failed: ${e.desc} (${e.status})\n`);
+
+            if (e.hash) {
+                console.table([
+                    { attr: "Hash", val: e.hash },
+                    { attr: "Nonce", val: e.nonce },
+                ]);
+            }
+
+            console.log(`\n${e.message}\n`);
+            console.log(SEPARATOR);
+            return;
+        }
+
+        case "complete": {
+            console.table(stepTable(e));
+            console.log(
+                `\n${deploy ? "Deployment" : "Transaction"} Completed\n`
+            );
+            console.log(SEPARATOR);
+            return;
+        }
+    }
+}
+
+/**
+ * Returns a reporter that writes each event as a single line of JSON. Any
+ * `bigint` values are written as decimal strings and each line includes the
+ * time of the event.
+ *
+ * If `out` is a file path, each line is appended to the file as it is
+ * reported, so the file is complete even if the run fails.
+ *
+ * @function    jsonLinesReporter
+ *
+ * @param       {string | NodeJS.WritableStream}    [out = process.stdout]
+ *
+ * @returns     {Reporter}
+ */
+export function jsonLinesReporter(
+    out: string | NodeJS.WritableStream = process.stdout
+): Reporter {
+    return function (e: ReportEvent) {
+        const time = new Date().toISOString();
+        const line = JSON.stringify({ time, ...e }, bigintReplacer) + "\n";
+
+        if (typeof out === "string") {
+            fs.appendFileSync(out, line, "utf8");
+        } else {
+            out.write(line);
+        }
+    };
+}
+
+/**
+ * Discards every event. Useful in tests.
+ *
+ * @function    silentReporter
+ */
+export function silentReporter(): void {}
+
+/* DEFAULT
+================================================== */
+let current: Reporter | undefined;
+
+/**
+ * Returns the reporter used by `d` and `tx` when one is not supplied in their
+ * options.
+ *
+ * Unless set via `setReporter`, this is selected by the `DEPLOY_REPORTER`
+ * environment variable (see `ReporterName`) and defaults to `console`.
+ *
+ * # Error
+ *
+ * Will throw an error if `DEPLOY_REPORTER` is not a `ReporterName`.
+ *
+ * @throws
+ * @function    getReporter
+ *
+ * @returns     {Reporter}
+ */
+export function getReporter(): Reporter {
+    if (!current) {
+        current = namedReporter(process.env.DEPLOY_REPORTER || "console");
+    }
+
+    return current;
+}
+
+/**
+ * Sets the reporter used by `d` and `tx` when one is not supplied in their
+ * options. Pass `undefined` to restore the default.
+ *
+ * @function    setReporter
+ *
+ * @param       {Reporter | undefined}  r
+ */
+export function setReporter(r: Reporter | undefined): void {
+    current = r;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @throws
+ * @function    namedReporter
+ * @param       {string}    name
+ * @returns     {Reporter}
+ */
+function namedReporter(name: string): Reporter {
+    switch (name as ReporterName) {
+        case "console":
+            return consoleReporter;
+        case "jsonl":
+            return jsonLinesReporter();
+        case "silent":
+            return silentReporter;
+    }
+
+    const err = `Got reporter: ${name}. Expected one of: console, jsonl, silent`;
+    throw new Error(err);
+}
+
+/**
+ * @function    stepTable
+ * @param       {StepEvent}     e
+ * @returns     {{ attr: string; val: unknown }[]}
+ */
+function stepTable(e: StepEvent): { attr: string; val: unknown }[] {
+    return [
+        { attr: "Hash", val: e.hash },
+        { attr: "Address", val: e.address },
+        { attr: "Nonce", val: e.nonce },
+        { attr: "Block", val: e.block ?? "-" },
+        { attr: "Gas Used", val: e.gasUsed },
+        { attr: "Gas Price", val: `${formatUnits(e.gasPrice, "gwei")} gwei` },
+        { attr: "H1 Cost", val: formatUnits(e.cost, 18) },
+        { attr: "Confs", val: e.confirmations },
+        { attr: "Status", val: e.status },
+        { attr: "Broadcasts", val: e.broadcasts },
+    ];
+}
@@ -0,0 +1,302 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import {
+    isError,
+    type TransactionReceipt,
+    type TransactionResponse,
+} from "ethers";
+
+/* TYPES
+================================================== */
+/**
+ * How `tx` handles a transaction that is not mined in time.
+ *
+ * -    `timeout`:      How long to wait for each broadcast to be mined, in
+ *                      milliseconds. Zero waits forever. Defaults to three (3)
+ *                      minutes.
+ * -    `rebroadcasts`: How many times the transaction is rebroadcast, at the
+ *                      same nonce, before giving up. Defaults to three (3).
+ * -    `bump`:         The percentage by which the fee is raised on each
+ *                      rebroadcast. Most nodes require at least 10%. Defaults
+ *                      to 20%.
+ */
+export type RetryOptions = {
+    readonly timeout?: number;
+    readonly rebroadcasts?: number;
+    readonly bump?: number;
+};
+
+/**
+ * The final status of a transaction.
+ *
+ * -    `mined`:        The last broadcast was mined.
+ * -    `repriced`:     An earlier broadcast (same call, lower fee) was mined.
+ * -    `reverted`:     The transaction was mined but reverted.
+ * -    `replaced`:     Another transaction, with different data, was mined at
+ *                      the same nonce.
+ * -    `cancelled`:    A zero value transfer to the sender was mined at the
+ *                      same nonce.
+ * -    `timeout`:      No broadcast was mined before the last timeout.
+ */
+export type TxStatus =
+    | "mined"
+    | "repriced"
+    | "reverted"
+    | "replaced"
+    | "cancelled"
+    | "timeout";
+
+/**
+ * -    `receipt`:      The receipt of the broadcast that was mined.
+ * -    `broadcasts`:   The number of times the transaction was broadcast.
+ */
+export type RetryResult = {
+    readonly receipt: TransactionReceipt;
+    readonly status: "mined" | "repriced";
+    readonly broadcasts: number;
+};
+
+/**
+ * Called after each rebroadcast with the new transaction and the one it
+ * replaces.
+ */
+export type OnRebroadcast = (
+    next: TransactionResponse,
+    prev: TransactionResponse,
+    broadcasts: number
+) => void;
+
+/* CONSTANTS
+================================================== */
+const DEFAULT_TIMEOUT = 3 * 60 * 1000;
+const DEFAULT_REBROADCASTS = 3;
+const DEFAULT_BUMP = 20;
+
+/* ERRORS
+================================================== */
+/**
+ * Thrown by `waitWithRetry` when a transaction does not succeed. `status`
+ * gives the reason, and `hash` the last transaction that was broadcast (or the
+ * transaction that replaced it).
+ */
+export class TxError extends Error {
+    public readonly status: Exclude<TxStatus, "mined" | "repriced">;
+    public readonly hash: string;
+    public readonly nonce: number;
+
+    /**
+     * @constructor
+     * @param   {TxStatus}  status
+     * @param   {string}    hash
+     * @param   {number}    nonce
+     * @param   {string}    message
+     */
+    constructor(
+        status: Exclude<TxStatus, "mined" | "repriced">,
+        hash: string,
+        nonce: number,
+        message: string
+    ) {
+        super(message);
+        this.name = "TxError";
+        this.status = status;
+        this.hash = hash;
+        this.nonce = nonce;
+    }
+}
+
+/* RETRY
+================================================== */
+/**
+ * Waits for `txRes` to be mined with `confs` confirmations.
+ *
+ * If it is not mined within the `timeout`, the same call is rebroadcast at
+ * the same nonce with a fee raised by `bump` percent, and the new transaction
+ * is waited for instead. If an earlier broadcast is mined in the meantime, it
+ * is accepted (`repriced`).
+ *
+ * Replacements are searched for from `startBlock`, which must be no later
+ * than the block the transaction was sent in.
+ *
+ * Every timeout counts towards `rebroadcasts`, including those after a
+ * rebroadcast that found the nonce already used, so the total wait is at most
+ * `rebroadcasts + 1` timeouts. A timeout after the transaction was mined, but
+ * before it has `confs` confirmations, is not counted: the transaction is
+ * waited for without a timeout until it is confirmed.
+ *
+ * The rebroadcast is signed by the sender of `txRes`, which must be one of
+ * the network's configured (or impersonated) accounts.
+ *
+ * # Error
+ *
+ * Will throw a `TxError` if the transaction reverts, is replaced or cancelled
+ * by another transaction at the same nonce, or is still not mined after the
+ * last rebroadcast.
+ *
+ * @async
+ * @throws
+ * @function    waitWithRetry
+ *
+ * @param       {TransactionResponse}   txRes
+ * @param       {number}                confs
+ * @param       {number}                startBlock
+ * @param       {RetryOptions}          [opts]
+ * @param       {OnRebroadcast}         [onRebroadcast]
+ *
+ * @returns     {Promise<RetryResult>}
+ */
+export async function waitWithRetry(
+    txRes: TransactionResponse,
+    confs: number,
+    startBlock: number,
+    opts: RetryOptions = {},
+    onRebroadcast?: OnRebroadcast
+): Promise<RetryResult> {
+    const timeout = opts.timeout ?? DEFAULT_TIMEOUT;
+    const rebroadcasts = opts.rebroadcasts ?? DEFAULT_REBROADCASTS;
+    const bump = opts.bump ?? DEFAULT_BUMP;
+
+    // Contract transaction responses do not check for replacements.
+    let current = txRes.replaceableTransaction(startBlock);
+    let broadcasts = 1;
+    let timeouts = 0;
+    let mined = false;
+
+    for (;;) {
+        try {
+            const receipt = await current.wait(confs, mined ? 0 : timeout);
+            if (receipt && broadcasts === 1) {
+                // Keeps the contract interface, so the logs are parsed.
+                return {
+                    receipt: (await txRes.wait(0)) ?? receipt,
+                    status: "mined",
+                    broadcasts,
+                };
+            }
+
+            if (receipt) {
+                return { receipt, status: "mined", broadcasts };
+            }
+        } catch (e) {
+            if (isError(e, "TRANSACTION_REPLACED")) {
+                if (e.reason === "repriced") {
+                    return {
+                        receipt: e.receipt,
+                        status: "repriced",
+                        broadcasts,
+                    };
+                }
+
+                throw new TxError(
+                    e.reason,
+                    e.replacement.hash,
+                    current.nonce,
+                    `Transaction ${current.hash} was ${e.reason} by ${e.replacement.hash}`
+                );
+            }
+
+            if (isError(e, "CALL_EXCEPTION")) {
+                throw new TxError(
+                    "reverted",
+                    e.receipt?.hash ?? current.hash,
+                    current.nonce,
+                    `Transaction ${current.hash} reverted`
+                );
+            }
+
+            if (!isError(e, "TIMEOUT")) {
+                throw e;
+            }
+
+            // Mined, but not yet confirmed.
+            if (await ethers.provider.getTransactionReceipt(current.hash)) {
+                mined = true;
+                continue;
+            }
+
+            if (++timeouts > rebroadcasts) {
+                throw new TxError(
+                    "timeout",
+                    current.hash,
+                    current.nonce,
+                    `Transaction ${current.hash} was not mined after ${broadcasts} broadcasts and ${timeouts} timeouts`
+                );
+            }
+        }
+
+        const next = await rebroadcast(current, bump);
+        if (!next) continue;
+
+        ++broadcasts;
+        onRebroadcast?.(next, current, broadcasts);
+        current = next.replaceableTransaction(startBlock);
+    }
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Resends `t` at the same nonce with its fee raised by `bump` percent (or to
+ * the current network fee, if that is higher). Returns `undefined` if the
+ * nonce has since been used, in which case `t` (or an earlier broadcast) has
+ * been mined and only needs to be waited for.
+ *
+ * @async
+ * @throws
+ * @function    rebroadcast
+ * @param       {TransactionResponse}   t
+ * @param       {number}                bump
+ * @returns     {Promise<TransactionResponse | undefined>}
+ */
+async function rebroadcast(
+    t: TransactionResponse,
+    bump: number
+): Promise<TransactionResponse | undefined> {
+    const fee = await ethers.provider.getFeeData();
+    const up = (v: bigint | null, min: bigint | null) => {
+        const bumped = ((v ?? 0n) * BigInt(100 + bump)) / 100n;
+        return bumped > (min ?? 0n) ? bumped : (min ?? 0n);
+    };
+
+    const fees =
+        t.type === 2
+            ? {
+                  maxFeePerGas: up(t.maxFeePerGas, fee.maxFeePerGas),
+                  maxPriorityFeePerGas: up(
+                      t.maxPriorityFeePerGas,
+                      fee.maxPriorityFeePerGas
+                  ),
+              }
+            : { gasPrice: up(t.gasPrice, fee.gasPrice) };
+
+    const signer = await ethers.getSigner(t.from);
+
+    try {
+        return await signer.sendTransaction({
+            to: t.to,
+            data: t.data,
+            value: t.value,
+            nonce: t.nonce,
+            gasLimit: t.gasLimit,
+            chainId: t.chainId,
+            type: t.type,
+            ...fees,
+        });
+    } catch (e) {
+        if (isNonceExpired(e)) return undefined;
+        throw e;
+    }
+}
+
+/**
+ * @function    isNonceExpired
+ * @param       {unknown}   e
+ * @returns     {boolean}
+ */
+function isNonceExpired(e: unknown): boolean {
+    if (isError(e, "NONCE_EXPIRED")) return true;
+
+    const msg = e instanceof Error ? e.message : String(e);
+    return /nonce too low/i.test(msg);
+}
@@ -0,0 +1,805 @@
+/* IMPORT NODE MODULES
+================================================== */
+import {
+    FetchRequest,
+    Transaction,
+    Wallet,
+    getAddress,
+    getBytes,
+    isHexString,
+    toQuantity,
+} from "ethers";
+import { ProviderWrapper } from "hardhat/plugins";
+import * as fs from "fs";
+
+/* IMPORT TYPES
+================================================== */
+import type { BigNumberish, TransactionLike, TypedDataField } from "ethers";
+import type {
+    EIP1193Provider,
+    HardhatConfig,
+    RequestArguments,
+} from "hardhat/types";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { writeJSON } from "../json";
+import { secret } from "../prompt";
+import { getReporter } from "./reporter";
+
+/* TYPES
+================================================== */
+/**
+ * How a network signs the deployer's transactions:
+ *
+ * -    `key`:      A raw private key from the environment (the `accounts` of
+ *                  the network).
+ * -    `keystore`: An encrypted JSON keystore. The passphrase is prompted for.
+ * -    `rpc`:      An external JSON-RPC signer that supports
+ *                  `eth_signTransaction`, e.g., Clef or a remote signing
+ *                  service.
+ * -    `offline`:  Nothing is signed. Each transaction is filled in and
+ *                  written to a file to be signed elsewhere.
+ */
+export type SignerKind = "key" | "keystore" | "rpc" | "offline";
+
+/**
+ * The signer of a network, other than a raw key (see `lib/networks.ts`).
+ *
+ * -    `address`:  The address of the signer. Optional for `keystore` and
+ *                  `rpc`, in which case it is read from the keystore or the
+ *                  first account of the endpoint.
+ */
+export type SignerConfig =
+    | {
+          readonly kind: "keystore";
+          readonly path: string;
+          readonly address?: string;
+      }
+    | {
+          readonly kind: "rpc";
+          readonly url: string;
+          readonly address?: string;
+      }
+    | {
+          readonly kind: "offline";
+          readonly address: string;
+      };
+
+/**
+ * A backend that signs on behalf of a single address.
+ *
+ * `signTransaction` receives a fully populated transaction (nonce, gas, fees
+ * and chain ID are set) and returns it signed and serialized. It returns
+ * `null` if the transaction should instead be sent by the node as-is.
+ *
+ * `signMessage` handles `personal_sign`, `eth_sign` and `eth_signTypedData_v4`.
+ */
+export interface TxSigner {
+    readonly kind: SignerConfig["kind"];
+    readonly address: string;
+    signTransaction(tx: TransactionLike<string>): Promise<string | null>;
+    signMessage(method: string, params: unknown[]): Promise<string>;
+}
+
+/**
+ * A transaction as received by `eth_sendTransaction`.
+ */
+type RpcTransaction = {
+    from?: string;
+    to?: string | null;
+    data?: string;
+    input?: string;
+    value?: string;
+    gas?: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    nonce?: string;
+    chainId?: string;
+    accessList?: TransactionLike["accessList"];
+};
+
+/**
+ * An unsigned transaction written by the `offline` signer.
+ *
+ * -    `unsigned`: The serialized, unsigned transaction. This is what the
+ *                  offline signer signs.
+ */
+type UnsignedRecord = {
+    readonly nonce: number;
+    readonly to: string | null;
+    readonly value: string;
+    readonly data: string;
+    readonly gasLimit: string;
+    readonly gasPrice?: string;
+    readonly maxFeePerGas?: string;
+    readonly maxPriorityFeePerGas?: string;
+    readonly chainID: string;
+    readonly unsigned: string;
+};
+
+/* SIGNERS
+================================================== */
+/**
+ * Signs with a wallet decrypted from an encrypted JSON keystore. The key is
+ * only ever held in memory.
+ */
+export class KeystoreSigner implements TxSigner {
+    /* Vars
+    ======================================== */
+    public readonly kind = "keystore";
+    private readonly _wallet: Wallet;
+
+    /* Init
+    ======================================== */
+    /**
+     * Private constructor. Use `KeystoreSigner.load` instead.
+     *
+     * @constructor
+     * @private
+     */
+    private constructor(wallet: Wallet) {
+        this._wallet = wallet;
+    }
+
+    /**
+     * Decrypts the keystore at `filePath`. If no `passphrase` is given, the
+     * user is prompted for it.
+     *
+     * # Error
+     *
+     * Will throw an error if the file cannot be read, if the passphrase is
+     * incorrect or if the keystore does not belong to `address`.
+     *
+     * @public
+     * @static
+     * @async
+     * @throws
+     *
+     * @method  load
+     *
+     * @param   {string}    filePath
+     * @param   {string}    [address]       The address the keystore must belong to.
+     * @param   {string}    [passphrase]
+     *
+     * @returns {Promise<KeystoreSigner>}
+     */
+    public static async load(
+        filePath: string,
+        address?: string,
+        passphrase?: string
+    ): Promise<KeystoreSigner> {
+        const json = fs.readFileSync(filePath, "utf8");
+        const pass =
+            passphrase ?? (await secret(`Passphrase for ${filePath}:`));
+
+        let wallet: Wallet;
+        try {
+            const w = await Wallet.fromEncryptedJson(json, pass);
+            wallet = new Wallet(w.privateKey);
+        } catch {
+            throw new Error(`Could not decrypt the keystore: ${filePath}`);
+        }
+
+        assertAddress(wallet.address, address);
+        return new KeystoreSigner(wallet);
+    }
+
+    /* Signing
+    ======================================== */
+    /** The address of the keystore. */
+    public get address(): string {
+        return this._wallet.address;
+    }
+
+    /**
+     * @public
+     * @async
+     * @method  signTransaction
+     * @param   {TransactionLike<string>}   tx
+     * @returns {Promise<string>}
+     */
+    public async signTransaction(tx: TransactionLike<string>): Promise<string> {
+        return this._wallet.signTransaction(tx);
+    }
+
+    /**
+     * @public
+     * @async
+     * @throws
+     * @method  signMessage
+     * @param   {string}        method
+     * @param   {unknown[]}     params
+     * @returns {Promise<string>}
+     */
+    public async signMessage(
+        method: string,
+        params: unknown[]
+    ): Promise<string> {
+        switch (method) {
+            case "personal_sign":
+                return this._wallet.signMessage(getBytes(params[0] as string));
+            case "eth_sign":
+                return this._wallet.signMessage(getBytes(params[1] as string));
+            case "eth_signTypedData_v4": {
+                const raw = params[1];
+                const data = typeof raw === "string" ? JSON.parse(raw) : raw;
+                const types: Record<string, TypedDataField[]> = {
+                    ...data.types,
+                };
+
+                // ethers derives the domain type itself.
+                delete types.EIP712Domain;
+
+                return this._wallet.signTypedData(
+                    data.domain,
+                    types,
+                    data.message
+                );
+            }
+            default:
+                throw new Error(`Keystore signer: ${method} not supported`);
+        }
+    }
+}
+
+/**
+ * Signs through an external JSON-RPC endpoint. Transactions are signed with
+ * `eth_signTransaction` and sent by the network's node, so the endpoint never
+ * needs access to the network.
+ */
+export class RpcSigner implements TxSigner {
+    /* Vars
+    ======================================== */
+    public readonly kind = "rpc";
+    public readonly address: string;
+    private readonly _url: string;
+
+    /* Init
+    ======================================== */
+    /**
+     * Private constructor. Use `RpcSigner.connect` instead.
+     *
+     * @constructor
+     * @private
+     */
+    private constructor(url: string, address: string) {
+        this._url = url;
+        this.address = address;
+    }
+
+    /**
+     * Connects to the signer at `url`. If no `address` is given, the first
+     * account of the endpoint is used.
+     *
+     * # Error
+     *
+     * Will throw an error if the endpoint cannot be reached or does not manage
+     * `address`.
+     *
+     * @public
+     * @static
+     * @async
+     * @throws
+     *
+     * @method  connect
+     *
+     * @param   {string}    url
+     * @param   {string}    [address]
+     *
+     * @returns {Promise<RpcSigner>}
+     */
+    public static async connect(
+        url: string,
+        address?: string
+    ): Promise<RpcSigner> {
+        const accounts = (await rpc(url, "eth_accounts", [])) as string[];
+        const account = address ?? accounts[0];
+
+        if (!account) {
+            throw new Error(`External signer: no accounts at ${url}`);
+        }
+
+        const managed = accounts.some(a => sameAddress(a, account));
+        if (!managed) {
+            throw new Error(
+                `External signer: ${account} not managed by ${url}`
+            );
+        }
+
+        return new RpcSigner(url, getAddress(account));
+    }
+
+    /* Signing
+    ======================================== */
+    /**
+     * @public
+     * @async
+     * @throws
+     * @method  signTransaction
+     * @param   {TransactionLike<string>}   tx
+     * @returns {Promise<string>}
+     */
+    public async signTransaction(tx: TransactionLike<string>): Promise<string> {
+        const res = await rpc(this._url, "eth_signTransaction", [
+            toRpc(tx, this.address),
+        ]);
+
+        // Some signers (e.g., Clef) return `{ raw, tx }`.
+        const raw =
+            typeof res === "string" ? res : (res as { raw?: string }).raw;
+
+        if (!raw || !isHexString(raw)) {
+            throw new Error("External signer: invalid signed transaction");
+        }
+
+        return raw;
+    }
+
+    /**
+     * @public
+     * @async
+     * @throws
+     * @method  signMessage
+     * @param   {string}        method
+     * @param   {unknown[]}     params
+     * @returns {Promise<string>}
+     */
+    public async signMessage(
+        method: string,
+        params: unknown[]
+    ): Promise<string> {
+        return (await rpc(this._url, method, params)) as string;
+    }
+}
+
+/**
+ * Signs nothing. Every transaction is filled in and written to
+ * `deployment_data/<network>/<timestamp>_unsigned.json`, to be signed on an
+ * offline machine.
+ *
+ * If `forward` is set (on a fork of the network), the transaction is then
+ * sent by the node as the impersonated signer so that the run can continue
+ * and later nonces and addresses match. Otherwise, the run stops at the first
+ * transaction.
+ */
+export class OfflineSigner implements TxSigner {
+    /* Vars
+    ======================================== */
+    public readonly kind = "offline";
+    public readonly address: string;
+    public readonly filePath: string;
+
+    private readonly _network: string;
+    private readonly _forward: boolean;
+    private readonly _txs: UnsignedRecord[];
+
+    /* Init
+    ======================================== */
+    /**
+     * @constructor
+     * @param   {string}    network     The name of the network.
+     * @param   {string}    address     The address of the signer.
+     * @param   {boolean}   forward     Whether the node sends the transaction.
+     * @param   {number}    [timestamp] The time of the run, in milliseconds.
+     */
+    constructor(
+        network: string,
+        address: string,
+        forward: boolean,
+        timestamp: number = Date.now()
+    ) {
+        this.address = getAddress(address);
+        this.filePath = unsignedPath(network, timestamp);
+        this._network = network;
+        this._forward = forward;
+        this._txs = [];
+    }
+
+    /* Signing
+    ======================================== */
+    /**
+     * Records `tx` and reports an `unsigned` event to the active reporter
+     * (see `getReporter`).
+     *
+     * # Error
+     *
+     * Will throw an error once `tx` is recorded, unless `forward` is set.
+     *
+     * @public
+     * @async
+     * @throws
+     * @method  signTransaction
+     * @param   {TransactionLike<string>}   tx
+     * @returns {Promise<null>}
+     */
+    public async signTransaction(tx: TransactionLike<string>): Promise<null> {
+        const t = Transaction.from(tx);
+
+        this._txs.push({
+            nonce: t.nonce,
+            to: t.to,
+            value: t.value.toString(),
+            data: t.data,
+            gasLimit: t.gasLimit.toString(),
+            ...(t.type === 2
+                ? {
+                      maxFeePerGas: String(t.maxFeePerGas),
+                      maxPriorityFeePerGas: String(t.maxPriorityFeePerGas),
+                  }
+                : { gasPrice: String(t.gasPrice) }),
+            chainID: t.chainId.toString(),
+            unsigned: t.unsignedSerialized,
+        });
+
+        writeJSON(
+            this.filePath,
+            {
+                network: this._network,
+                from: this.address,
+                transactions: this._txs,
+            },
+            false
+        );
+
+        getReporter()({
+            event: "unsigned",
+            from: this.address,
+            nonce: t.nonce,
+            filePath: this.filePath,
+            count: this._txs.length,
+        });
+
+        if (!this._forward) {
+            const err = `Offline signer: transaction ${t.nonce} recorded. Run on a fork of the network to record the full sequence.`;
+            throw new Error(err);
+        }
+
+        return null;
+    }
+
+    /**
+     * @public
+     * @async
+     * @throws
+     * @method  signMessage
+     * @param   {string}    method
+     * @returns {Promise<string>}
+     */
+    public async signMessage(method: string): Promise<string> {
+        throw new Error(`Offline signer: ${method} not supported`);
+    }
+
+    /** The transactions recorded so far. */
+    public get transactions(): readonly UnsignedRecord[] {
+        return this._txs;
+    }
+}
+
+/* PROVIDER
+================================================== */
+/**
+ * Routes the transactions of a `TxSigner`'s address through the signer. The
+ * node only ever sees signed transactions (`eth_sendRawTransaction`).
+ *
+ * The network's accounts become the signer's address, so `ethers.getSigners`
+ * and everything built on it (`lib/deploy/*`, the upgrades plugin) work
+ * unchanged. Requests for other addresses are passed through.
+ */
+export class SignerProvider extends ProviderWrapper {
+    /* Vars
+    ======================================== */
+    private readonly _signer: TxSigner;
+    private _chainID?: string;
+
+    /* Init
+    ======================================== */
+    /**
+     * @constructor
+     * @param   {EIP1193Provider}   provider
+     * @param   {TxSigner}          signer
+     */
+    constructor(provider: EIP1193Provider, signer: TxSigner) {
+        super(provider);
+        this._signer = signer;
+    }
+
+    /* Requests
+    ======================================== */
+    /**
+     * @public
+     * @async
+     * @throws
+     * @method  request
+     * @param   {RequestArguments}  args
+     * @returns {Promise<unknown>}
+     */
+    public async request(args: RequestArguments): Promise<unknown> {
+        const params = this._getParams(args);
+
+        switch (args.method) {
+            case "eth_accounts":
+            case "eth_requestAccounts":
+                return [this._signer.address];
+
+            case "eth_sendTransaction": {
+                const tx = params[0] as RpcTransaction;
+                if (!sameAddress(tx.from, this._signer.address)) break;
+                return this._send(tx);
+            }
+
+            case "personal_sign":
+            case "eth_signTypedData_v4":
+            case "eth_sign": {
+                const addr = args.method === "personal_sign" ? 1 : 0;
+                if (
+                    !sameAddress(params[addr] as string, this._signer.address)
+                ) {
+                    break;
+                }
+                return this._signer.signMessage(args.method, params);
+            }
+        }
+
+        return this._wrappedProvider.request(args);
+    }
+
+    /* Helpers
+    ======================================== */
+    /**
+     * Fills in `tx`, has it signed and sends it.
+     *
+     * @private
+     * @async
+     * @throws
+     * @method  _send
+     * @param   {RpcTransaction}    tx
+     * @returns {Promise<unknown>}
+     */
+    private async _send(tx: RpcTransaction): Promise<unknown> {
+        const filled = await this._fill(tx);
+        const raw = await this._signer.signTransaction(fromRpc(filled));
+
+        if (raw === null) {
+            return this._wrappedProvider.request({
+                method: "eth_sendTransaction",
+                params: [filled],
+            });
+        }
+
+        const signed = Transaction.from(raw);
+        if (!sameAddress(signed.from ?? undefined, this._signer.address)) {
+            throw new Error(`Signer: transaction signed by ${signed.from}`);
+        }
+
+        return this._wrappedProvider.request({
+            method: "eth_sendRawTransaction",
+            params: [raw],
+        });
+    }
+
+    /**
+     * Sets the nonce, chain ID, gas limit and gas price of `tx`, if missing.
+     * The Hardhat gas providers usually set the gas and fees already.
+     *
+     * @private
+     * @async
+     * @method  _fill
+     * @param   {RpcTransaction}    tx
+     * @returns {Promise<RpcTransaction>}
+     */
+    private async _fill(tx: RpcTransaction): Promise<RpcTransaction> {
+        const req = (method: string, params: unknown[] = []) =>
+            this._wrappedProvider.request({
+                method,
+                params,
+            }) as Promise<string>;
+
+        this._chainID ??= await req("eth_chainId");
+
+        const filled: RpcTransaction = {
+            ...tx,
+            from: this._signer.address,
+            chainId: this._chainID,
+        };
+
+        filled.nonce ??= await req("eth_getTransactionCount", [
+            this._signer.address,
+            "pending",
+        ]);
+        filled.gas ??= await req("eth_estimateGas", [filled]);
+
+        if (!filled.gasPrice && !filled.maxFeePerGas) {
+            filled.gasPrice = await req("eth_gasPrice");
+        }
+
+        return filled;
+    }
+}
+
+/**
+ * Creates the `TxSigner` of `network` from its `SignerConfig`. Keystore
+ * passphrases are prompted for here, so only once the network is first used.
+ *
+ * # Error
+ *
+ * Will throw an error if the signer cannot be loaded.
+ *
+ * @async
+ * @throws
+ * @function    loadSigner
+ *
+ * @param       {SignerConfig}      config
+ * @param       {string}            network
+ * @param       {EIP1193Provider}   provider
+ *
+ * @returns     {Promise<TxSigner>}
+ */
+export async function loadSigner(
+    config: SignerConfig,
+    network: string,
+    provider: EIP1193Provider
+): Promise<TxSigner> {
+    switch (config.kind) {
+        case "keystore":
+            return KeystoreSigner.load(config.path, config.address);
+        case "rpc":
+            return RpcSigner.connect(config.url, config.address);
+        case "offline": {
+            // Only the in-process network can send as the signer, by
+            // impersonating it on a fork.
+            const forward = network === "hardhat";
+            if (forward) {
+                await provider.request({
+                    method: "hardhat_impersonateAccount",
+                    params: [config.address],
+                });
+            }
+
+            return new OfflineSigner(network, config.address, forward);
+        }
+    }
+}
+
+/**
+ * A provider extender (see `extendProvider`) that routes the transactions of
+ * a network with a `signer` through it.
+ *
+ * @async
+ * @throws
+ * @function    signerExtender
+ *
+ * @param       {EIP1193Provider}   provider
+ * @param       {HardhatConfig}     config
+ * @param       {string}            network
+ *
+ * @returns     {Promise<EIP1193Provider>}
+ */
+export async function signerExtender(
+    provider: EIP1193Provider,
+    config: HardhatConfig,
+    network: string
+): Promise<EIP1193Provider> {
+    const signer = config.networks[network]?.signer;
+    if (!signer) return provider;
+
+    return new SignerProvider(
+        provider,
+        await loadSigner(signer, network, provider)
+    );
+}
+
+/**
+ * Returns the relative path of the unsigned transactions file for a run on
+ * `network`.
+ *
+ * @function    unsignedPath
+ * @param       {string}    network
+ * @param       {number}    timestamp   The time of the run, in milliseconds.
+ * @returns     {string}
+ */
+export function unsignedPath(network: string, timestamp: number): string {
+    return `./deployment_data/${network}/${timestamp}_unsigned.json`;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @async
+ * @throws
+ * @function    rpc
+ * @param       {string}        url
+ * @param       {string}        method
+ * @param       {unknown[]}     params
+ * @returns     {Promise<unknown>}
+ */
+async function rpc(
+    url: string,
+    method: string,
+    params: unknown[]
+): Promise<unknown> {
+    const req = new FetchRequest(url);
+    req.setHeader("content-type", "application/json");
+    req.body = { jsonrpc: "2.0", id: 1, method, params };
+
+    const res = await req.send();
+    res.assertOk();
+
+    const body = res.bodyJson;
+    if (body.error) {
+        throw new Error(`External signer: ${body.error.message ?? "error"}`);
+    }
+
+    return body.result;
+}
+
+/**
+ * @function    fromRpc
+ * @param       {RpcTransaction}    tx
+ * @returns     {TransactionLike<string>}
+ */
+function fromRpc(tx: RpcTransaction): TransactionLike<string> {
+    const big = (v?: string) => (v === undefined ? undefined : BigInt(v));
+
+    return {
+        type: tx.maxFeePerGas ? 2 : tx.accessList ? 1 : 0,
+        to: tx.to ?? null,
+        data: tx.data ?? tx.input ?? "0x",
+        value: big(tx.value) ?? 0n,
+        gasLimit: big(tx.gas),
+        gasPrice: tx.maxFeePerGas ? undefined : big(tx.gasPrice),
+        maxFeePerGas: big(tx.maxFeePerGas),
+        maxPriorityFeePerGas: big(tx.maxPriorityFeePerGas),
+        nonce: Number(tx.nonce),
+        chainId: big(tx.chainId),
+        accessList: tx.accessList,
+    };
+}
+
+/**
+ * @function    toRpc
+ * @param       {TransactionLike<string>}   tx
+ * @param       {string}                    from
+ * @returns     {RpcTransaction}
+ */
+function toRpc(tx: TransactionLike<string>, from: string): RpcTransaction {
+    const hex = (v?: BigNumberish | null) =>
+        v === undefined || v === null ? undefined : toQuantity(v);
+
+    return {
+        from,
+        to: tx.to ?? undefined,
+        data: tx.data ?? "0x",
+        value: hex(tx.value),
+        gas: hex(tx.gasLimit),
+        gasPrice: hex(tx.gasPrice),
+        maxFeePerGas: hex(tx.maxFeePerGas),
+        maxPriorityFeePerGas: hex(tx.maxPriorityFeePerGas),
+        nonce: hex(tx.nonce),
+        chainId: hex(tx.chainId),
+        accessList: tx.accessList ?? undefined,
+    };
+}
+
+/**
+ * @throws
+ * @function    assertAddress
+ * @param       {string}    got
+ * @param       {string}    [expected]
+ */
+function assertAddress(got: string, expected?: string): void {
+    if (expected && !sameAddress(got, expected)) {
+        throw new Error(`Expected signer: ${expected}. Got signer: ${got}`);
+    }
+}
+
+/**
+ * @function    sameAddress
+ * @param       {string}    [a]
+ * @param       {string}    [b]
+ * @returns     {boolean}
+ */
+function sameAddress(a?: string, b?: string): boolean {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
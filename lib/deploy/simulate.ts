@@ -0,0 +1,198 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, network } from "hardhat";
+import { parseUnits } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { getReporter } from "./reporter";
+
+/* TYPES
+================================================== */
+/**
+ * -    `fork`:     Forks the chain at `forkURL` and runs on top of its state.
+ * -    `local`:    Runs on a fresh, empty chain.
+ */
+export type SimulationMode = "fork" | "local";
+
+/**
+ * -    `mode`:     See `SimulationMode`.
+ * -    `forkURL`:  The RPC URL to fork. Required if `mode` is `fork`.
+ * -    `deployer`: The address that will deploy on the real network. It is
+ *                  impersonated so that resulting addresses match. Defaults to
+ *                  the first Hardhat account.
+ * -    `fund`:     H1 given to the deployer on a `local` chain. Defaults to
+ *                  1,000,000 H1. On a fork the deployer's real balance is kept.
+ */
+export type SimulationOptions = {
+    readonly mode: SimulationMode;
+    readonly forkURL?: string;
+    readonly deployer?: string;
+    readonly fund?: bigint;
+};
+
+/**
+ * A transaction that was mined during a simulation.
+ */
+export type SimulatedTx = {
+    readonly hash: string;
+    readonly from: string;
+    readonly to: string;
+    readonly nonce: number;
+    readonly selector: string;
+    readonly gasUsed: bigint;
+    readonly cost: bigint;
+};
+
+/* SIMULATION
+================================================== */
+/**
+ * Prepares the in-process Hardhat network for a simulated deployment and
+ * returns the (impersonated) deployer.
+ *
+ * Nothing is broadcast to a real network: transactions sent through the
+ * returned signer are only mined by the in-process Hardhat network.
+ *
+ * If a `deployer` is supplied, a `simulation` event with its balance is sent
+ * to the active reporter (see `getReporter`).
+ *
+ * # Error
+ *
+ * Will throw an error if not running on the in-process `hardhat` network, or
+ * if `mode` is `fork` and no `forkURL` is supplied.
+ *
+ * @async
+ * @throws
+ * @function    startSimulation
+ *
+ * @param       {SimulationOptions}     opts
+ *
+ * @returns     {Promise<HardhatEthersSigner>}
+ */
+export async function startSimulation(
+    opts: SimulationOptions
+): Promise<HardhatEthersSigner> {
+    if (network.name !== "hardhat") {
+        const err = `Simulations must run on the in-process hardhat network. Got: ${network.name}`;
+        throw new Error(err);
+    }
+
+    if (opts.mode === "fork") {
+        if (!opts.forkURL) {
+            throw new Error("A fork URL is required to simulate on a fork.");
+        }
+
+        await network.provider.request({
+            method: "hardhat_reset",
+            params: [{ forking: { jsonRpcUrl: opts.forkURL } }],
+        });
+    } else {
+        await network.provider.request({ method: "hardhat_reset", params: [] });
+    }
+
+    if (!opts.deployer) {
+        const [deployer] = await ethers.getSigners();
+        return deployer;
+    }
+
+    await network.provider.request({
+        method: "hardhat_impersonateAccount",
+        params: [opts.deployer],
+    });
+
+    if (opts.mode === "local") {
+        const fund = opts.fund ?? parseUnits("1000000", 18);
+        await network.provider.request({
+            method: "hardhat_setBalance",
+            params: [opts.deployer, ethers.toQuantity(fund)],
+        });
+    }
+
+    const deployer = await ethers.getSigner(opts.deployer);
+
+    getReporter()({
+        event: "simulation",
+        mode: opts.mode,
+        deployer: deployer.address,
+        balance: await ethers.provider.getBalance(deployer.address),
+    });
+
+    return deployer;
+}
+
+/**
+ * Returns every transaction mined after block `fromBlock`, along with its gas
+ * used and H1 cost. Intended for use during a simulation, where the only
+ * transactions mined are the ones being simulated.
+ *
+ * If `from` is supplied, only the transactions sent by that address are
+ * returned. This allows it to be used against a live network.
+ *
+ * @async
+ * @function    minedSince
+ *
+ * @param       {number}    fromBlock
+ * @param       {string}    [from]
+ *
+ * @returns     {Promise<SimulatedTx[]>}
+ */
+export async function minedSince(
+    fromBlock: number,
+    from?: string
+): Promise<SimulatedTx[]> {
+    const out: SimulatedTx[] = [];
+    const latest = await ethers.provider.getBlockNumber();
+
+    for (let n = fromBlock + 1; n <= latest; ++n) {
+        const block = await ethers.provider.getBlock(n, true);
+
+        for (const t of block?.prefetchedTransactions ?? []) {
+            if (from && t.from.toLowerCase() !== from.toLowerCase()) continue;
+
+            const rec = await ethers.provider.getTransactionReceipt(t.hash);
+            const gasUsed = rec?.gasUsed ?? 0n;
+
+            out.push({
+                hash: t.hash,
+                from: t.from,
+                to: t.to ?? rec?.contractAddress ?? "",
+                nonce: t.nonce,
+                selector: t.to ? t.data.slice(0, 10) : "create",
+                gasUsed,
+                cost: gasUsed * (rec?.gasPrice ?? 0n),
+            });
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Parses the simulation mode from a string (e.g., an environment variable).
+ * An empty or missing value means no simulation.
+ *
+ * # Error
+ *
+ * Will throw an error if the value is not a valid `SimulationMode`.
+ *
+ * @throws
+ * @function    simulationMode
+ *
+ * @param       {string | undefined}    s
+ *
+ * @returns     {SimulationMode | undefined}
+ */
+export function simulationMode(
+    s: string | undefined
+): SimulationMode | undefined {
+    const v = s?.trim().toLowerCase();
+    if (!v) return undefined;
+
+    if (v === "fork" || v === "local") return v;
+
+    throw new Error(`Invalid simulation mode: ${s}. Expected fork or local.`);
+}
@@ -4,7 +4,11 @@ import { upgrades } from "hardhat";
 
 /* IMPORT TYPES
 ================================================== */
-import type { BaseContract, ContractFactory } from "ethers";
+import type {
+    BaseContract,
+    ContractFactory,
+    ContractTransactionResponse,
+} from "ethers";
 import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 /* UPGRADE PROXY
@@ -16,17 +20,23 @@ import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signer
  * Will throw an error if the upgrade is not successful. The calling code
  * must handle as desired.
  *
+ * If `call` is supplied, the function is called on the new implementation
+ * as part of the upgrade (via `upgradeToAndCall`), e.g., a `reinitializer`.
+ *
  * @async
  * @function    upgrade
  * @param       {string}                            deployedContractAddress
  * @param       {ContractFactory}                   newImpl
+ * @param       {HardhatEthersSigner}               [signer]
+ * @param       {{ fn: string, args: unknown[] }}   [call]
  * @returns     {Promise<T extends BaseContract>}   Promise that resolves to `T`
  * @throws
  */
 export async function upgrade<T extends BaseContract>(
     deployedContractAddress: string,
     newImpl: ContractFactory,
-    signer?: HardhatEthersSigner
+    signer?: HardhatEthersSigner,
+    call?: { readonly fn: string; readonly args: readonly unknown[] }
 ): Promise<T> {
     let f = newImpl;
 
@@ -36,7 +46,26 @@ export async function upgrade<T extends BaseContract>(
 
     const c = await upgrades.upgradeProxy(deployedContractAddress, f, {
         kind: "uups",
+        call: call ? { fn: call.fn, args: [...call.args] } : undefined,
     });
 
     return (await c.waitForDeployment()) as unknown as T;
 }
+
+/**
+ * Returns the transaction that upgraded a contract returned by `upgrade`.
+ *
+ * The upgrades plugin attaches the upgrade transaction to the returned
+ * instance as `deployTransaction`, so it is not available through
+ * `deploymentTransaction`.
+ *
+ * @function    upgradeTransaction
+ * @param       {BaseContract}  c
+ * @returns     {ContractTransactionResponse | undefined}
+ */
+export function upgradeTransaction(
+    c: BaseContract
+): ContractTransactionResponse | undefined {
+    return (c as { deployTransaction?: ContractTransactionResponse })
+        .deployTransaction;
+}
@@ -1,11 +1,32 @@
 /* IMPORT NODE MODULES
 ================================================== */
-import type {
+import { ethers, network } from "hardhat";
+import {
     BaseContract,
-    ContractTransactionResponse,
     ContractTransactionReceipt,
+    Interface,
+    type ContractRunner,
+    type ContractTransactionResponse,
+    type TransactionReceipt,
 } from "ethers";
 
+/* IMPORT TYPES
+================================================== */
+import type { Journal } from "./journal";
+import type { Ledger } from "./ledger";
+import type { FailEvent, Reporter, StepEvent } from "./reporter";
+import type { DecodedRevert } from "../revert";
+import type { RetryOptions } from "./retry";
+import type { DeployDefaults } from "../networks";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { getReporter } from "./reporter";
+import { TxError, waitWithRetry } from "./retry";
+import { minedSince } from "./simulate";
+import { decodeRevert, formatRevert, replayRevert } from "../revert";
+import { totalGas } from "../tx";
+
 /* TYPES
 ================================================== */
 export type DeploymentData<T> = {
@@ -16,6 +37,48 @@ export type DeploymentData<T> = {
     readonly contract: T;
 };
 
+/**
+ * Optional settings for `d` and `tx`.
+ *
+ * -    `journal`:  If supplied, steps already recorded in the journal are
+ *                  skipped and newly completed steps are recorded.
+ * -    `key`:      The key of the step in the journal. Defaults to the
+ *                  contract name / description.
+ * -    `runner`:   Attached to contracts that are restored from the journal.
+ *                  Defaults to the provider.
+ * -    `simulate`: Set when running against a simulated chain (see
+ *                  `lib/deploy/simulate.ts`). Every transaction the step sends
+ *                  is reported along with its gas and H1 cost.
+ * -    `reporter`: Receives the events of the step. Defaults to the result of
+ *                  `getReporter` (see `lib/deploy/reporter.ts`).
+ * -    `ledger`:   If supplied, the gas used and H1 spent by every transaction
+ *                  the step sends is recorded (see `lib/deploy/ledger.ts`).
+ * -    `retry`:    How `tx` handles a transaction that is not mined in time
+ *                  (see `lib/deploy/retry.ts`). Defaults to that of the
+ *                  network (see `deployDefaults`).
+ */
+export type WrapperOptions = {
+    readonly journal?: Journal;
+    readonly key?: string;
+    readonly runner?: ContractRunner;
+    readonly simulate?: boolean;
+    readonly reporter?: Reporter;
+    readonly ledger?: Ledger;
+    readonly retry?: RetryOptions;
+};
+
+type Sent = {
+    readonly txRes: ContractTransactionResponse;
+    readonly txRec: ContractTransactionReceipt | null;
+    readonly status: "mined" | "repriced";
+    readonly broadcasts: number;
+};
+
+type StepFields = Omit<
+    StepEvent,
+    "block" | "gasUsed" | "gasPrice" | "cost" | "confirmations"
+>;
+
 type Fn<T> = () => Promise<T>;
 type TxFn = () => Promise<ContractTransactionResponse>;
 
@@ -25,23 +88,50 @@ type TxFn = () => Promise<ContractTransactionResponse>;
  * Function that is a wrapper around any function that returns a type that
  * extends `BaseContract`.
  *
- * Useful for logging the results of a deployment to the console.
+ * Useful for reporting the results of a deployment (see `WrapperOptions`).
  * Returns a selection of data about the deployment.
  *
+ * If a `journal` is supplied and it records this deployment (and the address
+ * still has code), `f` is not called. The contract is instead re-attached at
+ * the recorded address.
+ *
  * @function   d
  *
- * @param      {string}    contractName
- * @param      {Fn}        f
+ * @param      {string}             contractName
+ * @param      {Fn}                 f
+ * @param      {WrapperOptions}     [opts]
  *
  * @returns    {DeploymentData}
  */
 export async function d<T extends BaseContract>(
     contractName: string,
-    f: Fn<T>
+    f: Fn<T>,
+    opts: WrapperOptions = {}
 ): Promise<DeploymentData<T>> {
-    console.log(`Deploying: ${contractName}\n`);
+    const key = opts.key ?? contractName;
+    const report = opts.reporter ?? getReporter();
+
+    const restored = await restoreDeployment<T>(contractName, key, opts);
+    if (restored) {
+        return restored;
+    }
 
-    const contract = await f();
+    report({
+        event: "start",
+        kind: "deploy",
+        desc: contractName,
+        simulate: !!opts.simulate,
+    });
+
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    let contract: T;
+    try {
+        contract = await f();
+    } catch (e) {
+        report(await failEvent("deploy", contractName, e));
+        throw e;
+    }
 
     const address = await contract.getAddress();
     let hash = "";
@@ -53,14 +143,37 @@ export async function d<T extends BaseContract>(
         nonce = t.nonce;
     }
 
-    console.table([
-        { attr: "Hash", val: hash },
-        { attr: "Address", val: address },
-        { attr: "Nonce", val: nonce },
-    ]);
+    if (opts.simulate) {
+        await reportSimulated("deploy", contractName, fromBlock, report);
+    }
+
+    if (opts.ledger && t) {
+        const txs = await minedSince(fromBlock, t.from);
+        await opts.ledger.record(key, "deploy", contractName, txs, address);
+    }
+
+    opts.journal?.record({
+        key,
+        kind: "deploy",
+        hash,
+        nonce,
+        address,
+        abi: contract.interface.formatJson(),
+    });
 
-    console.log("\nDeployment Completed\n");
-    console.log("========================================\n");
+    const rec = hash ? await ethers.provider.getTransactionReceipt(hash) : null;
+    report(
+        await stepEvent(rec, {
+            event: "complete",
+            kind: "deploy",
+            desc: contractName,
+            address,
+            hash,
+            nonce,
+            status: "mined",
+            broadcasts: 1,
+        })
+    );
 
     return { contractName, address, hash, nonce, contract };
 }
@@ -72,41 +185,385 @@ export async function d<T extends BaseContract>(
  * Function that is a wrapper around any function that returns a
  * `ContractTransactionResponse`.
  *
- * Useful for logging the results of a transaction to the console.
+ * Useful for reporting the results of a transaction (see `WrapperOptions`).
+ *
+ * If a `journal` is supplied and it records this transaction (and the
+ * transaction succeeded on-chain), `fn` is not called. The recorded receipt is
+ * returned instead.
+ *
+ * If `confs` is greater than zero and the transaction is not mined in time,
+ * it is rebroadcast at the same nonce with a higher fee (see `opts.retry`).
+ * If a rebroadcast is mined, the receipt's logs are not parsed.
+ *
+ * # Error
+ *
+ * Will throw a `TxError` if the transaction reverts, is replaced or cancelled,
+ * or is never mined. Any error thrown by `fn` is rethrown. In either case, a
+ * `fail` event is reported first, with the revert decoded if possible (see
+ * `lib/revert.ts`).
+ *
+ * @async
+ * @throws
  *
  * @function   tx
  *
- * @param      {string}     desc
- * @param      {Fn}         TxFn
- * @param      {number}     [confs=2]
+ * @param      {string}             desc
+ * @param      {Fn}                 TxFn
+ * @param      {number}             [confs]     Defaults to the network's (see `deployDefaults`).
+ * @param      {WrapperOptions}     [opts]
  *
  * @returns    {ContractTransactionReceipt | null}
  */
 export async function tx(
     desc: string,
     fn: TxFn,
-    confs: number = 2
+    confs?: number,
+    opts: WrapperOptions = {}
 ): Promise<ContractTransactionReceipt | null> {
-    console.log(`Executing Transaction: ${desc}\n`);
+    const key = opts.key ?? desc;
+    const report = opts.reporter ?? getReporter();
+    const defaults = deployDefaults();
 
-    const txRes = await fn();
-    const txRec = await txRes.wait(confs || 0);
-
-    if (txRec) {
-        console.table([
-            { attr: "Hash", val: txRec.hash },
-            { attr: "Nonce", val: txRes.nonce },
-            { attr: "Confs", val: await txRec.confirmations() },
-        ]);
-    } else {
-        console.table([
-            { attr: "Hash", val: txRes.hash },
-            { attr: "Nonce", val: txRes.nonce },
-        ]);
+    const restored = await restoreTx(desc, key, opts);
+    if (restored) {
+        return restored;
+    }
+
+    report({ event: "start", kind: "tx", desc, simulate: !!opts.simulate });
+
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    let sent: Sent;
+    try {
+        sent = await send(
+            desc,
+            fn,
+            confs ?? defaults.confirmations,
+            fromBlock,
+            opts.retry ?? defaults.retry,
+            report
+        );
+    } catch (e) {
+        report(await failEvent("tx", desc, e));
+        throw e;
+    }
+
+    const { txRes, txRec, status, broadcasts } = sent;
+
+    if (opts.simulate) {
+        await reportSimulated("tx", desc, fromBlock, report);
+    }
+
+    if (opts.ledger) {
+        const txs = await minedSince(fromBlock, txRes.from);
+        await opts.ledger.record(key, "tx", desc, txs);
     }
 
-    console.log("\nTransaction Completed \n");
-    console.log("========================================\n");
+    opts.journal?.record({
+        key,
+        kind: "tx",
+        hash: txRec?.hash ?? txRes.hash,
+        nonce: txRes.nonce,
+        address: txRes.to ?? "",
+    });
+
+    report(
+        await stepEvent(txRec, {
+            event: "complete",
+            kind: "tx",
+            desc,
+            address: txRes.to ?? "",
+            hash: txRes.hash,
+            nonce: txRes.nonce,
+            status,
+            broadcasts,
+        })
+    );
 
     return txRec;
 }
+
+/**
+ * Sends the transaction returned by `fn` and waits for `confs` confirmations,
+ * rebroadcasting it if required (see `waitWithRetry`).
+ *
+ * @async
+ * @throws
+ * @function    send
+ *
+ * @param       {string}        desc
+ * @param       {TxFn}          fn
+ * @param       {number}        confs
+ * @param       {number}        fromBlock
+ * @param       {RetryOptions}  [retry]
+ * @param       {Reporter}      report
+ *
+ * @returns     {Promise<Sent>}
+ */
+async function send(
+    desc: string,
+    fn: TxFn,
+    confs: number,
+    fromBlock: number,
+    retry: RetryOptions | undefined,
+    report: Reporter
+): Promise<Sent> {
+    const txRes = await fn();
+
+    if (confs === 0) {
+        const txRec = await txRes.wait(0);
+        return { txRes, txRec, status: "mined", broadcasts: 1 };
+    }
+
+    const res = await waitWithRetry(
+        txRes,
+        confs,
+        fromBlock,
+        retry,
+        function (next, prev, n) {
+            report({
+                event: "retry",
+                kind: "tx",
+                desc,
+                hash: next.hash,
+                replaces: prev.hash,
+                nonce: next.nonce,
+                broadcasts: n,
+            });
+        }
+    );
+
+    const txRec =
+        res.receipt instanceof ContractTransactionReceipt
+            ? res.receipt
+            : new ContractTransactionReceipt(
+                  new Interface([]),
+                  res.receipt.provider,
+                  res.receipt
+              );
+
+    return { txRes, txRec, status: res.status, broadcasts: res.broadcasts };
+}
+
+/* DEFAULTS
+================================================== */
+/**
+ * Returns the `DeployDefaults` of the current network, as set by its profile
+ * in `hardhat.config.ts` (see `lib/networks.ts`). Networks without a profile
+ * wait for two (2) confirmations.
+ *
+ * @function    deployDefaults
+ * @returns     {DeployDefaults}
+ */
+export function deployDefaults(): DeployDefaults {
+    return network.config.deploy ?? { confirmations: 2 };
+}
+
+/* SIMULATION
+================================================== */
+/**
+ * Reports every transaction mined since `fromBlock`, along with the total gas
+ * used and H1 spent.
+ *
+ * @async
+ * @function    reportSimulated
+ * @param       {"deploy" | "tx"}   kind
+ * @param       {string}            desc
+ * @param       {number}            fromBlock
+ * @param       {Reporter}          report
+ */
+async function reportSimulated(
+    kind: "deploy" | "tx",
+    desc: string,
+    fromBlock: number,
+    report: Reporter
+): Promise<void> {
+    const txs = await minedSince(fromBlock);
+
+    report({
+        event: "simulated",
+        kind,
+        desc,
+        txs,
+        gasUsed: txs.reduce((acc, t) => acc + t.gasUsed, 0n),
+        cost: txs.reduce((acc, t) => acc + t.cost, 0n),
+    });
+}
+
+/* JOURNAL
+================================================== */
+/**
+ * Returns the deployment recorded under `key` in the journal, re-attached to
+ * its address. Returns `undefined` if there is no such entry, or if the entry
+ * is stale (no code at the address), in which case the entry is removed.
+ *
+ * @async
+ * @function    restoreDeployment
+ *
+ * @param       {string}            contractName
+ * @param       {string}            key
+ * @param       {WrapperOptions}    opts
+ *
+ * @returns     {Promise<DeploymentData<T> | undefined>}
+ */
+async function restoreDeployment<T extends BaseContract>(
+    contractName: string,
+    key: string,
+    opts: WrapperOptions
+): Promise<DeploymentData<T> | undefined> {
+    const entry = opts.journal?.get(key);
+    if (!entry || entry.kind !== "deploy" || !entry.abi) {
+        return undefined;
+    }
+
+    const code = await ethers.provider.getCode(entry.address);
+    if (code === "0x") {
+        opts.journal?.remove(key);
+        return undefined;
+    }
+
+    const { address, hash, nonce, abi } = entry;
+    const runner = opts.runner ?? ethers.provider;
+    const contract = new BaseContract(address, abi, runner) as T;
+
+    const rec = hash ? await ethers.provider.getTransactionReceipt(hash) : null;
+    const report = opts.reporter ?? getReporter();
+    report(
+        await stepEvent(rec, {
+            event: "skip",
+            kind: "deploy",
+            desc: contractName,
+            address,
+            hash,
+            nonce,
+            status: "mined",
+            broadcasts: 0,
+        })
+    );
+
+    return { contractName, address, hash, nonce, contract };
+}
+
+/**
+ * Returns the receipt of the transaction recorded under `key` in the journal.
+ * Returns `undefined` if there is no such entry, or if the transaction cannot
+ * be found or did not succeed, in which case the entry is removed.
+ *
+ * @async
+ * @function    restoreTx
+ *
+ * @param       {string}            desc
+ * @param       {string}            key
+ * @param       {WrapperOptions}    opts
+ *
+ * @returns     {Promise<ContractTransactionReceipt | undefined>}
+ */
+async function restoreTx(
+    desc: string,
+    key: string,
+    opts: WrapperOptions
+): Promise<ContractTransactionReceipt | undefined> {
+    const entry = opts.journal?.get(key);
+    if (!entry || entry.kind !== "tx") {
+        return undefined;
+    }
+
+    const rec = await ethers.provider.getTransactionReceipt(entry.hash);
+    if (!rec || rec.status !== 1) {
+        opts.journal?.remove(key);
+        return undefined;
+    }
+
+    const report = opts.reporter ?? getReporter();
+    report(
+        await stepEvent(rec, {
+            event: "skip",
+            kind: "tx",
+            desc,
+            address: entry.address,
+            hash: entry.hash,
+            nonce: entry.nonce,
+            status: "mined",
+            broadcasts: 0,
+        })
+    );
+
+    return new ContractTransactionReceipt(new Interface([]), rec.provider, rec);
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Builds the `StepEvent` for a completed or skipped step. The block, gas and
+ * confirmations are read from the receipt, if available. `step.hash` is
+ * replaced by the hash of the receipt.
+ *
+ * @async
+ * @function    stepEvent
+ *
+ * @param       {TransactionReceipt | null}     rec
+ * @param       {StepFields}                    step
+ *
+ * @returns     {Promise<StepEvent>}
+ */
+async function stepEvent(
+    rec: TransactionReceipt | null,
+    step: StepFields
+): Promise<StepEvent> {
+    return {
+        ...step,
+        hash: rec?.hash ?? step.hash,
+        block: rec?.blockNumber ?? null,
+        gasUsed: rec?.gasUsed ?? 0n,
+        gasPrice: rec?.gasPrice ?? 0n,
+        cost: totalGas(rec),
+        confirmations: (await rec?.confirmations()) ?? 0,
+    };
+}
+
+/**
+ * Builds the `FailEvent` for a step that threw `e`. If the step reverted, the
+ * revert is decoded: from the error itself if the transaction was never sent
+ * (e.g., it failed gas estimation), or by replaying the transaction if it was
+ * mined.
+ *
+ * @async
+ * @function    failEvent
+ *
+ * @param       {"deploy" | "tx"}   kind
+ * @param       {string}            desc
+ * @param       {unknown}           e
+ *
+ * @returns     {Promise<FailEvent>}
+ */
+async function failEvent(
+    kind: "deploy" | "tx",
+    desc: string,
+    e: unknown
+): Promise<FailEvent> {
+    const sent = e instanceof TxError;
+
+    let revert: DecodedRevert | undefined;
+    try {
+        revert = sent
+            ? e.status === "reverted"
+                ? await replayRevert(e.hash)
+                : undefined
+            : await decodeRevert(e);
+    } catch {
+        // Decoding must not mask the original error.
+    }
+
+    const msg = e instanceof Error ? e.message : String(e);
+
+    return {
+        event: "fail",
+        kind,
+        desc,
+        status: sent ? e.status : revert ? "reverted" : "error",
+        hash: sent ? e.hash : "",
+        nonce: sent ? e.nonce : null,
+        message: revert ? formatRevert(revert) : msg,
+        revert,
+    };
+}
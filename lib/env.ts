@@ -1,5 +1,340 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { getAddress, isAddress } from "ethers";
+
+/* TYPES
+================================================== */
 type TransformFn<T> = (v: string) => T;
 
+/**
+ * A single environment variable within an `EnvSchema`.
+ *
+ * -    `key`:          The environment variable.
+ * -    `transform`:    Parses and validates the raw value. Throws an error,
+ *                      whose message is the reason, if the value is invalid.
+ * -    `optional`:     Whether the variable may be missing (or empty).
+ */
+export type EnvField<T> = {
+    readonly key: string;
+    readonly transform: TransformFn<T>;
+    readonly optional: boolean;
+};
+
+/**
+ * A declarative description of a set of environment variables, keyed by the
+ * name of the field in the resulting config.
+ */
+export type EnvSchema = Readonly<Record<string, EnvField<unknown>>>;
+
+/**
+ * The typed config described by an `EnvSchema`.
+ */
+export type EnvConfig<S extends EnvSchema> = {
+    readonly [K in keyof S]: S[K] extends EnvField<infer T> ? T : never;
+};
+
+/**
+ * -    `key`:      The environment variable.
+ * -    `reason`:   Why it was rejected, e.g., `missing`.
+ */
+export type EnvIssue = {
+    readonly key: string;
+    readonly reason: string;
+};
+
+/* ERRORS
+================================================== */
+/**
+ * Thrown by `parseEnv` when any environment variable is missing or invalid.
+ * `issues` lists every one of them, not only the first.
+ */
+export class EnvError extends Error {
+    public readonly issues: readonly EnvIssue[];
+
+    /**
+     * @constructor
+     * @param   {EnvIssue[]}    issues
+     */
+    constructor(issues: readonly EnvIssue[]) {
+        const lines = issues.map(i => `\t- ${i.key}: ${i.reason}`);
+
+        super(`Invalid environment:\n${lines.join("\n")}`);
+        this.name = "EnvError";
+        this.issues = issues;
+    }
+}
+
+/* SCHEMA
+================================================== */
+/**
+ * Declares a required environment variable.
+ *
+ * @function    required
+ *
+ * @param       {string}            key
+ * @param       {TransformFn<T>}    transform
+ *
+ * @returns     {EnvField<T>}
+ */
+export function required<T>(
+    key: string,
+    transform: TransformFn<T>
+): EnvField<T> {
+    return { key, transform, optional: false };
+}
+
+/**
+ * Declares an optional environment variable. It is `undefined` in the config
+ * if missing or empty.
+ *
+ * @function    optional
+ *
+ * @param       {string}            key
+ * @param       {TransformFn<T>}    transform
+ *
+ * @returns     {EnvField<T | undefined>}
+ */
+export function optional<T>(
+    key: string,
+    transform: TransformFn<T>
+): EnvField<T | undefined> {
+    return { key, transform, optional: true };
+}
+
+/**
+ * Reads and validates every variable in `schema` from `source` and returns
+ * the typed config, frozen.
+ *
+ * Values are trimmed. An empty value is treated as missing.
+ *
+ * # Error
+ *
+ * Will throw an `EnvError` listing every variable that is missing or invalid.
+ *
+ * @throws
+ * @function    parseEnv
+ *
+ * @param       {EnvSchema}     schema
+ * @param       {Record<string, string | undefined>}   [source]    Defaults to `process.env`.
+ *
+ * @returns     {EnvConfig<S>}
+ */
+export function parseEnv<S extends EnvSchema>(
+    schema: S,
+    source: Readonly<Record<string, string | undefined>> = process.env
+): EnvConfig<S> {
+    const out: Record<string, unknown> = {};
+    const issues: EnvIssue[] = [];
+
+    for (const [name, field] of Object.entries(schema)) {
+        const raw = source[field.key]?.trim();
+
+        if (!raw) {
+            if (!field.optional) {
+                issues.push({ key: field.key, reason: "missing" });
+            }
+
+            out[name] = undefined;
+            continue;
+        }
+
+        try {
+            out[name] = field.transform(raw);
+        } catch (e) {
+            const reason = e instanceof Error ? e.message : String(e);
+            issues.push({ key: field.key, reason });
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new EnvError(issues);
+    }
+
+    return Object.freeze(out) as EnvConfig<S>;
+}
+
+/* TRANSFORMERS
+================================================== */
+/**
+ * @function    asString
+ * @param       {string}    v
+ * @returns     {string}
+ */
+export function asString(v: string): string {
+    return v;
+}
+
+/**
+ * Parses an address and returns it checksummed.
+ *
+ * @throws
+ * @function    asAddress
+ * @param       {string}    v
+ * @returns     {string}
+ */
+export function asAddress(v: string): string {
+    if (!isAddress(v)) {
+        throw new Error(`invalid address "${v}"`);
+    }
+
+    return getAddress(v);
+}
+
+/**
+ * Parses a non-negative integer, in decimal or `0x` prefixed hex.
+ *
+ * @throws
+ * @function    asBigint
+ * @param       {string}    v
+ * @returns     {bigint}
+ */
+export function asBigint(v: string): bigint {
+    if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(v)) {
+        throw new Error(`invalid integer "${v}"`);
+    }
+
+    return BigInt(v);
+}
+
+/**
+ * Parses a non-negative integer that fits in a `number`.
+ *
+ * @throws
+ * @function    asInteger
+ * @param       {string}    v
+ * @returns     {number}
+ */
+export function asInteger(v: string): number {
+    const n = Number(v);
+
+    if (!/^\d+$/.test(v) || !Number.isSafeInteger(n)) {
+        throw new Error(`invalid integer "${v}"`);
+    }
+
+    return n;
+}
+
+/**
+ * Parses a positive, finite number, e.g., `1.2`.
+ *
+ * @throws
+ * @function    asPositiveNumber
+ * @param       {string}    v
+ * @returns     {number}
+ */
+export function asPositiveNumber(v: string): number {
+    const n = Number(v);
+
+    if (!Number.isFinite(n) || n <= 0) {
+        throw new Error(`invalid positive number "${v}"`);
+    }
+
+    return n;
+}
+
+/**
+ * Parses a chain ID: a positive integer.
+ *
+ * @throws
+ * @function    asChainID
+ * @param       {string}    v
+ * @returns     {bigint}
+ */
+export function asChainID(v: string): bigint {
+    let id: bigint;
+    try {
+        id = asBigint(v);
+    } catch {
+        throw new Error(`invalid chain ID "${v}"`);
+    }
+
+    if (id === 0n) {
+        throw new Error(`invalid chain ID "${v}"`);
+    }
+
+    return id;
+}
+
+/**
+ * Parses `true` or `false` (also `1`, `0`, `yes` and `no`), in any case.
+ *
+ * @throws
+ * @function    asBoolean
+ * @param       {string}    v
+ * @returns     {boolean}
+ */
+export function asBoolean(v: string): boolean {
+    const s = v.toLowerCase();
+
+    if (["true", "1", "yes"].includes(s)) return true;
+    if (["false", "0", "no"].includes(s)) return false;
+
+    throw new Error(`invalid boolean "${v}"`);
+}
+
+/**
+ * Parses a 32 byte private key, with or without the `0x` prefix. The value is
+ * never included in the error.
+ *
+ * @throws
+ * @function    asPrivateKey
+ * @param       {string}    v
+ * @returns     {string}    The key, `0x` prefixed.
+ */
+export function asPrivateKey(v: string): string {
+    const key = v.startsWith("0x") ? v : `0x${v}`;
+
+    if (!/^0x[0-9a-fA-F]{64}$/.test(key)) {
+        throw new Error("invalid private key");
+    }
+
+    return key;
+}
+
+/**
+ * Parses an `http(s)` or `ws(s)` URL.
+ *
+ * @throws
+ * @function    asURL
+ * @param       {string}    v
+ * @returns     {string}
+ */
+export function asURL(v: string): string {
+    let url: URL;
+    try {
+        url = new URL(v);
+    } catch {
+        throw new Error(`invalid URL "${v}"`);
+    }
+
+    if (!["http:", "https:", "ws:", "wss:"].includes(url.protocol)) {
+        throw new Error(`unsupported URL protocol "${url.protocol}"`);
+    }
+
+    return v;
+}
+
+/**
+ * Returns a transformer that only accepts one of `values`.
+ *
+ * @function    asOneOf
+ * @param       {T[]}   values
+ * @returns     {TransformFn<T>}
+ */
+export function asOneOf<const T extends string>(
+    values: readonly T[]
+): TransformFn<T> {
+    return function (v: string): T {
+        if (!values.includes(v as T)) {
+            throw new Error(`expected one of ${values.join(", ")}. Got "${v}"`);
+        }
+
+        return v as T;
+    };
+}
+
+/* LOOKUP
+================================================== */
 /**
  * Retrieves an environment variable by key. Will throw an error if not found.
  *
@@ -0,0 +1,341 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ErrorFragment, Interface, type ParamType } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { Artifacts, BuildInfo } from "hardhat/types";
+
+/* TYPES
+================================================== */
+/**
+ * A custom error declared in `contracts/`.
+ *
+ * -    `contract`: The contract that declares the error. For errors declared
+ *                  outside of a contract, the first contract whose ABI
+ *                  includes it.
+ * -    `source`:   The source file that declares the error.
+ * -    `scoped`:   Whether the error is declared within `contract`.
+ */
+export type CustomErrorDef = {
+    readonly contract: string;
+    readonly source: string;
+    readonly scoped: boolean;
+    readonly fragment: ErrorFragment;
+};
+
+/**
+ * -    `path`:     The path of the generated module.
+ * -    `count`:    The number of errors in the module.
+ * -    `written`:  False if the module was already up to date.
+ */
+export type ErrorModuleResult = {
+    readonly path: string;
+    readonly count: number;
+    readonly written: boolean;
+};
+
+type Node = {
+    readonly nodeType: string;
+    readonly [key: string]: unknown;
+};
+
+type Declared = {
+    readonly source: string;
+    readonly contract: string;
+};
+
+/* CONSTANTS
+================================================== */
+const SOURCE_DIR = "contracts/";
+
+/** The directory of the generated error module, relative to the root. */
+export const ERRORS_DIR = "error-types";
+
+/**
+ * The static part of the generated module. `CustomError` tags the name of an
+ * error with the types of its args, so that `errorArgs` can check them.
+ */
+const HEADER = `/* Autogenerated file. Do not edit manually. */
+/* Generated from the custom errors in \`contracts/\` by \`npx hardhat generate-errors\`, which runs on compile. */
+
+/**
+ * The name of a custom error, tagged with the types of its args.
+ */
+export type CustomError<
+    N extends string = string,
+    A extends readonly unknown[] = readonly unknown[],
+> = N & { readonly __args?: A };
+
+/**
+ * The types of the args of a \`CustomError\`.
+ */
+export type ErrorArgs<T> = T extends CustomError<string, infer A> ? A : never;
+
+/**
+ * Returns \`args\`, checked against the args of \`err\`. For use with
+ * \`withArgs\`, e.g.:
+ *
+ * \`\`\`typescript
+ * await expect(c.bid({ value }))
+ *     .to.be.revertedWithCustomError(c, E.Auction.BidTooLow)
+ *     .withArgs(...errorArgs(E.Auction.BidTooLow, bid, highestBid));
+ * \`\`\`
+ *
+ * @function    errorArgs
+ *
+ * @param       {CustomError}   _err
+ * @param       {ErrorArgs}     args
+ *
+ * @returns     {ErrorArgs}
+ */
+export function errorArgs<T extends CustomError>(
+    _err: T,
+    ...args: ErrorArgs<T>
+): ErrorArgs<T> {
+    return args;
+}
+`;
+
+/* LOAD
+================================================== */
+/**
+ * Returns every custom error declared in `contracts/`, in the order they are
+ * found in the project's build info. The contracts must be compiled first.
+ *
+ * @async
+ * @function    loadCustomErrors
+ *
+ * @param       {Artifacts}     artifacts
+ *
+ * @returns     {Promise<CustomErrorDef[]>}
+ */
+export async function loadCustomErrors(
+    artifacts: Artifacts
+): Promise<CustomErrorDef[]> {
+    const errors = new Map<string, CustomErrorDef>();
+
+    for (const p of await artifacts.getBuildInfoPaths()) {
+        const info = JSON.parse(fs.readFileSync(p, "utf8")) as BuildInfo;
+
+        for (const [selector, e] of customErrors(info)) {
+            if (!errors.has(selector)) errors.set(selector, e);
+        }
+    }
+
+    return [...errors.values()];
+}
+
+/**
+ * Returns every custom error declared in `contracts/` within `info`, keyed by
+ * selector.
+ *
+ * @function    customErrors
+ *
+ * @param       {BuildInfo}     info
+ *
+ * @returns     {Map<string, CustomErrorDef>}
+ */
+export function customErrors(info: BuildInfo): Map<string, CustomErrorDef> {
+    // Selector => where it is declared (contract is "" outside of one).
+    const declared = new Map<string, Declared>();
+
+    for (const [source, { ast }] of Object.entries(info.output.sources)) {
+        if (!source.startsWith(SOURCE_DIR)) continue;
+
+        for (const n of (ast as { nodes: Node[] }).nodes) {
+            if (n.nodeType === "ErrorDefinition") {
+                declared.set(`0x${n.errorSelector}`, { source, contract: "" });
+            }
+
+            if (n.nodeType !== "ContractDefinition") continue;
+
+            for (const m of n.nodes as Node[]) {
+                if (m.nodeType !== "ErrorDefinition") continue;
+
+                declared.set(`0x${m.errorSelector}`, {
+                    source,
+                    contract: n.name as string,
+                });
+            }
+        }
+    }
+
+    const out = new Map<string, CustomErrorDef>();
+
+    for (const [name, contracts] of Object.entries(info.output.contracts)) {
+        if (!name.startsWith(SOURCE_DIR)) continue;
+
+        for (const [contract, { abi }] of Object.entries(contracts)) {
+            for (const fragment of new Interface(abi).fragments) {
+                if (!ErrorFragment.isFragment(fragment)) continue;
+
+                const selector = fragment.selector;
+                const d = declared.get(selector);
+
+                if (!d || out.has(selector)) continue;
+
+                out.set(selector, {
+                    contract: d.contract || contract,
+                    source: d.source,
+                    scoped: d.contract !== "",
+                    fragment,
+                });
+            }
+        }
+    }
+
+    return out;
+}
+
+/* GENERATE
+================================================== */
+/**
+ * Renders the typed error module for `errors`.
+ *
+ * Errors are grouped by the prefix of their name, so that
+ * `Auction__BidTooLow` becomes `E.Auction.BidTooLow`. An error without a
+ * prefix is grouped under the contract (or file) that declares it.
+ *
+ * @function    renderErrorModule
+ *
+ * @param       {CustomErrorDef[]}  errors
+ *
+ * @returns     {string}
+ */
+export function renderErrorModule(errors: readonly CustomErrorDef[]): string {
+    const groups = new Map<string, Map<string, CustomErrorDef>>();
+
+    for (const e of errors) {
+        const [group, key] = groupOf(e);
+
+        const g = groups.get(group) ?? new Map<string, CustomErrorDef>();
+        if (!g.has(key)) g.set(key, e);
+
+        groups.set(group, g);
+    }
+
+    const lines: string[] = [HEADER, "export const E = {"];
+
+    for (const [group, g] of sortedEntries(groups)) {
+        lines.push(`    ${group}: {`);
+
+        for (const [key, { fragment, source }] of sortedEntries(g)) {
+            const name = JSON.stringify(fragment.name);
+            const args = fragment.inputs.map(argType).join(", ");
+
+            lines.push(
+                `        /** \`${fragment.format("full").replace(/^error /, "")}\`. See \`${source}\`. */`,
+                `        ${key}: ${name} as CustomError<${name}, [${args}]>,`
+            );
+        }
+
+        lines.push("    },");
+    }
+
+    lines.push("} as const;", "");
+
+    return lines.join("\n");
+}
+
+/**
+ * Generates the typed error module from the compiled contracts and writes it
+ * to `<dir>/index.ts`. The file is only written if it has changed.
+ *
+ * # Error
+ *
+ * Will throw an error if the build info cannot be read or the module cannot
+ * be written.
+ *
+ * @async
+ * @throws
+ * @function    generateErrorModule
+ *
+ * @param       {Artifacts}     artifacts
+ * @param       {string}        [dir]
+ *
+ * @returns     {Promise<ErrorModuleResult>}
+ */
+export async function generateErrorModule(
+    artifacts: Artifacts,
+    dir: string = ERRORS_DIR
+): Promise<ErrorModuleResult> {
+    const errors = await loadCustomErrors(artifacts);
+    const content = renderErrorModule(errors);
+    const p = path.join(dir, "index.ts");
+
+    const current = fs.existsSync(p) ? fs.readFileSync(p, "utf8") : "";
+    if (current === content) {
+        return { path: p, count: errors.length, written: false };
+    }
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(p, content, "utf8");
+
+    return { path: p, count: errors.length, written: true };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Returns the entries of `m`, sorted by key.
+ *
+ * @function    sortedEntries
+ * @param       {Map<string, V>}    m
+ * @returns     {[string, V][]}
+ */
+function sortedEntries<V>(m: ReadonlyMap<string, V>): [string, V][] {
+    return [...m].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Returns the group and key of an error within the generated module.
+ *
+ * @function    groupOf
+ * @param       {CustomErrorDef}    e
+ * @returns     {[string, string]}
+ */
+function groupOf(e: CustomErrorDef): [string, string] {
+    const name = e.fragment.name;
+    const i = name.indexOf("__");
+
+    if (i > 0) return [name.slice(0, i), name.slice(i + 2)];
+
+    const owner = e.scoped ? e.contract : path.basename(e.source, ".sol");
+    return [owner, name];
+}
+
+/**
+ * Returns the TypeScript type of an error arg as a named tuple member.
+ *
+ * @function    argType
+ * @param       {ParamType}     p
+ * @param       {number}        i
+ * @returns     {string}
+ */
+function argType(p: ParamType, i: number): string {
+    return `${p.name || `arg${i}`}: ${tsType(p)}`;
+}
+
+/**
+ * Returns the TypeScript type of a Solidity type, as accepted by `withArgs`.
+ *
+ * @function    tsType
+ * @param       {ParamType}     p
+ * @returns     {string}
+ */
+function tsType(p: ParamType): string {
+    if (p.isArray()) return `(${tsType(p.arrayChildren)})[]`;
+    if (p.isTuple()) return `[${p.components.map(tsType).join(", ")}]`;
+
+    if (p.baseType.startsWith("uint") || p.baseType.startsWith("int")) {
+        return "bigint | number";
+    }
+
+    if (p.baseType === "bool") return "boolean";
+
+    // address, string, bytes and bytesN.
+    return "string";
+}
@@ -0,0 +1,502 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts, ethers } from "hardhat";
+import { FunctionFragment, formatUnits, parseUnits } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    IFeeContract__factory,
+    IH1DevelopedApplication__factory,
+} from "@typechain";
+import { feeableSignatures } from "./fees";
+import { fnSelector } from "./fnSelector";
+
+/* TYPES
+================================================== */
+/**
+ * The USD fee of a single function in a fee schedule.
+ *
+ * -    `feeUSD`:   To 18 decimals, as passed to `setFees`.
+ */
+export type FeeScheduleEntry = {
+    readonly signature: string;
+    readonly selector: string;
+    readonly feeUSD: bigint;
+};
+
+/**
+ * The function fees of a contract, read from
+ * `fee-schedules/<contract>.json`:
+ *
+ * ```json
+ * {
+ *     "contract": "SimpleStorage",
+ *     "fees": {
+ *         "incrementCount()": "2",
+ *         "decrementCount()": "1.5"
+ *     }
+ * }
+ * ```
+ *
+ * Fees are in USD, as decimal strings. Entries keep the order of the file.
+ */
+export type FeeSchedule = {
+    readonly contract: string;
+    readonly filePath: string;
+    readonly entries: readonly FeeScheduleEntry[];
+};
+
+/**
+ * The minimum and maximum developer fees of a Fee Contract, in USD to 18
+ * decimals.
+ */
+export type FeeBounds = {
+    readonly min: bigint;
+    readonly max: bigint;
+};
+
+/**
+ * -    `signature`:    The signature, or `*` if the issue is with the file.
+ * -    `reason`:       Why it was rejected.
+ */
+export type FeeScheduleIssue = {
+    readonly signature: string;
+    readonly reason: string;
+};
+
+/**
+ * How the on-chain fee of a function compares to its fee in a schedule.
+ *
+ * -    `unchanged`:    The fees match.
+ * -    `changed`:      Both are set, but differ.
+ * -    `added`:        Only the schedule sets a fee.
+ * -    `removed`:      Only the contract sets a fee. Reconciling sets it to
+ *                      zero.
+ */
+export type FeeDiff = {
+    readonly signature: string;
+    readonly selector: string;
+    readonly onChain: bigint;
+    readonly scheduled: bigint | undefined;
+    readonly status: "unchanged" | "changed" | "added" | "removed";
+};
+
+/**
+ * The `setFees` call that reconciles a contract with its schedule.
+ *
+ * -    `to`:   The contract.
+ * -    `data`: The encoded call.
+ */
+export type SetFeesCall = {
+    readonly to: string;
+    readonly fnSigs: string[];
+    readonly fnFees: bigint[];
+    readonly data: string;
+};
+
+/* CONSTANTS
+================================================== */
+/** The directory that holds the fee schedules. */
+export const FEE_SCHEDULES_DIR = "fee-schedules";
+
+/* ERRORS
+================================================== */
+/**
+ * Thrown when a fee schedule is malformed or does not fit its contract.
+ * `issues` lists every problem, not only the first.
+ */
+export class FeeScheduleError extends Error {
+    public readonly issues: readonly FeeScheduleIssue[];
+
+    /**
+     * @constructor
+     * @param   {string}                filePath
+     * @param   {FeeScheduleIssue[]}    issues
+     */
+    constructor(filePath: string, issues: readonly FeeScheduleIssue[]) {
+        const lines = issues.map(i => `\t- ${i.signature}: ${i.reason}`);
+
+        super(`Invalid fee schedule ${filePath}:\n${lines.join("\n")}`);
+        this.name = "FeeScheduleError";
+        this.issues = issues;
+    }
+}
+
+/* LOAD
+================================================== */
+/**
+ * Returns the relative path of the fee schedule of `contract`.
+ *
+ * @function    feeSchedulePath
+ * @param       {string}    contract
+ * @returns     {string}
+ */
+export function feeSchedulePath(contract: string): string {
+    return `./${FEE_SCHEDULES_DIR}/${contract}.json`;
+}
+
+/**
+ * Reads and validates the fee schedule at `filePath`. Signatures are
+ * normalized, e.g., `bid(uint)` becomes `bid(uint256)`.
+ *
+ * Every function must be a state-changing function of the contract (see
+ * `validateFeeSchedule`). If `bounds` is given, every fee must also be within
+ * them.
+ *
+ * # Error
+ *
+ * Will throw a `FeeScheduleError` listing every problem with the file.
+ *
+ * @throws
+ * @function    loadFeeSchedule
+ *
+ * @param       {string}        filePath    The relative file path.
+ * @param       {FeeBounds}     [bounds]
+ *
+ * @returns     {FeeSchedule}
+ */
+export function loadFeeSchedule(
+    filePath: string,
+    bounds?: FeeBounds
+): FeeSchedule {
+    const p = path.resolve(process.cwd(), filePath);
+
+    if (!fs.existsSync(p)) {
+        throw new FeeScheduleError(filePath, [
+            { signature: "*", reason: "file not found" },
+        ]);
+    }
+
+    const json = JSON.parse(fs.readFileSync(p, "utf8"));
+    const issues: FeeScheduleIssue[] = [];
+
+    if (typeof json.contract !== "string" || !json.contract) {
+        issues.push({ signature: "*", reason: "missing contract" });
+    }
+
+    if (typeof json.fees !== "object" || json.fees === null) {
+        issues.push({ signature: "*", reason: "missing fees" });
+    }
+
+    const entries: FeeScheduleEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const [sig, fee] of Object.entries(json.fees ?? {})) {
+        let signature: string;
+        try {
+            signature = FunctionFragment.from(sig).format("sighash");
+        } catch {
+            issues.push({ signature: sig, reason: "invalid signature" });
+            continue;
+        }
+
+        if (seen.has(signature)) {
+            issues.push({ signature, reason: "listed more than once" });
+            continue;
+        }
+        seen.add(signature);
+
+        const feeUSD = parseFee(fee);
+        if (feeUSD === undefined) {
+            const reason = `invalid USD fee ${JSON.stringify(fee)}`;
+            issues.push({ signature, reason });
+            continue;
+        }
+
+        entries.push({ signature, selector: fnSelector(signature), feeUSD });
+    }
+
+    if (issues.length > 0) {
+        throw new FeeScheduleError(filePath, issues);
+    }
+
+    const schedule = { contract: json.contract, filePath, entries };
+    validateFeeSchedule(schedule, bounds);
+
+    return schedule;
+}
+
+/**
+ * Checks `schedule` against the ABI of its contract and, if given, `bounds`.
+ *
+ * # Error
+ *
+ * Will throw a `FeeScheduleError` if the contract is not compiled, if a
+ * function is not a state-changing function of the contract, or if a fee is
+ * out of bounds.
+ *
+ * @throws
+ * @function    validateFeeSchedule
+ *
+ * @param       {FeeSchedule}   schedule
+ * @param       {FeeBounds}     [bounds]
+ */
+export function validateFeeSchedule(
+    schedule: FeeSchedule,
+    bounds?: FeeBounds
+): void {
+    const { contract, filePath } = schedule;
+
+    let fns: Set<string>;
+    try {
+        fns = new Set(
+            feeableSignatures(artifacts.readArtifactSync(contract).abi)
+        );
+    } catch {
+        const reason = `${contract} is not compiled`;
+        throw new FeeScheduleError(filePath, [{ signature: "*", reason }]);
+    }
+
+    const issues: FeeScheduleIssue[] = [];
+    for (const e of schedule.entries) {
+        if (!fns.has(e.signature)) {
+            const reason = `not a state-changing function of ${contract}`;
+            issues.push({ signature: e.signature, reason });
+            continue;
+        }
+
+        const reason = boundsIssue(e.feeUSD, bounds);
+        if (reason) issues.push({ signature: e.signature, reason });
+    }
+
+    if (issues.length > 0) {
+        throw new FeeScheduleError(filePath, issues);
+    }
+}
+
+/**
+ * Returns the `fnSigs` and `fnFees` initializer args of `schedule`.
+ *
+ * @function    initializerFees
+ * @param       {FeeSchedule}   schedule
+ * @returns     {{ fnSigs: string[], fnFees: bigint[] }}
+ */
+export function initializerFees(schedule: FeeSchedule): {
+    fnSigs: string[];
+    fnFees: bigint[];
+} {
+    return {
+        fnSigs: schedule.entries.map(e => e.signature),
+        fnFees: schedule.entries.map(e => e.feeUSD),
+    };
+}
+
+/**
+ * Loads the fee schedule of `contract` (see `feeSchedulePath`) and returns its
+ * `fnSigs` and `fnFees` initializer args.
+ *
+ * # Error
+ *
+ * Will throw a `FeeScheduleError` if the schedule is invalid.
+ *
+ * @throws
+ * @function    scheduledFees
+ *
+ * @param       {string}        contract
+ * @param       {FeeBounds}     [bounds]
+ *
+ * @returns     {{ fnSigs: string[], fnFees: bigint[] }}
+ */
+export function scheduledFees(
+    contract: string,
+    bounds?: FeeBounds
+): { fnSigs: string[]; fnFees: bigint[] } {
+    return initializerFees(loadFeeSchedule(feeSchedulePath(contract), bounds));
+}
+
+/* ON-CHAIN
+================================================== */
+/**
+ * Returns the developer fee bounds of the Fee Contract used by the
+ * `H1DevelopedApplication` at `address`.
+ *
+ * @async
+ * @throws
+ * @function    feeBounds
+ * @param       {string}    address
+ * @returns     {Promise<FeeBounds>}
+ */
+export async function feeBounds(address: string): Promise<FeeBounds> {
+    const app = IH1DevelopedApplication__factory.connect(
+        address,
+        ethers.provider
+    );
+
+    return await feeContractBounds(await app.feeContract());
+}
+
+/**
+ * Returns the developer fee bounds of the Fee Contract at `feeContract`.
+ *
+ * @async
+ * @throws
+ * @function    feeContractBounds
+ * @param       {string}    feeContract
+ * @returns     {Promise<FeeBounds>}
+ */
+export async function feeContractBounds(
+    feeContract: string
+): Promise<FeeBounds> {
+    const fee = IFeeContract__factory.connect(feeContract, ethers.provider);
+
+    const [min, max] = await Promise.all([
+        fee.getMinDevFee(),
+        fee.getMaxDevFee(),
+    ]);
+
+    return { min, max };
+}
+
+/**
+ * Compares the fees of the contract at `address` with `schedule`. Every
+ * state-changing function of the contract is checked, so that fees set
+ * on-chain but missing from the schedule are reported as `removed`.
+ *
+ * @async
+ * @throws
+ * @function    diffFeeSchedule
+ *
+ * @param       {string}        address
+ * @param       {FeeSchedule}   schedule
+ *
+ * @returns     {Promise<FeeDiff[]>}
+ */
+export async function diffFeeSchedule(
+    address: string,
+    schedule: FeeSchedule
+): Promise<FeeDiff[]> {
+    const app = IH1DevelopedApplication__factory.connect(
+        address,
+        ethers.provider
+    );
+
+    const abi = (await artifacts.readArtifact(schedule.contract)).abi;
+    const scheduled = new Map(schedule.entries.map(e => [e.signature, e]));
+
+    const sigs = [
+        ...schedule.entries.map(e => e.signature),
+        ...feeableSignatures(abi).filter(s => !scheduled.has(s)),
+    ];
+
+    const out: FeeDiff[] = [];
+    for (const signature of sigs) {
+        const selector = fnSelector(signature);
+        const onChain = await app.getFnFeeUSD(selector);
+        const fee = scheduled.get(signature)?.feeUSD;
+
+        if (fee === undefined && onChain === 0n) continue;
+
+        out.push({
+            signature,
+            selector,
+            onChain,
+            scheduled: fee,
+            status: diffStatus(onChain, fee),
+        });
+    }
+
+    return out;
+}
+
+/**
+ * Returns the `setFees` call that reconciles the contract at `address` with
+ * its schedule, or `undefined` if they already match.
+ *
+ * # Error
+ *
+ * Will throw a `FeeScheduleError` if a `removed` fee cannot be set to zero
+ * because it is below `bounds.min`.
+ *
+ * @throws
+ * @function    reconcileFees
+ *
+ * @param       {string}        address
+ * @param       {FeeDiff[]}     diffs
+ * @param       {FeeBounds}     [bounds]
+ *
+ * @returns     {SetFeesCall | undefined}
+ */
+export function reconcileFees(
+    address: string,
+    diffs: readonly FeeDiff[],
+    bounds?: FeeBounds
+): SetFeesCall | undefined {
+    const changes = diffs.filter(d => d.status !== "unchanged");
+    if (changes.length === 0) return undefined;
+
+    const issues: FeeScheduleIssue[] = [];
+    for (const d of changes) {
+        const reason = boundsIssue(d.scheduled ?? 0n, bounds);
+        if (reason) issues.push({ signature: d.signature, reason });
+    }
+
+    if (issues.length > 0) {
+        throw new FeeScheduleError(address, issues);
+    }
+
+    const fnSigs = changes.map(d => d.signature);
+    const fnFees = changes.map(d => d.scheduled ?? 0n);
+    const data =
+        IH1DevelopedApplication__factory.createInterface().encodeFunctionData(
+            "setFees",
+            [fnSigs, fnFees]
+        );
+
+    return { to: address, fnSigs, fnFees, data };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Parses a USD fee written as a decimal string, e.g., `"1.5"`.
+ *
+ * @function    parseFee
+ * @param       {unknown}   fee
+ * @returns     {bigint | undefined}
+ */
+function parseFee(fee: unknown): bigint | undefined {
+    if (typeof fee !== "string" || !/^\d+(\.\d+)?$/.test(fee.trim())) {
+        return undefined;
+    }
+
+    try {
+        return parseUnits(fee.trim(), 18);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * @function    boundsIssue
+ * @param       {bigint}        fee
+ * @param       {FeeBounds}     [bounds]
+ * @returns     {string | undefined}
+ */
+function boundsIssue(fee: bigint, bounds?: FeeBounds): string | undefined {
+    if (!bounds) return undefined;
+
+    if (fee < bounds.min) {
+        return `$${formatUnits(fee, 18)} is below the minimum fee of $${formatUnits(bounds.min, 18)}`;
+    }
+
+    if (fee > bounds.max) {
+        return `$${formatUnits(fee, 18)} is above the maximum fee of $${formatUnits(bounds.max, 18)}`;
+    }
+
+    return undefined;
+}
+
+/**
+ * @function    diffStatus
+ * @param       {bigint}    onChain
+ * @param       {bigint}    [scheduled]
+ * @returns     {FeeDiff["status"]}
+ */
+function diffStatus(onChain: bigint, scheduled?: bigint): FeeDiff["status"] {
+    if (scheduled === undefined) return "removed";
+    if (onChain === scheduled) return "unchanged";
+    return onChain === 0n ? "added" : "changed";
+}
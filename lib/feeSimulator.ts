@@ -0,0 +1,469 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { FunctionFragment, getAddress } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    IFeeContract__factory,
+    IH1DevelopedApplication__factory,
+} from "@typechain";
+import { fnSelector } from "./fnSelector";
+
+/* TYPES
+================================================== */
+/**
+ * A distribution channel of the Fee Contract and its weight.
+ */
+export type FeeChannel = {
+    readonly address: string;
+    readonly weight: bigint;
+};
+
+/**
+ * The parameters of a Fee Contract and of the `H1DevelopedApplication` whose
+ * fees are simulated. Amounts are to 18 decimals.
+ *
+ * -    `assocShare`:           The share of each developer fee paid to the
+ *                              Fee Contract, e.g., `0.2e18` for 20%.
+ * -    `feeUSD`:               The application fee, in USD, that the network
+ *                              charges per transaction and pays into the Fee
+ *                              Contract. Zero to leave it out.
+ * -    `distributionEpoch`:    Seconds between distributions.
+ * -    `feeUpdateEpoch`:       Seconds between fee (oracle price) updates.
+ * -    `gracePeriod`:          Seconds after a fee update during which grace
+ *                              contracts pay the lower of the old and new fee.
+ * -    `graceContract`:        Whether the application is a grace contract.
+ *                              Every `H1DevelopedApplication` registers itself
+ *                              as one on initialization.
+ * -    `fnFees`:               The USD fee of each function of the
+ *                              application, by signature. Functions without a
+ *                              fee are charged the minimum fee.
+ */
+export type FeeModel = {
+    readonly assocShare: bigint;
+    readonly channels: readonly FeeChannel[];
+    readonly feeUSD: bigint;
+    readonly minDevFee: bigint;
+    readonly maxDevFee: bigint;
+    readonly distributionEpoch: number;
+    readonly feeUpdateEpoch: number;
+    readonly gracePeriod: number;
+    readonly graceContract: boolean;
+    readonly fnFees: Readonly<Record<string, bigint>>;
+};
+
+/**
+ * The number of calls to each function of the application per epoch, by
+ * signature.
+ */
+export type CallMix = Readonly<Record<string, number>>;
+
+/**
+ * A simulated call to the application.
+ *
+ * -    `at`:               Seconds since the start of the simulation.
+ * -    `devFee`:           The fee charged (`getFnFeeAdj`), in H1.
+ * -    `assocFee`:         The share of `devFee` paid to the Fee Contract.
+ * -    `collectorFee`:     The share of `devFee` paid to the dev fee
+ *                          collector.
+ * -    `applicationFee`:   The application fee (`getFee`), in H1.
+ */
+export type SimulatedCall = {
+    readonly epoch: number;
+    readonly at: number;
+    readonly signature: string;
+    readonly devFee: bigint;
+    readonly assocFee: bigint;
+    readonly collectorFee: bigint;
+    readonly applicationFee: bigint;
+};
+
+/**
+ * The payouts of a single epoch, in H1.
+ *
+ * -    `h1USD`:        The oracle's H1 value of one USD during the epoch.
+ * -    `distributedAt`: Seconds since the start of the simulation.
+ * -    `collector`:    Paid to the dev fee collector.
+ * -    `assocFees`:    The Association's share of the developer fees.
+ * -    `channels`:     Paid to each channel, in the order of the model.
+ * -    `remainder`:    Left in the Fee Contract by the rounding of the channel
+ *                      shares, carried into the next epoch.
+ */
+export type EpochPayout = {
+    readonly epoch: number;
+    readonly h1USD: bigint;
+    readonly distributedAt: number;
+    readonly calls: number;
+    readonly collector: bigint;
+    readonly assocFees: bigint;
+    readonly applicationFees: bigint;
+    readonly channels: readonly bigint[];
+    readonly remainder: bigint;
+};
+
+/**
+ * The result of `simulateFees`.
+ */
+export type FeeSimulation = {
+    readonly calls: readonly SimulatedCall[];
+    readonly epochs: readonly EpochPayout[];
+    readonly collector: bigint;
+    readonly channels: readonly bigint[];
+};
+
+/* CONSTANTS
+================================================== */
+const SCALE = 10n ** 18n;
+
+/* ARITHMETIC
+================================================== */
+/**
+ * Returns the fee, in H1, of a function with a USD fee of `fnFeeUSD`, as
+ * computed by `H1DevelopedApplication.getFnFeeAdj` for a caller that is not
+ * exempt.
+ *
+ * @function    fnFeeAdj
+ * @param       {bigint}    fnFeeUSD
+ * @param       {bigint}    h1USD       The H1 value of one USD.
+ * @param       {bigint}    minDevFee
+ * @param       {bigint}    maxDevFee
+ * @returns     {bigint}
+ */
+export function fnFeeAdj(
+    fnFeeUSD: bigint,
+    h1USD: bigint,
+    minDevFee: bigint,
+    maxDevFee: bigint
+): bigint {
+    let fee = fnFeeUSD;
+
+    if (fee < minDevFee) {
+        fee = minDevFee;
+    } else if (fee > maxDevFee) {
+        fee = maxDevFee;
+    }
+
+    if (fee === 0n) return fee;
+
+    return (fee * h1USD) / SCALE;
+}
+
+/**
+ * Splits a developer fee between the Fee Contract and the dev fee collector,
+ * as `H1DevelopedApplication._payFee` does.
+ *
+ * @function    splitFee
+ * @param       {bigint}    fee
+ * @param       {bigint}    assocShare
+ * @returns     {{ assoc: bigint, collector: bigint }}
+ */
+export function splitFee(
+    fee: bigint,
+    assocShare: bigint
+): { assoc: bigint; collector: bigint } {
+    const assoc = (fee * assocShare) / SCALE;
+    return { assoc, collector: fee - assoc };
+}
+
+/**
+ * Splits `amount` between `channels` by weight, as
+ * `FeeContract._distributeFees` does. The remainder of the rounding stays in
+ * the Fee Contract.
+ *
+ * @function    distribute
+ * @param       {bigint}        amount
+ * @param       {FeeChannel[]}  channels
+ * @returns     {{ shares: bigint[], remainder: bigint }}
+ */
+export function distribute(
+    amount: bigint,
+    channels: readonly FeeChannel[]
+): { shares: bigint[]; remainder: bigint } {
+    const total = channels.reduce((acc, c) => acc + c.weight, 0n);
+    const shares = channels.map(c => (amount * c.weight) / total);
+    const remainder = shares.reduce((acc, s) => acc - s, amount);
+
+    return { shares, remainder };
+}
+
+/* SIMULATION
+================================================== */
+/**
+ * Lays out the calls of `mix` over `epochs` epochs.
+ *
+ * An epoch lasts `distributionEpoch + 1` seconds, the soonest `distributeFees`
+ * may be called again, and ends with a distribution. The calls of an epoch
+ * are spaced evenly across it and the functions of the mix take turns.
+ *
+ * # Error
+ *
+ * Will throw an error if a count is not a non-negative integer or a
+ * signature is invalid.
+ *
+ * @throws
+ * @function    feeTimeline
+ * @param       {CallMix}   mix
+ * @param       {number}    epochs
+ * @param       {number}    distributionEpoch
+ * @returns     {{ epoch: number, at: number, signature: string }[]}
+ */
+export function feeTimeline(
+    mix: CallMix,
+    epochs: number,
+    distributionEpoch: number
+): { epoch: number; at: number; signature: string }[] {
+    const left = Object.entries(mix).map(([sig, n]) => {
+        if (!Number.isInteger(n) || n < 0) {
+            throw new Error(`Invalid call count for ${sig}: ${n}`);
+        }
+
+        return { signature: normalize(sig), n };
+    });
+
+    const order: string[] = [];
+    const rounds = Math.max(0, ...left.map(l => l.n));
+    for (let round = 0; round < rounds; ++round) {
+        for (const l of left) {
+            if (round < l.n) order.push(l.signature);
+        }
+    }
+
+    const length = distributionEpoch + 1;
+    const out: { epoch: number; at: number; signature: string }[] = [];
+
+    for (let epoch = 0; epoch < epochs; ++epoch) {
+        order.forEach((signature, k) => {
+            const at =
+                epoch * length +
+                Math.floor(((k + 1) * length) / (order.length + 1));
+            out.push({ epoch, at, signature });
+        });
+    }
+
+    return out;
+}
+
+/**
+ * Simulates the fees of an application and the distributions of its Fee
+ * Contract.
+ *
+ * The simulation starts when the Fee Contract is initialized (or has just
+ * distributed and updated its fee) with a balance of `balance`. `h1USD`
+ * holds the oracle's H1 value of one USD for each epoch, and so the number of
+ * epochs. The fee is updated, as by `FeeContract.updateFee`, by the first call
+ * after each fee update epoch, and each epoch ends with a distribution (see
+ * `feeTimeline`).
+ *
+ * # Error
+ *
+ * Will throw an error if `h1USD` is empty, or if the mix is invalid.
+ *
+ * @throws
+ * @function    simulateFees
+ * @param       {FeeModel}  model
+ * @param       {CallMix}   mix
+ * @param       {bigint[]}  h1USD
+ * @param       {bigint}    [balance]
+ * @returns     {FeeSimulation}
+ */
+export function simulateFees(
+    model: FeeModel,
+    mix: CallMix,
+    h1USD: readonly bigint[],
+    balance: bigint = 0n
+): FeeSimulation {
+    if (h1USD.length === 0) {
+        throw new Error("At least one epoch of prices is required");
+    }
+
+    const fnFees = new Map(
+        Object.entries(model.fnFees).map(([sig, fee]) => [normalize(sig), fee])
+    );
+    const timeline = feeTimeline(mix, h1USD.length, model.distributionEpoch);
+
+    // The state of the Fee Contract on initialization.
+    const fee = {
+        h1USD: h1USD[0],
+        h1USDPrev: 0n,
+        resetAt: model.feeUpdateEpoch,
+        graceUntil: 0,
+    };
+
+    const calls: SimulatedCall[] = [];
+    const epochs: EpochPayout[] = [];
+    const totals = model.channels.map(() => 0n);
+    let collectorTotal = 0n;
+
+    for (let epoch = 0; epoch < h1USD.length; ++epoch) {
+        const epochCalls = timeline.filter(c => c.epoch === epoch);
+        let collector = 0n;
+        let assocFees = 0n;
+        let applicationFees = 0n;
+
+        for (const { at, signature } of epochCalls) {
+            if (at > fee.resetAt) {
+                fee.h1USDPrev = fee.h1USD;
+                fee.h1USD = h1USD[epoch];
+                fee.resetAt = at + model.feeUpdateEpoch;
+                fee.graceUntil = at + model.gracePeriod;
+            }
+
+            const grace = model.graceContract && fee.graceUntil > at;
+            const rate = grace ? min(fee.h1USDPrev, fee.h1USD) : fee.h1USD;
+
+            const devFee = fnFeeAdj(
+                fnFees.get(signature) ?? 0n,
+                rate,
+                model.minDevFee,
+                model.maxDevFee
+            );
+            const split = splitFee(devFee, model.assocShare);
+            const applicationFee = (fee.h1USD * model.feeUSD) / SCALE;
+
+            collector += split.collector;
+            assocFees += split.assoc;
+            applicationFees += applicationFee;
+
+            calls.push({
+                epoch,
+                at,
+                signature,
+                devFee,
+                assocFee: split.assoc,
+                collectorFee: split.collector,
+                applicationFee,
+            });
+        }
+
+        balance += assocFees + applicationFees;
+
+        const { shares, remainder } =
+            model.channels.length > 0
+                ? distribute(balance, model.channels)
+                : { shares: [], remainder: balance };
+
+        shares.forEach((s, i) => (totals[i] += s));
+        collectorTotal += collector;
+        balance = remainder;
+
+        epochs.push({
+            epoch,
+            h1USD: h1USD[epoch],
+            distributedAt: (epoch + 1) * (model.distributionEpoch + 1),
+            calls: epochCalls.length,
+            collector,
+            assocFees,
+            applicationFees,
+            channels: shares,
+            remainder,
+        });
+    }
+
+    return { calls, epochs, collector: collectorTotal, channels: totals };
+}
+
+/* ON-CHAIN
+================================================== */
+/**
+ * Reads the `FeeModel` of the `H1DevelopedApplication` at `address` and its
+ * Fee Contract, with the fees of `signatures`.
+ *
+ * # Error
+ *
+ * Will throw an error if `address` is not an `H1DevelopedApplication` or if
+ * a signature is invalid.
+ *
+ * @async
+ * @throws
+ * @function    readFeeModel
+ * @param       {string}    address
+ * @param       {string[]}  signatures
+ * @returns     {Promise<FeeModel>}
+ */
+export async function readFeeModel(
+    address: string,
+    signatures: readonly string[]
+): Promise<FeeModel> {
+    const app = IH1DevelopedApplication__factory.connect(
+        address,
+        ethers.provider
+    );
+
+    let feeContract: string;
+    try {
+        feeContract = await app.feeContract();
+    } catch {
+        throw new Error(`${address} is not an H1DevelopedApplication`);
+    }
+
+    const fee = IFeeContract__factory.connect(feeContract, ethers.provider);
+
+    const [
+        assocShare,
+        addresses,
+        weights,
+        feeUSD,
+        minDevFee,
+        maxDevFee,
+        distributionEpoch,
+        feeUpdateEpoch,
+        gracePeriod,
+        graceContract,
+    ] = await Promise.all([
+        fee.getAssocShare(),
+        fee.getChannels(),
+        fee.getWeights(),
+        fee.getFeeUSD(),
+        fee.getMinDevFee(),
+        fee.getMaxDevFee(),
+        fee.getDistributionEpoch(),
+        fee.getFeeUpdateEpoch(),
+        fee.getGracePeriod(),
+        fee.isGraceContract(address),
+    ]);
+
+    const fnFees: Record<string, bigint> = {};
+    for (const sig of signatures) {
+        const signature = normalize(sig);
+        fnFees[signature] = await app.getFnFeeUSD(fnSelector(signature));
+    }
+
+    return {
+        assocShare,
+        channels: addresses.map((a, i) => ({
+            address: getAddress(a),
+            weight: weights[i],
+        })),
+        feeUSD,
+        minDevFee,
+        maxDevFee,
+        distributionEpoch: Number(distributionEpoch),
+        feeUpdateEpoch: Number(feeUpdateEpoch),
+        gracePeriod: Number(gracePeriod),
+        graceContract,
+        fnFees,
+    };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    normalize
+ * @param       {string}    signature
+ * @returns     {string}
+ */
+function normalize(signature: string): string {
+    return FunctionFragment.from(signature).format("sighash");
+}
+
+/**
+ * @function    min
+ * @param       {bigint}    a
+ * @param       {bigint}    b
+ * @returns     {bigint}
+ */
+function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+}
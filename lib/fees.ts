@@ -0,0 +1,201 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts, ethers } from "hardhat";
+import { FunctionFragment, Interface, getAddress } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { InterfaceAbi } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    IFeeContract__factory,
+    IH1DevelopedApplication__factory,
+} from "@typechain";
+import { fnSelector } from "./fnSelector";
+
+/* TYPES
+================================================== */
+/**
+ * The exemptions of the Fee Contract, as checked by `isExempt`.
+ *
+ * -    `contract`: The whole contract is exempt.
+ * -    `eoa`:      The caller is exempt on every contract.
+ * -    `caller`:   The caller is exempt on this contract.
+ * -    `function`: The function is exempt on this contract.
+ */
+export type Exemption = "contract" | "eoa" | "caller" | "function";
+
+/**
+ * The fee of a single function for a given caller.
+ *
+ * -    `feeUSD`:       The fee set by the developer (`getFnFeeUSD`), in USD to
+ *                      18 decimals.
+ * -    `feeAdj`:       The fee the caller is charged (`getFnFeeAdj`), in H1.
+ *                      Bounded by the Fee Contract's minimum and maximum fees,
+ *                      and zero if exempt.
+ * -    `exempt`:       Whether `FeeContract.isExempt` applies to the caller.
+ * -    `exemptions`:   Every exemption that applies.
+ */
+export type FnFee = {
+    readonly signature: string;
+    readonly selector: string;
+    readonly feeUSD: bigint;
+    readonly feeAdj: bigint;
+    readonly exempt: boolean;
+    readonly exemptions: readonly Exemption[];
+};
+
+/**
+ * The fees of a contract for a given caller.
+ *
+ * -    `h1USD`:    The USD price of one H1 that applies to the contract, to 18
+ *                  decimals. During a grace period, this is the lower of the
+ *                  previous and current oracle prices.
+ */
+export type FeeReport = {
+    readonly contract: string;
+    readonly feeContract: string;
+    readonly caller: string;
+    readonly h1USD: bigint;
+    readonly fns: readonly FnFee[];
+};
+
+/* FEES
+================================================== */
+/**
+ * Looks up the fees of `signatures` on the `H1DevelopedApplication` at
+ * `address`, as charged to `caller`.
+ *
+ * `getFnFeeAdj` depends on the caller, so it is called from `caller`. `h1USD`
+ * depends on whether the application is in a grace period, so it is called
+ * from `address`.
+ *
+ * # Error
+ *
+ * Will throw an error if `address` is not an `H1DevelopedApplication` or if
+ * a signature is invalid.
+ *
+ * @async
+ * @throws
+ * @function    inspectFees
+ *
+ * @param       {string}    address
+ * @param       {string[]}  signatures  e.g., `["incrementCount()"]`.
+ * @param       {string}    caller
+ *
+ * @returns     {Promise<FeeReport>}
+ */
+export async function inspectFees(
+    address: string,
+    signatures: readonly string[],
+    caller: string
+): Promise<FeeReport> {
+    const app = IH1DevelopedApplication__factory.connect(
+        address,
+        ethers.provider
+    );
+
+    let feeContract: string;
+    try {
+        feeContract = await app.feeContract();
+    } catch {
+        throw new Error(`${address} is not an H1DevelopedApplication`);
+    }
+
+    const fee = IFeeContract__factory.connect(feeContract, ethers.provider);
+    const h1USD = await fee.h1USD({ from: address });
+
+    const [contractExempt, eoaExempt, callerExempt] = await Promise.all([
+        fee.isExemptContract(address),
+        fee.isExemptEOA(caller),
+        fee.isExemptCaller(address, caller),
+    ]);
+
+    const fns: FnFee[] = [];
+    for (const sig of signatures) {
+        const signature = FunctionFragment.from(sig).format("sighash");
+        const selector = fnSelector(signature);
+
+        const [feeUSD, feeAdj, exempt, fnExempt] = await Promise.all([
+            app.getFnFeeUSD(selector),
+            app.getFnFeeAdj(selector, { from: caller }),
+            fee.isExempt(address, selector, caller),
+            fee.isExemptFunction(address, selector),
+        ]);
+
+        const exemptions: Exemption[] = [];
+        if (contractExempt) exemptions.push("contract");
+        if (eoaExempt) exemptions.push("eoa");
+        if (callerExempt) exemptions.push("caller");
+        if (fnExempt) exemptions.push("function");
+
+        fns.push({ signature, selector, feeUSD, feeAdj, exempt, exemptions });
+    }
+
+    return {
+        contract: getAddress(address),
+        feeContract,
+        caller: getAddress(caller),
+        h1USD,
+        fns,
+    };
+}
+
+/* ABI
+================================================== */
+/**
+ * Returns the signatures of the state-changing functions of `abi`. View and
+ * pure functions cannot be charged a fee, so are skipped.
+ *
+ * @function    feeableSignatures
+ * @param       {InterfaceAbi}  abi
+ * @returns     {string[]}
+ */
+export function feeableSignatures(abi: InterfaceAbi): string[] {
+    const out: string[] = [];
+
+    new Interface(abi).forEachFunction(f => {
+        if (!f.constant) out.push(f.format("sighash"));
+    });
+
+    return out.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Loads an ABI from `source`: either a JSON file holding an ABI or an
+ * artifact, or the name of a compiled contract.
+ *
+ * # Error
+ *
+ * Will throw an error if `source` is neither.
+ *
+ * @async
+ * @throws
+ * @function    loadAbi
+ * @param       {string}    source
+ * @returns     {Promise<InterfaceAbi>}
+ */
+export async function loadAbi(source: string): Promise<InterfaceAbi> {
+    const p = path.resolve(process.cwd(), source);
+
+    if (fs.existsSync(p)) {
+        const json = JSON.parse(fs.readFileSync(p, "utf8"));
+        const abi = Array.isArray(json) ? json : json.abi;
+
+        if (!Array.isArray(abi)) {
+            throw new Error(`No ABI found in ${source}`);
+        }
+
+        return abi;
+    }
+
+    if (!(await artifacts.artifactExists(source))) {
+        throw new Error(`${source} is neither a file nor a compiled contract`);
+    }
+
+    return (await artifacts.readArtifact(source)).abi;
+}
@@ -0,0 +1,363 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { getAddress } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { Signer, TransactionReceipt } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    INetworkGuardian__factory,
+    NetworkGuardianController__factory,
+} from "@typechain";
+
+/* TYPES
+================================================== */
+/**
+ * The action to run on the registered contracts. Pausing requires
+ * `NETWORK_GUARDIAN` on the controller, unpausing `DEFAULT_ADMIN_ROLE`.
+ */
+export type GuardianAction = "pause" | "unpause";
+
+/**
+ * A contract registered with the Network Guardian Controller. `paused` is
+ * undefined if `guardianPaused` could not be read.
+ */
+export type GuardianContract = {
+    readonly index: number;
+    readonly address: string;
+    readonly paused: boolean | undefined;
+};
+
+/**
+ * The contracts to act on: either a list of addresses, or a range of indexes
+ * (`start` inclusive, `end` exclusive) into the registered contracts.
+ */
+export type GuardianTarget =
+    | { readonly addresses: readonly string[] }
+    | { readonly start: number; readonly end: number };
+
+/**
+ * A call to the controller, as sent by `runGuardianAction`.
+ */
+export type GuardianCall = {
+    readonly method: string;
+    readonly args: readonly unknown[];
+    readonly addresses: readonly string[];
+};
+
+/**
+ * The event the controller emitted for a contract, as decoded from the
+ * receipt. `Paused` and `Unpaused` on success, `PauseFailed` and
+ * `UnpauseFailed` if the contract reverted and the call was not `safe`.
+ */
+export type GuardianEvent =
+    | "Paused"
+    | "Unpaused"
+    | "PauseFailed"
+    | "UnpauseFailed";
+
+/**
+ * The result of an action on a single contract.
+ *
+ * -    `event`:    Undefined if the controller emitted no event for it.
+ * -    `before`, `after`: Its `guardianPaused` state.
+ */
+export type GuardianResult = {
+    readonly address: string;
+    readonly event: GuardianEvent | undefined;
+    readonly before: boolean | undefined;
+    readonly after: boolean | undefined;
+};
+
+/**
+ * The result of `runGuardianAction`.
+ */
+export type GuardianRun = {
+    readonly action: GuardianAction;
+    readonly calls: readonly GuardianCall[];
+    readonly hashes: readonly string[];
+    readonly results: readonly GuardianResult[];
+};
+
+/* CONSTANTS
+================================================== */
+const ROLES: Readonly<Record<GuardianAction, string>> = {
+    pause: "NETWORK_GUARDIAN",
+    unpause: "DEFAULT_ADMIN_ROLE",
+};
+
+/* LIST
+================================================== */
+/**
+ * Lists the contracts registered with the Network Guardian Controller at
+ * `controller` and whether each is paused. Lists the `start` to `end` range
+ * only, if given.
+ *
+ * # Error
+ *
+ * Will throw an error if `controller` is not a Network Guardian Controller or
+ * if the range is invalid.
+ *
+ * @async
+ * @throws
+ * @function    listGuardianContracts
+ * @param       {string}    controller
+ * @param       {number}    [start]
+ * @param       {number}    [end]
+ * @returns     {Promise<GuardianContract[]>}
+ */
+export async function listGuardianContracts(
+    controller: string,
+    start?: number,
+    end?: number
+): Promise<GuardianContract[]> {
+    const c = NetworkGuardianController__factory.connect(
+        controller,
+        ethers.provider
+    );
+
+    let addresses: string[];
+    if (start === undefined && end === undefined) {
+        addresses = await c.registeredAddresses();
+    } else {
+        start ??= 0;
+        end ??= Number(await c.registeredCount());
+        addresses = await c.registeredAddressByRange(start, end);
+    }
+
+    const paused = await Promise.all(addresses.map(guardianPaused));
+
+    return addresses.map((a, i) => ({
+        index: (start ?? 0) + i,
+        address: getAddress(a),
+        paused: paused[i],
+    }));
+}
+
+/**
+ * Returns the addresses `target` refers to.
+ *
+ * # Error
+ *
+ * Will throw an error if an address is invalid or the range is invalid.
+ *
+ * @async
+ * @throws
+ * @function    guardianTargets
+ * @param       {string}            controller
+ * @param       {GuardianTarget}    target
+ * @returns     {Promise<string[]>}
+ */
+export async function guardianTargets(
+    controller: string,
+    target: GuardianTarget
+): Promise<string[]> {
+    if ("addresses" in target) {
+        return target.addresses.map(a => getAddress(a));
+    }
+
+    const c = NetworkGuardianController__factory.connect(
+        controller,
+        ethers.provider
+    );
+    const addresses = await c.registeredAddressByRange(
+        target.start,
+        target.end
+    );
+
+    return addresses.map(a => getAddress(a));
+}
+
+/* RUN
+================================================== */
+/**
+ * Returns the calls to the controller that run `action` on `target`: `pause`
+ * for a single address, `pauseMultiple` for several and `pauseRange` for a
+ * range (or their `unpause` counterparts). Each call acts on at most
+ * `maxIters` contracts, the controller's `MAX_ITERS`.
+ *
+ * @function    guardianCalls
+ * @param       {GuardianAction}    action
+ * @param       {GuardianTarget}    target
+ * @param       {string[]}          addresses   The addresses of `target`.
+ * @param       {boolean}           safe
+ * @param       {number}            maxIters
+ * @returns     {GuardianCall[]}
+ */
+export function guardianCalls(
+    action: GuardianAction,
+    target: GuardianTarget,
+    addresses: readonly string[],
+    safe: boolean,
+    maxIters: number
+): GuardianCall[] {
+    const calls: GuardianCall[] = [];
+
+    if ("addresses" in target) {
+        if (addresses.length === 1) {
+            return [{ method: action, args: [addresses[0], safe], addresses }];
+        }
+
+        for (let i = 0; i < addresses.length; i += maxIters) {
+            const chunk = addresses.slice(i, i + maxIters);
+            calls.push({
+                method: `${action}Multiple`,
+                args: [chunk, safe],
+                addresses: chunk,
+            });
+        }
+
+        return calls;
+    }
+
+    for (let s = target.start; s < target.end; s += maxIters) {
+        const e = Math.min(s + maxIters, target.end);
+        calls.push({
+            method: `${action}Range`,
+            args: [s, e, safe],
+            addresses: addresses.slice(s - target.start, e - target.start),
+        });
+    }
+
+    return calls;
+}
+
+/**
+ * Runs `action` on `target` through the Network Guardian Controller at
+ * `controller`, as `signer`, and decodes the result for each address.
+ *
+ * If `safe`, the controller reverts if any contract fails (e.g., is already
+ * paused). Otherwise it emits a `PauseFailed` or `UnpauseFailed` event for
+ * the contract and continues.
+ *
+ * # Error
+ *
+ * Will throw an error if `signer` lacks the role for `action`, or if a call
+ * reverts. Calls sent before the one that reverted are not undone.
+ *
+ * @async
+ * @throws
+ * @function    runGuardianAction
+ * @param       {string}            controller
+ * @param       {Signer}            signer
+ * @param       {GuardianAction}    action
+ * @param       {GuardianTarget}    target
+ * @param       {boolean}           safe
+ * @returns     {Promise<GuardianRun>}
+ */
+export async function runGuardianAction(
+    controller: string,
+    signer: Signer,
+    action: GuardianAction,
+    target: GuardianTarget,
+    safe: boolean
+): Promise<GuardianRun> {
+    const c = NetworkGuardianController__factory.connect(controller, signer);
+
+    const account = await signer.getAddress();
+    const role =
+        action === "pause"
+            ? await c.NETWORK_GUARDIAN()
+            : await c.DEFAULT_ADMIN_ROLE();
+
+    if (!(await c.hasRole(role, account))) {
+        throw new Error(`${account} is missing the role ${ROLES[action]}`);
+    }
+
+    const addresses = await guardianTargets(controller, target);
+    const before = await Promise.all(addresses.map(guardianPaused));
+
+    const calls = guardianCalls(
+        action,
+        target,
+        addresses,
+        safe,
+        Number(await c.MAX_ITERS())
+    );
+
+    const hashes: string[] = [];
+    const events: { address: string; event: GuardianEvent }[] = [];
+
+    for (const call of calls) {
+        const tx = await c.getFunction(call.method)(...call.args);
+        const receipt = await tx.wait();
+
+        hashes.push(tx.hash);
+        events.push(...decodeGuardianEvents(controller, receipt));
+    }
+
+    const after = await Promise.all(addresses.map(guardianPaused));
+
+    // Match each address to the next event emitted for it, in order.
+    const results = addresses.map((address, i) => {
+        const j = events.findIndex(e => e.address === address);
+        const event = j < 0 ? undefined : events.splice(j, 1)[0].event;
+
+        return { address, event, before: before[i], after: after[i] };
+    });
+
+    return { action, calls, hashes, results };
+}
+
+/**
+ * Decodes the `Paused`, `Unpaused`, `PauseFailed` and `UnpauseFailed` events
+ * emitted by `controller` in `receipt`, in order.
+ *
+ * @function    decodeGuardianEvents
+ * @param       {string}                        controller
+ * @param       {TransactionReceipt | null}     receipt
+ * @returns     {{ address: string, event: GuardianEvent }[]}
+ */
+export function decodeGuardianEvents(
+    controller: string,
+    receipt: TransactionReceipt | null
+): { address: string; event: GuardianEvent }[] {
+    const iface = NetworkGuardianController__factory.createInterface();
+    const out: { address: string; event: GuardianEvent }[] = [];
+
+    for (const log of receipt?.logs ?? []) {
+        if (getAddress(log.address) !== getAddress(controller)) continue;
+
+        const parsed = iface.parseLog(log);
+        if (!parsed) continue;
+
+        switch (parsed.name) {
+            case "Paused":
+            case "Unpaused":
+            case "PauseFailed":
+            case "UnpauseFailed":
+                out.push({
+                    address: getAddress(parsed.args[0]),
+                    event: parsed.name,
+                });
+        }
+    }
+
+    return out;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Returns whether the contract at `address` is paused, or undefined if it
+ * cannot be read.
+ *
+ * @async
+ * @function    guardianPaused
+ * @param       {string}    address
+ * @returns     {Promise<boolean | undefined>}
+ */
+async function guardianPaused(address: string): Promise<boolean | undefined> {
+    try {
+        return await INetworkGuardian__factory.connect(
+            address,
+            ethers.provider
+        ).guardianPaused();
+    } catch {
+        return undefined;
+    }
+}
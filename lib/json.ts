@@ -10,30 +10,39 @@ type Obj = Record<string, unknown>;
 /* WRITE
 ================================================== */
 /**
- *  Basic implementation of a JSON file writer. It will prepend the filename
- *  with the current timestamp to avoid clashes. Cannot be used to append data.
+ *  Basic implementation of a JSON file writer. By default, it will prepend the
+ *  filename with the current timestamp to avoid clashes. Pass `timestamp` as
+ *  false to write to `filePath` as-is (overwriting any existing file). Cannot
+ *  be used to append data.
  *
  *  If the directory does not exist, this function will create it.
  *
+ *  Any `bigint` values are written as decimal strings.
+ *
  *  @function   writeJSON
  *
  *  @param      {string}    filePath - The relative file path. Must end in ".json"
  *  @param      {Obj}       content -  The content to write.
+ *  @param      {boolean}   [timestamp = true] - Whether to prefix the filename.
  *
  *  @returns    {boolean}   True is success, false otherwise.
  */
-export function writeJSON(filePath: string, content: Obj): boolean {
+export function writeJSON(
+    filePath: string,
+    content: Obj,
+    timestamp: boolean = true
+): boolean {
     if (!filePath.endsWith(".json")) {
         return false;
     }
 
-    const t = Date.now();
-
     let p = path.join(process.cwd(), filePath);
-    const f = `${t}_${path.basename(p)}`;
     const dir = path.dirname(p);
 
-    p = path.join(dir, f);
+    if (timestamp) {
+        const f = `${Date.now()}_${path.basename(p)}`;
+        p = path.join(dir, f);
+    }
 
     try {
         const exists = fs.existsSync(dir);
@@ -41,7 +50,7 @@ export function writeJSON(filePath: string, content: Obj): boolean {
             fs.mkdirSync(dir, { recursive: true });
         }
 
-        const d = JSON.stringify(content, null, 4);
+        const d = JSON.stringify(content, bigintReplacer, 4);
         fs.writeFileSync(p, d, "utf8");
     } catch (e) {
         console.error(e);
@@ -50,3 +59,46 @@ export function writeJSON(filePath: string, content: Obj): boolean {
 
     return true;
 }
+
+/* READ
+================================================== */
+/**
+ *  Reads and parses the JSON file at `filePath`. Returns `undefined` if the
+ *  file does not exist.
+ *
+ *  # Errors
+ *
+ *  Will throw if the file exists but cannot be read or parsed.
+ *
+ *  @throws
+ *  @function   readJSON
+ *
+ *  @param      {string}    filePath - The relative file path.
+ *
+ *  @returns    {T | undefined}
+ */
+export function readJSON<T = Obj>(filePath: string): T | undefined {
+    const p = path.join(process.cwd(), filePath);
+
+    if (!fs.existsSync(p)) {
+        return undefined;
+    }
+
+    return JSON.parse(fs.readFileSync(p, "utf8")) as T;
+}
+
+/* HELPERS
+================================================== */
+/**
+ *  `JSON.stringify` replacer that converts `bigint` values to strings.
+ *
+ *  @function   bigintReplacer
+ *
+ *  @param      {string}    _key
+ *  @param      {unknown}   value
+ *
+ *  @returns    {unknown}
+ */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+    return typeof value === "bigint" ? value.toString() : value;
+}
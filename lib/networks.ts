@@ -0,0 +1,331 @@
+/* IMPORT TYPES
+================================================== */
+import type {
+    HardhatNetworkUserConfig,
+    HttpNetworkUserConfig,
+    NetworksUserConfig,
+} from "hardhat/types";
+import type { ConfigNetwork } from "./config";
+import type { EnvConfig, EnvIssue } from "./env";
+import type { RetryOptions } from "./deploy/retry";
+import type { SignerConfig } from "./deploy/signer";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { envPrefix } from "./config";
+import {
+    EnvError,
+    asAddress,
+    asBigint,
+    asChainID,
+    asInteger,
+    asOneOf,
+    asPositiveNumber,
+    asPrivateKey,
+    asString,
+    asURL,
+    optional,
+    parseEnv,
+    required,
+} from "./env";
+
+/* TYPES
+================================================== */
+/**
+ * The defaults that `d`, `tx` and `executePlan` use on a network when none
+ * are given (see `lib/deploy/wrapper.ts`).
+ *
+ * -    `confirmations`:    Confirmations to wait for after each step.
+ * -    `retry`:            How transactions that are not mined in time are
+ *                          rebroadcast.
+ */
+export type DeployDefaults = {
+    readonly confirmations: number;
+    readonly retry?: RetryOptions;
+};
+
+/**
+ * A remote network profile.
+ *
+ * -    `env`:      The network whose environment variables configure it.
+ * -    `deploy`:   Its `DeployDefaults`. `<PREFIX>_CONFIRMATIONS` overrides
+ *                  the confirmations.
+ */
+type Profile = {
+    readonly env: ConfigNetwork;
+    readonly deploy: DeployDefaults;
+};
+
+declare module "hardhat/types/config" {
+    interface HardhatNetworkUserConfig {
+        deploy?: DeployDefaults;
+        signer?: SignerConfig;
+    }
+
+    interface HttpNetworkUserConfig {
+        deploy?: DeployDefaults;
+        signer?: SignerConfig;
+    }
+
+    interface HardhatNetworkConfig {
+        deploy?: DeployDefaults;
+        signer?: SignerConfig;
+    }
+
+    interface HttpNetworkConfig {
+        deploy?: DeployDefaults;
+        signer?: SignerConfig;
+    }
+}
+
+/* CONSTANTS
+================================================== */
+/** The defaults on the in-process Hardhat network and `localhost`. */
+const LOCAL_DEFAULTS: DeployDefaults = {
+    confirmations: 1,
+    retry: { timeout: 30_000 },
+};
+
+/**
+ * The remote network profiles. Each is only defined if its RPC URL is set.
+ */
+const PROFILES = {
+    haven_testnet: {
+        env: "testnet",
+        deploy: { confirmations: 1, retry: { timeout: 60_000 } },
+    },
+    haven_mainnet: {
+        env: "mainnet",
+        deploy: { confirmations: 2, retry: { timeout: 3 * 60_000 } },
+    },
+} as const satisfies Record<string, Profile>;
+
+/* PROFILES
+================================================== */
+/**
+ * Builds the `networks` of the Hardhat config from the environment:
+ *
+ * -    `hardhat`:          The in-process network. If `FORK` is set to
+ *                          `testnet` or `mainnet`, it forks that network (at
+ *                          `FORK_BLOCK`, if set) and takes on its chain ID.
+ *                          If that network's signer is `offline`, the
+ *                          transactions of the fork are recorded unsigned.
+ * -    `localhost`:        A local node at `LOCAL_RPC`. Defaults to
+ *                          `http://127.0.0.1:8545`.
+ * -    `haven_testnet`:    Defined if `TESTNET_RPC` is set.
+ * -    `haven_mainnet`:    Defined if `MAINNET_RPC` is set.
+ *
+ * A remote network reads `<PREFIX>_RPC`, `<PREFIX>_CHAIN_ID` and, optionally:
+ *
+ * -    `<PREFIX>_SIGNER`:          How the deployer signs (see `SignerKind`
+ *                                  in `lib/deploy/signer.ts`). Defaults to
+ *                                  `key` if `<PREFIX>_DEPLOYER_KEY` is set.
+ *                                  Otherwise, the node's accounts are used.
+ * -    `<PREFIX>_DEPLOYER_KEY`:    The private key of the deployer (`key`).
+ * -    `<PREFIX>_KEYSTORE`:        The path of the keystore (`keystore`).
+ * -    `<PREFIX>_SIGNER_RPC`:      The URL of the external signer (`rpc`).
+ * -    `<PREFIX>_SIGNER_ADDRESS`:  The address of the deployer. Required by
+ *                                  `offline`.
+ * -    `<PREFIX>_CONFIRMATIONS`:   Overrides the default confirmations.
+ * -    `<PREFIX>_GAS_PRICE`:       A fixed gas price, in wei.
+ * -    `<PREFIX>_GAS_MULTIPLIER`:  Applied to every gas estimate.
+ *
+ * # Error
+ *
+ * Will throw an `EnvError` listing every missing or invalid variable of every
+ * profile that is in use.
+ *
+ * @throws
+ * @function    networkProfiles
+ *
+ * @param       {HardhatNetworkUserConfig}  hardhat     The base config of the `hardhat` network.
+ * @param       {Record<string, string | undefined>}   [source]    Defaults to `process.env`.
+ *
+ * @returns     {NetworksUserConfig}
+ */
+export function networkProfiles(
+    hardhat: HardhatNetworkUserConfig,
+    source: Readonly<Record<string, string | undefined>> = process.env
+): NetworksUserConfig {
+    const issues: EnvIssue[] = [];
+    const collect = <T>(fn: () => T): T | undefined => {
+        try {
+            return fn();
+        } catch (e) {
+            if (!(e instanceof EnvError)) throw e;
+            issues.push(...e.issues);
+            return undefined;
+        }
+    };
+
+    const local = collect(() =>
+        parseEnv(
+            {
+                rpc: optional("LOCAL_RPC", asURL),
+                fork: optional("FORK", asOneOf(["testnet", "mainnet"])),
+                forkBlock: optional("FORK_BLOCK", asInteger),
+            },
+            source
+        )
+    );
+
+    const networks: NetworksUserConfig = {
+        localhost: {
+            url: local?.rpc ?? "http://127.0.0.1:8545",
+            deploy: LOCAL_DEFAULTS,
+        },
+    };
+
+    let fork: HardhatNetworkUserConfig = {};
+
+    for (const [name, profile] of Object.entries(PROFILES)) {
+        const prefix = envPrefix(profile.env);
+        const forked = local?.fork === profile.env;
+
+        if (!source[`${prefix}_RPC`]?.trim() && !forked) continue;
+
+        const env = collect(() => parseEnv(profileSchema(prefix), source));
+        if (!env) continue;
+
+        const signer = collect(() => signerConfig(prefix, env));
+
+        if (forked) {
+            const block = local?.forkBlock;
+
+            fork = {
+                chainId: Number(env.chainID),
+                forking: {
+                    url: env.rpc,
+                    ...(block === undefined ? {} : { blockNumber: block }),
+                },
+                ...(signer?.kind === "offline" ? { signer } : {}),
+            };
+        }
+
+        networks[name] = httpNetwork(env, profile, signer);
+    }
+
+    if (issues.length > 0) {
+        throw new EnvError(issues);
+    }
+
+    networks.hardhat = { ...hardhat, ...fork, deploy: LOCAL_DEFAULTS };
+
+    return networks;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    profileSchema
+ * @param       {string}    prefix
+ * @returns     {EnvSchema}
+ */
+function profileSchema(prefix: string) {
+    return {
+        rpc: required(`${prefix}_RPC`, asURL),
+        chainID: required(`${prefix}_CHAIN_ID`, asChainID),
+        signer: optional(
+            `${prefix}_SIGNER`,
+            asOneOf(["key", "keystore", "rpc", "offline"])
+        ),
+        deployerKey: optional(`${prefix}_DEPLOYER_KEY`, asPrivateKey),
+        keystore: optional(`${prefix}_KEYSTORE`, asString),
+        signerRPC: optional(`${prefix}_SIGNER_RPC`, asURL),
+        signerAddress: optional(`${prefix}_SIGNER_ADDRESS`, asAddress),
+        confirmations: optional(`${prefix}_CONFIRMATIONS`, asInteger),
+        gasPrice: optional(`${prefix}_GAS_PRICE`, asBigint),
+        gasMultiplier: optional(`${prefix}_GAS_MULTIPLIER`, asPositiveNumber),
+    };
+}
+
+/**
+ * Returns the signer of a profile, or `undefined` if it signs with a raw key
+ * or the node's accounts.
+ *
+ * # Error
+ *
+ * Will throw an `EnvError` if a variable the signer needs is missing, or if
+ * a raw key is set alongside another signer.
+ *
+ * @throws
+ * @function    signerConfig
+ * @param       {string}        prefix
+ * @param       {EnvConfig}     env
+ * @returns     {SignerConfig | undefined}
+ */
+function signerConfig(
+    prefix: string,
+    env: EnvConfig<ReturnType<typeof profileSchema>>
+): SignerConfig | undefined {
+    const kind = env.signer ?? (env.deployerKey ? "key" : undefined);
+    const address = env.signerAddress;
+    const missing = (key: string): EnvIssue => ({
+        key: `${prefix}_${key}`,
+        reason: `missing (${prefix}_SIGNER is ${kind})`,
+    });
+
+    const issues: EnvIssue[] = [];
+
+    if (kind === "key" && !env.deployerKey) {
+        issues.push(missing("DEPLOYER_KEY"));
+    }
+
+    if (kind !== "key" && env.deployerKey) {
+        issues.push({
+            key: `${prefix}_DEPLOYER_KEY`,
+            reason: `must not be set (${prefix}_SIGNER is ${kind})`,
+        });
+    }
+
+    let signer: SignerConfig | undefined;
+
+    if (kind === "keystore") {
+        if (env.keystore) signer = { kind, path: env.keystore, address };
+        else issues.push(missing("KEYSTORE"));
+    }
+
+    if (kind === "rpc") {
+        if (env.signerRPC) signer = { kind, url: env.signerRPC, address };
+        else issues.push(missing("SIGNER_RPC"));
+    }
+
+    if (kind === "offline") {
+        if (address) signer = { kind, address };
+        else issues.push(missing("SIGNER_ADDRESS"));
+    }
+
+    if (issues.length > 0) {
+        throw new EnvError(issues);
+    }
+
+    return signer;
+}
+
+/**
+ * @function    httpNetwork
+ * @param       {EnvConfig}     env
+ * @param       {Profile}       profile
+ * @param       {SignerConfig}  [signer]
+ * @returns     {HttpNetworkUserConfig}
+ */
+function httpNetwork(
+    env: EnvConfig<ReturnType<typeof profileSchema>>,
+    profile: Profile,
+    signer?: SignerConfig
+): HttpNetworkUserConfig {
+    const key = env.deployerKey && !signer ? [env.deployerKey] : undefined;
+
+    return {
+        url: env.rpc,
+        chainId: Number(env.chainID),
+        accounts: key ?? "remote",
+        ...(signer ? { signer } : {}),
+        gasPrice: env.gasPrice === undefined ? "auto" : Number(env.gasPrice),
+        gasMultiplier: env.gasMultiplier ?? 1,
+        deploy: {
+            ...profile.deploy,
+            confirmations: env.confirmations ?? profile.deploy.confirmations,
+        },
+    };
+}
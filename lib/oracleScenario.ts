@@ -0,0 +1,418 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, network } from "hardhat";
+import { FunctionFragment, getAddress, parseUnits } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { Signer } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    FixedFeeOracle__factory,
+    IFeeContract__factory,
+    IH1DevelopedApplication__factory,
+} from "@typechain";
+import { fnSelector } from "./fnSelector";
+
+/* TYPES
+================================================== */
+/**
+ * A single price of a price series.
+ *
+ * -    `timestamp`:    Unix time, in seconds.
+ * -    `h1USD`:        The oracle value: the H1 value of one USD, to 18
+ *                      decimals.
+ */
+export type PricePoint = {
+    readonly timestamp: number;
+    readonly h1USD: bigint;
+};
+
+/**
+ * A problem with an entry of a price series. `entry` is the line of a CSV
+ * file or the position in a JSON file, from 1.
+ */
+export type PriceSeriesIssue = {
+    readonly entry: number;
+    readonly reason: string;
+};
+
+/**
+ * The fee of a function at a step of a scenario, in H1.
+ *
+ * -    `feeAdj`:           `getFnFeeAdj`, as charged to the caller.
+ * -    `min`, `max`:       The Fee Contract's minimum and maximum developer
+ *                          fees at the price the application pays.
+ * -    `exempt`:           Whether the caller is exempt, in which case the fee
+ *                          must be zero.
+ * -    `withinBounds`:     Whether `feeAdj` respects the above.
+ */
+export type ScenarioFnFee = {
+    readonly signature: string;
+    readonly selector: string;
+    readonly feeAdj: bigint;
+    readonly min: bigint;
+    readonly max: bigint;
+    readonly exempt: boolean;
+    readonly withinBounds: boolean;
+};
+
+/**
+ * A step of a scenario, recorded after the price was pushed to the oracle and
+ * the fee updated.
+ *
+ * -    `blockTimestamp`:   The chain time of the fee update.
+ * -    `h1USD`:            The price pushed to the oracle.
+ * -    `appH1USD`:         The price the application pays (`h1USD` as called
+ *                          by the application). Lower during the grace
+ *                          period if the price rose.
+ * -    `fee`:              The application fee (`getFee`), in H1.
+ */
+export type ScenarioStep = {
+    readonly timestamp: number;
+    readonly blockTimestamp: number;
+    readonly h1USD: bigint;
+    readonly appH1USD: bigint;
+    readonly fee: bigint;
+    readonly fns: readonly ScenarioFnFee[];
+};
+
+/**
+ * -    `operator`: Holds `OPERATOR_ROLE` on the oracle and sends the updates.
+ * -    `caller`:   The caller the fees are checked for. Defaults to the
+ *                  operator.
+ */
+export type ScenarioOptions = {
+    readonly address: string;
+    readonly signatures: readonly string[];
+    readonly series: readonly PricePoint[];
+    readonly operator: Signer;
+    readonly caller?: string;
+};
+
+/**
+ * The result of `runPriceScenario`. `violations` counts the function fees
+ * outside of their bounds across every step.
+ */
+export type PriceScenario = {
+    readonly contract: string;
+    readonly feeContract: string;
+    readonly oracle: string;
+    readonly caller: string;
+    readonly steps: readonly ScenarioStep[];
+    readonly violations: number;
+};
+
+/* CONSTANTS
+================================================== */
+const SCALE = 10n ** 18n;
+
+/* ERRORS
+================================================== */
+/**
+ * Thrown when a price series is malformed. `issues` lists every problem, not
+ * only the first.
+ */
+export class PriceSeriesError extends Error {
+    public readonly issues: readonly PriceSeriesIssue[];
+
+    /**
+     * @constructor
+     * @param   {string}                filePath
+     * @param   {PriceSeriesIssue[]}    issues
+     */
+    constructor(filePath: string, issues: readonly PriceSeriesIssue[]) {
+        const lines = issues.map(i => `\t- entry ${i.entry}: ${i.reason}`);
+
+        super(`Invalid price series ${filePath}:\n${lines.join("\n")}`);
+        this.name = "PriceSeriesError";
+        this.issues = issues;
+    }
+}
+
+/* LOAD
+================================================== */
+/**
+ * Loads a price series of timestamps to H1/USD oracle values.
+ *
+ * A `.csv` file holds a `timestamp,h1USD` pair per line, with an optional
+ * header. A `.json` file holds either an array of `{ timestamp, h1USD }` or an
+ * object of `timestamp: h1USD`. Timestamps are Unix seconds or ISO dates, and
+ * values are decimals, e.g., `"1.5"`. Timestamps must increase.
+ *
+ * # Error
+ *
+ * Will throw a `PriceSeriesError` if any entry is invalid, or an error if the
+ * file cannot be read.
+ *
+ * @throws
+ * @function    loadPriceSeries
+ * @param       {string}    filePath
+ * @returns     {PricePoint[]}
+ */
+export function loadPriceSeries(filePath: string): PricePoint[] {
+    const text = fs.readFileSync(path.resolve(process.cwd(), filePath), "utf8");
+
+    let raw: { entry: number; timestamp: unknown; h1USD: unknown }[];
+
+    if (filePath.endsWith(".csv")) {
+        raw = text
+            .split(/\r?\n/)
+            .map((line, i) => ({ entry: i + 1, cells: line.split(",") }))
+            .filter(l => l.cells.join("").trim() !== "")
+            .map(l => ({
+                entry: l.entry,
+                timestamp: l.cells[0]?.trim(),
+                h1USD: l.cells[1]?.trim(),
+            }));
+
+        // Skip a header.
+        if (raw.length > 0 && parseTime(raw[0].timestamp) === undefined) {
+            raw.shift();
+        }
+    } else if (filePath.endsWith(".json")) {
+        const json = JSON.parse(text);
+
+        raw = Array.isArray(json)
+            ? json.map((p, i) => ({ entry: i + 1, ...p }))
+            : Object.entries(json).map(([timestamp, h1USD], i) => ({
+                  entry: i + 1,
+                  timestamp,
+                  h1USD,
+              }));
+    } else {
+        throw new Error(
+            `Price series must be a .csv or .json file: ${filePath}`
+        );
+    }
+
+    const issues: PriceSeriesIssue[] = [];
+    const series: PricePoint[] = [];
+
+    for (const r of raw) {
+        const timestamp = parseTime(r.timestamp);
+        const h1USD = parsePrice(r.h1USD);
+
+        if (timestamp === undefined) {
+            issues.push({
+                entry: r.entry,
+                reason: `invalid timestamp ${r.timestamp}`,
+            });
+        }
+
+        if (h1USD === undefined) {
+            issues.push({ entry: r.entry, reason: `invalid price ${r.h1USD}` });
+        }
+
+        if (timestamp === undefined || h1USD === undefined) continue;
+
+        const prev = series[series.length - 1];
+        if (prev && timestamp <= prev.timestamp) {
+            issues.push({
+                entry: r.entry,
+                reason: "timestamp is not after the previous entry",
+            });
+        }
+
+        series.push({ timestamp, h1USD });
+    }
+
+    if (series.length === 0 && issues.length === 0) {
+        issues.push({ entry: 1, reason: "no prices" });
+    }
+
+    if (issues.length > 0) {
+        throw new PriceSeriesError(filePath, issues);
+    }
+
+    return series;
+}
+
+/* RUN
+================================================== */
+/**
+ * Replays a price series through the `FixedFeeOracle` of the Fee Contract of
+ * the `H1DevelopedApplication` at `opts.address`, and records the fees at each
+ * step.
+ *
+ * For each price, the oracle is updated, and the chain time is advanced to
+ * the same offset from the start as the price's from the first, or past the
+ * Fee Contract's next fee update (`nextResetTime`) if that is later. The fee
+ * is then updated, and the application fee and function fees recorded.
+ *
+ * Advancing the chain time requires the hardhat network or a local node.
+ *
+ * # Error
+ *
+ * Will throw an error if `opts.address` is not an `H1DevelopedApplication`,
+ * if a signature is invalid, or if a transaction fails, e.g., if the oracle is
+ * not a `FixedFeeOracle` or the operator lacks `OPERATOR_ROLE`.
+ *
+ * @async
+ * @throws
+ * @function    runPriceScenario
+ * @param       {ScenarioOptions}   opts
+ * @returns     {Promise<PriceScenario>}
+ */
+export async function runPriceScenario(
+    opts: ScenarioOptions
+): Promise<PriceScenario> {
+    const app = IH1DevelopedApplication__factory.connect(
+        opts.address,
+        ethers.provider
+    );
+
+    let feeContract: string;
+    try {
+        feeContract = await app.feeContract();
+    } catch {
+        throw new Error(`${opts.address} is not an H1DevelopedApplication`);
+    }
+
+    // Calls from other accounts need a contract without a signer.
+    const fee = IFeeContract__factory.connect(feeContract, ethers.provider);
+    const update = fee.connect(opts.operator);
+    const oracleAddress = await fee.getOracleAddress();
+    const oracle = FixedFeeOracle__factory.connect(
+        oracleAddress,
+        opts.operator
+    );
+
+    const caller = getAddress(
+        opts.caller ?? (await opts.operator.getAddress())
+    );
+    const fns = opts.signatures.map(sig => {
+        const signature = FunctionFragment.from(sig).format("sighash");
+        return { signature, selector: fnSelector(signature) };
+    });
+
+    const start = await latestTimestamp();
+    const steps: ScenarioStep[] = [];
+    let violations = 0;
+
+    for (const point of opts.series) {
+        await (await oracle.updateVal(point.h1USD)).wait();
+
+        const target = Math.max(
+            start + point.timestamp - opts.series[0].timestamp,
+            Number(await fee.nextResetTime()) + 1,
+            (await latestTimestamp()) + 1
+        );
+
+        await network.provider.request({
+            method: "evm_setNextBlockTimestamp",
+            params: [target],
+        });
+        await (await update.updateFee()).wait();
+
+        const [appH1USD, feeH1, minDevFee, maxDevFee] = await Promise.all([
+            fee.h1USD({ from: opts.address }),
+            fee.getFee({ from: caller }),
+            fee.getMinDevFee(),
+            fee.getMaxDevFee(),
+        ]);
+
+        const min = (minDevFee * appH1USD) / SCALE;
+        const max = (maxDevFee * appH1USD) / SCALE;
+        const stepFns: ScenarioFnFee[] = [];
+
+        for (const { signature, selector } of fns) {
+            const [feeAdj, exempt] = await Promise.all([
+                app.getFnFeeAdj(selector, { from: caller }),
+                fee.isExempt(opts.address, selector, caller),
+            ]);
+
+            const withinBounds = exempt
+                ? feeAdj === 0n
+                : feeAdj >= min && feeAdj <= max;
+
+            if (!withinBounds) ++violations;
+
+            stepFns.push({
+                signature,
+                selector,
+                feeAdj,
+                min,
+                max,
+                exempt,
+                withinBounds,
+            });
+        }
+
+        steps.push({
+            timestamp: point.timestamp,
+            blockTimestamp: target,
+            h1USD: point.h1USD,
+            appH1USD,
+            fee: feeH1,
+            fns: stepFns,
+        });
+    }
+
+    return {
+        contract: getAddress(opts.address),
+        feeContract,
+        oracle: oracleAddress,
+        caller,
+        steps,
+        violations,
+    };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @async
+ * @throws
+ * @function    latestTimestamp
+ * @returns     {Promise<number>}
+ */
+async function latestTimestamp(): Promise<number> {
+    const block = await ethers.provider.getBlock("latest");
+    if (!block) {
+        throw new Error("Could not fetch the latest block");
+    }
+
+    return block.timestamp;
+}
+
+/**
+ * Parses Unix seconds or an ISO date.
+ *
+ * @function    parseTime
+ * @param       {unknown}   v
+ * @returns     {number | undefined}
+ */
+function parseTime(v: unknown): number | undefined {
+    if (typeof v === "number") {
+        return Number.isInteger(v) && v >= 0 ? v : undefined;
+    }
+
+    if (typeof v !== "string" || v === "") return undefined;
+
+    if (/^\d+$/.test(v)) return Number(v);
+
+    const ms = Date.parse(v);
+    return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+/**
+ * Parses a positive decimal price to 18 decimals.
+ *
+ * @function    parsePrice
+ * @param       {unknown}   v
+ * @returns     {bigint | undefined}
+ */
+function parsePrice(v: unknown): bigint | undefined {
+    if (typeof v !== "string" && typeof v !== "number") return undefined;
+
+    const s = String(v);
+    if (!/^\d+(\.\d{1,18})?$/.test(s)) return undefined;
+
+    const p = parseUnits(s, 18);
+    return p > 0n ? p : undefined;
+}
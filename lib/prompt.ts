@@ -0,0 +1,68 @@
+/* IMPORT NODE MODULES
+================================================== */
+import * as readline from "readline/promises";
+import { Writable } from "stream";
+
+/* PROMPT
+================================================== */
+/**
+ * Asks the user a yes / no question on the terminal. Anything other than `y`
+ * or `yes` (case insensitive) is treated as no.
+ *
+ * @async
+ * @function    confirm
+ *
+ * @param       {string}    question
+ *
+ * @returns     {Promise<boolean>}
+ */
+export async function confirm(question: string): Promise<boolean> {
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+    });
+
+    try {
+        const answer = await rl.question(`${question} [y/N] `);
+        return /^y(es)?$/i.test(answer.trim());
+    } finally {
+        rl.close();
+    }
+}
+
+/**
+ * Asks the user for a secret, such as a passphrase, on the terminal. What is
+ * typed is not echoed.
+ *
+ * @async
+ * @function    secret
+ *
+ * @param       {string}    question
+ *
+ * @returns     {Promise<string>}
+ */
+export async function secret(question: string): Promise<string> {
+    let muted = false;
+
+    const output = new Writable({
+        write(chunk, encoding, cb) {
+            if (!muted) process.stdout.write(chunk, encoding);
+            cb();
+        },
+    });
+
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output,
+        terminal: true,
+    });
+
+    try {
+        process.stdout.write(`${question} `);
+        muted = true;
+        return await rl.question("");
+    } finally {
+        rl.close();
+        process.stdout.write("\n");
+    }
+}
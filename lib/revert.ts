@@ -0,0 +1,310 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts, ethers } from "hardhat";
+import { Interface } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { CustomErrorDef } from "./errors";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { loadCustomErrors } from "./errors";
+
+/* TYPES
+================================================== */
+/**
+ * A decoded revert.
+ *
+ * -    `contract`:     The contract that declares the error. For errors
+ *                      declared outside of a contract, the first contract
+ *                      whose ABI includes it. Empty for `Error(string)` and
+ *                      `Panic(uint256)`.
+ * -    `error`:        The error name, e.g., `Auction__BidTooLow`.
+ * -    `args`:         The decoded args, in order.
+ * -    `signature`:    E.g., `Auction__BidTooLow(uint256,uint256)`.
+ */
+export type DecodedRevert = {
+    readonly contract: string;
+    readonly error: string;
+    readonly args: readonly unknown[];
+    readonly signature: string;
+};
+
+/* CONSTANTS
+================================================== */
+/** `Error(string)` and `Panic(uint256)`, used by `require` and `assert`. */
+const BUILTIN = new Interface(["error Error(string)", "error Panic(uint256)"]);
+
+/** Keys under which ethers and Hardhat nest the cause of an error. */
+const NESTED = ["error", "info", "cause", "revert"];
+
+/* DECODER
+================================================== */
+/**
+ * Decodes revert data into the custom errors of every contract in
+ * `contracts/`, as well as `Error(string)` and `Panic(uint256)`.
+ *
+ * The contracts must be compiled first.
+ */
+export class RevertDecoder {
+    /* Vars
+    ======================================== */
+    private readonly _errors: Map<string, CustomErrorDef>;
+
+    /* Init
+    ======================================== */
+    /**
+     * Private constructor. Use `RevertDecoder.load` instead.
+     *
+     * @constructor
+     * @private
+     */
+    private constructor(errors: Map<string, CustomErrorDef>) {
+        this._errors = errors;
+    }
+
+    /**
+     * Builds a decoder from the compiled build info of the project.
+     *
+     * @public
+     * @static
+     * @async
+     *
+     * @method  load
+     *
+     * @returns {Promise<RevertDecoder>}
+     */
+    public static async load(): Promise<RevertDecoder> {
+        const errors = new Map<string, CustomErrorDef>();
+
+        for (const e of await loadCustomErrors(artifacts)) {
+            errors.set(e.fragment.selector, e);
+        }
+
+        return new RevertDecoder(errors);
+    }
+
+    /* Getters
+    ======================================== */
+    /**
+     * @method      size
+     * @returns     {number}    The number of known custom errors.
+     */
+    public get size(): number {
+        return this._errors.size;
+    }
+
+    /* Decode
+    ======================================== */
+    /**
+     * Decodes `data`. Returns `undefined` if it is empty, malformed or the
+     * selector is unknown.
+     *
+     * @method  decode
+     *
+     * @param   {string}    data    The revert data, as a hex string.
+     *
+     * @returns {DecodedRevert | undefined}
+     */
+    public decode(data: string): DecodedRevert | undefined {
+        if (!/^0x([0-9a-fA-F]{2}){4,}$/.test(data)) return undefined;
+
+        const selector = data.slice(0, 10).toLowerCase();
+
+        try {
+            const builtin = BUILTIN.parseError(data);
+            if (builtin) {
+                return {
+                    contract: "",
+                    error: builtin.name,
+                    args: builtin.args.toArray(true),
+                    signature: builtin.signature,
+                };
+            }
+        } catch {
+            // Not a builtin, or malformed.
+        }
+
+        const known = this._errors.get(selector);
+        if (!known) return undefined;
+
+        try {
+            const args = new Interface([known.fragment]).decodeErrorResult(
+                known.fragment,
+                data
+            );
+
+            return {
+                contract: known.contract,
+                error: known.fragment.name,
+                args: args.toArray(true),
+                signature: known.fragment.format("sighash"),
+            };
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/* UTILS
+================================================== */
+let cached: Promise<RevertDecoder> | undefined;
+
+/**
+ * Returns a `RevertDecoder` for the project. It is built once and reused.
+ *
+ * @async
+ * @function    revertDecoder
+ *
+ * @returns     {Promise<RevertDecoder>}
+ */
+export async function revertDecoder(): Promise<RevertDecoder> {
+    if (!cached) {
+        cached = RevertDecoder.load();
+    }
+
+    return await cached;
+}
+
+/**
+ * Returns the revert data carried by an error thrown by ethers or Hardhat, or
+ * `undefined` if there is none.
+ *
+ * @function    revertData
+ *
+ * @param       {unknown}   e
+ *
+ * @returns     {string | undefined}
+ */
+export function revertData(e: unknown): string | undefined {
+    const seen = new Set<unknown>();
+
+    const find = (v: unknown): string | undefined => {
+        if (typeof v !== "object" || v === null || seen.has(v)) {
+            return undefined;
+        }
+        seen.add(v);
+
+        const o = v as Record<string, unknown>;
+        if (typeof o.data === "string" && o.data.length >= 10) {
+            return o.data;
+        }
+
+        for (const k of NESTED) {
+            const found = find(o[k]);
+            if (found) return found;
+        }
+
+        return find(o.data);
+    };
+
+    return find(e);
+}
+
+/**
+ * Decodes the revert data carried by an error thrown by ethers or Hardhat.
+ * Returns `undefined` if there is no revert data, or it cannot be decoded.
+ *
+ * @async
+ * @function    decodeRevert
+ *
+ * @param       {unknown}   e
+ *
+ * @returns     {Promise<DecodedRevert | undefined>}
+ */
+export async function decodeRevert(
+    e: unknown
+): Promise<DecodedRevert | undefined> {
+    const data = revertData(e);
+    if (!data) return undefined;
+
+    return (await revertDecoder()).decode(data);
+}
+
+/**
+ * Decodes why a mined transaction reverted, by replaying it against the state
+ * of the block before the one it was mined in. Returns `undefined` if it did
+ * not revert, or the revert cannot be decoded.
+ *
+ * @async
+ * @function    replayRevert
+ *
+ * @param       {string}    hash
+ *
+ * @returns     {Promise<DecodedRevert | undefined>}
+ */
+export async function replayRevert(
+    hash: string
+): Promise<DecodedRevert | undefined> {
+    const [t, rec] = await Promise.all([
+        ethers.provider.getTransaction(hash),
+        ethers.provider.getTransactionReceipt(hash),
+    ]);
+
+    if (!t || !rec || rec.status !== 0) return undefined;
+
+    try {
+        await ethers.provider.call({
+            to: t.to,
+            from: t.from,
+            data: t.data,
+            value: t.value,
+            gasLimit: t.gasLimit,
+            blockTag: rec.blockNumber - 1,
+        });
+    } catch (e) {
+        return await decodeRevert(e);
+    }
+
+    return undefined;
+}
+
+/**
+ * Formats a decoded revert, e.g., `NFTAuction: Auction__BidTooLow(1, 2)`.
+ *
+ * @function    formatRevert
+ *
+ * @param       {DecodedRevert}     d
+ *
+ * @returns     {string}
+ */
+export function formatRevert(d: DecodedRevert): string {
+    const args = d.args.map(formatArg).join(", ");
+    const prefix = d.contract ? `${d.contract}: ` : "";
+
+    return `${prefix}${d.error}(${args})`;
+}
+
+/**
+ * Describes an error for display. If it carries revert data that can be
+ * decoded, the decoded revert is returned (see `formatRevert`). Otherwise,
+ * its message.
+ *
+ * @async
+ * @function    describeError
+ *
+ * @param       {unknown}   e
+ *
+ * @returns     {Promise<string>}
+ */
+export async function describeError(e: unknown): Promise<string> {
+    const decoded = await decodeRevert(e);
+    if (decoded) return formatRevert(decoded);
+
+    return e instanceof Error ? e.message : String(e);
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    formatArg
+ * @param       {unknown}   v
+ * @returns     {string}
+ */
+function formatArg(v: unknown): string {
+    if (typeof v === "string") return JSON.stringify(v);
+    if (Array.isArray(v)) return `[${v.map(formatArg).join(", ")}]`;
+
+    return String(v);
+}
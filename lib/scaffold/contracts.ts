@@ -0,0 +1,1184 @@
+/* IMPORT NODE MODULES
+================================================== */
+import path from "path";
+
+/* TYPES
+================================================== */
+/**
+ * An argument of a template's `initialize` function.
+ *
+ * -    `type`:     The Typescript type, as used in the `<Name>Args` type.
+ * -    `value`:    The value used in the generated test setup.
+ */
+export type TemplateArg = {
+    readonly name: string;
+    readonly type: string;
+    readonly value: string;
+};
+
+/**
+ * A contract template for the `haven-contract` task.
+ *
+ * -    `args`:     The args of the contract's `initialize` function, in order.
+ * -    `storesH1`: Set if the contract always passes the same `storesH1` value
+ *                  to `__H1DevelopedApplication_init`, rather than taking it
+ *                  as an arg.
+ * -    `tests`:    Extra `describe` blocks for the starter test, given the
+ *                  contract name and the name of its `TestDeployment` getter.
+ */
+export type Template = {
+    readonly description: string;
+    readonly args: readonly TemplateArg[];
+    readonly storesH1?: boolean;
+    readonly contract: (name: string, filePath: string) => string;
+    readonly tests?: (name: string, getter: string) => string;
+};
+
+/* CONSTANTS
+================================================== */
+const H1_DEVELOPED_APPLICATION =
+    "contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+
+const PROOF_OF_IDENTITY =
+    "contracts/vendor/proof-of-identity/interfaces/IProofOfIdentity.sol";
+
+const RECOVERABLE =
+    "contracts/vendor/utils/upgradeable/RecoverableUpgradeable.sol";
+
+const I_RECOVERABLE = "contracts/vendor/utils/interfaces/IRecoverable.sol";
+
+const NETWORK_GUARDIAN =
+    "contracts/vendor/network-guardian/NetworkGuardian.sol";
+
+const ADDRESS = "contracts/vendor/utils/Address.sol";
+
+const OZ = "@openzeppelin/contracts-upgradeable";
+
+/** The args shared by every template, as passed to `__H1DevelopedApplication_init`. */
+const H1_ARGS: readonly TemplateArg[] = [
+    { name: "feeContract", type: "string", value: "this._fee.address" },
+    {
+        name: "guardianController",
+        type: "string",
+        value: "this._guardianController.address",
+    },
+    { name: "association", type: "string", value: "this._associationAddress" },
+    { name: "developer", type: "string", value: "this._developerAddress" },
+    { name: "feeCollector", type: "string", value: "this._developerAddress" },
+    { name: "fnSigs", type: "string[]", value: "fnSigs" },
+    { name: "fnFees", type: "bigint[]", value: "fnFees" },
+];
+
+const STORES_H1_ARG: TemplateArg = {
+    name: "storesH1",
+    type: "boolean",
+    value: "false",
+};
+
+const H1_PARAMS = `     * @param feeContract           The Fee Contract address.
+     * @param guardianController    The Network Guardian Controller address.
+     * @param association           The Haven1 Association address.
+     * @param developer             The address of the contract's developer.
+     * @param feeCollector          The address of the developer's fee collector.
+     * @param fnSigs                Function signatures for which fees will be set.
+     * @param fnFees                Fees that will be set for their \`fnSigs\` counterparts.`;
+
+const H1_INIT_PARAMS = `        address feeContract,
+        address guardianController,
+        address association,
+        address developer,
+        address feeCollector,
+        string[] memory fnSigs,
+        uint256[] memory fnFees`;
+
+const CONSTRUCTOR = `    /* Constructor
+    ========================================*/
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }`;
+
+/* TEMPLATES
+================================================== */
+/**
+ * A bare `H1DevelopedApplication`.
+ *
+ * @function    defaultTemplate
+ * @param       {string}    name        The contract name.
+ * @param       {string}    filePath    The path the contract is written to.
+ * @returns     {string}
+ */
+function defaultTemplate(name: string, filePath: string): string {
+    const contract = `// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+${generateImportStatement(filePath, "H1DevelopedApplication", H1_DEVELOPED_APPLICATION)}
+
+/**
+ * @title ${name}
+ *
+ * @author <Your name here>
+ *
+ * @notice <Description here>
+ */
+contract ${name} is H1DevelopedApplication {
+    /* TYPE DECLARATIONS
+    ==================================================*/
+
+    /* STATE VARIABLES
+    ==================================================*/
+
+    /* EVENTS
+    ==================================================*/
+
+    /* ERRORS
+    ==================================================*/
+
+    /* FUNCTIONS
+    ==================================================*/
+${CONSTRUCTOR}
+
+    /* Initialize
+    ========================================*/
+
+    /**
+     * @notice Initializes the \`${name}\` contract.
+     *
+${H1_PARAMS}
+     * @param storesH1              Whether this contract stores native H1.
+     */
+    function initialize(
+${H1_INIT_PARAMS},
+        bool storesH1
+    ) external initializer {
+${h1Init("storesH1")}
+    }
+
+    /* External
+    ========================================*/
+
+    /* Public
+    ========================================*/
+
+    /* Internal
+    ========================================*/
+
+    /* Private
+    ========================================*/
+}
+
+`;
+
+    return contract;
+}
+
+/**
+ * Restricts access with the Proof of Identity contract, per the user-type and
+ * suspension checks in `NFTAuction`.
+ *
+ * @function    poiGatedTemplate
+ * @param       {string}    name        The contract name.
+ * @param       {string}    filePath    The path the contract is written to.
+ * @returns     {string}
+ */
+function poiGatedTemplate(name: string, filePath: string): string {
+    const contract = `// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+${generateImportStatement(filePath, "H1DevelopedApplication", H1_DEVELOPED_APPLICATION)}
+${generateImportStatement(filePath, "IProofOfIdentity", PROOF_OF_IDENTITY)}
+${generateImportStatement(filePath, "Address", ADDRESS)}
+
+/**
+ * @title ${name}
+ *
+ * @author <Your name here>
+ *
+ * @notice <Description here>
+ *
+ * @dev Access to functions with the \`onlyPermissioned\` modifier applied is
+ * restricted to accounts that hold a Proof of Identity NFT, are not suspended
+ * and are of one of the permitted user types.
+ */
+contract ${name} is H1DevelopedApplication {
+    /* TYPE DECLARATIONS
+    ==================================================*/
+    using Address for address;
+
+    /* STATE VARIABLES
+    ==================================================*/
+    /**
+     * @dev The Proof of Identity Contract.
+     */
+    IProofOfIdentity private _proofOfIdentity;
+
+    /**
+     * @dev The permitted user types, as a bitmask. For example, \`1\` permits
+     * retail users, \`2\` permits institutions and \`3\` permits both.
+     */
+    uint256 private _userTypes;
+
+    /* EVENTS
+    ==================================================*/
+    /**
+     * @notice Emitted when \`exampleFunction\` is called.
+     *
+     * @param account The account that called it.
+     */
+    event ExampleFunctionCalled(address indexed account);
+
+    /* ERRORS
+    ==================================================*/
+    /**
+     * @notice Raised when an account does not hold a Proof of Identity NFT.
+     */
+    error ${name}__NoIdentityNFT();
+
+    /**
+     * @notice Raised when an account is suspended.
+     */
+    error ${name}__Suspended();
+
+    /**
+     * @notice Raised when an account is not of a permitted user type.
+     *
+     * @param userType  The account's user type.
+     * @param required  The permitted user types.
+     */
+    error ${name}__InvalidUserType(uint256 userType, uint256 required);
+
+    /**
+     * @notice Raised when an account's attribute has expired.
+     *
+     * @param attribute The name of the attribute.
+     * @param expiry    The expiry of the attribute.
+     */
+    error ${name}__AttributeExpired(string attribute, uint256 expiry);
+
+    /* MODIFIERS
+    ==================================================*/
+    /**
+     * @dev Modifier to be used on any functions that require a user be
+     * permissioned per this contract's definition.
+     *
+     * Requirements:
+     * -    The account must have a Proof of Identity NFT.
+     * -    The account must not be suspended.
+     * -    The account is of the requisite user type.
+     */
+    modifier onlyPermissioned(address account) {
+        if (!_hasID(account)) {
+            revert ${name}__NoIdentityNFT();
+        }
+
+        if (_isSuspended(account)) {
+            revert ${name}__Suspended();
+        }
+
+        _assertValidUserType(account);
+        _;
+    }
+
+    /* FUNCTIONS
+    ==================================================*/
+${CONSTRUCTOR}
+
+    /* Initialize
+    ========================================*/
+
+    /**
+     * @notice Initializes the \`${name}\` contract.
+     *
+     * @param proofOfIdentity_      The Proof of Identity address.
+${H1_PARAMS}
+     * @param userTypes_            The permitted user types, as a bitmask.
+     * @param storesH1              Whether this contract stores native H1.
+     */
+    function initialize(
+        address proofOfIdentity_,
+${H1_INIT_PARAMS},
+        uint256 userTypes_,
+        bool storesH1
+    ) external initializer {
+        proofOfIdentity_.assertNotZero();
+
+${h1Init("storesH1")}
+
+        _proofOfIdentity = IProofOfIdentity(proofOfIdentity_);
+        _userTypes = userTypes_;
+    }
+
+    /* External
+    ========================================*/
+    /**
+     * @notice An example of a function restricted to permissioned accounts.
+     *
+     * @dev Requirements:
+     * -    Only callable when the contract is not paused.
+     * -    The caller must be permissioned (see \`onlyPermissioned\`).
+     * -    Must provide the developer fee, if any.
+     *
+     * Emits an \`ExampleFunctionCalled\` event.
+     */
+    function exampleFunction()
+        external
+        payable
+        whenNotGuardianPaused
+        onlyPermissioned(msg.sender)
+        developerFee(false, true)
+    {
+        emit ExampleFunctionCalled(msg.sender);
+    }
+
+    /* Public
+    ========================================*/
+    /**
+     * @notice Returns the address of the Proof of Identity Contract.
+     *
+     * @return The address of the Proof of Identity Contract.
+     */
+    function proofOfIdentity() public view returns (address) {
+        return address(_proofOfIdentity);
+    }
+
+    /**
+     * @notice Returns the permitted user types, as a bitmask.
+     *
+     * @return The permitted user types.
+     */
+    function userTypes() public view returns (uint256) {
+        return _userTypes;
+    }
+
+    /* Internal
+    ========================================*/
+
+    /* Private
+    ========================================*/
+    /**
+     * @notice Returns whether an account holds a Proof of Identity NFT.
+     *
+     * @param addr The account to check.
+     *
+     * @return True if the account holds a Proof of Identity NFT, else false.
+     */
+    function _hasID(address addr) private view returns (bool) {
+        return _proofOfIdentity.balanceOf(addr) > 0;
+    }
+
+    /**
+     * @notice Returns whether an account is suspended.
+     *
+     * @param addr The account to check.
+     *
+     * @return True if the account is suspended, false otherwise.
+     */
+    function _isSuspended(address addr) private view returns (bool) {
+        return _proofOfIdentity.isSuspended(addr);
+    }
+
+    /**
+     * @notice Asserts that an account is of a permitted user type and that
+     * the attribute has not expired.
+     *
+     * @param addr The account to check.
+     */
+    function _assertValidUserType(address addr) private view {
+        (uint256 user, uint256 exp, ) = _proofOfIdentity.getUserType(addr);
+
+        if (!((_userTypes & user) > 0)) {
+            revert ${name}__InvalidUserType(user, _userTypes);
+        }
+
+        if (exp <= block.timestamp) {
+            revert ${name}__AttributeExpired("userType", exp);
+        }
+    }
+}
+
+`;
+
+    return contract;
+}
+
+/**
+ * The starter tests of `poiGatedTemplate`'s `onlyPermissioned` function.
+ *
+ * @function    poiGatedTests
+ * @param       {string}    name    The contract name.
+ * @param       {string}    getter  The name of the contract's getter.
+ * @returns     {string}
+ */
+function poiGatedTests(name: string, getter: string): string {
+    const tests = `
+    /* Permissions
+    ========================================*/
+    describe("Permissions", function () {
+        it("Should allow a permissioned account to call exampleFunction", async function () {
+            const t = await loadFixture(setup);
+            const account = t.accounts[0];
+            const c = t.${getter}.connect(account);
+
+            await t.poi.issueDefaultIdentity(account.address);
+
+            await expect(c.exampleFunction())
+                .to.emit(c, "ExampleFunctionCalled")
+                .withArgs(account.address);
+        });
+
+        it("Should not allow an account without an ID to call exampleFunction", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${getter}.connect(t.accounts[0]);
+            const err = "${name}__NoIdentityNFT";
+
+            await expect(c.exampleFunction()).to.be.revertedWithCustomError(
+                c,
+                err
+            );
+        });
+    });
+`;
+
+    return tests;
+}
+
+/**
+ * Stores H1, using `msgValueAfterFee` and the `Recoverable` helpers.
+ *
+ * @function    h1StoringTemplate
+ * @param       {string}    name        The contract name.
+ * @param       {string}    filePath    The path the contract is written to.
+ * @returns     {string}
+ */
+function h1StoringTemplate(name: string, filePath: string): string {
+    const contract = `// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+${generateImportStatement(filePath, "IERC20Upgradeable", `${OZ}/token/ERC20/IERC20Upgradeable.sol`)}
+
+${generateImportStatement(filePath, "H1DevelopedApplication", H1_DEVELOPED_APPLICATION)}
+${generateImportStatement(filePath, "RecoverableUpgradeable", RECOVERABLE)}
+${generateImportStatement(filePath, "IRecoverable", I_RECOVERABLE)}
+
+/**
+ * @title ${name}
+ *
+ * @author <Your name here>
+ *
+ * @notice <Description here>
+ *
+ * @dev As this contract stores native H1, it marks \`storesH1\` as \`true\` and
+ * opts not to refund users any excess H1 they send in to pay fees. Payable
+ * functions must use \`msgValueAfterFee\`, rather than \`msg.value\`, to get the
+ * amount sent after the developer fee has been paid.
+ *
+ * The Haven1 Association is able to recover H1 and HRC-20s held by this
+ * contract. As the \`IRecoverable\` functions are not payable, the
+ * \`developerFee\` modifier cannot be applied to them.
+ */
+contract ${name} is
+    H1DevelopedApplication,
+    RecoverableUpgradeable,
+    IRecoverable
+{
+    /* TYPE DECLARATIONS
+    ==================================================*/
+
+    /* STATE VARIABLES
+    ==================================================*/
+    /**
+     * @dev The amount of H1 deposited by each account.
+     */
+    mapping(address => uint256) private _balances;
+
+    /* EVENTS
+    ==================================================*/
+    /**
+     * @notice Emitted when H1 is deposited.
+     *
+     * @param account   The account that made the deposit.
+     * @param amount    The amount deposited, after the developer fee.
+     */
+    event Deposited(address indexed account, uint256 amount);
+
+    /**
+     * @notice Emitted when H1 is withdrawn.
+     *
+     * @param account   The account that made the withdrawal.
+     * @param amount    The amount withdrawn.
+     */
+    event Withdrawn(address indexed account, uint256 amount);
+
+    /* ERRORS
+    ==================================================*/
+    /**
+     * @notice Raised when no H1 is sent after the developer fee.
+     */
+    error ${name}__ZeroValue();
+
+    /**
+     * @notice Raised when an account withdraws more than it has deposited.
+     *
+     * @param amount    The amount requested.
+     * @param available The amount available.
+     */
+    error ${name}__InsufficientBalance(uint256 amount, uint256 available);
+
+    /**
+     * @notice Raised when a transfer of H1 fails.
+     */
+    error ${name}__TransferFailed();
+
+    /* FUNCTIONS
+    ==================================================*/
+${CONSTRUCTOR}
+
+    /* Initialize
+    ========================================*/
+
+    /**
+     * @notice Initializes the \`${name}\` contract.
+     *
+${H1_PARAMS}
+     */
+    function initialize(
+${H1_INIT_PARAMS}
+    ) external initializer {
+        __Recoverable_init();
+${h1Init("true")}
+    }
+
+    /* External
+    ========================================*/
+    /**
+     * @notice Deposits the H1 sent, less the developer fee.
+     *
+     * @dev Requirements:
+     * -    Only callable when the contract is not paused.
+     * -    Must provide the developer fee, if any.
+     * -    Must send H1 in addition to the developer fee.
+     *
+     * Emits a \`Deposited\` event.
+     */
+    function deposit()
+        external
+        payable
+        whenNotGuardianPaused
+        developerFee(true, false)
+    {
+        uint256 val = msgValueAfterFee();
+        if (val == 0) {
+            revert ${name}__ZeroValue();
+        }
+
+        _balances[msg.sender] += val;
+
+        emit Deposited(msg.sender, val);
+    }
+
+    /**
+     * @notice Withdraws an amount of the caller's deposited H1.
+     *
+     * @param amount The amount to withdraw.
+     *
+     * @dev Requirements:
+     * -    Only callable when the contract is not paused.
+     * -    Must provide the developer fee, if any.
+     * -    The amount must not exceed the caller's balance.
+     *
+     * Emits a \`Withdrawn\` event.
+     */
+    function withdraw(
+        uint256 amount
+    ) external payable whenNotGuardianPaused developerFee(false, false) {
+        uint256 bal = _balances[msg.sender];
+        if (amount > bal) {
+            revert ${name}__InsufficientBalance(amount, bal);
+        }
+
+        _balances[msg.sender] = bal - amount;
+
+        (bool success, ) = payable(msg.sender).call{ value: amount }("");
+        if (!success) {
+            revert ${name}__TransferFailed();
+        }
+
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @inheritdoc IRecoverable
+     *
+     * @dev Only callable by an account with the role: \`DEFAULT_ADMIN_ROLE\`.
+     */
+    function recoverH1(
+        address payable to,
+        uint256 amount
+    )
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        whenNotGuardianPaused
+    {
+        _recoverH1(to, amount);
+    }
+
+    /**
+     * @inheritdoc IRecoverable
+     *
+     * @dev Only callable by an account with the role: \`DEFAULT_ADMIN_ROLE\`.
+     */
+    function recoverAllH1(
+        address to
+    )
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        whenNotGuardianPaused
+    {
+        _recoverH1(payable(to), address(this).balance);
+    }
+
+    /**
+     * @inheritdoc IRecoverable
+     *
+     * @dev Only callable by an account with the role: \`DEFAULT_ADMIN_ROLE\`.
+     */
+    function recoverHRC20(
+        address token,
+        address to,
+        uint256 amount
+    )
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        whenNotGuardianPaused
+    {
+        _recoverHRC20(token, to, amount);
+    }
+
+    /**
+     * @inheritdoc IRecoverable
+     *
+     * @dev Only callable by an account with the role: \`DEFAULT_ADMIN_ROLE\`.
+     */
+    function recoverAllHRC20(
+        address token,
+        address to
+    )
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        whenNotGuardianPaused
+    {
+        uint256 bal = IERC20Upgradeable(token).balanceOf(address(this));
+        _recoverHRC20(token, to, bal);
+    }
+
+    /* Public
+    ========================================*/
+    /**
+     * @notice Returns the amount of H1 deposited by an account.
+     *
+     * @param account The account to check.
+     *
+     * @return The amount of H1 deposited.
+     */
+    function balanceOf(address account) public view returns (uint256) {
+        return _balances[account];
+    }
+
+    /* Internal
+    ========================================*/
+
+    /* Private
+    ========================================*/
+}
+
+`;
+
+    return contract;
+}
+
+/**
+ * An HRC-20 token.
+ *
+ * @function    hrc20Template
+ * @param       {string}    name        The contract name.
+ * @param       {string}    filePath    The path the contract is written to.
+ * @returns     {string}
+ */
+function hrc20Template(name: string, filePath: string): string {
+    const contract = `// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+${generateImportStatement(filePath, "ERC20Upgradeable", `${OZ}/token/ERC20/ERC20Upgradeable.sol`)}
+
+${generateImportStatement(filePath, "H1DevelopedApplication", H1_DEVELOPED_APPLICATION)}
+
+/**
+ * @title ${name}
+ *
+ * @author <Your name here>
+ *
+ * @notice <Description here>
+ *
+ * @dev An HRC-20 token. Every public and external function that modifies
+ * state has both the \`whenNotGuardianPaused\` and \`developerFee\` modifiers
+ * applied.
+ *
+ * The exception is the standard HRC-20 functions. As they are not payable,
+ * the \`developerFee\` modifier cannot be applied to them and they only apply
+ * \`whenNotGuardianPaused\`.
+ */
+contract ${name} is H1DevelopedApplication, ERC20Upgradeable {
+    /* TYPE DECLARATIONS
+    ==================================================*/
+
+    /* STATE VARIABLES
+    ==================================================*/
+
+    /* EVENTS
+    ==================================================*/
+
+    /* ERRORS
+    ==================================================*/
+
+    /* FUNCTIONS
+    ==================================================*/
+${CONSTRUCTOR}
+
+    /* Initialize
+    ========================================*/
+
+    /**
+     * @notice Initializes the \`${name}\` contract.
+     *
+${H1_PARAMS}
+     * @param tokenName             The name of the token.
+     * @param tokenSymbol           The symbol of the token.
+     */
+    function initialize(
+${H1_INIT_PARAMS},
+        string memory tokenName,
+        string memory tokenSymbol
+    ) external initializer {
+${h1Init("false")}
+        __ERC20_init(tokenName, tokenSymbol);
+    }
+
+    /* External
+    ========================================*/
+    /**
+     * @notice Mints an amount of tokens to an account.
+     *
+     * @param to        The account to mint the tokens to.
+     * @param amount    The amount of tokens to mint.
+     *
+     * @dev Requirements:
+     * -    Only callable by an account with the role: \`DEV_ADMIN_ROLE\`.
+     * -    Only callable when the contract is not paused.
+     * -    Must provide the developer fee, if any.
+     */
+    function mint(
+        address to,
+        uint256 amount
+    )
+        external
+        payable
+        onlyRole(DEV_ADMIN_ROLE)
+        whenNotGuardianPaused
+        developerFee(false, true)
+    {
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Burns an amount of the caller's tokens.
+     *
+     * @param amount The amount of tokens to burn.
+     *
+     * @dev Requirements:
+     * -    Only callable when the contract is not paused.
+     * -    Must provide the developer fee, if any.
+     */
+    function burn(
+        uint256 amount
+    ) external payable whenNotGuardianPaused developerFee(false, true) {
+        _burn(msg.sender, amount);
+    }
+
+    /* Public
+    ========================================*/
+    /**
+     * @inheritdoc ERC20Upgradeable
+     */
+    function transfer(
+        address to,
+        uint256 amount
+    )
+        public
+        override
+        whenNotGuardianPaused
+        returns (bool)
+    {
+        return super.transfer(to, amount);
+    }
+
+    /**
+     * @inheritdoc ERC20Upgradeable
+     */
+    function transferFrom(
+        address from,
+        address to,
+        uint256 amount
+    )
+        public
+        override
+        whenNotGuardianPaused
+        returns (bool)
+    {
+        return super.transferFrom(from, to, amount);
+    }
+
+    /**
+     * @inheritdoc ERC20Upgradeable
+     */
+    function approve(
+        address spender,
+        uint256 amount
+    )
+        public
+        override
+        whenNotGuardianPaused
+        returns (bool)
+    {
+        return super.approve(spender, amount);
+    }
+
+    /**
+     * @inheritdoc ERC20Upgradeable
+     */
+    function increaseAllowance(
+        address spender,
+        uint256 addedValue
+    )
+        public
+        override
+        whenNotGuardianPaused
+        returns (bool)
+    {
+        return super.increaseAllowance(spender, addedValue);
+    }
+
+    /**
+     * @inheritdoc ERC20Upgradeable
+     */
+    function decreaseAllowance(
+        address spender,
+        uint256 subtractedValue
+    )
+        public
+        override
+        whenNotGuardianPaused
+        returns (bool)
+    {
+        return super.decreaseAllowance(spender, subtractedValue);
+    }
+
+    /* Internal
+    ========================================*/
+
+    /* Private
+    ========================================*/
+}
+
+`;
+
+    return contract;
+}
+
+/**
+ * An ERC-721 collection.
+ *
+ * @function    erc721Template
+ * @param       {string}    name        The contract name.
+ * @param       {string}    filePath    The path the contract is written to.
+ * @returns     {string}
+ */
+function erc721Template(name: string, filePath: string): string {
+    const contract = `// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+${generateImportStatement(filePath, "ERC721Upgradeable", `${OZ}/token/ERC721/ERC721Upgradeable.sol`)}
+
+${generateImportStatement(filePath, "H1DevelopedApplication", H1_DEVELOPED_APPLICATION)}
+${generateImportStatement(filePath, "NetworkGuardian", NETWORK_GUARDIAN)}
+
+/**
+ * @title ${name}
+ *
+ * @author <Your name here>
+ *
+ * @notice <Description here>
+ *
+ * @dev An ERC-721 collection. Every public and external function that
+ * modifies state has both the \`whenNotGuardianPaused\` and \`developerFee\`
+ * modifiers applied.
+ *
+ * The exception is the standard ERC-721 functions. As they are not payable,
+ * the \`developerFee\` modifier cannot be applied to them and they only apply
+ * \`whenNotGuardianPaused\`.
+ */
+contract ${name} is H1DevelopedApplication, ERC721Upgradeable {
+    /* TYPE DECLARATIONS
+    ==================================================*/
+
+    /* STATE VARIABLES
+    ==================================================*/
+    /**
+     * @dev The ID of the last token minted. Token IDs start at 1.
+     */
+    uint256 private _tokenID;
+
+    /* EVENTS
+    ==================================================*/
+
+    /* ERRORS
+    ==================================================*/
+
+    /* FUNCTIONS
+    ==================================================*/
+${CONSTRUCTOR}
+
+    /* Initialize
+    ========================================*/
+
+    /**
+     * @notice Initializes the \`${name}\` contract.
+     *
+${H1_PARAMS}
+     * @param collectionName        The name of the collection.
+     * @param collectionSymbol      The symbol of the collection.
+     */
+    function initialize(
+${H1_INIT_PARAMS},
+        string memory collectionName,
+        string memory collectionSymbol
+    ) external initializer {
+${h1Init("false")}
+        __ERC721_init(collectionName, collectionSymbol);
+    }
+
+    /* External
+    ========================================*/
+    /**
+     * @notice Mints the next token to an account.
+     *
+     * @param to The account to mint the token to.
+     *
+     * @dev Requirements:
+     * -    Only callable by an account with the role: \`DEV_ADMIN_ROLE\`.
+     * -    Only callable when the contract is not paused.
+     * -    Must provide the developer fee, if any.
+     */
+    function mint(
+        address to
+    )
+        external
+        payable
+        onlyRole(DEV_ADMIN_ROLE)
+        whenNotGuardianPaused
+        developerFee(false, true)
+    {
+        _safeMint(to, ++_tokenID);
+    }
+
+    /* Public
+    ========================================*/
+    /**
+     * @inheritdoc ERC721Upgradeable
+     */
+    function approve(
+        address to,
+        uint256 tokenId
+    ) public override whenNotGuardianPaused {
+        super.approve(to, tokenId);
+    }
+
+    /**
+     * @inheritdoc ERC721Upgradeable
+     */
+    function setApprovalForAll(
+        address operator,
+        bool approved
+    ) public override whenNotGuardianPaused {
+        super.setApprovalForAll(operator, approved);
+    }
+
+    /**
+     * @inheritdoc ERC721Upgradeable
+     */
+    function transferFrom(
+        address from,
+        address to,
+        uint256 tokenId
+    ) public override whenNotGuardianPaused {
+        super.transferFrom(from, to, tokenId);
+    }
+
+    /**
+     * @inheritdoc ERC721Upgradeable
+     */
+    function safeTransferFrom(
+        address from,
+        address to,
+        uint256 tokenId
+    ) public override whenNotGuardianPaused {
+        super.safeTransferFrom(from, to, tokenId, "");
+    }
+
+    /**
+     * @inheritdoc ERC721Upgradeable
+     */
+    function safeTransferFrom(
+        address from,
+        address to,
+        uint256 tokenId,
+        bytes memory data
+    ) public override whenNotGuardianPaused {
+        super.safeTransferFrom(from, to, tokenId, data);
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    )
+        public
+        view
+        override(ERC721Upgradeable, NetworkGuardian)
+        returns (bool)
+    {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /* Internal
+    ========================================*/
+
+    /* Private
+    ========================================*/
+}
+
+`;
+
+    return contract;
+}
+
+/* REGISTRY
+================================================== */
+/**
+ * The contract templates available to the `haven-contract` task.
+ */
+export const TEMPLATES = {
+    default: {
+        description: "A bare H1DevelopedApplication",
+        args: [...H1_ARGS, STORES_H1_ARG],
+        contract: defaultTemplate,
+    },
+    "poi-gated": {
+        description: "Restricts access with the Proof of Identity contract",
+        args: [
+            {
+                name: "proofOfIdentity",
+                type: "string",
+                value: "this._poi.address",
+            },
+            ...H1_ARGS,
+            { name: "userTypes", type: "bigint", value: "3n" },
+            STORES_H1_ARG,
+        ],
+        contract: poiGatedTemplate,
+        tests: poiGatedTests,
+    },
+    "h1-storing": {
+        description: "Stores H1 and can recover H1 and HRC-20s",
+        args: H1_ARGS,
+        storesH1: true,
+        contract: h1StoringTemplate,
+    },
+    hrc20: {
+        description: "An HRC-20 token",
+        args: [
+            ...H1_ARGS,
+            { name: "tokenName", type: "string", value: '"Token"' },
+            { name: "tokenSymbol", type: "string", value: '"TKN"' },
+        ],
+        storesH1: false,
+        contract: hrc20Template,
+    },
+    erc721: {
+        description: "An ERC-721 collection",
+        args: [
+            ...H1_ARGS,
+            { name: "collectionName", type: "string", value: '"Collection"' },
+            { name: "collectionSymbol", type: "string", value: '"COL"' },
+        ],
+        storesH1: false,
+        contract: erc721Template,
+    },
+} as const satisfies Record<string, Template>;
+
+export type TemplateName = keyof typeof TEMPLATES;
+
+/* HELPERS
+================================================== */
+/**
+ * Returns an import statement for `symbols` from `p`, relative to
+ * `outputFilePath` unless `p` is a package path.
+ *
+ * @function    generateImportStatement
+ * @param       {string}    outputFilePath
+ * @param       {string}    symbols
+ * @param       {string}    p
+ * @returns     {string}
+ */
+function generateImportStatement(
+    outputFilePath: string,
+    symbols: string,
+    p: string
+): string {
+    if (p.startsWith("@")) {
+        return `import { ${symbols} } from "${p}";`;
+    }
+
+    // Generate the relative path
+    const relativePath = path.relative(path.dirname(outputFilePath), p);
+
+    // Convert it to Unix-style paths for Solidity imports
+    const unixPath = relativePath.split(path.sep).join("/");
+
+    // Create the import statement
+    return `import { ${symbols} } from "${unixPath}";`;
+}
+
+/**
+ * @function    h1Init
+ * @param       {string}    storesH1    The `storesH1` expression.
+ * @returns     {string}    The call to `__H1DevelopedApplication_init`.
+ */
+function h1Init(storesH1: string): string {
+    return `        __H1DevelopedApplication_init(
+            feeContract,
+            guardianController,
+            association,
+            developer,
+            feeCollector,
+            fnSigs,
+            fnFees,
+            ${storesH1}
+        );`;
+}
@@ -0,0 +1,2 @@
+export * from "./scaffold";
+export { type Template, type TemplateName, TEMPLATES } from "./contracts";
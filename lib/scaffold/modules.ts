@@ -0,0 +1,596 @@
+/* IMPORT TYPES
+================================================== */
+import type { Template } from "./contracts";
+
+/* TEMPLATES
+================================================== */
+/**
+ * Returns the deploy module, `lib/deploy/<dir>/deploy.ts`, for a contract.
+ *
+ * @function    deployTemplate
+ * @param       {string}    name    The contract name.
+ * @param       {Template}  tpl
+ * @returns     {string}
+ */
+export function deployTemplate(name: string, tpl: Template): string {
+    const module = `/* IMPORT NODE MODULES
+================================================== */
+import { ethers, upgrades } from "hardhat";
+
+/* IMPORT TYPES
+================================================== */
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ${name} } from "@typechain/index";
+
+/* TYPES
+================================================== */
+export type ${name}Args = {
+${tpl.args.map(a => `    readonly ${a.name}: ${a.type};`).join("\n")}
+};
+
+/* DEPLOY
+================================================== */
+/**
+ * Deploys the \`${name}\` contract.
+ *
+ * # Error
+ *
+ * Will throw an error if the deployment is not successful. The calling code
+ * must handle as desired.
+ *
+ * @async
+ * @throws
+ * @function    deploy${name}
+ *
+ * @param       {${name}Args}   args
+ * @param       {HardhatEthersSigner}   signer
+ * @param       {number}                [confs = 0]
+ *
+ * @returns     {Promise<${name}>}  Promise that resolves to the \`${name}\`.
+ */
+export async function deploy${name}(
+    args: ${name}Args,
+    signer: HardhatEthersSigner,
+    confs: number = 0
+): Promise<${name}> {
+    const f = await ethers.getContractFactory("${name}", signer);
+
+    const c = (await upgrades.deployProxy(
+        f,
+        [
+${tpl.args.map(a => `            args.${a.name},`).join("\n")}
+        ],
+        { kind: "uups", initializer: "initialize" }
+    )) as unknown as ${name};
+
+    await c.waitForDeployment();
+
+    if (confs > 0) {
+        await c.deploymentTransaction()?.wait(confs);
+    }
+    return c;
+}
+`;
+
+    return module;
+}
+
+/**
+ * Returns the index, `lib/deploy/<dir>/index.ts`, of a deploy module.
+ *
+ * @function    indexTemplate
+ * @returns     {string}
+ */
+export function indexTemplate(): string {
+    return `export * from "./deploy";\n`;
+}
+
+/**
+ * Returns the test setup, `test/examples/<dir>/setup.ts`, for a contract.
+ *
+ * @function    setupTemplate
+ * @param       {string}    name    The contract name.
+ * @param       {string}    dir     The name of the deploy module directory.
+ * @param       {Template}  tpl
+ * @returns     {string}
+ */
+export function setupTemplate(
+    name: string,
+    dir: string,
+    tpl: Template
+): string {
+    const v = camelCase(name);
+
+    const setup = `/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ${name} } from "@typechain/index";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { Fee, GuardianController, POI } from "../../utils";
+import { type ${name}Args, deploy${name} } from "@lib/deploy/${dir}";
+
+/* TEST DEPLOY
+================================================== */
+/**
+ * Creates a new instances of TestDeployment
+ * @class   TestDeployment
+ */
+export class TestDeployment {
+    /* Vars
+    ======================================== */
+    private _isInitialized: boolean;
+
+    private _association!: HardhatEthersSigner;
+    private _associationAddress!: string;
+
+    private _developer!: HardhatEthersSigner;
+    private _developerAddress!: string;
+
+    private _accounts!: HardhatEthersSigner[];
+    private _accountAddresses!: string[];
+
+    private _fee!: Fee;
+    private _guardianController!: GuardianController;
+    private _poi!: POI;
+
+    private _${v}Contract!: ${name};
+    private _${v}ContractAddress!: string;
+    private _${v}Args!: ${name}Args;
+
+    /* Init
+    ======================================== */
+    /**
+     * Private constructor due to requirement for async init work.
+     *
+     * @constructor
+     * @private
+     */
+    private constructor() {
+        this._accounts = [];
+        this._accountAddresses = [];
+
+        this._isInitialized = false;
+    }
+
+    /**
+     * Initializes \`TestDeployment\`. \`isInitialized\` will return false until
+     * this is run.
+     *
+     * # Error
+     *
+     * Will throw if any of the deployments are not successful
+     *
+     * @private
+     * @async
+     * @method  init
+     * @returns {Promise<TestDeployment>} - Promise that resolves to the \`TestDeployment\`
+     * @throws
+     */
+    private async init(): Promise<TestDeployment> {
+        // Accounts
+        // ----------------------------------------
+        const [association, developer, ...rest] = await ethers.getSigners();
+
+        this._association = association;
+        this._associationAddress = await association.getAddress();
+
+        this._developer = developer;
+        this._developerAddress = await developer.getAddress();
+
+        for (let i = 0; i < rest.length; ++i) {
+            this._accounts.push(rest[i]);
+            this._accountAddresses.push(await rest[i].getAddress());
+        }
+
+        // Guardian Controller
+        // ----------------------------------------
+        this._guardianController = await GuardianController.create(
+            { association: this._associationAddress },
+            this._association
+        );
+
+        // Fee Contract
+        // ----------------------------------------
+        this._fee = await Fee.create(
+            this._associationAddress,
+            this._guardianController.address,
+            this._association
+        );
+
+        // POI Contract
+        // ----------------------------------------
+        this._poi = await POI.create(
+            this._associationAddress,
+            this._guardianController.address,
+            this._association
+        );
+
+        // ${name} Contract
+        // ----------------------------------------
+        // Add the signatures and USD fees (18 decimals) of any fee-bearing
+        // functions, e.g., ["myFunction()"] and [parseUnits("1", 18)].
+        const fnSigs: string[] = [];
+        const fnFees: bigint[] = [];
+
+        this._${v}Args = {
+${tpl.args.map(a => `            ${a.name}: ${a.value},`).join("\n")}
+        };
+
+        this._${v}Contract = await deploy${name}(
+            this._${v}Args,
+            association
+        );
+
+        this._${v}ContractAddress = await this._${v}Contract.getAddress();
+
+        // Init
+        // ----------------------------------------
+        this._isInitialized = true;
+
+        return this;
+    }
+
+    /**
+     * Static method to create a new instance of \`TestDeployment\`. Runs required
+     * init work and returns the instance.
+     *
+     * @public
+     * @static
+     * @async
+     * @throws
+     *
+     * @method  create
+     *
+     * @returns {Promise<TestDeployment>}
+     */
+    public static async create(): Promise<TestDeployment> {
+        const instance = new TestDeployment();
+        return await instance.init();
+    }
+
+    /* Getters
+    ======================================== */
+    /**
+     * @method      association
+     * @returns     {HardhatEthersSigner}
+     * @throws
+     */
+    public get association(): HardhatEthersSigner {
+        this.validateInitialized("association");
+        return this._association;
+    }
+
+    /**
+     * @method      associationAddress
+     * @returns     {string}
+     * @throws
+     */
+    public get associationAddress(): string {
+        this.validateInitialized("associationAddress");
+        return this._associationAddress;
+    }
+
+    /**
+     * @method      developer
+     * @returns     {HardhatEthersSigner}
+     * @throws
+     */
+    public get developer(): HardhatEthersSigner {
+        this.validateInitialized("developer");
+        return this._developer;
+    }
+
+    /**
+     * @method      developerAddress
+     * @returns     {string}
+     * @throws
+     */
+    public get developerAddress(): string {
+        this.validateInitialized("developerAddress");
+        return this._developerAddress;
+    }
+
+    /**
+     * @method      accounts
+     * @returns     {HardhatEthersSigner[]}
+     * @throws
+     */
+    public get accounts(): HardhatEthersSigner[] {
+        this.validateInitialized("accounts");
+        return this._accounts;
+    }
+
+    /**
+     * @method      accountAddresses
+     * @returns     {string[]}
+     * @throws
+     */
+    public get accountAddresses(): string[] {
+        this.validateInitialized("accountAddresses");
+        return this._accountAddresses;
+    }
+
+    /**
+     * @method      fee
+     * @returns     {Fee}
+     * @throws
+     */
+    public get fee(): Fee {
+        this.validateInitialized("fee");
+        return this._fee;
+    }
+
+    /**
+     * @method      guardianController
+     * @returns     {GuardianController}
+     * @throws
+     */
+    public get guardianController(): GuardianController {
+        this.validateInitialized("guardianController");
+        return this._guardianController;
+    }
+
+    /**
+     * @method      poi
+     * @returns     {POI}
+     * @throws
+     */
+    public get poi(): POI {
+        this.validateInitialized("poi");
+        return this._poi;
+    }
+
+    /**
+     * @method      ${v}
+     * @returns     {${name}}
+     * @throws
+     */
+    public get ${v}(): ${name} {
+        this.validateInitialized("${v}");
+        return this._${v}Contract;
+    }
+
+    /**
+     * @method      ${v}Address
+     * @returns     {string}
+     * @throws
+     */
+    public get ${v}Address(): string {
+        this.validateInitialized("${v}Address");
+        return this._${v}ContractAddress;
+    }
+
+    /**
+     * @method      ${v}Args
+     * @returns     {${name}Args}
+     * @throws
+     */
+    public get ${v}Args(): ${name}Args {
+        this.validateInitialized("${v}Args");
+        return this._${v}Args;
+    }
+
+    /**
+     *  Validates if the class instance has been initialized.
+     *
+     *  # Error
+     *
+     *  Will throw an error if the class instance has not been initialized.
+     *
+     *  @private
+     *  @method     validateInitialized
+     *  @param      {string}    method
+     *  @throws
+     */
+    private validateInitialized(method: string): void {
+        if (!this._isInitialized) {
+            throw new Error(
+                \`Deployment not initialized. Call create() before accessing \${method}.\`
+            );
+        }
+    }
+}
+`;
+
+    return setup;
+}
+
+/**
+ * Returns the starter test, `test/examples/<dir>/<name>.test.ts`, for a
+ * contract. It checks initialization, the guardian pause and developer fees,
+ * followed by the template's own `tests`, if any.
+ *
+ * @function    testTemplate
+ * @param       {string}    name    The contract name.
+ * @param       {Template}  tpl
+ * @returns     {string}
+ */
+export function testTemplate(name: string, tpl: Template): string {
+    const v = camelCase(name);
+    const storesH1 = tpl.storesH1 ?? "a.storesH1";
+
+    const test = `/* IMPORT NODE MODULES
+================================================== */
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "./setup";
+import { accessControlErr, initialiazbleErr } from "@test/constants";
+import { E } from "@errors";
+import { fnSelector } from "@lib/fnSelector";
+
+/* CONSTANTS
+================================================== */
+const SCALE = 10n ** 18n;
+
+// Replace with one of the contract's fee-bearing functions.
+const feeSig = "exampleFunction()";
+const feeSel = fnSelector(feeSig);
+
+/* TESTS
+================================================== */
+describe("${name}", function () {
+    async function setup() {
+        return await TestDeployment.create();
+    }
+
+    /* Deployment and Init
+    ========================================*/
+    describe("Deployment and Initialization", function () {
+        it("Should have a deployment address", async function () {
+            const t = await loadFixture(setup);
+            const addr = t.${v}Address;
+            expect(addr).to.have.length(42);
+        });
+
+        it("Should correctly set the initial state", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v};
+            const a = t.${v}Args;
+
+            expect(await c.feeContract()).to.equal(a.feeContract);
+            expect(await c.controller()).to.equal(a.guardianController);
+            expect(await c.association()).to.equal(a.association);
+            expect(await c.developer()).to.equal(a.developer);
+            expect(await c.devFeeCollector()).to.equal(a.feeCollector);
+            expect(await c.storesH1()).to.equal(${storesH1});
+        });
+
+        it("Should correctly set the function fees", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v};
+            const { fnSigs, fnFees } = t.${v}Args;
+
+            for (let i = 0; i < fnSigs.length; ++i) {
+                const fee = await c.getFnFeeUSD(fnSelector(fnSigs[i]));
+                expect(fee).to.equal(fnFees[i]);
+            }
+        });
+
+        it("Should not allow initialize to be called a second time", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v};
+            const a = t.${v}Args;
+            const err = initialiazbleErr("ALREADY_INITIALIZED");
+
+            await expect(
+                c.initialize(
+${tpl.args.map(a => `                    a.${a.name},`).join("\n")}
+                )
+            ).to.be.revertedWith(err);
+        });
+    });
+
+    /* Guardian Pause
+    ========================================*/
+    describe("Guardian Pause", function () {
+        it("Should allow the Network Guardian to pause and unpause", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v};
+
+            let txRes = await c.guardianPause();
+            await txRes.wait();
+
+            expect(await c.guardianPaused()).to.be.true;
+
+            txRes = await c.guardianUnpause();
+            await txRes.wait();
+
+            expect(await c.guardianPaused()).to.be.false;
+        });
+
+        it("Should not allow an account without the role to pause", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v}.connect(t.accounts[0]);
+            const err = accessControlErr("MISSING_ROLE");
+
+            await expect(c.guardianPause()).to.be.revertedWith(err);
+        });
+
+        it("Should not allow pausing when already paused", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v};
+            const err = E.NetworkGuardian.Paused;
+
+            const txRes = await c.guardianPause();
+            await txRes.wait();
+
+            await expect(c.guardianPause()).to.be.revertedWithCustomError(
+                c,
+                err
+            );
+        });
+    });
+
+    /* Developer Fees
+    ========================================*/
+    describe("Developer Fees", function () {
+        it("Should allow the developer to set a fee", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v};
+            const d = c.connect(t.developer);
+
+            const fee = parseUnits("1.5", 18);
+            const h1USD = await t.fee.contract.h1USD();
+
+            const txRes = await d.setFee(feeSig, fee);
+            await txRes.wait();
+
+            expect(await c.getFnFeeUSD(feeSel)).to.equal(fee);
+            expect(await c.getFnFeeAdj(feeSel)).to.equal((fee * h1USD) / SCALE);
+        });
+
+        it("Should not allow a fee outside of the Fee Contract bounds", async function () {
+            const t = await loadFixture(setup);
+            const d = t.${v}.connect(t.developer);
+            const err = E.H1Developed.InvalidFeeAmount;
+
+            const fee = (await t.fee.contract.getMaxDevFee()) + 1n;
+
+            await expect(d.setFee(feeSig, fee))
+                .to.be.revertedWithCustomError(d, err)
+                .withArgs(fee);
+        });
+
+        it("Should only allow the developer to set a fee", async function () {
+            const t = await loadFixture(setup);
+            const c = t.${v}.connect(t.accounts[0]);
+            const err = accessControlErr("MISSING_ROLE");
+
+            await expect(c.setFee(feeSig, 1n)).to.be.revertedWith(err);
+        });
+    });
+${tpl.tests?.(name, v) ?? ""}});
+`;
+
+    return test;
+}
+
+/* HELPERS
+================================================== */
+/**
+ * @function    kebabCase
+ * @param       {string}    name    E.g., `MyNFTContract`.
+ * @returns     {string}    E.g., `my-nft-contract`.
+ */
+export function kebabCase(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+        .replace(/([A-Z])([A-Z][a-z])/g, "$1-$2")
+        .toLowerCase();
+}
+
+/**
+ * @function    camelCase
+ * @param       {string}    name    E.g., `MyContract`.
+ * @returns     {string}    E.g., `myContract`.
+ */
+export function camelCase(name: string): string {
+    return name.charAt(0).toLowerCase() + name.slice(1);
+}
@@ -0,0 +1,290 @@
+/* IMPORT NODE MODULES
+================================================== */
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { TemplateName } from "./contracts";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TEMPLATES } from "./contracts";
+import {
+    camelCase,
+    deployTemplate,
+    indexTemplate,
+    kebabCase,
+    setupTemplate,
+    testTemplate,
+} from "./modules";
+
+/* TYPES
+================================================== */
+/**
+ * -    `name`:     The contract name.
+ * -    `path`:     The path of the contract, relative to `root`. Must end
+ *                  with `.sol` and be within `contracts/`.
+ * -    `template`: Defaults to `default`.
+ * -    `root`:     The project root. Defaults to the current working directory.
+ */
+export type ScaffoldOptions = {
+    readonly name: string;
+    readonly path: string;
+    readonly template?: string;
+    readonly root?: string;
+};
+
+/**
+ * A file to be written by `writeScaffold`.
+ *
+ * -    `path`: Relative to the project root.
+ */
+export type ScaffoldFile = {
+    readonly path: string;
+    readonly content: string;
+};
+
+/**
+ * -    `dir`:      The kebab-cased contract name, used for the deploy module
+ *                  and test directories.
+ * -    `files`:    The contract, deploy module, index, test setup and starter
+ *                  test, in that order.
+ */
+export type ScaffoldResult = {
+    readonly name: string;
+    readonly template: TemplateName;
+    readonly dir: string;
+    readonly root: string;
+    readonly files: readonly ScaffoldFile[];
+};
+
+/**
+ * -    `INVALID_IDENTIFIER`:   The name is not a valid Solidity identifier.
+ * -    `RESERVED_NAME`:        The name is a Solidity keyword or would clash
+ *                              with a contract the templates import.
+ * -    `INVALID_PATH`:         The path does not end with `.sol`.
+ * -    `OUTSIDE_CONTRACTS`:    The path is not within `contracts/`.
+ * -    `FILE_EXISTS`:          One of the files to be generated already exists.
+ * -    `UNKNOWN_TEMPLATE`:     The template is not one of the `TEMPLATES`.
+ */
+export type ScaffoldErrorCode =
+    | "INVALID_IDENTIFIER"
+    | "RESERVED_NAME"
+    | "INVALID_PATH"
+    | "OUTSIDE_CONTRACTS"
+    | "FILE_EXISTS"
+    | "UNKNOWN_TEMPLATE";
+
+/* CONSTANTS
+================================================== */
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Solidity keywords, reserved words and global names, and the contracts the
+ * templates import.
+ */
+// prettier-ignore
+const RESERVED = new Set([
+    // Keywords
+    "abstract", "address", "anonymous", "as", "assembly", "bool", "break",
+    "bytes", "calldata", "catch", "constant", "constructor", "continue",
+    "contract", "delete", "do", "else", "emit", "enum", "error", "event",
+    "external", "fallback", "false", "for", "function", "global", "if",
+    "immutable", "import", "indexed", "interface", "internal", "is", "library",
+    "mapping", "memory", "modifier", "new", "override", "payable", "pragma",
+    "private", "public", "pure", "receive", "return", "returns", "revert",
+    "storage", "string", "struct", "true", "try", "type", "unchecked", "using",
+    "view", "virtual", "while",
+    // Reserved
+    "after", "alias", "apply", "auto", "byte", "case", "copyof", "default",
+    "define", "final", "implements", "in", "inline", "let", "macro", "match",
+    "mutable", "null", "of", "partial", "promise", "reference", "relocatable",
+    "sealed", "sizeof", "static", "supports", "switch", "typedef", "typeof",
+    // Globals
+    "abi", "block", "gasleft", "msg", "super", "this", "tx", "now", "selfdestruct",
+    // Imported by the templates
+    "H1DevelopedApplication", "NetworkGuardian", "IProofOfIdentity", "Address",
+    "RecoverableUpgradeable", "IRecoverable", "IERC20Upgradeable",
+    "ERC20Upgradeable", "ERC721Upgradeable",
+]);
+
+/* ERRORS
+================================================== */
+/**
+ * Thrown by `scaffoldContract` when the options are invalid. `code` identifies
+ * the failure.
+ */
+export class ScaffoldError extends Error {
+    public readonly code: ScaffoldErrorCode;
+
+    /**
+     * @constructor
+     * @param   {ScaffoldErrorCode} code
+     * @param   {string}            message
+     */
+    constructor(code: ScaffoldErrorCode, message: string) {
+        super(message);
+        this.name = "ScaffoldError";
+        this.code = code;
+    }
+}
+
+/* SCAFFOLD
+================================================== */
+/**
+ * Generates a new Haven1 contract from a template, along with a matching
+ * deploy module at `lib/deploy/<dir>/` and a test setup and starter test at
+ * `test/examples/<dir>/`, where `<dir>` is the kebab-cased contract name.
+ *
+ * Nothing is written. See `writeScaffold`.
+ *
+ * # Error
+ *
+ * Will throw a `ScaffoldError` if the options are invalid or any of the files
+ * already exist.
+ *
+ * @async
+ * @throws
+ * @function    scaffoldContract
+ *
+ * @param       {ScaffoldOptions}   opts
+ *
+ * @returns     {Promise<ScaffoldResult>}
+ */
+export async function scaffoldContract(
+    opts: ScaffoldOptions
+): Promise<ScaffoldResult> {
+    const { name } = opts;
+    const root = path.resolve(opts.root ?? process.cwd());
+    const template = opts.template ?? "default";
+
+    if (!IDENTIFIER.test(name)) {
+        throw new ScaffoldError(
+            "INVALID_IDENTIFIER",
+            `"${name}" is not a valid Solidity identifier`
+        );
+    }
+
+    if (RESERVED.has(name)) {
+        throw new ScaffoldError("RESERVED_NAME", `"${name}" is reserved`);
+    }
+
+    if (!opts.path.endsWith(".sol")) {
+        throw new ScaffoldError(
+            "INVALID_PATH",
+            `Got: ${opts.path}. Expected a path that ends with .sol`
+        );
+    }
+
+    const contractPath = path.relative(root, path.resolve(root, opts.path));
+    const [top, ...rest] = contractPath.split(path.sep);
+
+    if (top !== "contracts" || rest.length === 0) {
+        throw new ScaffoldError(
+            "OUTSIDE_CONTRACTS",
+            `Got: ${opts.path}. Expected a path within contracts/`
+        );
+    }
+
+    if (!Object.keys(TEMPLATES).includes(template)) {
+        throw new ScaffoldError(
+            "UNKNOWN_TEMPLATE",
+            `Got: ${template}. Expected one of: ${Object.keys(TEMPLATES).join(", ")}`
+        );
+    }
+
+    const tpl = TEMPLATES[template as TemplateName];
+    const dir = kebabCase(name);
+
+    const deployDir = path.join("lib", "deploy", dir);
+    const testDir = path.join("test", "examples", dir);
+
+    const files: ScaffoldFile[] = [
+        {
+            path: contractPath,
+            content: tpl.contract(name, contractPath),
+        },
+        {
+            path: path.join(deployDir, "deploy.ts"),
+            content: deployTemplate(name, tpl),
+        },
+        { path: path.join(deployDir, "index.ts"), content: indexTemplate() },
+        {
+            path: path.join(testDir, "setup.ts"),
+            content: setupTemplate(name, dir, tpl),
+        },
+        {
+            path: path.join(testDir, `${camelCase(name)}.test.ts`),
+            content: testTemplate(name, tpl),
+        },
+    ];
+
+    for (const f of files) {
+        if (fs.existsSync(path.join(root, f.path))) {
+            throw new ScaffoldError(
+                "FILE_EXISTS",
+                `File: ${f.path} already exists`
+            );
+        }
+    }
+
+    return {
+        name,
+        template: template as TemplateName,
+        dir,
+        root,
+        files: await Promise.all(
+            files.map(async f => ({
+                path: f.path,
+                content: await format(path.join(root, f.path), f.content),
+            }))
+        ),
+    };
+}
+
+/**
+ * Writes the files of a `ScaffoldResult`, creating any directories as
+ * required, and returns their paths.
+ *
+ * # Error
+ *
+ * Will throw an error if a file cannot be written.
+ *
+ * @throws
+ * @function    writeScaffold
+ *
+ * @param       {ScaffoldResult}    result
+ *
+ * @returns     {string[]}  The paths written, relative to the project root.
+ */
+export function writeScaffold(result: ScaffoldResult): string[] {
+    for (const f of result.files) {
+        const p = path.join(result.root, f.path);
+        fs.mkdirSync(path.dirname(p), { recursive: true });
+        fs.writeFileSync(p, f.content, { encoding: "utf8", flag: "wx" });
+    }
+
+    return result.files.map(f => f.path);
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Formats generated Typescript with the project's Prettier config, as line
+ * breaks depend on the length of the contract name.
+ *
+ * @async
+ * @function    format
+ * @param       {string}    filePath
+ * @param       {string}    text
+ * @returns     {Promise<string>}
+ */
+async function format(filePath: string, text: string): Promise<string> {
+    if (!filePath.endsWith(".ts")) return text;
+
+    const prettier = await import("prettier");
+    const config = await prettier.resolveConfig(filePath);
+
+    return await prettier.format(text, { ...config, filepath: filePath });
+}
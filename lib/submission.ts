@@ -0,0 +1,394 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { run } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { ArchiveFile } from "./archive";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { checksums, sha256, tarGz } from "./archive";
+import { compiledLayout, compilerOutput, feeFunctions } from "./deploy/layout";
+import { gitCommit } from "./deploy/manifest";
+import { bigintReplacer } from "./json";
+import { fnSelector } from "./fnSelector";
+
+/* TYPES
+================================================== */
+/**
+ * -    `contract`:         The name of the contract being submitted.
+ * -    `initializerArgs`:  The args the contract will be initialized with. If
+ *                          they include `fnSigs` and `fnFees`, these are used
+ *                          as the proposed fees.
+ * -    `coverage`:         Path to the `coverage.json` written by
+ *                          `npm run coverage`.
+ */
+export type SubmissionOptions = {
+    readonly contract: string;
+    readonly initializerArgs: Readonly<Record<string, unknown>>;
+    readonly coverage: string;
+};
+
+/**
+ * A fee-bearing function and / or a function with a proposed fee.
+ *
+ * -    `feeBearing`:   Whether the function applies the `developerFee`
+ *                      modifier.
+ * -    `proposedFee`:  The proposed USD fee (18 decimals). Empty if none.
+ */
+export type ProposedFee = {
+    readonly signature: string;
+    readonly selector: string;
+    readonly feeBearing: boolean;
+    readonly proposedFee: string;
+};
+
+/**
+ * -    `pct`:  The percentage covered. `null` if there is nothing to cover
+ *              (e.g., a source without branches).
+ */
+export type CoverageMetric = {
+    readonly covered: number;
+    readonly total: number;
+    readonly pct: number | null;
+};
+
+export type FileCoverage = {
+    readonly lines: CoverageMetric;
+    readonly statements: CoverageMetric;
+    readonly functions: CoverageMetric;
+    readonly branches: CoverageMetric;
+};
+
+/**
+ * The coverage of each source file in the submission that was instrumented.
+ */
+export type CoverageSummary = {
+    readonly total: FileCoverage;
+    readonly files: Readonly<Record<string, FileCoverage>>;
+};
+
+/**
+ * A single file's entry in an Istanbul `coverage.json`.
+ */
+type IstanbulFile = {
+    readonly l?: Record<string, number>;
+    readonly s: Record<string, number>;
+    readonly f: Record<string, number>;
+    readonly b: Record<string, number[]>;
+};
+
+type ImportNode = {
+    readonly nodeType: string;
+    readonly absolutePath?: string;
+};
+
+/* SUBMISSION
+================================================== */
+/**
+ * Collects everything the Haven1 Association needs to review `contract`:
+ *
+ * -    `sources/`:                 The contract source and every source it
+ *                                  imports, as compiled.
+ * -    `flattened/<contract>.sol`: The flattened source.
+ * -    `compiler.json`:            The compiler version and settings.
+ * -    `abi.json`:                 The contract ABI.
+ * -    `storage-layout.json`:      The storage layout.
+ * -    `fees.json`:                The fee-bearing functions and the
+ *                                  proposed fee for each.
+ * -    `initializer-args.json`:    The initializer args.
+ * -    `coverage-summary.json`:    The test coverage of the sources.
+ * -    `submission.json`:          The contract, commit and compiler version.
+ * -    `CHECKSUMS.sha256`:         SHA-256 checksums of every other file.
+ *
+ * All paths are prefixed with the contract name. No timestamps are recorded,
+ * so the same commit always produces the same files.
+ *
+ * # Error
+ *
+ * Will throw an error if the contract has not been compiled or the coverage
+ * file does not exist.
+ *
+ * @async
+ * @throws
+ * @function    collectSubmission
+ *
+ * @param       {SubmissionOptions}     opts
+ *
+ * @returns     {Promise<ArchiveFile[]>}
+ */
+export async function collectSubmission(
+    opts: SubmissionOptions
+): Promise<ArchiveFile[]> {
+    const { contract, initializerArgs } = opts;
+    const { sourceName, solcVersion, input, output } =
+        await compilerOutput(contract);
+
+    const sources = dependencies(sourceName, output.sources);
+
+    // The output selection is set by the plugins, not the project.
+    const settings: Partial<typeof input.settings> = { ...input.settings };
+    delete settings.outputSelection;
+
+    const flattened: string = await run("flatten:get-flattened-sources", {
+        files: [sourceName],
+    });
+
+    const files: ArchiveFile[] = [
+        ...sources.map(s => ({
+            path: `sources/${s}`,
+            content: input.sources[s].content,
+        })),
+        { path: `flattened/${contract}.sol`, content: flattened },
+        {
+            path: "compiler.json",
+            content: json({ version: solcVersion, settings }),
+        },
+        {
+            path: "abi.json",
+            content: json(output.contracts[sourceName][contract].abi),
+        },
+        {
+            path: "storage-layout.json",
+            content: json(await compiledLayout(contract)),
+        },
+        {
+            path: "fees.json",
+            content: json(await proposedFees(contract, initializerArgs)),
+        },
+        { path: "initializer-args.json", content: json(initializerArgs) },
+        {
+            path: "coverage-summary.json",
+            content: json(coverageSummary(opts.coverage, sources)),
+        },
+        {
+            path: "submission.json",
+            content: json({
+                contract,
+                sourceName,
+                commit: gitCommit(),
+                compiler: solcVersion,
+            }),
+        },
+    ];
+
+    files.push({ path: "CHECKSUMS.sha256", content: checksums(files) });
+
+    return files.map(f => ({ ...f, path: `${contract}/${f.path}` }));
+}
+
+/**
+ * Writes `files` to a reproducible `.tar.gz` archive at `filePath`, along with
+ * a `<filePath>.sha256` file holding the archive's checksum.
+ *
+ * @throws
+ * @function    writeSubmission
+ *
+ * @param       {string}            filePath    The relative file path.
+ * @param       {ArchiveFile[]}     files
+ *
+ * @returns     {string}    The SHA-256 checksum of the archive.
+ */
+export function writeSubmission(
+    filePath: string,
+    files: readonly ArchiveFile[]
+): string {
+    const p = path.join(process.cwd(), filePath);
+    const archive = tarGz(files);
+    const hash = sha256(archive);
+
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    fs.writeFileSync(p, archive);
+    fs.writeFileSync(`${p}.sha256`, `${hash}  ${path.basename(p)}\n`);
+
+    return hash;
+}
+
+/* FEES
+================================================== */
+/**
+ * Joins the fee-bearing functions of `contract` with the fees proposed in its
+ * initializer args (`fnSigs` and `fnFees`).
+ *
+ * @async
+ * @throws
+ * @function    proposedFees
+ *
+ * @param       {string}                    contract
+ * @param       {Record<string, unknown>}   initializerArgs
+ *
+ * @returns     {Promise<ProposedFee[]>}
+ */
+export async function proposedFees(
+    contract: string,
+    initializerArgs: Readonly<Record<string, unknown>>
+): Promise<ProposedFee[]> {
+    const sigs = (initializerArgs.fnSigs ?? []) as string[];
+    const fees = (initializerArgs.fnFees ?? []) as (string | bigint)[];
+
+    const proposed = new Map(
+        sigs.map((sig, i) => [fnSelector(sig), { sig, fee: fees[i] }])
+    );
+
+    const out: ProposedFee[] = (await feeFunctions(contract)).map(f => ({
+        signature: f.signature,
+        selector: f.selector,
+        feeBearing: true,
+        proposedFee: proposed.get(f.selector)?.fee?.toString() ?? "",
+    }));
+
+    for (const [selector, { sig, fee }] of proposed) {
+        if (out.some(f => f.selector === selector)) continue;
+
+        out.push({
+            signature: sig,
+            selector,
+            feeBearing: false,
+            proposedFee: fee?.toString() ?? "",
+        });
+    }
+
+    return out;
+}
+
+/* COVERAGE
+================================================== */
+/**
+ * Summarizes the coverage of `sources` from an Istanbul `coverage.json`, as
+ * written by `solidity-coverage`. Sources that were not instrumented (e.g.,
+ * library code) are omitted.
+ *
+ * # Error
+ *
+ * Will throw an error if the coverage file does not exist, or if none of
+ * `sources` appear in it (e.g., it is empty or from another project).
+ *
+ * @throws
+ * @function    coverageSummary
+ *
+ * @param       {string}    filePath    The relative path to `coverage.json`.
+ * @param       {string[]}  sources     Source names to summarize.
+ *
+ * @returns     {CoverageSummary}
+ */
+export function coverageSummary(
+    filePath: string,
+    sources: readonly string[]
+): CoverageSummary {
+    const p = path.join(process.cwd(), filePath);
+
+    if (!fs.existsSync(p)) {
+        throw new Error(`No coverage found at ${filePath}`);
+    }
+
+    const data = JSON.parse(fs.readFileSync(p, "utf8")) as Record<
+        string,
+        IstanbulFile
+    >;
+
+    const files: Record<string, FileCoverage> = {};
+    for (const [key, file] of Object.entries(data)) {
+        const name = path.isAbsolute(key)
+            ? path.relative(process.cwd(), key)
+            : key;
+        if (!sources.includes(name)) continue;
+
+        files[name] = {
+            lines: metric(Object.values(file.l ?? {})),
+            statements: metric(Object.values(file.s)),
+            functions: metric(Object.values(file.f)),
+            branches: metric(Object.values(file.b).flat()),
+        };
+    }
+
+    if (Object.keys(files).length === 0) {
+        throw new Error(`None of the submitted sources appear in ${filePath}`);
+    }
+
+    const sum = (k: keyof FileCoverage): CoverageMetric => {
+        const covered = Object.values(files).reduce(
+            (a, f) => a + f[k].covered,
+            0
+        );
+        const total = Object.values(files).reduce((a, f) => a + f[k].total, 0);
+        return { covered, total, pct: pct(covered, total) };
+    };
+
+    return {
+        total: {
+            lines: sum("lines"),
+            statements: sum("statements"),
+            functions: sum("functions"),
+            branches: sum("branches"),
+        },
+        files,
+    };
+}
+
+/* HELPERS
+================================================== */
+/**
+ * Returns `sourceName` and every source it imports, directly or indirectly,
+ * in path order.
+ *
+ * @function    dependencies
+ * @param       {string}    sourceName
+ * @param       {object}    sources     The `sources` of the compiler output.
+ * @returns     {string[]}
+ */
+function dependencies(
+    sourceName: string,
+    sources: Record<string, { ast: unknown }>
+): string[] {
+    const seen = new Set<string>();
+    const queue = [sourceName];
+
+    while (queue.length > 0) {
+        const s = queue.pop() as string;
+        if (seen.has(s)) continue;
+        seen.add(s);
+
+        const ast = sources[s].ast as { nodes: ImportNode[] };
+        for (const n of ast.nodes) {
+            if (n.nodeType === "ImportDirective" && n.absolutePath) {
+                queue.push(n.absolutePath);
+            }
+        }
+    }
+
+    return [...seen].sort();
+}
+
+/**
+ * @function    metric
+ * @param       {number[]}  hits
+ * @returns     {CoverageMetric}
+ */
+function metric(hits: readonly number[]): CoverageMetric {
+    const covered = hits.filter(h => h > 0).length;
+    return { covered, total: hits.length, pct: pct(covered, hits.length) };
+}
+
+/**
+ * @function    pct
+ * @param       {number}    covered
+ * @param       {number}    total
+ * @returns     {number | null} Rounded to two decimal places. `null` if
+ *                              `total` is 0.
+ */
+function pct(covered: number, total: number): number | null {
+    if (total === 0) return null;
+    return Math.round((covered / total) * 10_000) / 100;
+}
+
+/**
+ * @function    json
+ * @param       {unknown}   content
+ * @returns     {string}
+ */
+function json(content: unknown): string {
+    return `${JSON.stringify(content, bigintReplacer, 4)}\n`;
+}
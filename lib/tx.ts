@@ -1,6 +1,7 @@
 import {
     ContractTransactionResponse,
     type ContractTransactionReceipt,
+    type TransactionReceipt,
 } from "ethers";
 
 /**
@@ -8,10 +9,10 @@ import {
  * is null.
  *
  * @funtion     totalGas
- * @param       {ContractTransactionReceipt | null}   txRec
+ * @param       {TransactionReceipt | null}   txRec
  * @returns     {bigint}
  */
-export function totalGas(txRec: ContractTransactionReceipt | null): bigint {
+export function totalGas(txRec: TransactionReceipt | null): bigint {
     return (txRec?.gasUsed ?? 0n) * (txRec?.gasPrice ?? 0n);
 }
 
@@ -2,6 +2,9 @@
  * @file This script handles deploying all the contracts for this project to
  * the local node.
  *
+ * The steps themselves are declared in `./plan.ts`. This script runs that plan
+ * with its `local` override.
+ *
  * # Addresses
  *
  * It assumes that the 0th indexed address in the `accounts` array is the
@@ -35,6 +38,15 @@
  * After deployment, this script will mint the developer the NFT to be used as
  * the prize in the auction and approve the NFT Auction contract an allowance
  * over that NFT.
+ *
+ * # Output
+ *
+ * The deployments are recorded in `deployment_data/local/manifest.json`. Use
+ * `loadDeployment` from `lib/deploy/manifest.ts` to read them back, or
+ * `attachDeployed` from `lib/attach` to attach to them.
+ *
+ * The gas used and H1 spent by each step is printed and written to
+ * `deployment_data/local/<timestamp>_costs.json`.
  */
 
 /* IMPORT NODE MODULES
@@ -43,33 +55,10 @@ import { ethers } from "hardhat";
 
 /* IMPORT CONSTANTS UTILS, AND TYPES
 ================================================== */
-import { d, tx } from "@lib/deploy/wrapper";
-import { WEEK_SEC } from "../test/constants";
-import { writeJSON } from "@lib/json";
-
-import {
-    deployGuardianController,
-    NetworkGuardianControllerArgs,
-} from "@lib/deploy/network-guardian";
-
-import {
-    type ProofOfIdentityArgs,
-    deployProofOfIdentity,
-} from "@lib/deploy/proof-of-identity";
-
-import { type FeeInitalizerArgs, deployFeeContract } from "@lib/deploy/fee";
-
-import {
-    type SimpleStorageArgs,
-    deploySimpleStorage,
-} from "@lib/deploy/simple-storage";
-
-import {
-    type AuctionConfig,
-    type NFTAuctionArgs,
-    AuctionID,
-    deployNFTAuction,
-} from "@lib/deploy/nft-auction";
+import { executePlan } from "@lib/deploy/plan";
+import { Ledger } from "@lib/deploy/ledger";
+import { manifestPath, recordDeployments } from "@lib/deploy/manifest";
+import { PLAN } from "./plan";
 
 /* SCRIPT
 ================================================== */
@@ -81,183 +70,35 @@ async function main() {
     const assocAddr = await assoc.getAddress();
     const devAddr = await dev.getAddress();
 
-    /* Mock Account Manager
-    ======================================== */
-    const accManager = await d("Account Manager", async function () {
-        const f = await ethers.getContractFactory("MockAccountManager", assoc);
-        const c = await f.deploy();
-        return await c.waitForDeployment();
-    });
-
-    /* Mock Permissions Interface
-    ======================================== */
-    const permInterface = await d("Permissions Interface", async function () {
-        const f = await ethers.getContractFactory(
-            "MockPermissionsInterface",
-            assoc
-        );
-
-        const c = await f.deploy(accManager.address);
-        return await c.waitForDeployment();
-    });
-
-    /* Network Guardian Controller
-    ======================================== */
-    const controller = await d("Guardian Controller", async function () {
-        const args: NetworkGuardianControllerArgs = {
-            association: assocAddr,
-        };
-
-        return await deployGuardianController(args, assoc);
-    });
-
-    /* Proof of Identity
-    ======================================== */
-    const poi = await d("Proof of Identity", async function () {
-        const args: ProofOfIdentityArgs = {
-            association: assocAddr,
-            networkGuardianController: controller.address,
-            permissionsInterface: permInterface.address,
-            accountManager: accManager.address,
-        };
-
-        return await deployProofOfIdentity(args, assoc);
-    });
-
-    /* Fixed Fee Oracle
-    ======================================== */
-    const oracle = await d("Fixed Fee Oracle", async function () {
-        const startingVal = ethers.parseUnits("1.5", 18);
-
-        const f = await ethers.getContractFactory("FixedFeeOracle", assoc);
-        const c = await f.deploy(assocAddr, startingVal);
-        return await c.waitForDeployment();
-    });
+    const ledger = new Ledger();
 
-    /* Fee Contract
+    /* Deploy
     ======================================== */
-    const fee = await d("Fee Contract", async function () {
-        const args: FeeInitalizerArgs = {
-            association: assocAddr,
-            controller: controller.address,
-            oracle: oracle.address,
-            channels: [],
-            weights: [],
-            minDevFee: 0n, // $0 USD - no minimum fee.
-            maxDevFee: ethers.parseUnits("5", 18), // $5 USD
-            associationShare: ethers.parseUnits("0.2", 18), // 20%
-            gracePeriod: 600,
-        };
-
-        return await deployFeeContract(args, assoc);
-    });
-
-    /* Simple Storage
-    ======================================== */
-    const simpleStorage = await d("Simple Storage", async function () {
-        const fnSigs = ["incrementCount()", "decrementCount()"];
-        const fnFees = [ethers.parseUnits("2", 18), ethers.parseUnits("1", 18)];
-
-        const args: SimpleStorageArgs = {
-            feeContract: fee.address,
-            guardianController: controller.address,
-            association: assocAddr,
-            developer: devAddr,
-            feeCollector: devAddr,
-            fnSigs,
-            fnFees,
-            storesH1: false,
-        };
-
-        return await deploySimpleStorage(args, assoc);
-    });
-
-    /* Mock NFT
-    ======================================== */
-    const mockNFT = await d("Mock NFT", async function () {
-        const f = await ethers.getContractFactory("MockNFT", assoc);
-        const c = await f.deploy(10_000);
-        return await c.waitForDeployment();
-    });
-
-    /* NFT AUCTION
-    ======================================== */
-    const auction = await d("NFT Auction", async function () {
-        const nftID = 1n;
-        const fnSigs = ["startAuction()", "bid()", "endAuction()"];
-        const fnFees = [0n, ethers.parseUnits("2", 18), 0n];
-
-        const config: AuctionConfig = {
-            kind: AuctionID.ALL,
-            length: BigInt(WEEK_SEC),
-            startingBid: ethers.parseUnits("10", 18),
-            nft: mockNFT.address,
-            nftID,
-            beneficiary: devAddr,
-        };
-
-        const args: NFTAuctionArgs = {
-            proofOfIdentity: poi.address,
-            feeContract: fee.address,
-            guardianController: controller.address,
-            association: assocAddr,
-            developer: devAddr,
-            feeCollector: devAddr,
-            fnSigs,
-            fnFees,
-            config,
-        };
-
-        return await deployNFTAuction(args, assoc);
-    });
-
-    /* Additional Setup
-    ======================================== */
-    await tx(
-        "Register the Simple Storage Contract with the Network Guardian Controller",
-        async () => await simpleStorage.contract.register(),
-        0
-    );
-
-    await tx(
-        "Register the Auction Contract with the Network Guardian Controller",
-        async () => await auction.contract.register(),
-        0
-    );
-
-    await tx(
-        "Mint the developer an NFT to use as the Auction prize",
-        async () => await mockNFT.contract.mint(devAddr),
-        0
-    );
-
-    await tx(
-        "Approve the NFT Auction contract and allowance over the prize NFT",
-        async () =>
-            await mockNFT.contract.connect(dev).approve(auction.address, 1n),
-        0
+    const result = await executePlan(
+        PLAN,
+        {
+            signers: { deployer: assoc, developer: dev },
+            vars: {
+                association: assocAddr,
+                developer: devAddr,
+                feeCollector: devAddr,
+            },
+            ledger,
+        },
+        "local"
     );
 
     /* Output
     ======================================== */
-    const data = {
-        accountManager: accManager.address,
-        permissionsInterface: permInterface.address,
-        guardianController: controller.address,
-        proofOfIdentity: poi.address,
-        oracle: oracle.address,
-        feeContract: fee.address,
-        simpleStorage: simpleStorage.address,
-        mockNFT: mockNFT.address,
-        auction: auction.address,
-    } as const satisfies Record<string, string>;
+    const { chainId } = await ethers.provider.getNetwork();
+    await recordDeployments("local", chainId, result);
+
+    console.log(`Deployment manifest written to: ${manifestPath("local")}\n`);
 
-    const path = "./deployment_data/local/deployments.json";
-    const success = writeJSON(path, data);
+    ledger.print();
 
-    if (!success) {
-        console.error("Write to JSON failed");
-    }
+    const costs = ledger.write("local", chainId);
+    console.log(`Deployment costs written to: ${costs}`);
 }
 
 main().catch(error => {
@@ -2,166 +2,239 @@
  * @file This script handles deploying all the contracts in this project to the
  * Haven1 Mainnet.
  *
+ * The steps themselves are declared in `./plan.ts`. This script runs that plan
+ * with its `mainnet` override, which attaches to the existing vendor contracts
+ * rather than deploying them.
+ *
+ * # Resuming
+ *
+ * Every completed step is recorded in `deployment_data/mainnet/journal.json`.
+ * If the script fails part of the way through, rerunning it will skip the
+ * completed steps and pick up from the first incomplete step. Delete the
+ * journal to start a fresh deployment.
+ *
+ * # Output
+ *
+ * The deployments are recorded in `deployment_data/mainnet/manifest.json`.
+ *
+ * The gas used and H1 spent by each step (including the implementation and
+ * proxy of each contract) is printed and written to
+ * `deployment_data/mainnet/<timestamp>_costs.json`.
+ *
+ * # Dry Run
+ *
+ * Set `DRY_RUN` to simulate the deployment on the in-process Hardhat network.
+ * Nothing is broadcast and no deployment data is written. Each step prints
+ * its planned transactions, estimated gas, H1 cost and resulting addresses.
+ * The total cost of the run is printed at the end, so the deployer can be
+ * funded before the real deployment.
+ *
+ * -    `DRY_RUN=fork`:  Forks `MAINNET_RPC` and deploys on top of its state.
+ * -    `DRY_RUN=local`: Deploys on a fresh chain. The vendor contracts are
+ *                       deployed first, from a separate account, and used in
+ *                       place of the configured vendor addresses (which are
+ *                       not read). The deployer's nonce is left untouched, so
+ *                       its resulting addresses are those of a real run from
+ *                       the same nonce.
+ *
+ * If `MAINNET_DEPLOYER_ADDRESS` is set, that account is impersonated so the
+ * resulting addresses match those of the real deployment (fork mode only).
+ *
+ * ```bash
+ * DRY_RUN=fork npx hardhat run --network hardhat ./scripts/deployMainnet.ts
+ * ```
+ *
+ * # Environment
+ *
+ * The `MAINNET_*` variables are read and validated up front (see
+ * `lib/config.ts`). Every missing or invalid variable is reported at once,
+ * before anything is deployed. A local dry run does not need the vendor
+ * contract addresses, and only a fork dry run needs `MAINNET_RPC`.
+ *
  * # Deployer Address
- * It assumes that the 0th indexed address in the `accounts` array is the
- * private key of the account that will be used to deploy the contracts.
- * E.g.
- *
- * ```typescript
- * // File: hardhat.config.ts
- *
- * const config: HardhatUserConfig = {
- *     networks: {
- *         haven_mainnet: {
- *             url: HAVEN_MAINNET_RPC,
- *             accounts: [MAINNET_DEPLOYER], // This account will deploy
- *         },
- *     },
- * }
+ *
+ * The deployer is the first account of the network. Run the script against
+ * the `haven_mainnet` profile (see `lib/networks.ts`), which reads
+ * `MAINNET_RPC`, `MAINNET_CHAIN_ID` and the deployer's signer:
+ *
+ * ```bash
+ * npx hardhat run --network haven_mainnet ./scripts/deployMainnet.ts
+ * ```
+ *
+ * `MAINNET_SIGNER` selects the signer (see `lib/deploy/signer.ts`): a raw
+ * `MAINNET_DEPLOYER_KEY`, an encrypted `MAINNET_KEYSTORE` whose passphrase is
+ * prompted for, or an external signer at `MAINNET_SIGNER_RPC`.
+ *
+ * # Offline Signing
+ *
+ * With `MAINNET_SIGNER=offline`, run the script on a fork of Mainnet. The
+ * plan runs as `MAINNET_SIGNER_ADDRESS` and every transaction is written,
+ * unsigned and with its final nonce, to
+ * `deployment_data/hardhat/<timestamp>_unsigned.json`. As with a dry run, no
+ * other deployment data is written.
+ *
+ * ```bash
+ * FORK=mainnet MAINNET_SIGNER=offline npx hardhat run ./scripts/deployMainnet.ts
  * ```
  */
 
 /* IMPORT NODE MODULES
 ================================================== */
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
+import { JsonRpcProvider } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 /* IMPORT CONSTANTS AND UTILS
 ================================================== */
-import {
-    type AuctionConfig,
-    type NFTAuctionArgs,
-    AuctionID,
-    deployNFTAuction,
-} from "@lib/deploy/nft-auction";
-
-import {
-    type SimpleStorageArgs,
-    deploySimpleStorage,
-} from "@lib/deploy/simple-storage";
-
-import { d, tx } from "@lib/deploy/wrapper";
-import { writeJSON } from "@lib/json";
-import { WEEK_SEC } from "@test/constants";
-import { envExn } from "@lib/env";
-import { strToBigint } from "@lib/transform";
+import { deployedAddresses, executePlan } from "@lib/deploy/plan";
+import { Journal } from "@lib/deploy/journal";
+import { Ledger } from "@lib/deploy/ledger";
+import { simulationMode, startSimulation } from "@lib/deploy/simulate";
+import { manifestPath, recordDeployments } from "@lib/deploy/manifest";
+import { loadConfig } from "@lib/config";
+import { Fee, GuardianController, POI } from "@test/utils";
+import { PLAN } from "./plan";
 
 /* SCRIPT
 ================================================== */
 async function main() {
     /* Setup
     ======================================== */
-    const chainID = envExn("MAINNET_CHAIN_ID", strToBigint);
-    const connectedChainID = (await ethers.provider.getNetwork()).chainId;
-
-    if (chainID != connectedChainID) {
-        const err = `Expected chain ID: ${chainID}. Got chain ID: ${connectedChainID}`;
-        throw new Error(err);
+    const dryRun = simulationMode(process.env.DRY_RUN);
+    const offline = !dryRun && network.config.signer?.kind === "offline";
+    const env = loadConfig("mainnet", {
+        vendor: dryRun !== "local",
+        rpc: dryRun === "fork",
+    });
+    const chainID = env.chainID;
+
+    let deployer: HardhatEthersSigner;
+    let journal: Journal | undefined;
+
+    const ledger = new Ledger();
+
+    if (dryRun) {
+        const forkURL = dryRun === "fork" ? env.rpc : undefined;
+        if (forkURL) {
+            const p = new JsonRpcProvider(forkURL);
+            assertChainID(chainID, (await p.getNetwork()).chainId);
+            p.destroy();
+        }
+
+        deployer = await startSimulation({
+            mode: dryRun,
+            forkURL,
+            deployer: env.deployer,
+        });
+    } else {
+        assertChainID(chainID, (await ethers.provider.getNetwork()).chainId);
+
+        [deployer] = await ethers.getSigners();
+
+        if (!offline) {
+            journal = Journal.load(
+                "./deployment_data/mainnet/journal.json",
+                chainID
+            );
+        }
     }
 
-    const [deployer] = await ethers.getSigners();
+    const vendor = env.vendor ?? (await seedVendorContracts(deployer));
 
-    const association = envExn("MAINNET_ASSOCIATION");
-    const dev = envExn("MAINNET_DEV");
-    const devFeeCollector = envExn("MAINNET_DEV_FEE_COLLECTOR");
-    const feeContract = envExn("MAINNET_FEE_CONTRACT");
-    const poiContract = envExn("MAINNET_POI_CONTRACT");
-    const controllerContract = envExn("MAINNET_GUARDIAN_CONTROLLER_CONTRACT");
-
-    /* Simple Storage
+    /* Deploy
     ======================================== */
-    const simpleStorage = await d("Simple Storage", async function () {
-        const fnSigs = ["incrementCount()", "decrementCount()"];
-        const fnFees = [ethers.parseUnits("2", 18), ethers.parseUnits("1", 18)];
-
-        const args: SimpleStorageArgs = {
-            feeContract: feeContract,
-            guardianController: controllerContract,
-            association: association,
-            developer: dev,
-            feeCollector: devFeeCollector,
-            fnSigs,
-            fnFees,
-            storesH1: false,
-        };
-
-        return await deploySimpleStorage(args, deployer, 2);
-    });
+    const result = await executePlan(
+        PLAN,
+        {
+            signers: { deployer },
+            vars: {
+                association: env.association,
+                developer: env.developer,
+                feeCollector: env.feeCollector,
+                ...vendor,
+            },
+            journal,
+            simulate: !!dryRun || offline,
+            ledger,
+        },
+        "mainnet"
+    );
 
-    /* Mock NFT
+    /* Output
     ======================================== */
-    const mockNFT = await d("Mock NFT", async function () {
-        const f = await ethers.getContractFactory("MockNFT", deployer);
-        const c = await f.deploy(10_000);
-        await c.waitForDeployment();
-        await c.deploymentTransaction()?.wait(2);
-        return c;
-    });
+    if (dryRun || offline) {
+        const run = offline ? "Offline Run" : "Dry Run";
+        console.log(`${run} Completed. Resulting Addresses:`);
+        console.table(deployedAddresses(result));
+        ledger.print();
+        return;
+    }
 
-    /* NFT AUCTION
-    ======================================== */
-    const auction = await d("NFT Auction", async function () {
-        const nftID = 1n;
-        const fnSigs = ["startAuction()", "bid()", "endAuction()"];
-        const fnFees = [0n, ethers.parseUnits("2", 18), 0n];
-
-        const config: AuctionConfig = {
-            kind: AuctionID.ALL,
-            length: BigInt(WEEK_SEC),
-            startingBid: ethers.parseUnits("10", 18),
-            nft: mockNFT.address,
-            nftID,
-            beneficiary: dev,
-        };
-
-        const args: NFTAuctionArgs = {
-            proofOfIdentity: poiContract,
-            feeContract: feeContract,
-            guardianController: controllerContract,
-            association: association,
-            developer: dev,
-            feeCollector: dev,
-            fnSigs,
-            fnFees,
-            config,
-        };
-
-        return await deployNFTAuction(args, deployer, 2);
-    });
+    await recordDeployments("mainnet", chainID, result);
 
-    /* Additional Setup
-    ======================================== */
-    await tx(
-        "Register the Simple Storage Contract with the Network Guardian Controller",
-        async () => await simpleStorage.contract.register(),
-        2
-    );
+    console.log(`Deployment manifest written to: ${manifestPath("mainnet")}\n`);
 
-    await tx(
-        "Register the Auction Contract with the Network Guardian Controller",
-        async () => await auction.contract.register(),
-        2
-    );
+    ledger.print();
 
-    await tx(
-        "Mint the developer an NFT to use as the Auction prize",
-        async () => await mockNFT.contract.mint(dev),
-        2
-    );
+    const costs = ledger.write("mainnet", chainID);
+    console.log(`Deployment costs written to: ${costs}`);
+}
 
-    /* Output
-    ======================================== */
-    const data = {
-        simpleStorage: simpleStorage.address,
-        mockNFT: mockNFT.address,
-        auction: auction.address,
-    } as const satisfies Record<string, string>;
+/* HELPERS
+================================================== */
+/**
+ * @throws
+ * @function    assertChainID
+ * @param       {bigint}    expected
+ * @param       {bigint}    got
+ */
+function assertChainID(expected: bigint, got: bigint): void {
+    if (expected != got) {
+        const err = `Expected chain ID: ${expected}. Got chain ID: ${got}`;
+        throw new Error(err);
+    }
+}
 
-    const path = "./deployment_data/mainnet/deployments.json";
-    const success = writeJSON(path, data);
+/**
+ * Deploys the vendor contracts on a fresh simulated chain so that the plan has
+ * something to attach to.
+ *
+ * They are deployed by, and administered by, a Hardhat account other than the
+ * deployer. Seeding from the deployer would use up its nonces and shift the
+ * addresses of everything the plan deploys.
+ *
+ * @async
+ * @throws
+ * @function    seedVendorContracts
+ * @param       {HardhatEthersSigner}   deployer
+ * @returns     {Promise<Record<string, string>>}
+ */
+async function seedVendorContracts(
+    deployer: HardhatEthersSigner
+): Promise<Record<string, string>> {
+    const seeder = (await ethers.getSigners()).find(
+        s => s.address !== deployer.address
+    );
 
-    if (!success) {
-        console.error("Write to JSON failed");
+    if (!seeder) {
+        throw new Error("No account other than the deployer to seed from");
     }
+
+    console.log(`Seeding vendor contracts from: ${seeder.address}\n`);
+
+    const assoc = seeder.address;
+    const controller = await GuardianController.create(
+        { association: assoc },
+        seeder
+    );
+    const fee = await Fee.create(assoc, controller.address, seeder);
+    const poi = await POI.create(assoc, controller.address, seeder);
+
+    return {
+        feeContract: fee.address,
+        proofOfIdentity: poi.address,
+        guardianController: controller.address,
+    };
 }
 
 main().catch(error => {
@@ -0,0 +1,264 @@
+/**
+ * @file The deployment plan for this project. It is shared by the local and
+ * Mainnet deployment scripts, which select the `local` or `mainnet` override.
+ *
+ * # Vars
+ *
+ * The scripts must supply the following vars:
+ *
+ * -    `association`:  The Haven1 Association address.
+ * -    `developer`:    The developer address.
+ * -    `feeCollector`: The developer's fee collector address. Collects the fees
+ *                  of the Simple Storage contract; the auction's are collected
+ *                  by the developer.
+ *
+ * On Mainnet, the vendor contracts already exist, so the following vars must
+ * also be supplied:
+ *
+ * -    `feeContract`
+ * -    `proofOfIdentity`
+ * -    `guardianController`
+ *
+ * # Signers
+ *
+ * -    `deployer`: Deploys every contract and executes the setup steps.
+ * -    `developer`: Approves the NFT Auction. Only required locally.
+ *
+ * # Fees
+ *
+ * The `fnSigs` and `fnFees` of each contract are read from its fee schedule,
+ * `fee-schedules/<contract>.json` (see `lib/feeSchedule.ts`). Once the Fee
+ * Contract is known, the `checkFees` step checks every schedule against its
+ * minimum and maximum developer fees, before any contract that uses them is
+ * deployed.
+ *
+ * # Adding a Contract
+ *
+ * Register its deployment function in `lib/deploy/plan/deployers.ts` and add
+ * a `proxy` step below. Reference the outputs of other steps as
+ * `${<step id>.address}` and the vars as `${vars.<name>}`. If it has a fee
+ * schedule, add the contract to `FEE_SCHEDULES` and make the step depend on
+ * `checkFees`.
+ */
+
+/* IMPORT NODE MODULES
+================================================== */
+import { parseUnits } from "ethers";
+
+/* IMPORT CONSTANTS UTILS, AND TYPES
+================================================== */
+import type { Plan } from "@lib/deploy/plan";
+import { AuctionID } from "@lib/deploy/nft-auction";
+import { feeContractBounds, scheduledFees } from "@lib/feeSchedule";
+import { WEEK_SEC } from "@test/constants";
+
+/* CONSTANTS
+================================================== */
+/** The contracts whose fee schedules are checked by `checkFees`. */
+const FEE_SCHEDULES = ["SimpleStorage", "NFTAuction"];
+
+/* PLAN
+================================================== */
+export const PLAN: Plan = {
+    name: "haven1-dev-onboard",
+    steps: [
+        /* Vendor
+        ======================================== */
+        {
+            id: "accountManager",
+            desc: "Account Manager",
+            kind: "contract",
+            contract: "MockAccountManager",
+            args: [],
+        },
+        {
+            id: "permissionsInterface",
+            desc: "Permissions Interface",
+            kind: "contract",
+            contract: "MockPermissionsInterface",
+            args: ["${accountManager.address}"],
+        },
+        {
+            id: "guardianController",
+            desc: "Guardian Controller",
+            kind: "proxy",
+            deployer: "guardianController",
+            args: { association: "${vars.association}" },
+        },
+        {
+            id: "proofOfIdentity",
+            desc: "Proof of Identity",
+            kind: "proxy",
+            deployer: "proofOfIdentity",
+            args: {
+                association: "${vars.association}",
+                networkGuardianController: "${guardianController.address}",
+                permissionsInterface: "${permissionsInterface.address}",
+                accountManager: "${accountManager.address}",
+            },
+        },
+        {
+            id: "oracle",
+            desc: "Fixed Fee Oracle",
+            kind: "contract",
+            contract: "FixedFeeOracle",
+            args: ["${vars.association}", parseUnits("1.5", 18)],
+        },
+        {
+            id: "feeContract",
+            desc: "Fee Contract",
+            kind: "proxy",
+            deployer: "feeContract",
+            args: {
+                association: "${vars.association}",
+                controller: "${guardianController.address}",
+                oracle: "${oracle.address}",
+                channels: [],
+                weights: [],
+                minDevFee: 0n, // $0 USD - no minimum fee.
+                maxDevFee: parseUnits("5", 18), // $5 USD
+                associationShare: parseUnits("0.2", 18), // 20%
+                gracePeriod: 600,
+            },
+        },
+        {
+            id: "checkFees",
+            desc: "Check the fee schedules against the Fee Contract",
+            kind: "check",
+            args: { feeContract: "${feeContract.address}" },
+            check: async function (args) {
+                const { feeContract } = args as { feeContract: string };
+                const bounds = await feeContractBounds(feeContract);
+
+                for (const contract of FEE_SCHEDULES) {
+                    scheduledFees(contract, bounds);
+                }
+            },
+        },
+
+        /* Simple Storage
+        ======================================== */
+        {
+            id: "simpleStorage",
+            desc: "Simple Storage",
+            kind: "proxy",
+            deployer: "simpleStorage",
+            dependsOn: ["checkFees"],
+            args: {
+                feeContract: "${feeContract.address}",
+                guardianController: "${guardianController.address}",
+                association: "${vars.association}",
+                developer: "${vars.developer}",
+                feeCollector: "${vars.feeCollector}",
+                ...scheduledFees("SimpleStorage"),
+                storesH1: false,
+            },
+        },
+
+        /* NFT Auction
+        ======================================== */
+        {
+            id: "mockNFT",
+            desc: "Mock NFT",
+            kind: "contract",
+            contract: "MockNFT",
+            args: [10_000],
+        },
+        {
+            id: "auction",
+            desc: "NFT Auction",
+            kind: "proxy",
+            deployer: "nftAuction",
+            dependsOn: ["checkFees"],
+            args: {
+                proofOfIdentity: "${proofOfIdentity.address}",
+                feeContract: "${feeContract.address}",
+                guardianController: "${guardianController.address}",
+                association: "${vars.association}",
+                developer: "${vars.developer}",
+                // The auction's fees are collected by the developer.
+                feeCollector: "${vars.developer}",
+                ...scheduledFees("NFTAuction"),
+                config: {
+                    kind: AuctionID.ALL,
+                    length: BigInt(WEEK_SEC),
+                    startingBid: parseUnits("10", 18),
+                    nft: "${mockNFT.address}",
+                    nftID: 1n,
+                    beneficiary: "${vars.developer}",
+                },
+            },
+        },
+
+        /* Additional Setup
+        ======================================== */
+        {
+            id: "registerSimpleStorage",
+            desc: "Register the Simple Storage Contract with the Network Guardian Controller",
+            kind: "tx",
+            target: "simpleStorage",
+            method: "register",
+        },
+        {
+            id: "registerAuction",
+            desc: "Register the Auction Contract with the Network Guardian Controller",
+            kind: "tx",
+            target: "auction",
+            method: "register",
+        },
+        {
+            id: "mintPrize",
+            desc: "Mint the developer an NFT to use as the Auction prize",
+            kind: "tx",
+            target: "mockNFT",
+            method: "mint",
+            args: ["${vars.developer}"],
+        },
+        {
+            id: "approvePrize",
+            desc: "Approve the NFT Auction contract and allowance over the prize NFT",
+            kind: "tx",
+            target: "mockNFT",
+            method: "approve",
+            args: ["${auction.address}", 1n],
+            signer: "developer",
+            dependsOn: ["mintPrize"],
+        },
+    ],
+    // Confirmations default to those of the network (see `lib/networks.ts`).
+    overrides: {
+        local: {},
+        mainnet: {
+            replace: [
+                {
+                    id: "guardianController",
+                    desc: "Guardian Controller",
+                    kind: "existing",
+                    contract: "NetworkGuardianController",
+                    address: "${vars.guardianController}",
+                },
+                {
+                    id: "proofOfIdentity",
+                    desc: "Proof of Identity",
+                    kind: "existing",
+                    contract: "ProofOfIdentity",
+                    address: "${vars.proofOfIdentity}",
+                },
+                {
+                    id: "feeContract",
+                    desc: "Fee Contract",
+                    kind: "existing",
+                    contract: "FeeContract",
+                    address: "${vars.feeContract}",
+                },
+            ],
+            // The developer approves the auction from their own wallet.
+            skip: [
+                "accountManager",
+                "permissionsInterface",
+                "oracle",
+                "approvePrize",
+            ],
+        },
+    },
+};
@@ -0,0 +1,54 @@
+import { task, types } from "hardhat/config";
+
+import { check, cross } from "./utils";
+
+/**
+ * Task responsible for checking that contracts follow the
+ * `H1DevelopedApplication` rules:
+ *
+ * -    Every public or external state-changing function applies both the
+ *      `whenNotGuardianPaused` and `developerFee` modifiers.
+ * -    The constructor calls `_disableInitializers`.
+ * -    Initialization calls `__H1DevelopedApplication_init`.
+ *
+ * Each violation is reported with its file and line. Exits with a non-zero
+ * code if any are found. See `lib/compliance.ts`.
+ *
+ * @example
+ * npx hardhat check-compliance [--contracts SimpleStorage,NFTAuction]
+ */
+task("check-compliance", "Checks contracts against the Haven1 rules")
+    .addOptionalParam(
+        "contracts",
+        "Comma separated names of the contracts to check. Defaults to all",
+        undefined,
+        types.string
+    )
+    .setAction(async function (args, hre) {
+        const { checkCompliance } = await import("@lib/compliance");
+
+        const only = (args.contracts as string | undefined)
+            ?.split(",")
+            .map(c => c.trim())
+            .filter(Boolean);
+
+        await hre.run("compile", { quiet: true });
+
+        console.log("Checking Compliance");
+
+        const violations = await checkCompliance(only);
+
+        if (violations.length === 0) {
+            console.log(`\t ${check} No violations found`);
+            return;
+        }
+
+        for (const v of violations) {
+            console.error(
+                `\t ${cross} ${v.file}:${v.line} [${v.rule}] ${v.contract}: ${v.message}`
+            );
+        }
+
+        console.error(`\n${violations.length} violation(s) found`);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,207 @@
+import { task, types } from "hardhat/config";
+import { formatUnits } from "ethers";
+
+import { check, cross, fail } from "./utils";
+
+/**
+ * Task responsible for reconciling the fees of a deployed contract with its
+ * fee schedule (`fee-schedules/<contract>.json`, see `lib/feeSchedule.ts`).
+ *
+ * The schedule is validated against the ABI of the contract and the minimum
+ * and maximum developer fees of its Fee Contract. The on-chain fees are then
+ * diffed against the schedule and the `setFees` call that reconciles them is
+ * printed. With `--apply`, the call is sent from the first account once
+ * confirmed. The account must hold `DEV_ADMIN_ROLE`.
+ *
+ * The contract is either a deployment in the manifest (`--name`) or an
+ * address, in which case `--schedule` must be given.
+ *
+ * @example
+ * npx hardhat fee-schedule --network localhost --manifest local \
+ *      --name simpleStorage [--apply] [--yes]
+ *
+ * npx hardhat fee-schedule --network <network> --address 0x... \
+ *      --schedule fee-schedules/SimpleStorage.json
+ */
+task("fee-schedule", "Diffs a fee schedule against a deployed contract")
+    .addOptionalParam(
+        "name",
+        "The deployment name in the manifest",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "manifest",
+        "The manifest to load the deployment from. Defaults to the network name",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "address",
+        "The address of the contract, instead of --name",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "schedule",
+        "The fee schedule file, or the name of its contract. Defaults to that of the deployment",
+        undefined,
+        types.string
+    )
+    .addFlag("apply", "Send the setFees call")
+    .addFlag("yes", "Skip the confirmation prompt")
+    .setAction(async function (args, hre) {
+        const {
+            FeeScheduleError,
+            diffFeeSchedule,
+            feeBounds,
+            feeSchedulePath,
+            loadFeeSchedule,
+            reconcileFees,
+        } = await import("@lib/feeSchedule");
+        const { loadManifest, manifestPath } = await import(
+            "@lib/deploy/manifest"
+        );
+        const { IH1DevelopedApplication__factory } = await import("@typechain");
+        const { tx } = await import("@lib/deploy/wrapper");
+        const { confirm } = await import("@lib/prompt");
+        const { describeError } = await import("@lib/revert");
+
+        if (!args.name === !args.address) {
+            fail("Supply exactly one of --name or --address");
+        }
+
+        await hre.run("compile", { quiet: true });
+
+        /* Target
+        ======================================== */
+        let address = args.address as string | undefined;
+        let schedulePath = args.schedule as string | undefined;
+        let contract: string | undefined;
+
+        if (args.name) {
+            const network = (args.manifest as string) ?? hre.network.name;
+            const entry = loadManifest(network).contracts[args.name];
+
+            if (!entry) {
+                fail(
+                    `No deployment named ${args.name} found in ${manifestPath(network)}`
+                );
+            }
+
+            address = entry.address;
+            contract = entry.contract;
+            schedulePath ??= contract;
+        }
+
+        if (!address || !hre.ethers.isAddress(address)) {
+            fail(`Invalid address: ${address}`);
+        }
+
+        if (!schedulePath) {
+            fail("Supply --schedule with --address");
+        }
+
+        if (!schedulePath.endsWith(".json")) {
+            schedulePath = feeSchedulePath(schedulePath);
+        }
+
+        /* Validate
+        ======================================== */
+        console.log(`Validating Fee Schedule: ${schedulePath}`);
+
+        let bounds;
+        try {
+            bounds = await feeBounds(address);
+        } catch {
+            fail(`${address} is not an H1DevelopedApplication`);
+        }
+
+        let schedule;
+        try {
+            schedule = loadFeeSchedule(schedulePath, bounds);
+        } catch (e) {
+            if (!(e instanceof FeeScheduleError)) throw e;
+
+            for (const i of e.issues) {
+                console.error(`\t ${cross} ${i.signature}: ${i.reason}`);
+            }
+            fail(`${e.issues.length} issue(s) found in ${schedulePath}`);
+        }
+
+        if (contract && schedule.contract !== contract) {
+            fail(
+                `${schedulePath} is the schedule of ${schedule.contract}, but ${args.name} is a ${contract}`
+            );
+        }
+
+        console.log(
+            `\t ${check} ${schedule.entries.length} fee(s) for ${schedule.contract}, within $${formatUnits(bounds.min, 18)} to $${formatUnits(bounds.max, 18)}\n`
+        );
+
+        /* Diff
+        ======================================== */
+        const diffs = await diffFeeSchedule(address, schedule);
+        const usd = (v?: bigint) =>
+            v === undefined ? "-" : formatUnits(v, 18);
+
+        console.log(`Fees: ${address} -> ${schedulePath}`);
+        console.table(
+            diffs.map(d => ({
+                signature: d.signature,
+                selector: d.selector,
+                onChain: usd(d.onChain),
+                scheduled: usd(d.scheduled),
+                status: d.status,
+            }))
+        );
+
+        let call;
+        try {
+            call = reconcileFees(address, diffs, bounds);
+        } catch (e) {
+            fail((e as Error).message);
+        }
+
+        if (!call) {
+            console.log(`\t ${check} The fees match the schedule`);
+            return;
+        }
+
+        console.log("Reconciling Call");
+        console.log(`\t to:     ${call.to}`);
+        console.log(`\t fn:     setFees(string[],uint256[])`);
+        console.log(`\t fnSigs: ${JSON.stringify(call.fnSigs)}`);
+        console.log(
+            `\t fnFees: ${JSON.stringify(call.fnFees.map(f => f.toString()))}`
+        );
+        console.log(`\t data:   ${call.data}\n`);
+
+        if (!args.apply) {
+            console.log("Not applied. Pass --apply to send the call.");
+            return;
+        }
+
+        /* Apply
+        ======================================== */
+        if (!args.yes) {
+            const ok = await confirm(
+                `Set ${call.fnSigs.length} fee(s) on ${address} on ${hre.network.name}?`
+            );
+            if (!ok) {
+                console.log("Aborted.");
+                return;
+            }
+        }
+
+        const [signer] = await hre.ethers.getSigners();
+        const app = IH1DevelopedApplication__factory.connect(address, signer);
+
+        try {
+            await tx(`Apply the fee schedule of ${schedule.contract}`, () =>
+                app.setFees(call.fnSigs, call.fnFees)
+            );
+        } catch (e) {
+            fail(await describeError(e));
+        }
+    });
@@ -0,0 +1,155 @@
+import { task, types } from "hardhat/config";
+import { formatUnits, parseUnits } from "ethers";
+
+import { fail, splitSignatures } from "./utils";
+
+/**
+ * Task responsible for projecting the fee revenue of a deployed
+ * `H1DevelopedApplication`: what its dev fee collector and the distribution
+ * channels of its Fee Contract would earn per epoch for a given call mix.
+ *
+ * The parameters of the Fee Contract (Association share, channels and weights,
+ * application fee, epochs, grace period and fee bounds) and the USD fees of
+ * the functions are read from the network, and the simulation starts from the
+ * current balance of the Fee Contract. See `lib/feeSimulator.ts`.
+ *
+ * `--mix` gives the calls per epoch of each function. `--prices` gives the
+ * oracle's H1 value of one USD for each epoch, the last repeating. It defaults
+ * to the current value.
+ *
+ * @example
+ * npx hardhat fee-simulate --network <network> --address 0x... \
+ *      --mix "incrementCount()=100,decrementCount()=20" \
+ *      [--epochs 30] [--prices "1.5,1.6,1.4"]
+ */
+task("fee-simulate", "Projects the fee revenue of an H1DevelopedApplication")
+    .addParam("address", "The address of the contract", "", types.string)
+    .addParam(
+        "mix",
+        "Comma separated calls per epoch, e.g. incrementCount()=100",
+        "",
+        types.string
+    )
+    .addOptionalParam("epochs", "The number of epochs", 30, types.int)
+    .addOptionalParam(
+        "prices",
+        "Comma separated H1 values of one USD, per epoch",
+        undefined,
+        types.string
+    )
+    .setAction(async function (args, hre) {
+        const { readFeeModel, simulateFees } = await import(
+            "@lib/feeSimulator"
+        );
+        const { IFeeContract__factory, IH1DevelopedApplication__factory } =
+            await import("@typechain");
+
+        const { ethers } = hre;
+
+        if (!ethers.isAddress(args.address)) {
+            fail(`Invalid address: ${args.address}`);
+        }
+
+        if (args.epochs < 1) {
+            fail(`Invalid number of epochs: ${args.epochs}`);
+        }
+
+        /* Mix
+        ======================================== */
+        const mix: Record<string, number> = {};
+        for (const entry of splitSignatures(args.mix)) {
+            const i = entry.lastIndexOf("=");
+            const count = Number(entry.slice(i + 1));
+
+            if (i < 0 || !Number.isInteger(count) || count < 0) {
+                fail(`Invalid mix entry: ${entry}`);
+            }
+
+            mix[entry.slice(0, i).trim()] = count;
+        }
+
+        if (Object.keys(mix).length === 0) {
+            fail("Supply at least one function with --mix");
+        }
+
+        /* Model
+        ======================================== */
+        let model: Awaited<ReturnType<typeof readFeeModel>>;
+        try {
+            model = await readFeeModel(args.address, Object.keys(mix));
+        } catch (e) {
+            fail(e instanceof Error ? e.message : String(e));
+        }
+
+        const feeAddress = await IH1DevelopedApplication__factory.connect(
+            args.address,
+            ethers.provider
+        ).feeContract();
+        const fee = IFeeContract__factory.connect(feeAddress, ethers.provider);
+
+        let prices: bigint[];
+        try {
+            prices = args.prices
+                ? (args.prices as string)
+                      .split(",")
+                      .map(p => parseUnits(p.trim(), 18))
+                : [await fee.queryOracle()];
+        } catch {
+            fail(`Invalid prices: ${args.prices}`);
+        }
+
+        const h1USD = Array.from(
+            { length: args.epochs },
+            (_, i) => prices[Math.min(i, prices.length - 1)]
+        );
+
+        const balance = await ethers.provider.getBalance(feeAddress);
+
+        /* Simulate
+        ======================================== */
+        let sim: ReturnType<typeof simulateFees>;
+        try {
+            sim = simulateFees(model, mix, h1USD, balance);
+        } catch (e) {
+            fail(e instanceof Error ? e.message : String(e));
+        }
+
+        const h1 = (v: bigint) => formatUnits(v, 18);
+
+        console.log(`Contract:     ${args.address}`);
+        console.log(`Fee Contract: ${feeAddress}`);
+        console.log(`Assoc Share:  ${h1(model.assocShare * 100n)}%`);
+        console.log(
+            `Epoch:        ${model.distributionEpoch + 1}s, grace period ${model.gracePeriod}s\n`
+        );
+
+        if (model.channels.length > 0) {
+            console.log("Channels");
+            console.table(
+                model.channels.map((c, i) => ({
+                    Channel: i,
+                    Address: c.address,
+                    Weight: c.weight.toString(),
+                }))
+            );
+        }
+
+        console.log("Payouts (H1)");
+        console.table(
+            sim.epochs.map(e => ({
+                Epoch: e.epoch,
+                "H1/USD": h1(e.h1USD),
+                Calls: e.calls,
+                Collector: h1(e.collector),
+                ...Object.fromEntries(
+                    e.channels.map((c, i) => [`Channel ${i}`, h1(c)])
+                ),
+                Remainder: h1(e.remainder),
+            }))
+        );
+
+        console.log(`Collector Total: ${h1(sim.collector)}`);
+        sim.channels.forEach((c, i) =>
+            console.log(`Channel ${i} Total: ${h1(c)}`)
+        );
+    });
@@ -0,0 +1,101 @@
+import { task, types } from "hardhat/config";
+import { formatUnits } from "ethers";
+
+import { fail, splitSignatures } from "./utils";
+
+/**
+ * Task responsible for showing the fees of a deployed `H1DevelopedApplication`
+ * contract, as charged to a given caller.
+ *
+ * For each function, prints the fee set by the developer in USD
+ * (`getFnFeeUSD`), the fee charged in H1 (`getFnFeeAdj`) and the Fee Contract
+ * exemptions (`isExempt`) that apply to the caller. The H1/USD price that
+ * applies to the contract (`h1USD`, which lags during a grace period) is
+ * printed first. See `lib/fees.ts`.
+ *
+ * The functions are given either as signatures or as an ABI: a JSON file or
+ * the name of a compiled contract. Only the state-changing functions of an
+ * ABI are shown. The caller defaults to the first account of the network.
+ *
+ * @example
+ * npx hardhat fees --network <network> --address 0x... \
+ *      --sigs "incrementCount(),decrementCount()" [--caller 0x...]
+ *
+ * npx hardhat fees --network <network> --address 0x... --abi SimpleStorage
+ */
+task("fees", "Shows the fees of an H1DevelopedApplication contract")
+    .addParam("address", "The address of the contract", "", types.string)
+    .addOptionalParam(
+        "sigs",
+        "Comma separated function signatures",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "abi",
+        "A JSON file holding the ABI, or the name of a compiled contract",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "caller",
+        "The caller to check. Defaults to the first account",
+        undefined,
+        types.string
+    )
+    .setAction(async function (args, hre) {
+        const { feeableSignatures, inspectFees, loadAbi } = await import(
+            "@lib/fees"
+        );
+
+        const { ethers } = hre;
+
+        if (!ethers.isAddress(args.address)) {
+            fail(`Invalid address: ${args.address}`);
+        }
+
+        if (!args.sigs === !args.abi) {
+            fail("Supply exactly one of --sigs or --abi");
+        }
+
+        let sigs: string[];
+        if (args.sigs) {
+            sigs = splitSignatures(args.sigs);
+        } else {
+            try {
+                sigs = feeableSignatures(await loadAbi(args.abi));
+            } catch (e) {
+                fail(e instanceof Error ? e.message : String(e));
+            }
+        }
+
+        let caller = args.caller as string | undefined;
+        if (caller === undefined) {
+            const [signer] = await ethers.getSigners();
+            caller = signer?.address ?? ethers.ZeroAddress;
+        } else if (!ethers.isAddress(caller)) {
+            fail(`Invalid caller: ${caller}`);
+        }
+
+        let report: Awaited<ReturnType<typeof inspectFees>>;
+        try {
+            report = await inspectFees(args.address, sigs, caller);
+        } catch (e) {
+            fail(e instanceof Error ? e.message : String(e));
+        }
+
+        console.log(`Contract:     ${report.contract}`);
+        console.log(`Fee Contract: ${report.feeContract}`);
+        console.log(`Caller:       ${report.caller}`);
+        console.log(`H1/USD:       ${formatUnits(report.h1USD, 18)}\n`);
+
+        console.table(
+            report.fns.map(f => ({
+                Function: f.signature,
+                Selector: f.selector,
+                "Fee (USD)": formatUnits(f.feeUSD, 18),
+                "Fee (H1)": formatUnits(f.feeAdj, 18),
+                Exempt: f.exempt ? `yes (${f.exemptions.join(", ")})` : "no",
+            }))
+        );
+    });
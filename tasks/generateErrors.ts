@@ -0,0 +1,38 @@
+import { task } from "hardhat/config";
+import { TASK_CLEAN, TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import * as fs from "fs";
+
+import { ERRORS_DIR, generateErrorModule } from "@lib/errors";
+import { check } from "./utils";
+
+/**
+ * Task responsible for generating the typed error module, `@errors`, from the
+ * custom errors of every contract in `contracts/`. See `lib/errors.ts`.
+ *
+ * It runs after every compile, so the module cannot go stale, and its output
+ * is removed by `clean`.
+ *
+ * @example
+ * npx hardhat generate-errors
+ */
+task("generate-errors", "Generates the typed custom error module")
+    .addFlag("quiet", "Only log if the module changed")
+    .setAction(async function (args, hre) {
+        const res = await generateErrorModule(hre.artifacts, ERRORS_DIR);
+
+        if (res.written || !args.quiet) {
+            console.log(
+                `\t ${check} Generated ${res.count} custom error(s) in ${res.path}`
+            );
+        }
+    });
+
+task(TASK_COMPILE).setAction(async function (args, hre, runSuper) {
+    await runSuper(args);
+    await hre.run("generate-errors", { quiet: true });
+});
+
+task(TASK_CLEAN).setAction(async function (args, hre, runSuper) {
+    await runSuper(args);
+    fs.rmSync(ERRORS_DIR, { recursive: true, force: true });
+});
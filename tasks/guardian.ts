@@ -0,0 +1,373 @@
+import { task, types } from "hardhat/config";
+
+import type {
+    ConfigurableTaskDefinition,
+    HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import type { GuardianAction, GuardianTarget } from "@lib/guardian";
+
+import { check, cross, fail } from "./utils";
+
+/**
+ * Tasks responsible for operating the Network Guardian Controller, e.g., for
+ * incident drills on local and test networks. See `lib/guardian.ts`.
+ *
+ * The controller is either given with `--controller` or read from the
+ * manifest (`--manifest`, defaulting to the network name). Contracts are named
+ * after their manifest entries where possible.
+ *
+ * -    `guardian-list`:    Lists the registered contracts and whether each is
+ *                          paused.
+ * -    `guardian-pause`:   Pauses a set of contracts. Requires
+ *                          `NETWORK_GUARDIAN`.
+ * -    `guardian-unpause`: Unpauses a set of contracts. Requires
+ *                          `DEFAULT_ADMIN_ROLE`.
+ *
+ * The set is one of `--addresses`, `--names` (manifest names), a range of
+ * registered indexes (`--start`, `--end`) or `--all`. A single address is sent
+ * to `pause`, several to `pauseMultiple` and a range to `pauseRange`. The
+ * targets are shown and confirmed first, and the result for each is decoded
+ * from the controller's events.
+ *
+ * @example
+ * npx hardhat guardian-list --network localhost --manifest local
+ *
+ * npx hardhat guardian-pause --network localhost --manifest local \
+ *      --names simpleStorage,auction [--safe] [--yes]
+ *
+ * npx hardhat guardian-unpause --network <network> --controller 0x... --all
+ */
+task("guardian-list", "Lists the contracts registered with the guardian")
+    .addOptionalParam(
+        "controller",
+        "The address of the Network Guardian Controller",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "manifest",
+        "The manifest to read the controller from. Defaults to the network name",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "start",
+        "The start index (inclusive)",
+        undefined,
+        types.int
+    )
+    .addOptionalParam("end", "The end index (exclusive)", undefined, types.int)
+    .setAction(async function (args, hre) {
+        const { listGuardianContracts } = await import("@lib/guardian");
+
+        const { controller, names } = await resolveController(args, hre);
+
+        let list: Awaited<ReturnType<typeof listGuardianContracts>>;
+        try {
+            list = await listGuardianContracts(
+                controller,
+                args.start,
+                args.end
+            );
+        } catch (e) {
+            fail(await describe(e));
+        }
+
+        console.log(`Controller: ${controller}\n`);
+
+        if (list.length === 0) {
+            console.log("No registered contracts.");
+            return;
+        }
+
+        console.table(
+            list.map(c => ({
+                Index: c.index,
+                Address: c.address,
+                Name: names[c.address] ?? "",
+                Paused: paused(c.paused),
+            }))
+        );
+
+        const n = list.filter(c => c.paused).length;
+        console.log(`${n} of ${list.length} contract(s) paused`);
+    });
+
+guardianTask("pause", "Pauses contracts through the guardian");
+guardianTask("unpause", "Unpauses contracts through the guardian");
+
+/* HELPERS
+================================================== */
+/**
+ * Defines the `guardian-<action>` task.
+ *
+ * @function    guardianTask
+ * @param       {GuardianAction}    action
+ * @param       {string}            description
+ * @returns     {ConfigurableTaskDefinition}
+ */
+function guardianTask(
+    action: GuardianAction,
+    description: string
+): ConfigurableTaskDefinition {
+    return task(`guardian-${action}`, description)
+        .addOptionalParam(
+            "controller",
+            "The address of the Network Guardian Controller",
+            undefined,
+            types.string
+        )
+        .addOptionalParam(
+            "manifest",
+            "The manifest to read the controller and names from. Defaults to the network name",
+            undefined,
+            types.string
+        )
+        .addOptionalParam(
+            "addresses",
+            "Comma separated contract addresses",
+            undefined,
+            types.string
+        )
+        .addOptionalParam(
+            "names",
+            "Comma separated deployment names in the manifest",
+            undefined,
+            types.string
+        )
+        .addOptionalParam(
+            "start",
+            "The start index of a range of registered contracts (inclusive)",
+            undefined,
+            types.int
+        )
+        .addOptionalParam(
+            "end",
+            "The end index of the range (exclusive). Defaults to the count",
+            undefined,
+            types.int
+        )
+        .addFlag("all", "Every registered contract")
+        .addFlag("safe", "Revert if any contract fails")
+        .addFlag("yes", "Skip the confirmation prompt")
+        .setAction(async function (args, hre) {
+            const { guardianTargets, runGuardianAction } = await import(
+                "@lib/guardian"
+            );
+            const { NetworkGuardianController__factory } = await import(
+                "@typechain"
+            );
+            const { confirm } = await import("@lib/prompt");
+
+            const ranged = args.start !== undefined || args.end !== undefined;
+            const given = [args.addresses, args.names, ranged, args.all];
+
+            if (given.filter(Boolean).length !== 1) {
+                fail(
+                    "Supply exactly one of --addresses, --names, --start/--end or --all"
+                );
+            }
+
+            const { controller, names, manifest } = await resolveController(
+                args,
+                hre
+            );
+            const c = NetworkGuardianController__factory.connect(
+                controller,
+                hre.ethers.provider
+            );
+
+            /* Target
+            ======================================== */
+            let target: GuardianTarget;
+            if (args.addresses || args.names) {
+                const list = split(args.addresses ?? args.names);
+                const addresses = args.addresses
+                    ? list
+                    : list.map(
+                          n => manifest?.[n] ?? fail(`No deployment named ${n}`)
+                      );
+
+                for (const a of addresses) {
+                    if (!hre.ethers.isAddress(a)) fail(`Invalid address: ${a}`);
+                }
+
+                target = { addresses };
+            } else {
+                target = {
+                    start: args.start ?? 0,
+                    end: args.end ?? Number(await c.registeredCount()),
+                };
+            }
+
+            let addresses: string[];
+            try {
+                addresses = await guardianTargets(controller, target);
+            } catch (e) {
+                fail(await describe(e));
+            }
+
+            if (addresses.length === 0) {
+                console.log("No contracts to act on.");
+                return;
+            }
+
+            console.log(`Controller: ${controller}\n`);
+            console.log("Targets");
+            console.table(
+                await Promise.all(
+                    addresses.map(async a => ({
+                        Address: a,
+                        Name: names[a] ?? "",
+                        Registered: (await c.isRegistered(a)) ? "yes" : "no",
+                    }))
+                )
+            );
+
+            if (!args.yes) {
+                const ok = await confirm(
+                    `${action === "pause" ? "Pause" : "Unpause"} ${addresses.length} contract(s) on ${hre.network.name}${args.safe ? " (safe)" : ""}?`
+                );
+                if (!ok) {
+                    console.log("Aborted.");
+                    return;
+                }
+            }
+
+            /* Run
+            ======================================== */
+            const [signer] = await hre.ethers.getSigners();
+
+            let run: Awaited<ReturnType<typeof runGuardianAction>>;
+            try {
+                run = await runGuardianAction(
+                    controller,
+                    signer,
+                    action,
+                    target,
+                    !!args.safe
+                );
+            } catch (e) {
+                fail(await describe(e));
+            }
+
+            run.calls.forEach((call, i) =>
+                console.log(
+                    `\t ${check} ${call.method} (${call.addresses.length}): ${run.hashes[i]}`
+                )
+            );
+            console.log();
+
+            console.table(
+                run.results.map(r => ({
+                    Address: r.address,
+                    Name: names[r.address] ?? "",
+                    Before: paused(r.before),
+                    Event: r.event ?? "none",
+                    After: paused(r.after),
+                }))
+            );
+
+            const failed = run.results.filter(
+                r => r.event !== "Paused" && r.event !== "Unpaused"
+            );
+
+            if (failed.length > 0) {
+                fail(`${failed.length} contract(s) failed to ${action}`);
+            }
+
+            console.log(
+                `\t ${check} ${run.results.length} contract(s) ${action}d`
+            );
+        });
+}
+
+/**
+ * Resolves the controller address from `--controller` or the manifest, along
+ * with the manifest names of the deployments by address and by name. The
+ * manifest is optional when `--controller` is given.
+ *
+ * @async
+ * @function    resolveController
+ * @param       {{ controller?: string, manifest?: string }}  args
+ * @param       {HardhatRuntimeEnvironment}                     hre
+ * @returns     {Promise<{ controller: string, names: Record<string, string>, manifest?: Record<string, string> }>}
+ */
+async function resolveController(
+    args: { controller?: string; manifest?: string },
+    hre: HardhatRuntimeEnvironment
+): Promise<{
+    controller: string;
+    names: Record<string, string>;
+    manifest?: Record<string, string>;
+}> {
+    const { loadManifest } = await import("@lib/deploy/manifest");
+    const { getAddress } = hre.ethers;
+
+    const network = args.manifest ?? hre.network.name;
+    const names: Record<string, string> = {};
+    let manifest: Record<string, string> | undefined;
+    let controller = args.controller;
+
+    try {
+        const entries = Object.values(loadManifest(network).contracts);
+        manifest = {};
+
+        for (const e of entries) {
+            names[getAddress(e.address)] = e.name;
+            manifest[e.name] = getAddress(e.address);
+
+            if (
+                !args.controller &&
+                e.contract === "NetworkGuardianController"
+            ) {
+                controller = e.address;
+            }
+        }
+    } catch (e) {
+        if (!args.controller) fail((e as Error).message);
+    }
+
+    if (!controller) {
+        fail(`No NetworkGuardianController found in the ${network} manifest`);
+    }
+
+    if (!hre.ethers.isAddress(controller)) {
+        fail(`Invalid controller: ${controller}`);
+    }
+
+    return { controller: getAddress(controller), names, manifest };
+}
+
+/**
+ * @async
+ * @function    describe
+ * @param       {unknown}   e
+ * @returns     {Promise<string>}
+ */
+async function describe(e: unknown): Promise<string> {
+    const { describeError } = await import("@lib/revert");
+    return await describeError(e);
+}
+
+/**
+ * @function    split
+ * @param       {string}    list
+ * @returns     {string[]}
+ */
+function split(list: string): string[] {
+    return list
+        .split(",")
+        .map(s => s.trim())
+        .filter(Boolean);
+}
+
+/**
+ * @function    paused
+ * @param       {boolean | undefined}   v
+ * @returns     {string}
+ */
+function paused(v: boolean | undefined): string {
+    if (v === undefined) return `${cross} unknown`;
+    return v ? "yes" : "no";
+}
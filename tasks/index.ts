@@ -1 +1,10 @@
 export * from "./havenContract";
+export * from "./upgradeContract";
+export * from "./prepareSubmission";
+export * from "./checkCompliance";
+export * from "./generateErrors";
+export * from "./fees";
+export * from "./feeSchedule";
+export * from "./feeSimulate";
+export * from "./oracleScenario";
+export * from "./guardian";
@@ -0,0 +1,189 @@
+import { task, types } from "hardhat/config";
+import { formatUnits, parseUnits } from "ethers";
+
+import { check, cross, fail, splitSignatures } from "./utils";
+
+/**
+ * Task responsible for replaying a price series through the `FixedFeeOracle`
+ * of a deployed `H1DevelopedApplication`'s Fee Contract, and checking that the
+ * function fees stay within the Fee Contract's minimum and maximum fees at
+ * every step. See `lib/oracleScenario.ts`.
+ *
+ * The series is a CSV or JSON file of timestamps to H1/USD values. The chain
+ * time is advanced at each step, so the task runs on the hardhat network
+ * (e.g., a fork) or a local node. The oracle is updated by the first account,
+ * or on the hardhat network by an impersonated `--operator`.
+ *
+ * The functions are given either as signatures or as an ABI, as with the
+ * `fees` task. The steps can be written to a JSON file with `--out`.
+ *
+ * @example
+ * npx hardhat oracle-scenario --network localhost --address 0x... \
+ *      --series prices.csv --abi SimpleStorage [--caller 0x...] \
+ *      [--out scenario.json]
+ */
+task("oracle-scenario", "Replays a price series through the fee oracle")
+    .addParam("address", "The address of the contract", "", types.string)
+    .addParam(
+        "series",
+        "The price series, a .csv or .json file",
+        "",
+        types.string
+    )
+    .addOptionalParam(
+        "sigs",
+        "Comma separated function signatures",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "abi",
+        "A JSON file holding the ABI, or the name of a compiled contract",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "caller",
+        "The caller to check. Defaults to the operator",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "operator",
+        "The oracle operator to impersonate (hardhat network only)",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "out",
+        "A .json file, relative to the project root, to write the steps to",
+        undefined,
+        types.string
+    )
+    .setAction(async function (args, hre) {
+        const { feeableSignatures, loadAbi } = await import("@lib/fees");
+        const { PriceSeriesError, loadPriceSeries, runPriceScenario } =
+            await import("@lib/oracleScenario");
+        const { writeJSON } = await import("@lib/json");
+        const { describeError } = await import("@lib/revert");
+
+        const { ethers, network } = hre;
+
+        if (network.name !== "hardhat" && network.name !== "localhost") {
+            fail(
+                `Price scenarios advance the chain time and must run on hardhat or localhost. Got: ${network.name}`
+            );
+        }
+
+        if (!ethers.isAddress(args.address)) {
+            fail(`Invalid address: ${args.address}`);
+        }
+
+        if (args.caller && !ethers.isAddress(args.caller)) {
+            fail(`Invalid caller: ${args.caller}`);
+        }
+
+        if (!args.sigs === !args.abi) {
+            fail("Supply exactly one of --sigs or --abi");
+        }
+
+        if (args.out && !args.out.endsWith(".json")) {
+            fail(`--out must be a .json file: ${args.out}`);
+        }
+
+        let sigs: string[];
+        if (args.sigs) {
+            sigs = splitSignatures(args.sigs);
+        } else {
+            try {
+                sigs = feeableSignatures(await loadAbi(args.abi));
+            } catch (e) {
+                fail(e instanceof Error ? e.message : String(e));
+            }
+        }
+
+        let series: ReturnType<typeof loadPriceSeries>;
+        try {
+            series = loadPriceSeries(args.series);
+        } catch (e) {
+            if (!(e instanceof PriceSeriesError)) {
+                fail(e instanceof Error ? e.message : String(e));
+            }
+
+            for (const i of e.issues) {
+                console.error(`\t ${cross} entry ${i.entry}: ${i.reason}`);
+            }
+            fail(`${e.issues.length} issue(s) found in ${args.series}`);
+        }
+
+        /* Operator
+        ======================================== */
+        let operator;
+        if (args.operator) {
+            if (network.name !== "hardhat") {
+                fail("--operator can only be impersonated on hardhat");
+            }
+
+            await network.provider.request({
+                method: "hardhat_impersonateAccount",
+                params: [args.operator],
+            });
+            await network.provider.request({
+                method: "hardhat_setBalance",
+                params: [args.operator, ethers.toQuantity(parseUnits("1", 18))],
+            });
+
+            operator = await ethers.getSigner(args.operator);
+        } else {
+            [operator] = await ethers.getSigners();
+        }
+
+        /* Run
+        ======================================== */
+        let scenario: Awaited<ReturnType<typeof runPriceScenario>>;
+        try {
+            scenario = await runPriceScenario({
+                address: args.address,
+                signatures: sigs,
+                series,
+                operator,
+                caller: args.caller,
+            });
+        } catch (e) {
+            fail(await describeError(e));
+        }
+
+        const h1 = (v: bigint) => formatUnits(v, 18);
+
+        console.log(`Contract:     ${scenario.contract}`);
+        console.log(`Fee Contract: ${scenario.feeContract}`);
+        console.log(`Oracle:       ${scenario.oracle}`);
+        console.log(`Caller:       ${scenario.caller}\n`);
+
+        console.log("Fees (H1)");
+        console.table(
+            scenario.steps.map(s => ({
+                Time: new Date(s.timestamp * 1000).toISOString(),
+                "H1/USD": h1(s.h1USD),
+                "App H1/USD": h1(s.appH1USD),
+                Fee: h1(s.fee),
+                ...Object.fromEntries(
+                    s.fns.map(f => [
+                        f.signature,
+                        `${h1(f.feeAdj)}${f.withinBounds ? "" : ` ${cross}`}`,
+                    ])
+                ),
+            }))
+        );
+
+        if (args.out) {
+            writeJSON(args.out, { ...scenario }, false);
+            console.log(`Scenario written to: ${args.out}`);
+        }
+
+        if (scenario.violations > 0) {
+            fail(`${scenario.violations} fee(s) outside the fee bounds`);
+        }
+
+        console.log(`\t ${check} Every fee is within the fee bounds`);
+    });
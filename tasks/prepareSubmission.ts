@@ -0,0 +1,116 @@
+import { task, types } from "hardhat/config";
+import path from "path";
+import fs from "fs";
+
+import { check, fail } from "./utils";
+
+/**
+ * Task responsible for preparing a contract for submission to the Haven1
+ * Association.
+ *
+ * Collects the sources, flattened source, compiler settings, ABI, storage
+ * layout, fee-bearing functions and proposed fees, initializer args and
+ * coverage summary into a single reproducible `.tar.gz` archive with a
+ * checksum manifest. See `lib/submission.ts`.
+ *
+ * The initializer args are read from a JSON file (`--args`), or from a
+ * deployment in the deployment manifest (`--manifest` and `--deployment`).
+ * The coverage summary requires `npm run coverage` to have been run first.
+ *
+ * @example
+ * npx hardhat prepare-submission --contract SimpleStorage \
+ *      --manifest local --deployment simpleStorage
+ *
+ * npx hardhat prepare-submission --contract NFTAuction --args ./auction.json
+ */
+task("prepare-submission", "Prepares a contract for submission for review")
+    .addParam("contract", "The name of the contract", "", types.string)
+    .addOptionalParam(
+        "args",
+        "Path to a JSON file holding the initializer args",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "manifest",
+        "The manifest to read the initializer args from",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "deployment",
+        "The deployment in --manifest to read the initializer args from",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "coverage",
+        "Path to the coverage file",
+        "./coverage.json",
+        types.string
+    )
+    .addOptionalParam(
+        "out",
+        "The output file. Defaults to ./submissions/<contract>.tar.gz",
+        undefined,
+        types.string
+    )
+    .setAction(async function (args, hre) {
+        const { collectSubmission, writeSubmission } = await import(
+            "@lib/submission"
+        );
+        const { loadDeployment } = await import("@lib/deploy/manifest");
+
+        const contract = args.contract as string;
+        const out = (args.out as string) ?? `./submissions/${contract}.tar.gz`;
+
+        console.log("Checking Args");
+
+        if (!contract) {
+            fail("Contract name must be supplied.");
+        }
+
+        if (!out.endsWith(".tar.gz")) {
+            fail(`Output must end with .tar.gz. Got: ${out}`);
+        }
+
+        let initializerArgs: Record<string, unknown>;
+        if (args.args) {
+            const p = path.join(process.cwd(), args.args);
+            if (!fs.existsSync(p)) {
+                fail(`Initializer args file ${args.args} does not exist.`);
+            }
+            initializerArgs = JSON.parse(fs.readFileSync(p, "utf8"));
+        } else if (args.manifest && args.deployment) {
+            const entry = loadDeployment(args.manifest, args.deployment);
+            initializerArgs = entry.args as Record<string, unknown>;
+        } else {
+            fail("Supply --args, or --manifest and --deployment.");
+        }
+
+        console.log(`\t ${check} Success\n`);
+
+        await hre.run("compile", { quiet: true });
+
+        console.log(`Collecting Submission: ${contract}`);
+
+        let files;
+        try {
+            files = await collectSubmission({
+                contract,
+                initializerArgs,
+                coverage: args.coverage,
+            });
+        } catch (e) {
+            fail((e as Error).message);
+        }
+
+        for (const f of files) {
+            console.log(`\t ${check} ${f.path}`);
+        }
+
+        const hash = writeSubmission(out, files);
+
+        console.log(`\nSubmission written to: ${out}`);
+        console.log(`SHA-256: ${hash}`);
+    });
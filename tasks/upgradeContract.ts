@@ -0,0 +1,284 @@
+import { task, types } from "hardhat/config";
+import { formatUnits } from "ethers";
+
+import { check, fail } from "./utils";
+
+/**
+ * Task responsible for upgrading a deployed contract to a new implementation.
+ *
+ * The deployment is loaded from the manifest and the new implementation is
+ * validated with the OpenZeppelin upgrades plugin. A diff of the storage
+ * layout and of the fee-bearing functions is printed, and the upgrade is only
+ * sent once confirmed. The new implementation is then recorded in the
+ * manifest.
+ *
+ * On Mainnet, the Haven1 Association performs upgrades on the developer's
+ * behalf. With `--propose`, the proxy is not upgraded. The new implementation
+ * is deployed (or, with `--compile-only`, only compiled and hashed) and an
+ * upgrade proposal for the Association to execute is written to
+ * `deployment_data/<manifest>/proposals/`. See `lib/deploy/proposal.ts`.
+ *
+ * The upgrades plugin must know the layout of the current implementation.
+ * This is the case for any proxy deployed from this repository on the same
+ * network. Otherwise, supply `--previous` with the name of the contract the
+ * proxy currently points to so that it can be registered.
+ *
+ * With `--call`, the function is called on the new implementation as part of
+ * the upgrade (or the proposed upgrade), e.g., a `reinitializer`.
+ *
+ * @example
+ * npx hardhat upgrade-contract --network localhost --manifest local \
+ *      --name simpleStorage --contract SimpleStorageV2 [--dry-run] \
+ *      [--call initializeV2 --args '[1]']
+ *
+ * npx hardhat upgrade-contract --network <network> --manifest mainnet \
+ *      --name auction --contract NFTAuctionV2 --propose \
+ *      [--compile-only] [--call initializeV2 --args '["0x..."]']
+ */
+task(
+    "upgrade-contract",
+    "Upgrades, or proposes an upgrade of, a deployed contract"
+)
+    .addParam("name", "The deployment name in the manifest", "", types.string)
+    .addParam("contract", "The new implementation contract", "", types.string)
+    .addOptionalParam(
+        "manifest",
+        "The manifest to load the deployment from. Defaults to the network name",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "previous",
+        "The contract the proxy currently points to, if not the one in the manifest",
+        undefined,
+        types.string
+    )
+    .addOptionalParam(
+        "call",
+        "Function to call on the new implementation via upgradeToAndCall",
+        undefined,
+        types.string
+    )
+    .addOptionalParam("args", "JSON array of args for --call", [], types.json)
+    .addFlag("dryRun", "Validate and print the diff without upgrading")
+    .addFlag("propose", "Write an upgrade proposal instead of upgrading")
+    .addFlag("compileOnly", "With --propose, do not deploy the implementation")
+    .addFlag("yes", "Skip the confirmation prompt")
+    .setAction(async function (args, hre) {
+        const { loadManifest, manifestPath, recordUpgrade } = await import(
+            "@lib/deploy/manifest"
+        );
+        const {
+            compiledLayout,
+            deployedLayout,
+            diffFees,
+            diffStorage,
+            feeFunctions,
+        } = await import("@lib/deploy/layout");
+        const { upgrade, upgradeTransaction } = await import(
+            "@lib/deploy/upgrade"
+        );
+        const { buildUpgradeProposal, saveUpgradeProposal } = await import(
+            "@lib/deploy/proposal"
+        );
+        const { confirm } = await import("@lib/prompt");
+        const { describeError } = await import("@lib/revert");
+
+        const name = args.name as string;
+        const contract = args.contract as string;
+        const network = (args.manifest as string) ?? hre.network.name;
+
+        if (!Array.isArray(args.args)) {
+            fail(
+                `--args must be a JSON array. Got: ${JSON.stringify(args.args)}`
+            );
+        }
+
+        if (!args.call && args.args.length > 0) {
+            fail("--args requires --call");
+        }
+
+        const call = args.call
+            ? { fn: args.call as string, args: args.args as unknown[] }
+            : undefined;
+
+        await hre.run("compile", { quiet: true });
+
+        console.log("Loading Deployment");
+
+        const manifest = loadManifest(network);
+        const entry = manifest.contracts[name];
+        const { chainId } = await hre.ethers.provider.getNetwork();
+
+        if (!entry) {
+            fail(
+                `No deployment named ${name} found in ${manifestPath(network)}`
+            );
+        }
+
+        if (BigInt(manifest.chainID) !== chainId) {
+            fail(
+                `Manifest ${network} is for chain ID ${manifest.chainID}. Connected to: ${chainId}`
+            );
+        }
+
+        if (!entry.implementation) {
+            fail(`${name} is not an upgradeable deployment.`);
+        }
+
+        const implementation =
+            await hre.upgrades.erc1967.getImplementationAddress(entry.address);
+        const previous = (args.previous as string) ?? entry.contract;
+        const factory = await hre.ethers.getContractFactory(contract);
+
+        console.log(
+            `\t ${check} ${name} (${entry.contract}): ${entry.address}`
+        );
+        console.log(`\t ${check} Implementation: ${implementation}\n`);
+
+        if (args.previous) {
+            console.log(`Registering Implementation: ${previous}`);
+            await hre.upgrades.forceImport(
+                entry.address,
+                await hre.ethers.getContractFactory(previous),
+                { kind: "uups" }
+            );
+            console.log(`\t ${check} Success\n`);
+        }
+
+        /* Storage Layout
+        ======================================== */
+        let before;
+        try {
+            before = await deployedLayout(implementation);
+        } catch (e) {
+            fail((e as Error).message);
+        }
+
+        const storage = diffStorage(before, await compiledLayout(contract));
+        const changed = storage.filter(s => s.status !== "unchanged");
+
+        console.log(`Storage Layout: ${previous} -> ${contract}`);
+        console.table(storage);
+        console.log(`\t ${changed.length} slot(s) differ\n`);
+
+        /* Fee-Bearing Functions
+        ======================================== */
+        const prevFees =
+            previous === contract ? undefined : await feeFunctions(previous);
+        const fees = await diffFees(
+            entry.address,
+            prevFees,
+            await feeFunctions(contract)
+        );
+
+        const yesNo = (b?: boolean) =>
+            b === undefined ? "?" : b ? "yes" : "no";
+
+        console.log("Fee-Bearing Functions");
+        console.table(
+            fees.map(f => ({
+                signature: f.signature,
+                selector: f.selector,
+                before: yesNo(f.before),
+                after: yesNo(f.after),
+                feeUSD:
+                    f.feeUSD === undefined ? "-" : formatUnits(f.feeUSD, 18),
+            }))
+        );
+
+        if (!prevFees) {
+            console.log(
+                `\t The source of the current implementation is unavailable. Supply --previous to compare.`
+            );
+        }
+
+        for (const f of fees) {
+            if (f.after && f.feeUSD === 0n) {
+                console.log(`\t No fee is set on-chain for ${f.signature}`);
+            }
+        }
+        console.log();
+
+        /* Validate
+        ======================================== */
+        console.log("Validating Upgrade");
+        try {
+            await hre.upgrades.validateUpgrade(entry.address, factory, {
+                kind: "uups",
+            });
+        } catch (e) {
+            fail((e as Error).message);
+        }
+        console.log(`\t ${check} Success\n`);
+
+        if (args.dryRun) {
+            console.log("Dry run. No upgrade sent.");
+            return;
+        }
+
+        const deploy = !(args.propose && args.compileOnly);
+
+        if (!args.yes && deploy) {
+            const ok = await confirm(
+                args.propose
+                    ? `Deploy ${contract} on ${hre.network.name} for an upgrade proposal?`
+                    : `Upgrade ${name} at ${entry.address} to ${contract} on ${hre.network.name}?`
+            );
+            if (!ok) {
+                console.log("Aborted.");
+                return;
+            }
+        }
+
+        /* Propose
+        ======================================== */
+        if (args.propose) {
+            console.log(`Building Upgrade Proposal: ${name}`);
+
+            const proposal = await buildUpgradeProposal({
+                network,
+                entry,
+                contract,
+                deploy,
+                call,
+            });
+
+            console.table([
+                { attr: "Proxy", val: proposal.proxy },
+                { attr: "Implementation", val: proposal.implementation },
+                { attr: "Creation Hash", val: proposal.bytecode.creationHash },
+                { attr: "Runtime Hash", val: proposal.bytecode.runtimeHash },
+            ]);
+
+            const p = saveUpgradeProposal(proposal);
+            console.log(`\t ${check} Proposal written to: ${p}`);
+            return;
+        }
+
+        /* Upgrade
+        ======================================== */
+        console.log(`Upgrading: ${name}`);
+
+        const [signer] = await hre.ethers.getSigners();
+
+        let c;
+        try {
+            c = await upgrade(entry.address, factory, signer, call);
+        } catch (e) {
+            fail(await describeError(e));
+        }
+
+        const hash = upgradeTransaction(c)?.hash ?? "";
+
+        const m = await recordUpgrade(network, chainId, name, contract, hash);
+
+        console.table([
+            { attr: "Hash", val: hash },
+            { attr: "Proxy", val: entry.address },
+            { attr: "Implementation", val: m.contracts[name].implementation },
+        ]);
+        console.log(`\t ${check} Success\n`);
+
+        console.log(`Manifest written to: ${manifestPath(network)}`);
+    });
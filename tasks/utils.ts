@@ -0,0 +1,44 @@
+export const cross = "\u2715";
+export const check = "\u2713";
+
+/**
+ * Logs an error in the style used by the tasks and exits the process.
+ *
+ * @function    fail
+ * @param       {string}    msg
+ * @returns     {never}
+ */
+export function fail(msg: string): never {
+    console.error(`\t ${cross} Error: ${msg}`);
+    process.exit(1);
+}
+
+/**
+ * Splits a comma separated list of signatures, ignoring the commas between
+ * the parentheses of a signature, e.g., `"a(uint256,bool),b()"`.
+ *
+ * @function    splitSignatures
+ * @param       {string}    list
+ * @returns     {string[]}
+ */
+export function splitSignatures(list: string): string[] {
+    const out: string[] = [];
+    let depth = 0;
+    let cur = "";
+
+    for (const ch of list) {
+        if (ch === "(") ++depth;
+        if (ch === ")") --depth;
+
+        if (ch === "," && depth === 0) {
+            out.push(cur);
+            cur = "";
+            continue;
+        }
+
+        cur += ch;
+    }
+
+    out.push(cur);
+    return out.map(s => s.trim()).filter(Boolean);
+}
@@ -0,0 +1,69 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { expect } from "chai";
+
+/* IMPORT TYPES
+================================================== */
+import type { ArchiveFile } from "@lib/archive";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { checksums, sha256, tarGz } from "@lib/archive";
+import { untarGz } from "@test/utils";
+
+/* CONSTANTS
+================================================== */
+const FILES: ArchiveFile[] = [
+    { path: "Foo/submission.json", content: '{ "contract": "Foo" }\n' },
+    { path: "Foo/abi.json", content: Buffer.from("[]\n") },
+    {
+        path: `Foo/sources/${"nested/".repeat(15)}Foo.sol`,
+        content: "x".repeat(1025),
+    },
+];
+
+/* TESTS
+================================================== */
+describe("Archive", function () {
+    it("Should produce the same bytes for the same files", function () {
+        const first = tarGz(FILES);
+        const second = tarGz([...FILES].reverse());
+
+        expect(first.equals(second)).to.be.true;
+        expect(sha256(first)).to.equal(sha256(second));
+    });
+
+    it("Should archive the content of every file", function () {
+        const files = untarGz(tarGz(FILES));
+
+        expect([...files.keys()]).to.deep.equal(FILES.map(f => f.path).sort());
+
+        for (const f of FILES) {
+            expect(files.get(f.path)?.equals(Buffer.from(f.content))).to.be
+                .true;
+        }
+    });
+
+    it("Should list a checksum for every file in path order", function () {
+        const lines = checksums(FILES).trimEnd().split("\n");
+        const files = untarGz(tarGz(FILES));
+
+        expect(lines).to.deep.equal(
+            [...files].map(([p, content]) => `${sha256(content)}  ${p}`)
+        );
+    });
+
+    it("Should fail if two files share a path", function () {
+        expect(() => tarGz([...FILES, FILES[0]])).to.throw(
+            `Duplicate archive path: ${FILES[0].path}`
+        );
+    });
+
+    it("Should fail if a path is too long for the archive", function () {
+        const long = { path: "a".repeat(101), content: "" };
+
+        expect(() => tarGz([long])).to.throw(
+            `Path too long for archive: ${long.path}`
+        );
+    });
+});
@@ -0,0 +1,127 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, network, upgrades } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { Wallet, concat } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import { attach, verifyABI, verifyProxy } from "@lib/attach";
+import { SimpleStorage__factory } from "@typechain";
+
+/* HELPERS
+================================================== */
+/**
+ * Places `code` at a random address and returns the address.
+ *
+ * @async
+ * @function    setCode
+ * @param       {string}    code
+ * @returns     {Promise<string>}
+ */
+async function setCode(code: string): Promise<string> {
+    const address = Wallet.createRandom().address;
+    await network.provider.request({
+        method: "hardhat_setCode",
+        params: [address, code],
+    });
+    return address;
+}
+
+/**
+ * @function    selectors
+ * @returns     {string[]}  The function selectors of `SimpleStorage`.
+ */
+function selectors(): string[] {
+    const out: string[] = [];
+    SimpleStorage__factory.createInterface().forEachFunction(f =>
+        out.push(f.selector)
+    );
+    return out;
+}
+
+/* TESTS
+================================================== */
+describe("Attach", function () {
+    async function setup() {
+        return await TestDeployment.create();
+    }
+
+    it("Should attach to a matching contract", async function () {
+        const t = await loadFixture(setup);
+
+        const [signer] = await ethers.getSigners();
+        const s = await attach("simpleStorage", t.simpleStorageAddress);
+
+        expect(await s.getAddress()).to.equal(t.simpleStorageAddress);
+        expect(s.runner).to.equal(signer);
+        expect(await s.count()).to.equal(await t.simpleStorage.count());
+    });
+
+    it("Should fail to attach to a contract with a different ABI", async function () {
+        const t = await loadFixture(setup);
+
+        const err = await attach("nftAuction", t.simpleStorageAddress).then(
+            () => undefined,
+            (e: Error) => e
+        );
+
+        expect(err?.message).to.include(
+            `Contract at ${t.simpleStorageAddress} does not match NFTAuction`
+        );
+        expect(err?.message).to.include("function bid()");
+        expect(err?.message).to.include("function highestBid()");
+
+        // Shared with `SimpleStorage` through `H1DevelopedApplication`.
+        expect(err?.message).not.to.include("function guardianPause()");
+        expect(err?.message).not.to.include("interface");
+    });
+
+    it("Should only match selectors that are pushed by the bytecode", async function () {
+        const t = await loadFixture(setup);
+        const address = t.simpleStorageAddress;
+
+        // `PUSH4 <selector>` for every function.
+        const dispatcher = await setCode(
+            concat(selectors().map(s => concat(["0x63", s])))
+        );
+
+        await verifyABI("simpleStorage", address, dispatcher);
+
+        // The same selectors, but only as data of a `PUSH32`.
+        const data = await setCode(
+            concat(
+                selectors().map(s => concat(["0x7f", s, new Uint8Array(28)]))
+            )
+        );
+
+        await expect(
+            verifyABI("simpleStorage", address, data)
+        ).to.be.rejectedWith("function count()");
+    });
+
+    it("Should fail to attach to a contract that is not a UUPS proxy", async function () {
+        const t = await loadFixture(setup);
+
+        const implementation = await upgrades.erc1967.getImplementationAddress(
+            t.simpleStorageAddress
+        );
+        const empty = Wallet.createRandom().address;
+
+        expect(await verifyProxy(t.simpleStorageAddress)).to.equal(
+            implementation
+        );
+
+        await expect(attach("simpleStorage", empty)).to.be.rejectedWith(
+            `No contract deployed at ${empty}`
+        );
+
+        await expect(
+            attach("simpleStorage", implementation)
+        ).to.be.rejectedWith(
+            `Contract at ${implementation} is not an ERC-1967 proxy`
+        );
+    });
+});
@@ -0,0 +1,112 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { config } from "hardhat";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { BuildInfo } from "hardhat/types";
+import type { Violation } from "@lib/compliance";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { checkBuild } from "@lib/compliance";
+import { compileWithProject } from "@test/utils";
+
+/* CONSTANTS
+================================================== */
+const FIXTURES = "test/fixtures/compliance";
+
+/* HELPERS
+================================================== */
+/**
+ * Compiles the fixture contracts together with the project sources.
+ *
+ * @async
+ * @function    compileFixtures
+ * @returns     {Promise<BuildInfo>}
+ */
+async function compileFixtures(): Promise<BuildInfo> {
+    const sources: Record<string, string> = {};
+    for (const f of fs.readdirSync(path.join(config.paths.root, FIXTURES))) {
+        const name = path.posix.join(FIXTURES, f);
+        sources[name] = fs.readFileSync(
+            path.join(config.paths.root, name),
+            "utf8"
+        );
+    }
+
+    return await compileWithProject(sources);
+}
+
+/**
+ * @function    summary
+ * @param       {Violation[]}   violations
+ * @returns     {string[]}  `file:line contract rule: message` per violation.
+ */
+function summary(violations: Violation[]): string[] {
+    return violations.map(
+        v =>
+            `${path.basename(v.file)}:${v.line} ${v.contract} ${v.rule}: ${v.message}`
+    );
+}
+
+/* TESTS
+================================================== */
+describe("Compliance", function () {
+    let info: BuildInfo;
+
+    before(async function () {
+        info = await compileFixtures();
+    });
+
+    it("Should pass a compliant contract", function () {
+        expect(checkBuild(info, ["Compliant"])).to.be.empty;
+    });
+
+    it("Should pass non-payable overrides of a vendored interface", function () {
+        expect(checkBuild(info, ["Recoverable"])).to.be.empty;
+    });
+
+    it("Should only check the listed contracts", function () {
+        expect(
+            checkBuild(info, ["Compliant", "MissingInit"]).map(v => v.contract)
+        ).to.deep.equal(["MissingInit"]);
+    });
+
+    it("Should report functions that are missing a required modifier", function () {
+        expect(summary(checkBuild(info, ["MissingModifiers"]))).to.deep.equal([
+            "MissingModifiers.sol:31 MissingModifiers modifiers: increment() is missing: whenNotGuardianPaused",
+            "MissingModifiers.sol:35 MissingModifiers modifiers: decrement() is missing: developerFee",
+        ]);
+    });
+
+    it("Should report a constructor that does not disable initializers", function () {
+        expect(
+            summary(checkBuild(info, ["MissingDisableInitializers"]))
+        ).to.deep.equal([
+            "MissingDisableInitializers.sol:10 MissingDisableInitializers constructor: no constructor calling _disableInitializers()",
+        ]);
+    });
+
+    it("Should report a contract that never initializes H1DevelopedApplication", function () {
+        expect(summary(checkBuild(info, ["MissingInit"]))).to.deep.equal([
+            "MissingInit.sol:10 MissingInit initializer: __H1DevelopedApplication_init() is never called",
+        ]);
+    });
+
+    it("Should require developerFee on overrides of the project's own interfaces", function () {
+        const [v, ...rest] = checkBuild(info, ["Bad"]);
+
+        expect(rest).to.be.empty;
+        expect(v).to.deep.equal({
+            file: `${FIXTURES}/Bad.sol`,
+            line: 37,
+            contract: "Bad",
+            rule: "modifiers",
+            message: "doThing() is missing: developerFee",
+        });
+    });
+});
@@ -63,98 +63,3 @@ type InitializableError = keyof typeof INITIALIZBLE_ERRORS;
 export function initialiazbleErr(err: InitializableError): string {
     return INITIALIZBLE_ERRORS[err];
 }
-
-type H1DevelopedErrorKey = keyof typeof H1_DEVELOPED_ERROR;
-
-/** Collection of H1 Developed Application error  messages. */
-const H1_DEVELOPED_ERROR = {
-    TRANSFER_FAILED: "H1Developed__FeeTransferFailed",
-    INVALID_ADDRESS: "H1Developed__InvalidAddress",
-    INSUFFICIENT_FUNDS: "H1Developed__InsufficientFunds",
-    ARRAY_LENGTH_MISMATCH: "H1Developed__ArrayLengthMismatch",
-    ARRAY_LENGTH_ZERO: "H1Developed__ArrayLengthZero",
-    OUT_OF_BOUNDS: "H1Developed__IndexOutOfBounds",
-    INVALID_FN_SIG: "H1Developed__InvalidFnSignature",
-    INVALID_FEE_AMT: "H1Developed__InvalidFeeAmount",
-    REENTER: "H1Developed__ReentrantCall",
-} as const satisfies Record<string, string>;
-
-/**
- * Function to return an error message from the `H1DevelopedApplication`.
- *
- * @function h1DevelopedErr
- *
- * @param   {H1DevelopedErrorKey} err
- *
- * @returns {string}
- */
-export function h1DevelopedErr(err: H1DevelopedErrorKey): string {
-    return H1_DEVELOPED_ERROR[err];
-}
-
-type GuardianError = keyof typeof GUARDIAN_ERROR;
-
-/** Collection of Network Guardian error  messages. */
-const GUARDIAN_ERROR = {
-    ALREADY_REGISTERED: "NetworkGuardian__AlreadyRegistered",
-    PAUSED: "NetworkGuardian__Paused",
-    NOT_PAUSED: "NetworkGuardian__NotPaused",
-} as const satisfies Record<string, string>;
-
-/**
- * Returns an error message from the `NetworkGuardian` contract.
- *
- * @function    guardianErr
- *
- * @param       {GuardianError}    err
- *
- * @returns     {string}
- */
-export function guardianErr(err: GuardianError): string {
-    return GUARDIAN_ERROR[err];
-}
-
-type GuardianControllerError = keyof typeof GUARDIAN_CONTROLLER_ERROR;
-
-/** Collection of Network Guardian Controller error  messages. */
-const GUARDIAN_CONTROLLER_ERROR = {
-    ALREADY_REGISTERED: "NetworkGuardianController__AlreadyRegistered",
-    UNSUPPORTED_INTERFACE: "NetworkGuardianController__UnsupportedInterface",
-    MAX_ITER: "NetworkGuardianController__MaxIterations",
-    INVALID_RANGE: "NetworkGuardianController__InvalidRange",
-    ZERO_LENGTH: "NetworkGuardianController__ZeroLength",
-    OUT_OF_BOUNDS: "NetworkGuardianController__IndexOutOfBounds",
-    PAUSE_FAILED: "NetworkGuardianController__PauseFailed",
-    UNPAUSE_FAILED: "NetworkGuardianController__UnpauseFailed",
-} as const satisfies Record<string, string>;
-
-/**
- * Returns an error message from the `NetworkGuardianController` contract.
- *
- * @function    guardianControllerErr
- *
- * @param       {GuardianControllerError}    err
- *
- * @returns     {string}
- */
-export function guardianControllerErr(err: GuardianControllerError): string {
-    return GUARDIAN_CONTROLLER_ERROR[err];
-}
-
-/** Collection of Address library error  messages. */
-const ADDRESS_ERRORS = {
-    ZERO_ADDRESS: "Address__ZeroAddress",
-} as const satisfies Record<string, string>;
-
-type AddressError = keyof typeof ADDRESS_ERRORS;
-
-/**
- * Function to return an error message associated with the `Address` library.
- *
- * @function addressErr
- * @param   {AddressError} err
- * @returns {string}
- */
-export function addressErr(err: AddressError): string {
-    return ADDRESS_ERRORS[err];
-}
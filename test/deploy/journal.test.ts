@@ -0,0 +1,137 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { Plan } from "@lib/deploy/plan";
+import type { ReportEvent } from "@lib/deploy/reporter";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { Journal } from "@lib/deploy/journal";
+import { executePlan } from "@lib/deploy/plan";
+
+/* TESTS
+================================================== */
+describe("Deployment Journal", function () {
+    let dir: string;
+    let file: string;
+
+    const entry = {
+        key: "nft",
+        kind: "deploy",
+        hash: "0x01",
+        nonce: 3,
+        address: "0x02",
+        abi: "[]",
+    } as const;
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+        file = path.relative(process.cwd(), path.join(dir, "journal.json"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should persist the recorded steps and restore them on load", function () {
+        const journal = Journal.load(file, 1n);
+
+        expect(journal.entries).to.be.empty;
+        expect(fs.existsSync(journal.filePath)).to.be.false;
+
+        journal.record(entry);
+
+        const loaded = Journal.load(file, 1n);
+        expect(loaded.get("nft")).to.deep.include(entry);
+        expect(loaded.get("nft")?.completedAt).to.be.a("string");
+
+        loaded.remove("nft");
+        expect(Journal.load(file, 1n).entries).to.be.empty;
+    });
+
+    it("Should write the journal atomically", function () {
+        const journal = Journal.load(file, 1n);
+        journal.record(entry);
+
+        // A temp file left behind by an interrupted write is not read.
+        fs.writeFileSync(`${journal.filePath}.tmp`, "{", "utf8");
+
+        expect(Journal.load(file, 1n).get("nft")).to.deep.include(entry);
+
+        journal.record({ ...entry, key: "mint", kind: "tx" });
+
+        expect(fs.readdirSync(dir)).to.deep.equal(["journal.json"]);
+        expect(Journal.load(file, 1n).entries).to.have.length(2);
+    });
+
+    it("Should fail to load a journal written for another chain", function () {
+        Journal.load(file, 1n).record(entry);
+
+        expect(() => Journal.load(file, 2n)).to.throw(
+            `Journal ${file} was written for chain ID 1. Got chain ID: 2`
+        );
+    });
+
+    it("Should fail to load a path that is not JSON", function () {
+        expect(() => Journal.load("journal.txt", 1n)).to.throw(
+            "Journal path must end in .json. Got: journal.txt"
+        );
+    });
+
+    it("Should skip every completed step when a plan is rerun", async function () {
+        const [deployer, account] = await ethers.getSigners();
+        const { chainId } = await ethers.provider.getNetwork();
+
+        const plan: Plan = {
+            name: "journal",
+            steps: [
+                {
+                    id: "nft",
+                    desc: "Mock NFT",
+                    kind: "contract",
+                    contract: "MockNFT",
+                    args: [10],
+                },
+                {
+                    id: "mint",
+                    desc: "Mint",
+                    kind: "tx",
+                    target: "nft",
+                    method: "mint",
+                    args: [account.address],
+                },
+            ],
+            confs: 1,
+        };
+
+        const events: ReportEvent[] = [];
+        const ctx = {
+            signers: { deployer },
+            reporter: (e: ReportEvent) => events.push(e),
+        };
+
+        const first = await executePlan(plan, {
+            ...ctx,
+            journal: Journal.load(file, chainId),
+        });
+
+        const nonce = await deployer.getNonce();
+        events.length = 0;
+
+        const second = await executePlan(plan, {
+            ...ctx,
+            journal: Journal.load(file, chainId),
+        });
+
+        expect(await deployer.getNonce()).to.equal(nonce);
+        expect(events.map(e => e.event)).to.deep.equal(["skip", "skip"]);
+        expect(second.outputs).to.deep.equal(first.outputs);
+    });
+});
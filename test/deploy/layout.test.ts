@@ -0,0 +1,225 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { id, parseUnits } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { StorageLayout } from "@openzeppelin/upgrades-core";
+import type { FeeFunction } from "@lib/deploy/layout";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    compiledLayout,
+    diffFees,
+    diffStorage,
+    feeFunctions,
+} from "@lib/deploy/layout";
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+
+/* HELPERS
+================================================== */
+/**
+ * Builds a storage layout from `[label, type, slot, offset]` tuples.
+ *
+ * @function    layout
+ * @param       {[string, string, string, number?][]}   vars
+ * @returns     {StorageLayout}
+ */
+function layout(vars: [string, string, string, number?][]): StorageLayout {
+    const types: StorageLayout["types"] = {};
+
+    const storage = vars.map(([label, type, slot, offset]) => {
+        types[`t_${type}`] = { label: type };
+        return {
+            contract: "C",
+            label,
+            type: `t_${type}`,
+            src: "C.sol:1",
+            slot,
+            offset: offset ?? 0,
+        };
+    });
+
+    return { storage, types };
+}
+
+/**
+ * @function    fn
+ * @param       {string}    signature
+ * @returns     {FeeFunction}
+ */
+function fn(signature: string): FeeFunction {
+    return { signature, selector: id(signature).slice(0, 10) };
+}
+
+/* TESTS
+================================================== */
+describe("Storage Layout and Fee Diffs", function () {
+    /* Storage
+    ========================================*/
+    describe("Storage", function () {
+        const before = layout([
+            ["owner", "address", "0"],
+            ["paused", "bool", "0", 20],
+            ["count", "uint256", "1"],
+            ["name", "string", "2"],
+            ["__gap", "uint256[50]", "3"],
+        ]);
+
+        it("Should report an identical layout as unchanged", async function () {
+            const compiled = await compiledLayout("SimpleStorage");
+            const diff = diffStorage(compiled, compiled);
+
+            expect(diff).to.not.be.empty;
+            expect(diff.every(c => c.status === "unchanged")).to.be.true;
+        });
+
+        it("Should report appended and gap-consumed slots", function () {
+            const after = layout([
+                ["owner", "address", "0"],
+                ["paused", "bool", "0", 20],
+                ["count", "uint256", "1"],
+                ["name", "string", "2"],
+                ["limit", "uint256", "3"],
+                ["__gap", "uint256[49]", "4"],
+            ]);
+
+            expect(diffStorage(before, after).slice(4)).to.deep.equal([
+                {
+                    slot: "3",
+                    offset: 0,
+                    before: "__gap: uint256[50]",
+                    after: "limit: uint256",
+                    status: "changed",
+                },
+                {
+                    slot: "4",
+                    offset: 0,
+                    before: "",
+                    after: "__gap: uint256[49]",
+                    status: "added",
+                },
+            ]);
+        });
+
+        it("Should report retyped, renamed and removed slots", function () {
+            const after = layout([
+                ["owner", "address", "0"],
+                ["count", "uint128", "1"],
+                ["label", "string", "2"],
+                ["__gap", "uint256[50]", "3"],
+            ]);
+
+            const diff = diffStorage(before, after);
+
+            expect(diff.map(c => [c.slot, c.offset, c.status])).to.deep.equal([
+                ["0", 0, "unchanged"],
+                ["0", 20, "removed"],
+                ["1", 0, "changed"],
+                ["2", 0, "changed"],
+                ["3", 0, "unchanged"],
+            ]);
+
+            expect(diff[1]).to.deep.include({
+                before: "paused: bool",
+                after: "",
+            });
+            expect(diff[2]).to.deep.include({
+                before: "count: uint256",
+                after: "count: uint128",
+            });
+            expect(diff[3].after).to.equal("label: string");
+        });
+
+        it("Should order the slots numerically", function () {
+            const after = layout([
+                ["a", "uint256", "10"],
+                ["b", "uint256", "9"],
+                ["c", "uint8", "2", 1],
+                ["d", "uint8", "2"],
+            ]);
+
+            expect(
+                diffStorage(layout([]), after).map(c => [c.slot, c.offset])
+            ).to.deep.equal([
+                ["2", 0],
+                ["2", 1],
+                ["9", 0],
+                ["10", 0],
+            ]);
+        });
+    });
+
+    /* Fees
+    ========================================*/
+    describe("Fees", function () {
+        async function setup() {
+            return await TestDeployment.create();
+        }
+
+        it("Should find the fee-bearing functions of a contract", async function () {
+            expect(await feeFunctions("SimpleStorage")).to.deep.equal([
+                fn("decrementCount()"),
+                fn("incrementCount()"),
+                fn("resetCount()"),
+            ]);
+        });
+
+        it("Should report added and removed fee-bearing functions with their fees", async function () {
+            const t = await loadFixture(setup);
+
+            const before = [fn("incrementCount()"), fn("resetCount()")];
+            const after = [fn("incrementCount()"), fn("decrementCount()")];
+
+            const diff = await diffFees(t.simpleStorageAddress, before, after);
+
+            expect(diff).to.deep.equal([
+                {
+                    ...fn("incrementCount()"),
+                    before: true,
+                    after: true,
+                    feeUSD: parseUnits("2", 18),
+                },
+                {
+                    ...fn("decrementCount()"),
+                    before: false,
+                    after: true,
+                    feeUSD: parseUnits("1", 18),
+                },
+                {
+                    ...fn("resetCount()"),
+                    before: true,
+                    after: false,
+                    feeUSD: 0n,
+                },
+            ]);
+        });
+
+        it("Should report unknown previous functions and fees as undefined", async function () {
+            const t = await loadFixture(setup);
+            const after = [fn("incrementCount()")];
+
+            const [change] = await diffFees(
+                t.simpleStorageAddress,
+                undefined,
+                after
+            );
+
+            expect(change.before).to.be.undefined;
+            expect(change.after).to.be.true;
+
+            const nft = await ethers.deployContract("MockNFT", [10]);
+            const [unknown] = await diffFees(
+                await nft.getAddress(),
+                undefined,
+                after
+            );
+
+            expect(unknown.feeUSD).to.be.undefined;
+        });
+    });
+});
@@ -0,0 +1,98 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { reset } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { d, tx } from "@lib/deploy/wrapper";
+import { Ledger } from "@lib/deploy/ledger";
+import { silentReporter } from "@lib/deploy/reporter";
+import { deployGuardianController } from "@lib/deploy/network-guardian";
+
+/* TESTS
+================================================== */
+describe("Deployment Ledger", function () {
+    // The upgrades plugin reuses an implementation deployed by an earlier
+    // test, so start from a fresh chain.
+    before(async function () {
+        await reset();
+    });
+
+    it("Should record the implementation and proxy of a deployment", async function () {
+        const [deployer] = await ethers.getSigners();
+        const ledger = new Ledger();
+
+        const data = await d(
+            "Guardian Controller",
+            async () =>
+                await deployGuardianController(
+                    { association: deployer.address },
+                    deployer
+                ),
+            { ledger, key: "controller", reporter: silentReporter }
+        );
+
+        expect(ledger.entries).to.have.length(1);
+
+        const [entry] = ledger.entries;
+        const roles = entry.items.map(i => i.role);
+
+        expect(entry.key).to.equal("controller");
+        expect(roles).to.include("implementation");
+        expect(roles).to.include("proxy");
+
+        const proxy = entry.items.find(i => i.role === "proxy");
+        const rec = await ethers.provider.getTransactionReceipt(data.hash);
+
+        expect(proxy?.address).to.equal(data.address);
+        expect(proxy?.hash).to.equal(data.hash);
+        expect(proxy?.gasUsed).to.equal(rec?.gasUsed);
+        expect(entry.cost).to.equal(
+            entry.items.reduce((acc, i) => acc + i.cost, 0n)
+        );
+    });
+
+    it("Should record setup transactions and total the run", async function () {
+        const [, account] = await ethers.getSigners();
+        const ledger = new Ledger();
+        const opts = { ledger, reporter: silentReporter };
+
+        const nft = await d(
+            "MockNFT",
+            async () => {
+                const f = await ethers.getContractFactory("MockNFT");
+                return await f.deploy(10);
+            },
+            opts
+        );
+
+        const txRec = await tx(
+            "Mint",
+            async () => await nft.contract.mint(account.address),
+            1,
+            opts
+        );
+
+        const [deploy, mint] = ledger.entries;
+
+        expect(deploy.items.map(i => i.role)).to.deep.equal(["contract"]);
+        expect(mint.items.map(i => i.role)).to.deep.equal(["tx"]);
+        expect(mint.gasUsed).to.equal(txRec?.gasUsed);
+        expect(mint.cost).to.equal(
+            (txRec?.gasUsed ?? 0n) * (txRec?.gasPrice ?? 0n)
+        );
+
+        expect(ledger.gasUsed).to.equal(deploy.gasUsed + mint.gasUsed);
+        expect(ledger.cost).to.equal(deploy.cost + mint.cost);
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const summary = ledger.summary("local", chainId);
+
+        expect(summary.byRole.contract.cost).to.equal(deploy.cost);
+        expect(summary.byRole.tx.cost).to.equal(mint.cost);
+        expect(summary.byRole.proxy.cost).to.equal(0n);
+        expect(summary.cost).to.equal(ledger.cost);
+    });
+});
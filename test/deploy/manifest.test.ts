@@ -0,0 +1,272 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { ManifestEntry } from "@lib/deploy/manifest";
+import type { Plan } from "@lib/deploy/plan";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    loadDeployment,
+    loadManifest,
+    manifestPath,
+    recordDeployments,
+    recordUpgrade,
+    withHistory,
+} from "@lib/deploy/manifest";
+import { executePlan } from "@lib/deploy/plan";
+import { silentReporter } from "@lib/deploy/reporter";
+import { NetworkGuardianController__factory } from "@typechain";
+
+/* CONSTANTS
+================================================== */
+const NETWORK = "manifest-test";
+
+/* HELPERS
+================================================== */
+/**
+ * @function    entry
+ * @param       {Partial<ManifestEntry>}    [overrides]
+ * @returns     {ManifestEntry}
+ */
+function entry(overrides: Partial<ManifestEntry> = {}): ManifestEntry {
+    return {
+        name: "c",
+        contract: "C",
+        address: "0x01",
+        implementation: "0x02",
+        hash: "0x03",
+        block: 1,
+        deployer: "0x04",
+        args: [],
+        commit: "abc",
+        deployedAt: "2024-01-01T00:00:00.000Z",
+        history: [],
+        ...overrides,
+    };
+}
+
+/* TESTS
+================================================== */
+describe("Deployment Manifest", function () {
+    afterEach(function () {
+        const dir = path.dirname(
+            path.join(process.cwd(), manifestPath(NETWORK))
+        );
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    /* History
+    ========================================*/
+    describe("History", function () {
+        it("Should return the next entry if there is no previous entry", function () {
+            const next = entry();
+            expect(withHistory(undefined, next)).to.equal(next);
+        });
+
+        it("Should keep the original deployment time of an unchanged entry", function () {
+            const prev = entry({ history: [] });
+            const next = entry({
+                hash: "0x05",
+                deployedAt: "2024-02-01T00:00:00.000Z",
+            });
+
+            expect(withHistory(prev, next)).to.deep.equal({
+                ...next,
+                deployedAt: prev.deployedAt,
+            });
+        });
+
+        it("Should move a replaced implementation into the history", function () {
+            const prev = entry();
+            const upgraded = entry({
+                implementation: "0x06",
+                hash: "0x07",
+                block: 2,
+                commit: "def",
+                deployedAt: "2024-02-01T00:00:00.000Z",
+            });
+
+            const first = withHistory(prev, upgraded);
+
+            expect(first.implementation).to.equal("0x06");
+            expect(first.history).to.deep.equal([
+                {
+                    address: "0x01",
+                    implementation: "0x02",
+                    hash: "0x03",
+                    block: 1,
+                    commit: "abc",
+                    replacedAt: "2024-02-01T00:00:00.000Z",
+                },
+            ]);
+
+            const redeployed = entry({
+                address: "0x08",
+                implementation: "0x09",
+                deployedAt: "2024-03-01T00:00:00.000Z",
+            });
+
+            const second = withHistory(first, redeployed);
+
+            expect(second.address).to.equal("0x08");
+            expect(second.history.map(r => r.implementation)).to.deep.equal([
+                "0x02",
+                "0x06",
+            ]);
+            expect(second.history[1].replacedAt).to.equal(
+                "2024-03-01T00:00:00.000Z"
+            );
+        });
+    });
+
+    /* Records
+    ========================================*/
+    describe("Records", function () {
+        async function deploy() {
+            const [deployer] = await ethers.getSigners();
+
+            const plan: Plan = {
+                name: "manifest",
+                steps: [
+                    {
+                        id: "controller",
+                        desc: "Guardian Controller",
+                        kind: "proxy",
+                        deployer: "guardianController",
+                        args: { association: deployer.address },
+                    },
+                    {
+                        id: "nft",
+                        desc: "Mock NFT",
+                        kind: "contract",
+                        contract: "MockNFT",
+                        args: [10],
+                    },
+                    {
+                        id: "mint",
+                        desc: "Mint",
+                        kind: "tx",
+                        target: "nft",
+                        method: "mint",
+                        args: [deployer.address],
+                    },
+                ],
+                confs: 1,
+            };
+
+            return await executePlan(plan, {
+                signers: { deployer },
+                reporter: silentReporter,
+            });
+        }
+
+        it("Should record the deployed contracts and bump the revision", async function () {
+            const { chainId } = await ethers.provider.getNetwork();
+            const result = await deploy();
+            const { controller, nft } = result.outputs;
+
+            const first = await recordDeployments(NETWORK, chainId, result);
+
+            expect(first.revision).to.equal(1);
+            expect(first.chainID).to.equal(chainId.toString());
+            expect(Object.keys(first.contracts)).to.deep.equal([
+                "controller",
+                "nft",
+            ]);
+
+            const c = loadDeployment(NETWORK, "controller");
+
+            expect(c.contract).to.equal("NetworkGuardianController");
+            expect(c.address).to.equal(controller.address);
+            expect(c.implementation).to.equal(
+                await upgrades.erc1967.getImplementationAddress(
+                    controller.address
+                )
+            );
+            expect(c.hash).to.equal(controller.hash);
+            expect(c.block).to.be.greaterThan(0);
+            expect(c.history).to.be.empty;
+
+            expect(loadDeployment(NETWORK, "nft").implementation).to.equal("");
+            expect(loadDeployment(NETWORK, "nft").address).to.equal(
+                nft.address
+            );
+
+            // Recording the same deployments again keeps their history.
+            const second = await recordDeployments(NETWORK, chainId, result);
+
+            expect(second.revision).to.equal(2);
+            expect(second.contracts.controller.deployedAt).to.equal(
+                first.contracts.controller.deployedAt
+            );
+            expect(second.contracts.controller.history).to.be.empty;
+
+            await expect(
+                recordDeployments(NETWORK, chainId + 1n, result)
+            ).to.be.rejectedWith(
+                `Manifest for ${NETWORK} was written for chain ID ${chainId}`
+            );
+        });
+
+        it("Should record an upgrade in the history", async function () {
+            const [deployer] = await ethers.getSigners();
+            const { chainId } = await ethers.provider.getNetwork();
+            const result = await deploy();
+
+            await recordDeployments(NETWORK, chainId, result);
+            const prev = loadDeployment(NETWORK, "controller");
+
+            const f = await ethers.getContractFactory(
+                "NetworkGuardianController"
+            );
+            const impl = await (await f.deploy()).waitForDeployment();
+            const proxy = NetworkGuardianController__factory.connect(
+                prev.address,
+                deployer
+            );
+            const txRes = await proxy.upgradeTo(await impl.getAddress());
+            const txRec = await txRes.wait();
+
+            const m = await recordUpgrade(
+                NETWORK,
+                chainId,
+                "controller",
+                "NetworkGuardianController",
+                txRes.hash
+            );
+
+            const next = m.contracts.controller;
+
+            expect(m.revision).to.equal(2);
+            expect(next.address).to.equal(prev.address);
+            expect(next.implementation).to.equal(await impl.getAddress());
+            expect(next.hash).to.equal(txRes.hash);
+            expect(next.block).to.equal(txRec?.blockNumber);
+            expect(next.history).to.deep.equal([
+                {
+                    address: prev.address,
+                    implementation: prev.implementation,
+                    hash: prev.hash,
+                    block: prev.block,
+                    commit: prev.commit,
+                    replacedAt: next.deployedAt,
+                },
+            ]);
+
+            expect(loadManifest(NETWORK)).to.deep.equal(m);
+
+            await expect(
+                recordUpgrade(NETWORK, chainId, "nope", "C", txRes.hash)
+            ).to.be.rejectedWith(
+                `No deployment named nope found for ${NETWORK}`
+            );
+        });
+    });
+});
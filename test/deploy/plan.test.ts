@@ -0,0 +1,376 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { Plan, Step, StepOutput } from "@lib/deploy/plan";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    executePlan,
+    orderSteps,
+    resolvePlan,
+    resolveRefs,
+} from "@lib/deploy/plan";
+import { silentReporter } from "@lib/deploy/reporter";
+import { FeeScheduleError } from "@lib/feeSchedule";
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import { PLAN } from "../../scripts/plan";
+
+/* HELPERS
+================================================== */
+/**
+ * @function    contract
+ * @param       {string}    id
+ * @param       {unknown[]} [args]
+ * @param       {string[]}  [dependsOn]
+ * @returns     {Step}
+ */
+function contract(
+    id: string,
+    args: unknown[] = [],
+    dependsOn?: string[]
+): Step {
+    return {
+        id,
+        desc: id,
+        kind: "contract",
+        contract: "MockNFT",
+        args,
+        dependsOn,
+    };
+}
+
+/**
+ * @function    output
+ * @param       {string}    id
+ * @param       {string}    address
+ * @returns     {StepOutput}
+ */
+function output(id: string, address: string): StepOutput {
+    return {
+        id,
+        kind: "contract",
+        desc: id,
+        address,
+        hash: "0x",
+        nonce: 0,
+        contract: "MockNFT",
+        args: [],
+        from: "",
+    };
+}
+
+/* TESTS
+================================================== */
+describe("Deployment Plans", function () {
+    const plan: Plan = {
+        name: "test",
+        vars: { a: 1n, b: "x" },
+        steps: [
+            contract("nft", [10]),
+            contract("other", ["${nft.address}"]),
+            {
+                id: "mint",
+                desc: "Mint",
+                kind: "tx",
+                target: "nft",
+                method: "mint",
+                args: ["${vars.b}"],
+            },
+        ],
+        confs: 2,
+        overrides: {
+            local: {},
+            live: {
+                vars: { b: "y", c: true },
+                replace: [
+                    {
+                        id: "nft",
+                        desc: "Existing NFT",
+                        kind: "existing",
+                        contract: "MockNFT",
+                        address: "${vars.nft}",
+                    },
+                ],
+                skip: ["mint"],
+                append: [contract("extra", [], ["other"])],
+                confs: 5,
+            },
+        },
+    };
+
+    /* Overrides
+    ========================================*/
+    describe("Overrides", function () {
+        it("Should resolve a plan without an override", function () {
+            const resolved = resolvePlan(plan);
+
+            expect(resolved.name).to.equal("test");
+            expect(resolved.vars).to.deep.equal({ a: 1n, b: "x" });
+            expect(resolved.steps.map(s => s.id)).to.deep.equal([
+                "nft",
+                "other",
+                "mint",
+            ]);
+            expect(resolved.confs).to.equal(2);
+
+            expect(resolvePlan(plan, "local").steps).to.deep.equal(
+                resolved.steps
+            );
+        });
+
+        it("Should skip, replace and append steps and merge the vars", function () {
+            const resolved = resolvePlan(plan, "live");
+
+            expect(resolved.vars).to.deep.equal({ a: 1n, b: "y", c: true });
+            expect(resolved.steps.map(s => [s.id, s.kind])).to.deep.equal([
+                ["nft", "existing"],
+                ["other", "contract"],
+                ["extra", "contract"],
+            ]);
+            expect(resolved.confs).to.equal(5);
+        });
+
+        it("Should fail on an unknown override or step", function () {
+            expect(() => resolvePlan(plan, "mainnet")).to.throw(
+                "Plan test has no override for mainnet"
+            );
+
+            const skip = { ...plan, overrides: { live: { skip: ["nope"] } } };
+            expect(() => resolvePlan(skip, "live")).to.throw(
+                "Plan test: unknown step nope"
+            );
+
+            const replace = {
+                ...plan,
+                overrides: { live: { replace: [contract("nope")] } },
+            };
+            expect(() => resolvePlan(replace, "live")).to.throw(
+                "Plan test: unknown step nope"
+            );
+        });
+
+        it("Should fail if a step depends on a skipped step", function () {
+            const p = { ...plan, overrides: { live: { skip: ["nft"] } } };
+
+            expect(() => resolvePlan(p, "live")).to.throw(
+                "Step other depends on unknown step nft"
+            );
+        });
+    });
+
+    /* Ordering
+    ========================================*/
+    describe("Ordering", function () {
+        it("Should order the steps after their dependencies", function () {
+            const steps = orderSteps([
+                contract("c", ["${b.address}"]),
+                contract("a"),
+                contract("b", [], ["a"]),
+                contract("d"),
+            ]);
+
+            expect(steps.map(s => s.id)).to.deep.equal(["a", "b", "c", "d"]);
+        });
+
+        it("Should fail on a dependency cycle", function () {
+            const steps = [
+                contract("a", ["${c.address}"]),
+                contract("b", ["${a.address}"]),
+                contract("c", [], ["b"]),
+            ];
+
+            expect(() => orderSteps(steps)).to.throw(
+                "Dependency cycle: a -> c -> b -> a"
+            );
+        });
+
+        it("Should fail on an unknown dependency", function () {
+            expect(() =>
+                orderSteps([contract("a", ["${nope.address}"])])
+            ).to.throw("Step a depends on unknown step nope");
+
+            expect(() => orderSteps([contract("a", [], ["nope"])])).to.throw(
+                "Step a depends on unknown step nope"
+            );
+        });
+
+        it("Should fail if a transaction targets a step without a contract", function () {
+            const mint = (target: string): Step => ({
+                id: "mint",
+                desc: "Mint",
+                kind: "tx",
+                target,
+                method: "mint",
+            });
+            const check: Step = {
+                id: "check",
+                desc: "Check",
+                kind: "check",
+                args: {},
+                check: async () => {},
+            };
+
+            expect(() =>
+                orderSteps([contract("nft"), mint("nft")])
+            ).to.not.throw();
+
+            expect(() =>
+                orderSteps([
+                    contract("nft"),
+                    { ...mint("nft"), id: "first" },
+                    mint("first"),
+                ])
+            ).to.throw("Step mint: target first is not a contract step");
+
+            expect(() => orderSteps([check, mint("check")])).to.throw(
+                "Step mint: target check is not a contract step"
+            );
+        });
+
+        it("Should fail on a duplicate step ID", function () {
+            expect(() => orderSteps([contract("a"), contract("a")])).to.throw(
+                "Duplicate step ID: a"
+            );
+        });
+    });
+
+    /* References
+    ========================================*/
+    describe("References", function () {
+        const scope = {
+            vars: { n: 10n, cid: "abc", nested: { flag: true } },
+            outputs: { nft: output("nft", "0x01") },
+        };
+
+        it("Should replace a whole reference with its value as-is", function () {
+            expect(resolveRefs("${vars.n}", scope)).to.equal(10n);
+            expect(resolveRefs("${vars.nested.flag}", scope)).to.equal(true);
+            expect(resolveRefs("${nft.address}", scope)).to.equal("0x01");
+        });
+
+        it("Should interpolate references within a string", function () {
+            expect(
+                resolveRefs("ipfs://${vars.cid}/${vars.n}.json", scope)
+            ).to.equal("ipfs://abc/10.json");
+        });
+
+        it("Should resolve references within arrays and objects", function () {
+            const value = {
+                a: ["${vars.n}", 1],
+                b: { c: "${nft.address}", d: null },
+            };
+
+            expect(resolveRefs(value, scope)).to.deep.equal({
+                a: [10n, 1],
+                b: { c: "0x01", d: null },
+            });
+        });
+
+        it("Should fail on an unresolved reference", function () {
+            expect(() => resolveRefs("${vars.nope}", scope)).to.throw(
+                "Unresolved reference: ${vars.nope}"
+            );
+
+            expect(() => resolveRefs("x-${other.address}", scope)).to.throw(
+                "Unresolved reference: ${other.address}"
+            );
+        });
+    });
+
+    /* Checks
+    ========================================*/
+    describe("Checks", function () {
+        async function setup() {
+            return await TestDeployment.create();
+        }
+
+        it("Should run a check with its resolved args before the steps that depend on it", async function () {
+            const [deployer] = await ethers.getSigners();
+            const checked: unknown[] = [];
+
+            const p: Plan = {
+                name: "checks",
+                vars: { limit: 10n },
+                steps: [
+                    contract("nft", [10], ["check"]),
+                    {
+                        id: "check",
+                        desc: "Check",
+                        kind: "check",
+                        args: { limit: "${vars.limit}" },
+                        check: async args => void checked.push(args),
+                    },
+                ],
+                confs: 1,
+            };
+
+            const result = await executePlan(p, {
+                signers: { deployer },
+                reporter: silentReporter,
+            });
+
+            expect(checked).to.deep.equal([{ limit: 10n }]);
+            expect(Object.keys(result.outputs)).to.deep.equal(["nft"]);
+
+            const nonce = await deployer.getNonce();
+            const failing: Plan = {
+                ...p,
+                steps: [
+                    p.steps[0],
+                    {
+                        id: "check",
+                        desc: "Check",
+                        kind: "check",
+                        args: {},
+                        check: async () => {
+                            throw new Error("Check failed");
+                        },
+                    },
+                ],
+            };
+
+            await expect(
+                executePlan(failing, {
+                    signers: { deployer },
+                    reporter: silentReporter,
+                })
+            ).to.be.rejectedWith("Check failed");
+            expect(await deployer.getNonce()).to.equal(nonce);
+        });
+
+        it("Should check the fee schedules against the bounds of the Fee Contract", async function () {
+            const t = await loadFixture(setup);
+
+            const step = PLAN.steps.find(s => s.id === "checkFees");
+            if (step?.kind !== "check") throw new Error("No checkFees step");
+
+            for (const id of ["simpleStorage", "auction"]) {
+                const s = PLAN.steps.find(s => s.id === id);
+                expect(s?.dependsOn).to.include("checkFees");
+            }
+
+            await step.check({ feeContract: t.fee.address });
+
+            await t.fee.contract
+                .connect(t.association)
+                .setMaxFee(parseUnits("1", 18));
+
+            const err = await step.check({ feeContract: t.fee.address }).then(
+                () => undefined,
+                (e: unknown) => e
+            );
+
+            expect(err).to.be.instanceOf(FeeScheduleError);
+            expect((err as FeeScheduleError).message).to.include(
+                "incrementCount(): $2.0 is above the maximum fee of $1.0"
+            );
+        });
+    });
+});
@@ -0,0 +1,242 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import {
+    BrowserProvider,
+    Transaction,
+    Wallet,
+    encryptKeystoreJsonSync,
+    parseEther,
+    toQuantity,
+} from "ethers";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { AddressInfo } from "net";
+import type { JsonRpcSigner } from "ethers";
+import type { ReportEvent } from "@lib/deploy/reporter";
+import type { TxSigner } from "@lib/deploy/signer";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    KeystoreSigner,
+    OfflineSigner,
+    RpcSigner,
+    SignerProvider,
+    loadSigner,
+} from "@lib/deploy/signer";
+import { d } from "@lib/deploy/wrapper";
+import { setReporter } from "@lib/deploy/reporter";
+
+/* CONSTANTS
+================================================== */
+const PASSPHRASE = "correct horse battery staple";
+
+/* HELPERS
+================================================== */
+/**
+ * Funds `address` and returns an ethers signer whose transactions go through
+ * `signer`.
+ *
+ * @async
+ * @function    connect
+ * @param       {TxSigner}  signer
+ * @returns     {Promise<JsonRpcSigner>}
+ */
+async function connect(signer: TxSigner): Promise<JsonRpcSigner> {
+    await network.provider.request({
+        method: "hardhat_setBalance",
+        params: [signer.address, toQuantity(parseEther("10"))],
+    });
+
+    const provider = new BrowserProvider(
+        new SignerProvider(network.provider, signer),
+        undefined,
+        { pollingInterval: 100 }
+    );
+
+    return provider.getSigner(signer.address);
+}
+
+/**
+ * Starts a JSON-RPC signer for `wallet` on a random local port.
+ *
+ * @async
+ * @function    startSigner
+ * @param       {Wallet}    wallet
+ * @returns     {Promise<http.Server>}
+ */
+async function startSigner(wallet: Wallet): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => (body += chunk));
+        req.on("end", async () => {
+            const { id, method, params } = JSON.parse(body);
+            let result: unknown;
+
+            if (method === "eth_accounts") {
+                result = [wallet.address];
+            } else if (method === "eth_signTransaction") {
+                const t = { ...params[0], gasLimit: params[0].gas };
+                delete t.from;
+                delete t.gas;
+
+                result = await wallet.signTransaction(t);
+            }
+
+            res.setHeader("content-type", "application/json");
+            res.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+        });
+    });
+
+    await new Promise<void>(r => server.listen(0, "127.0.0.1", r));
+    return server;
+}
+
+/* TESTS
+================================================== */
+describe("Deploy Signers", function () {
+    let dir: string;
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "signer-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+        setReporter(undefined);
+    });
+
+    it("Should deploy with a wallet decrypted from a keystore", async function () {
+        const wallet = new Wallet(Wallet.createRandom().privateKey);
+        const file = path.join(dir, "keystore.json");
+
+        // A low scrypt cost keeps the test fast.
+        const json = encryptKeystoreJsonSync(wallet, PASSPHRASE, {
+            scrypt: { N: 1 << 10 },
+        });
+        fs.writeFileSync(file, json);
+
+        await expect(
+            KeystoreSigner.load(file, undefined, "wrong")
+        ).to.be.rejectedWith("Could not decrypt the keystore");
+
+        const signer = await KeystoreSigner.load(
+            file,
+            wallet.address,
+            PASSPHRASE
+        );
+        const from = await connect(signer);
+
+        const f = await ethers.getContractFactory("MockNFT", from);
+        const data = await d("MockNFT", async () => {
+            const c = await f.deploy(10);
+            return c.waitForDeployment();
+        });
+
+        const t = await ethers.provider.getTransaction(data.hash);
+        expect(t?.from).to.equal(wallet.address);
+        expect(await data.contract.getAddress()).to.equal(data.address);
+
+        const msg = await from.signMessage("hello");
+        expect(ethers.verifyMessage("hello", msg)).to.equal(wallet.address);
+    });
+
+    it("Should sign through an external JSON-RPC signer", async function () {
+        const wallet = new Wallet(Wallet.createRandom().privateKey);
+        const server = await startSigner(wallet);
+
+        try {
+            const { port } = server.address() as AddressInfo;
+            const signer = await RpcSigner.connect(`http://127.0.0.1:${port}`);
+            const from = await connect(signer);
+
+            expect(signer.address).to.equal(wallet.address);
+
+            const res = await from.sendTransaction({
+                to: ethers.ZeroAddress,
+                value: 1n,
+            });
+            const rec = await res.wait();
+
+            expect(rec?.from).to.equal(wallet.address);
+            expect(rec?.status).to.equal(1);
+        } finally {
+            server.close();
+        }
+    });
+
+    it("Should record unsigned transactions and continue on a fork", async function () {
+        const addr = Wallet.createRandom().address;
+        const signer = (await loadSigner(
+            { kind: "offline", address: addr },
+            "hardhat",
+            network.provider
+        )) as OfflineSigner;
+
+        const events: ReportEvent[] = [];
+        setReporter(e => events.push(e));
+
+        try {
+            const from = await connect(signer);
+
+            for (let i = 1n; i <= 2n; ++i) {
+                const res = await from.sendTransaction({
+                    to: ethers.ZeroAddress,
+                    value: i,
+                });
+                await res.wait();
+            }
+
+            const file = JSON.parse(fs.readFileSync(signer.filePath, "utf8"));
+            const txs = signer.transactions;
+
+            expect(file.from).to.equal(addr);
+            expect(file.transactions).to.deep.equal(txs);
+            expect(txs.map(t => t.nonce)).to.deep.equal([0, 1]);
+
+            const t = Transaction.from(txs[1].unsigned);
+            expect(t.to).to.equal(ethers.ZeroAddress);
+            expect(t.value).to.equal(2n);
+            expect(t.signature).to.be.null;
+
+            expect(await ethers.provider.getTransactionCount(addr)).to.equal(2);
+
+            expect(events).to.deep.equal(
+                [0, 1].map(nonce => ({
+                    event: "unsigned",
+                    from: addr,
+                    nonce,
+                    filePath: signer.filePath,
+                    count: nonce + 1,
+                }))
+            );
+        } finally {
+            fs.rmSync(signer.filePath, { force: true });
+        }
+    });
+
+    it("Should stop after recording when the network cannot send", async function () {
+        const addr = Wallet.createRandom().address;
+        const signer = new OfflineSigner("hardhat", addr, false);
+
+        try {
+            const from = await connect(signer);
+
+            await expect(
+                from.sendTransaction({ to: ethers.ZeroAddress, value: 1n })
+            ).to.be.rejectedWith("transaction 0 recorded");
+
+            expect(signer.transactions).to.have.lengthOf(1);
+            expect(await ethers.provider.getTransactionCount(addr)).to.equal(0);
+        } finally {
+            fs.rmSync(signer.filePath, { force: true });
+        }
+    });
+});
@@ -0,0 +1,44 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { expect } from "chai";
+import { Wallet, parseUnits } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { ReportEvent } from "@lib/deploy/reporter";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { setReporter } from "@lib/deploy/reporter";
+import { startSimulation } from "@lib/deploy/simulate";
+
+/* TESTS
+================================================== */
+describe("Deploy Simulation", function () {
+    afterEach(function () {
+        setReporter(undefined);
+    });
+
+    it("Should report the simulated deployer to the active reporter", async function () {
+        const events: ReportEvent[] = [];
+        setReporter(e => events.push(e));
+
+        const address = Wallet.createRandom().address;
+        const fund = parseUnits("5", 18);
+        const deployer = await startSimulation({
+            mode: "local",
+            deployer: address,
+            fund,
+        });
+
+        expect(deployer.address).to.equal(address);
+        expect(events).to.deep.equal([
+            {
+                event: "simulation",
+                mode: "local",
+                deployer: address,
+                balance: fund,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,277 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { ReportEvent, StepEvent } from "@lib/deploy/reporter";
+import type { MockNFT } from "@typechain";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { d, tx } from "@lib/deploy/wrapper";
+import { Journal } from "@lib/deploy/journal";
+import { jsonLinesReporter } from "@lib/deploy/reporter";
+import { TxError } from "@lib/deploy/retry";
+
+/* HELPERS
+================================================== */
+/**
+ * @async
+ * @function    deployNFT
+ * @returns     {Promise<MockNFT>}
+ */
+async function deployNFT(): Promise<MockNFT> {
+    const f = await ethers.getContractFactory("MockNFT");
+    const c = await f.deploy(10);
+    return await c.waitForDeployment();
+}
+
+/* TESTS
+================================================== */
+describe("Deploy Wrapper", function () {
+    let events: ReportEvent[];
+    let dir: string;
+
+    const reporter = (e: ReportEvent) => events.push(e);
+
+    beforeEach(function () {
+        events = [];
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "wrapper-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    /* Deployments
+    ========================================*/
+    describe("Deployments", function () {
+        it("Should report the start and completion of a deployment", async function () {
+            const data = await d("MockNFT", deployNFT, { reporter });
+
+            expect(events.map(e => e.event)).to.deep.equal([
+                "start",
+                "complete",
+            ]);
+
+            const e = events[1] as StepEvent;
+            const rec = await ethers.provider.getTransactionReceipt(data.hash);
+
+            expect(e.kind).to.equal("deploy");
+            expect(e.desc).to.equal("MockNFT");
+            expect(e.address).to.equal(data.address);
+            expect(e.hash).to.equal(data.hash);
+            expect(e.nonce).to.equal(data.nonce);
+            expect(e.block).to.equal(rec?.blockNumber);
+            expect(e.gasUsed).to.equal(rec?.gasUsed);
+            expect(e.gasPrice).to.equal(rec?.gasPrice);
+            expect(e.cost).to.equal(e.gasUsed * e.gasPrice);
+            expect(e.confirmations).to.be.greaterThanOrEqual(1);
+        });
+
+        it("Should report a deployment found in the journal as skipped", async function () {
+            const { chainId } = await ethers.provider.getNetwork();
+            const file = path.relative(
+                process.cwd(),
+                path.join(dir, "journal.json")
+            );
+
+            const journal = Journal.load(file, chainId);
+            const first = await d("MockNFT", deployNFT, { journal, reporter });
+
+            events = [];
+            const second = await d("MockNFT", deployNFT, { journal, reporter });
+
+            expect(second.address).to.equal(first.address);
+            expect(events.map(e => e.event)).to.deep.equal(["skip"]);
+            expect((events[0] as StepEvent).hash).to.equal(first.hash);
+        });
+    });
+
+    /* Transactions
+    ========================================*/
+    describe("Transactions", function () {
+        it("Should report the start and completion of a transaction", async function () {
+            const [, account] = await ethers.getSigners();
+            const nft = await deployNFT();
+
+            const txRec = await tx(
+                "Mint",
+                async () => await nft.mint(account.address),
+                1,
+                { reporter }
+            );
+
+            expect(events.map(e => e.event)).to.deep.equal([
+                "start",
+                "complete",
+            ]);
+
+            const e = events[1] as StepEvent;
+
+            expect(e.kind).to.equal("tx");
+            expect(e.address).to.equal(await nft.getAddress());
+            expect(e.hash).to.equal(txRec?.hash);
+            expect(e.block).to.equal(txRec?.blockNumber);
+            expect(e.gasUsed).to.equal(txRec?.gasUsed);
+            expect(e.cost).to.equal(e.gasUsed * e.gasPrice);
+            expect(e.confirmations).to.be.greaterThanOrEqual(1);
+            expect(e.status).to.equal("mined");
+            expect(e.broadcasts).to.equal(1);
+        });
+    });
+
+    /* Retries
+    ========================================*/
+    describe("Retries", function () {
+        afterEach(async function () {
+            await network.provider.send("evm_setAutomine", [true]);
+        });
+
+        it("Should rebroadcast a transaction that is not mined in time", async function () {
+            const [, account] = await ethers.getSigners();
+            const nft = await deployNFT();
+
+            await network.provider.send("evm_setAutomine", [false]);
+
+            const txRec = await tx(
+                "Mint",
+                async () => await nft.mint(account.address),
+                1,
+                {
+                    reporter: function (e) {
+                        events.push(e);
+
+                        // Only mine once the fee has been bumped.
+                        if (e.event === "retry") {
+                            void network.provider.send("evm_mine");
+                        }
+                    },
+                    retry: { timeout: 100, rebroadcasts: 2 },
+                }
+            );
+
+            const retry = events.find(e => e.event === "retry");
+            const complete = events.find(e => e.event === "complete");
+
+            expect(retry).to.not.equal(undefined);
+            expect(txRec?.hash).to.equal(retry?.hash);
+            expect(txRec?.status).to.equal(1);
+            expect(await nft.balanceOf(account.address)).to.equal(1n);
+
+            expect(complete).to.deep.include({
+                hash: txRec?.hash,
+                status: "mined",
+                broadcasts: 2,
+            });
+        });
+
+        it("Should keep waiting for a mined transaction to be confirmed", async function () {
+            const [, account] = await ethers.getSigners();
+            const nft = await deployNFT();
+
+            await network.provider.send("evm_setAutomine", [false]);
+
+            // Mined straight away, but only confirmed well after every
+            // timeout would have passed.
+            const confirm = setTimeout(
+                () => void network.provider.send("evm_mine"),
+                500
+            );
+
+            try {
+                const txRec = await tx(
+                    "Mint",
+                    async function () {
+                        const txRes = await nft.mint(account.address);
+                        await network.provider.send("evm_mine");
+                        return txRes;
+                    },
+                    2,
+                    { reporter, retry: { timeout: 100, rebroadcasts: 2 } }
+                );
+
+                const complete = events.find(e => e.event === "complete");
+
+                expect(txRec?.status).to.equal(1);
+                expect(events.map(e => e.event)).to.deep.equal([
+                    "start",
+                    "complete",
+                ]);
+                expect(complete).to.deep.include({
+                    hash: txRec?.hash,
+                    status: "mined",
+                    broadcasts: 1,
+                });
+            } finally {
+                clearTimeout(confirm);
+            }
+        });
+
+        it("Should fail with a clear status if the transaction is cancelled", async function () {
+            const [deployer, account] = await ethers.getSigners();
+            const nft = await deployNFT();
+
+            await network.provider.send("evm_setAutomine", [false]);
+
+            let err: unknown;
+            try {
+                await tx(
+                    "Mint",
+                    async function () {
+                        const txRes = await nft.mint(account.address);
+
+                        // Cancel it before it is mined.
+                        await deployer.sendTransaction({
+                            to: deployer.address,
+                            value: 0n,
+                            nonce: txRes.nonce,
+                            maxFeePerGas: (txRes.maxFeePerGas ?? 0n) * 2n,
+                            maxPriorityFeePerGas:
+                                (txRes.maxPriorityFeePerGas ?? 0n) * 2n,
+                        });
+                        await network.provider.send("evm_mine");
+
+                        return txRes;
+                    },
+                    1,
+                    { reporter }
+                );
+            } catch (e) {
+                err = e;
+            }
+
+            expect(err).to.be.instanceOf(TxError);
+            expect((err as TxError).status).to.equal("cancelled");
+            expect(events.map(e => e.event)).to.deep.equal(["start", "fail"]);
+            expect(await nft.balanceOf(account.address)).to.equal(0n);
+        });
+    });
+
+    /* Reporters
+    ========================================*/
+    describe("Reporters", function () {
+        it("Should write one JSON object per line", async function () {
+            const file = path.join(dir, "events.jsonl");
+            const data = await d("MockNFT", deployNFT, {
+                reporter: jsonLinesReporter(file),
+            });
+
+            const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+            expect(lines).to.have.length(2);
+
+            const complete = JSON.parse(lines[1]);
+            const rec = await ethers.provider.getTransactionReceipt(data.hash);
+
+            expect(complete.event).to.equal("complete");
+            expect(complete.hash).to.equal(data.hash);
+            expect(complete.gasUsed).to.equal(rec?.gasUsed.toString());
+            expect(Date.parse(complete.time)).to.not.be.NaN;
+        });
+    });
+});
@@ -0,0 +1,128 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { expect } from "chai";
+
+/* IMPORT TYPES
+================================================== */
+import type { EnvIssue } from "@lib/env";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    EnvError,
+    asBigint,
+    asBoolean,
+    asChainID,
+    asOneOf,
+    optional,
+    parseEnv,
+    required,
+} from "@lib/env";
+import { loadConfig } from "@lib/config";
+import { issuesOf } from "@test/utils";
+
+/* CONSTANTS
+================================================== */
+const ADDR = "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed";
+const CHECKSUMMED = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+const MAINNET = {
+    MAINNET_CHAIN_ID: "8811",
+    MAINNET_RPC: "https://rpc.haven1.org",
+    MAINNET_ASSOCIATION: ADDR,
+    MAINNET_DEV: ADDR,
+    MAINNET_DEV_FEE_COLLECTOR: ADDR,
+    MAINNET_FEE_CONTRACT: ADDR,
+    MAINNET_POI_CONTRACT: ADDR,
+    MAINNET_GUARDIAN_CONTROLLER_CONTRACT: ADDR,
+} as const;
+
+/* HELPERS
+================================================== */
+/**
+ * @function    formatIssue
+ * @param       {EnvIssue}    i
+ * @returns     {string}
+ */
+function formatIssue(i: EnvIssue): string {
+    return `${i.key}: ${i.reason}`;
+}
+
+/* TESTS
+================================================== */
+describe("Environment Config", function () {
+    it("Should parse a schema into a typed, frozen config", function () {
+        const env = parseEnv(
+            {
+                chainID: required("CHAIN_ID", asChainID),
+                amount: required("AMOUNT", asBigint),
+                enabled: optional("ENABLED", asBoolean),
+                mode: optional("MODE", asOneOf(["fork", "local"])),
+            },
+            { CHAIN_ID: " 8811 ", AMOUNT: "0x10", ENABLED: "yes", MODE: "" }
+        );
+
+        expect(env).to.deep.equal({
+            chainID: 8811n,
+            amount: 16n,
+            enabled: true,
+            mode: undefined,
+        });
+        expect(Object.isFrozen(env)).to.be.true;
+    });
+
+    it("Should report every missing and invalid value at once", function () {
+        const issues = issuesOf(
+            () =>
+                parseEnv(
+                    {
+                        a: required("A", asChainID),
+                        b: required("B", asBigint),
+                        c: required("C", asBoolean),
+                        d: optional("D", asBoolean),
+                    },
+                    { A: "0", C: "maybe", D: "true" }
+                ),
+            EnvError,
+            formatIssue
+        );
+
+        expect(issues).to.deep.equal([
+            'A: invalid chain ID "0"',
+            "B: missing",
+            'C: invalid boolean "maybe"',
+        ]);
+    });
+
+    it("Should load a network config with checksummed addresses", function () {
+        const env = loadConfig("mainnet", {}, MAINNET);
+
+        expect(env.chainID).to.equal(8811n);
+        expect(env.association).to.equal(CHECKSUMMED);
+        expect(env.vendor?.feeContract).to.equal(CHECKSUMMED);
+        expect(env.deployer).to.be.undefined;
+        expect(Object.isFrozen(env)).to.be.true;
+        expect(Object.isFrozen(env.vendor)).to.be.true;
+    });
+
+    it("Should only require the values that are asked for", function () {
+        const source = {
+            ...MAINNET,
+            MAINNET_RPC: "",
+            MAINNET_FEE_CONTRACT: "",
+            MAINNET_DEV: "0x1234",
+        };
+
+        const env = () => loadConfig("mainnet", { vendor: false }, source);
+        expect(issuesOf(env, EnvError, formatIssue)).to.deep.equal([
+            'MAINNET_DEV: invalid address "0x1234"',
+        ]);
+
+        const all = () => loadConfig("mainnet", { rpc: true }, source);
+        expect(issuesOf(all, EnvError, formatIssue)).to.deep.equal([
+            "MAINNET_RPC: missing",
+            'MAINNET_DEV: invalid address "0x1234"',
+            "MAINNET_FEE_CONTRACT: missing",
+        ]);
+    });
+});
@@ -0,0 +1,101 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { artifacts } from "hardhat";
+import { expect } from "chai";
+import { ErrorFragment } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { CustomErrorDef } from "@lib/errors";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    generateErrorModule,
+    loadCustomErrors,
+    renderErrorModule,
+} from "@lib/errors";
+import { E } from "@errors";
+
+/* HELPERS
+================================================== */
+/**
+ * @function    def
+ * @param       {string}    sig
+ * @param       {string}    [contract]
+ * @returns     {CustomErrorDef}
+ */
+function def(sig: string, contract: string = ""): CustomErrorDef {
+    return {
+        contract: contract || "Errors",
+        source: "contracts/lib/Errors.sol",
+        scoped: contract !== "",
+        fragment: ErrorFragment.from(sig),
+    };
+}
+
+/* TESTS
+================================================== */
+describe("Error Registry", function () {
+    it("Should load every custom error declared in the contracts", async function () {
+        const errors = await loadCustomErrors(artifacts);
+        const bid = errors.find(e => e.fragment.name === "Auction__BidTooLow");
+
+        expect(bid?.source).to.equal(
+            "contracts/examples/nft-auction/lib/Errors.sol"
+        );
+        expect(bid?.scoped).to.be.false;
+
+        const nft = errors.find(e => e.fragment.name === "MockNFT__MaxSupply");
+
+        expect(nft?.contract).to.equal("MockNFT");
+        expect(nft?.scoped).to.be.true;
+
+        expect(errors.some(e => e.source.startsWith("@openzeppelin"))).to.be
+            .false;
+    });
+
+    it("Should group errors by prefix and type their args", function () {
+        const out = renderErrorModule([
+            def("error Pool__TooLow(uint256 amount, address to)"),
+            def("error Pool__Empty()"),
+            def("error Unprefixed(bool[] flags)", "Vault"),
+        ]);
+
+        expect(out).to.include(
+            `TooLow: "Pool__TooLow" as CustomError<"Pool__TooLow", [amount: bigint | number, to: string]>,`
+        );
+        expect(out).to.include(
+            `Empty: "Pool__Empty" as CustomError<"Pool__Empty", []>,`
+        );
+        expect(out).to.include(
+            `Unprefixed: "Unprefixed" as CustomError<"Unprefixed", [flags: (boolean)[]]>,`
+        );
+        expect(out.indexOf("    Pool: {")).to.be.lessThan(
+            out.indexOf("    Vault: {")
+        );
+    });
+
+    it("Should only rewrite the module when it changes", async function () {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "errors-"));
+
+        try {
+            const first = await generateErrorModule(artifacts, dir);
+            const second = await generateErrorModule(artifacts, dir);
+
+            expect(first.written).to.be.true;
+            expect(second.written).to.be.false;
+            expect(second.count).to.equal(first.count);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("Should expose the generated names", function () {
+        expect(E.Auction.BidTooLow).to.equal("Auction__BidTooLow");
+        expect(E.NetworkGuardian.Paused).to.equal("NetworkGuardian__Paused");
+    });
+});
@@ -10,16 +10,14 @@ import { parseUnits } from "ethers";
 
 /* IMPORT CONSTANTS AND UTILS
 ================================================== */
-import { TestDeployment, UserType, auctionErr } from "./setup";
+import { TestDeployment, UserType } from "./setup";
 import {
     DAY_SEC,
     ZERO_ADDRESS,
     accessControlErr,
-    addressErr,
-    guardianErr,
-    h1DevelopedErr,
     initialiazbleErr,
 } from "../../constants";
+import { E, errorArgs } from "@errors";
 import { PROOF_OF_ID_ATTRS } from "@lib/deploy/proof-of-identity";
 import {
     type NFTAuctionArgs,
@@ -94,7 +92,7 @@ describe("NFT Auction", function () {
                 proofOfIdentity: ZERO_ADDRESS,
             };
 
-            const err = addressErr("ZERO_ADDRESS");
+            const err = E.Address.ZeroAddress;
 
             await expect(
                 deployNFTAuction(args, t.association)
@@ -106,7 +104,7 @@ describe("NFT Auction", function () {
             const kind = 0;
             const args = t.auctionArgs;
             const cfg = { ...args.config, kind };
-            const err = auctionErr("INVALID_AUCTION_KIND");
+            const err = E.Auction.InvalidAuctionKind;
 
             const f = await ethers.getContractFactory("NFTAuction");
 
@@ -128,7 +126,7 @@ describe("NFT Auction", function () {
                 )
             )
                 .to.be.revertedWithCustomError(f, err)
-                .withArgs(0);
+                .withArgs(...errorArgs(err, 0));
         });
 
         it("Should fail to deploy if an auction kind greater than three (3) is supplied ", async function () {
@@ -136,7 +134,7 @@ describe("NFT Auction", function () {
             const kind = 4;
             const args = t.auctionArgs;
             const cfg = { ...args.config, kind };
-            const err = auctionErr("INVALID_AUCTION_KIND");
+            const err = E.Auction.InvalidAuctionKind;
 
             const f = await ethers.getContractFactory("NFTAuction");
 
@@ -158,7 +156,7 @@ describe("NFT Auction", function () {
                 )
             )
                 .to.be.revertedWithCustomError(f, err)
-                .withArgs(kind);
+                .withArgs(...errorArgs(err, kind));
         });
 
         it("Should fail to deploy if an invalid auction length is supplied", async function () {
@@ -166,7 +164,7 @@ describe("NFT Auction", function () {
             const length = 0;
             const args = t.auctionArgs;
             const cfg = { ...args.config, length };
-            const err = auctionErr("INVALID_AUCTION_LENGTH");
+            const err = E.Auction.InvalidAuctionLength;
 
             const f = await ethers.getContractFactory("NFTAuction");
 
@@ -188,7 +186,7 @@ describe("NFT Auction", function () {
                 )
             )
                 .to.be.revertedWithCustomError(f, err)
-                .withArgs(length, DAY_SEC);
+                .withArgs(...errorArgs(err, length, DAY_SEC));
         });
 
         it("Should fail to deploy if an invalid NFT address is supplied", async function () {
@@ -196,7 +194,7 @@ describe("NFT Auction", function () {
             const nft = ZERO_ADDRESS;
             const args = t.auctionArgs;
             const cfg = { ...args.config, nft };
-            const err = addressErr("ZERO_ADDRESS");
+            const err = E.Address.ZeroAddress;
 
             const f = await ethers.getContractFactory("NFTAuction");
 
@@ -224,7 +222,7 @@ describe("NFT Auction", function () {
             const beneficiary = ZERO_ADDRESS;
             const args = t.auctionArgs;
             const cfg = { ...args.config, beneficiary };
-            const err = addressErr("ZERO_ADDRESS");
+            const err = E.Address.ZeroAddress;
 
             const f = await ethers.getContractFactory("NFTAuction");
 
@@ -286,7 +284,7 @@ describe("NFT Auction", function () {
         it("Should revert if the auction has already been started", async function () {
             const t = await loadFixture(setup);
             const c = t.auction.connect(t.developer);
-            const err = auctionErr("ACTIVE");
+            const err = E.Auction.AuctionActive;
 
             const txRes = await c.startAuction();
             txRes.wait();
@@ -320,7 +318,7 @@ describe("NFT Auction", function () {
             const t = await loadFixture(setup);
             const c = t.auction;
             const cDev = t.auction.connect(t.developer);
-            const err = guardianErr("PAUSED");
+            const err = E.NetworkGuardian.Paused;
 
             const isPaused = await c.guardianPaused();
             expect(isPaused).to.be.false;
@@ -393,8 +391,8 @@ describe("NFT Auction", function () {
             const addr = t.accountAddresses[0];
             const fee = await cDev.getFnFeeAdj(bidSel);
 
-            const errFunds = h1DevelopedErr("INSUFFICIENT_FUNDS");
-            const errValue = auctionErr("ZERO_VALUE");
+            const errFunds = E.H1Developed.InsufficientFunds;
+            const errValue = E.Auction.ZeroValue;
 
             await t.poi.issueDefaultIdentity(addr);
 
@@ -408,7 +406,7 @@ describe("NFT Auction", function () {
             // Place bid with no value at all
             await expect(cUser.bid())
                 .to.be.revertedWithCustomError(cUser, errFunds)
-                .withArgs(0n, fee);
+                .withArgs(...errorArgs(errFunds, 0n, fee));
 
             // Place bid with no value after fee
             await expect(
@@ -423,7 +421,7 @@ describe("NFT Auction", function () {
             const c = t.auction.connect(t.accounts[0]);
             const addr = t.accountAddresses[0];
             const bid = parseUnits("4", 18);
-            const err = auctionErr("NOT_STARTED");
+            const err = E.Auction.AuctionNotStarted;
             const fee = await c.getFnFeeAdj(bidSel);
 
             await t.poi.issueDefaultIdentity(addr);
@@ -444,7 +442,7 @@ describe("NFT Auction", function () {
             const addr = t.accountAddresses[0];
             const bid = parseUnits("100", 18);
 
-            const err = auctionErr("FINISHED");
+            const err = E.Auction.AuctionFinished;
 
             const fee = await cUser.getFnFeeAdj(bidSel);
 
@@ -475,7 +473,7 @@ describe("NFT Auction", function () {
 
             const fee = await cUser.getFnFeeAdj(bidSel);
 
-            const err = auctionErr("BID_TOO_LOW");
+            const err = E.Auction.BidTooLow;
 
             await t.poi.issueDefaultIdentity(addr);
 
@@ -484,9 +482,11 @@ describe("NFT Auction", function () {
             await txRes.wait();
 
             // Place insufficient bid
-            await expect(
-                cUser.bid({ value: bid + fee })
-            ).to.be.revertedWithCustomError(cUser, err);
+            await expect(cUser.bid({ value: bid + fee }))
+                .to.be.revertedWithCustomError(cUser, err)
+                .withArgs(
+                    ...errorArgs(err, bid, t.auctionArgs.config.startingBid)
+                );
         });
 
         it("Should revert if the new bid is the same as the current highest bid", async function () {
@@ -501,7 +501,7 @@ describe("NFT Auction", function () {
 
             const fee = await cUser.getFnFeeAdj(bidSel);
 
-            const err = auctionErr("BID_TOO_LOW");
+            const err = E.Auction.BidTooLow;
 
             await t.poi.issueDefaultIdentity(addr);
 
@@ -510,9 +510,9 @@ describe("NFT Auction", function () {
             await txRes.wait();
 
             // Place a bid equal to the current highest bid.
-            await expect(
-                cUser.bid({ value: bid + fee })
-            ).to.be.revertedWithCustomError(cUser, err);
+            await expect(cUser.bid({ value: bid + fee }))
+                .to.be.revertedWithCustomError(cUser, err)
+                .withArgs(...errorArgs(err, bid, bid));
         });
 
         it("Should not allow the current highest bidder to outbid themselves / raise thier bid", async function () {
@@ -526,7 +526,7 @@ describe("NFT Auction", function () {
             const bidOne = parseUnits("15", 18);
             const bidTwo = parseUnits("16", 18);
 
-            const err = auctionErr("IS_HIGHEST");
+            const err = E.Auction.IsHighestBidder;
 
             const fee = await cUser.getFnFeeAdj(bidSel);
 
@@ -632,7 +632,7 @@ describe("NFT Auction", function () {
             const bid = parseUnits("81", 18);
 
             const fee = await cDev.getFnFeeAdj(bidSel);
-            const err = guardianErr("PAUSED");
+            const err = E.NetworkGuardian.Paused;
 
             await t.poi.issueDefaultIdentity(addr);
 
@@ -693,7 +693,7 @@ describe("NFT Auction", function () {
             const fee = await cDev.getFnFeeAdj(bidSel);
 
             const bid = parseUnits("19", 18);
-            const err = auctionErr("NO_ID");
+            const err = E.Auction.NoIdentityNFT;
 
             // Start auction
             const txRes = await cDev.startAuction();
@@ -714,7 +714,7 @@ describe("NFT Auction", function () {
 
             const addr = t.accountAddresses[0];
             const reason = "test-reason";
-            const err = auctionErr("SUSPENDED");
+            const err = E.Auction.Suspended;
             const bid = parseUnits("22", 18);
 
             const fee = await cDev.getFnFeeAdj(bidSel);
@@ -747,7 +747,7 @@ describe("NFT Auction", function () {
             const args = t.poi.defaultPOIArgs(addr);
             const exp = args.expiries[userType.id];
 
-            const err = auctionErr("ATTRIBUTE_EXPIRED");
+            const err = E.Auction.AttributeExpired;
             const bid = parseUnits("22", 18);
 
             const fee = await cDev.getFnFeeAdj(bidSel);
@@ -764,7 +764,7 @@ describe("NFT Auction", function () {
             // Should not be able to place a bid with an expired ID.
             await expect(cUser.bid({ value: bid + fee }))
                 .to.be.revertedWithCustomError(cUser, err)
-                .withArgs(userType.name, exp);
+                .withArgs(...errorArgs(err, userType.name, BigInt(exp)));
         });
 
         it("Should not allow an account of the wrong account type to bid", async function () {
@@ -789,7 +789,7 @@ describe("NFT Auction", function () {
             const args = t.poi.defaultPOIArgs(addr);
             args.userType = UserType.RETAIL;
 
-            const err = auctionErr("USER_TYPE");
+            const err = E.Auction.InvalidUserType;
             const bid = parseUnits("90", 18);
 
             const fee = await cDev.getFnFeeAdj(bidSel);
@@ -809,7 +809,9 @@ describe("NFT Auction", function () {
 
             await expect(cUser.bid({ value: bid + fee }))
                 .to.revertedWithCustomError(cUser, err)
-                .withArgs(UserType.RETAIL, UserType.INSTITUTION);
+                .withArgs(
+                    ...errorArgs(err, UserType.RETAIL, UserType.INSTITUTION)
+                );
         });
     });
 
@@ -820,7 +822,7 @@ describe("NFT Auction", function () {
             const t = await loadFixture(setup);
 
             const c = t.auction;
-            const err = auctionErr("NOT_STARTED");
+            const err = E.Auction.AuctionNotStarted;
 
             await expect(c.endAuction()).to.be.revertedWithCustomError(c, err);
         });
@@ -833,7 +835,7 @@ describe("NFT Auction", function () {
 
             const len = t.auctionArgs.config.length;
 
-            const err = guardianErr("PAUSED");
+            const err = E.NetworkGuardian.Paused;
 
             // Start the auction
             let txRes = await cDev.startAuction();
@@ -867,7 +869,7 @@ describe("NFT Auction", function () {
 
             const c = t.auction.connect(t.developer);
 
-            const err = auctionErr("ACTIVE");
+            const err = E.Auction.AuctionActive;
 
             const txRes = await c.startAuction();
             txRes.wait();
@@ -880,7 +882,7 @@ describe("NFT Auction", function () {
 
             const c = t.auction.connect(t.developer);
             const len = t.auctionArgs.config.length;
-            const err = auctionErr("FINISHED");
+            const err = E.Auction.AuctionFinished;
 
             let txRes = await c.startAuction();
             txRes.wait();
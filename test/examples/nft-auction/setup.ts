@@ -8,6 +8,7 @@ import type { MockNFT, NFTAuction } from "@typechain/index";
 /* IMPORT CONSTANTS AND UTILS
 ================================================== */
 import { Fee, GuardianController, POI } from "../../utils";
+import { scheduledFees } from "@lib/feeSchedule";
 import { WEEK_SEC } from "@test/constants";
 import {
     type AuctionConfig,
@@ -18,35 +19,6 @@ import {
 
 /* CONSTANTS AND UTILS
 ================================================== */
-type AuctionErrorKey = keyof typeof AUCTION_ERRORS;
-
-const AUCTION_ERRORS = {
-    INVALID_AUCTION_KIND: "Auction__InvalidAuctionKind",
-    INVALID_AUCTION_LENGTH: "Auction__InvalidAuctionLength",
-    NOT_STARTED: "Auction__AuctionNotStarted",
-    ACTIVE: "Auction__AuctionActive",
-    FINISHED: "Auction__AuctionFinished",
-    NO_ID: "Auction__NoIdentityNFT",
-    SUSPENDED: "Auction__Suspended",
-    ATTRIBUTE_EXPIRED: "Auction__AttributeExpired",
-    USER_TYPE: "Auction__InvalidUserType",
-    BID_TOO_LOW: "Auction__BidTooLow",
-    IS_HIGHEST: "Auction__IsHighestBidder",
-    TRANSFER_FAILER: "Auction__TransferFailed",
-    ZERO_VALUE: "Auction__ZeroValue",
-} as const satisfies Record<string, string>;
-
-/**
- * Returns an error message from the `NFTAuction` contract.
- *
- * @function    auctionErr
- * @param       {AuctionErrorKey} err
- * @returns     {string}
- */
-export function auctionErr(err: AuctionErrorKey): string {
-    return AUCTION_ERRORS[err];
-}
-
 export const UserType = {
     RETAIL: 1,
     INSTITUTION: 2,
@@ -160,8 +132,7 @@ export class TestDeployment {
 
         // Auction Contract
         // ----------------------------------------
-        const fnSigs = ["startAuction()", "bid()", "endAuction()"];
-        const fnFees = [0n, parseUnits("2", 18), 0n];
+        const { fnSigs, fnFees } = scheduledFees("NFTAuction");
         const nftID = 1n;
 
         const config: AuctionConfig = {
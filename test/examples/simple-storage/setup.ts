@@ -1,13 +1,13 @@
 /* IMPORT NODE MODULES
 ================================================== */
 import { ethers } from "hardhat";
-import { parseUnits } from "ethers";
 import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import type { SimpleStorage } from "@typechain/index";
 
 /* IMPORT CONSTANTS AND UTILS
 ================================================== */
 import { Fee, GuardianController } from "../../utils";
+import { scheduledFees } from "@lib/feeSchedule";
 import {
     deploySimpleStorage,
     SimpleStorageArgs,
@@ -102,8 +102,7 @@ export class TestDeployment {
 
         // Simple Storage Contract
         // ----------------------------------------
-        const fnSigs = ["incrementCount()", "decrementCount()"];
-        const fnFees = [parseUnits("2", 18), parseUnits("1", 18)];
+        const { fnSigs, fnFees } = scheduledFees("SimpleStorage");
 
         this._simpleStorageArgs = {
             feeContract: this._fee.address,
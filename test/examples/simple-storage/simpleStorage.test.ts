@@ -7,7 +7,8 @@ import { parseUnits } from "ethers";
 /* IMPORT CONSTANTS AND UTILS
 ================================================== */
 import { TestDeployment } from "./setup";
-import { accessControlErr, guardianErr, h1DevelopedErr } from "@test/constants";
+import { accessControlErr } from "@test/constants";
+import { E } from "@errors";
 import { fnSelector } from "@lib/fnSelector";
 
 /* CONSTANTS
@@ -84,7 +85,7 @@ describe("H1 Developed Application - Simple Storage Example", function () {
             const dev = c.connect(t.developer);
 
             const updatedFee = parseUnits("3.15", 18);
-            const err = h1DevelopedErr("INSUFFICIENT_FUNDS");
+            const err = E.H1Developed.InsufficientFunds;
 
             let count = await c.count();
             expect(count).to.equal(0n);
@@ -119,7 +120,7 @@ describe("H1 Developed Application - Simple Storage Example", function () {
         it("Should revert if the contract is paused", async function () {
             const t = await loadFixture(setup);
             const c = t.simpleStorage;
-            const err = guardianErr("PAUSED");
+            const err = E.NetworkGuardian.Paused;
 
             const txRes = await c.guardianPause();
             await txRes.wait();
@@ -153,7 +154,7 @@ describe("H1 Developed Application - Simple Storage Example", function () {
             const d = c.connect(t.developer);
 
             const updatedFee = parseUnits("1.75", 18);
-            const err = h1DevelopedErr("INSUFFICIENT_FUNDS");
+            const err = E.H1Developed.InsufficientFunds;
 
             let count = await c.count();
             expect(count).to.equal(0n);
@@ -219,7 +220,7 @@ describe("H1 Developed Application - Simple Storage Example", function () {
         it("Should revert if the contract is paused", async function () {
             const t = await loadFixture(setup);
             const c = t.simpleStorage;
-            const err = guardianErr("PAUSED");
+            const err = E.NetworkGuardian.Paused;
 
             const txRes = await c.guardianPause();
             await txRes.wait();
@@ -302,7 +303,7 @@ describe("H1 Developed Application - Simple Storage Example", function () {
             const t = await loadFixture(setup);
             const c = t.simpleStorage;
             const d = c.connect(t.developer);
-            const err = guardianErr("PAUSED");
+            const err = E.NetworkGuardian.Paused;
 
             const txRes = await c.guardianPause();
             await txRes.wait();
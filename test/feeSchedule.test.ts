@@ -0,0 +1,171 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { FeeDiff, FeeScheduleIssue } from "@lib/feeSchedule";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import {
+    FeeScheduleError,
+    diffFeeSchedule,
+    feeBounds,
+    loadFeeSchedule,
+    reconcileFees,
+    scheduledFees,
+} from "@lib/feeSchedule";
+import { issuesOf } from "@test/utils";
+
+/* HELPERS
+================================================== */
+/**
+ * Writes a fee schedule to `dir` and returns its path.
+ *
+ * @function    writeSchedule
+ * @param       {string}    dir
+ * @param       {unknown}   fees
+ * @param       {string}    [contract]
+ * @returns     {string}
+ */
+function writeSchedule(
+    dir: string,
+    fees: unknown,
+    contract: string = "SimpleStorage"
+): string {
+    const p = path.join(dir, `${contract}.json`);
+    fs.writeFileSync(p, JSON.stringify({ contract, fees }));
+    return p;
+}
+
+/**
+ * @function    formatIssue
+ * @param       {FeeScheduleIssue}    i
+ * @returns     {string}
+ */
+function formatIssue(i: FeeScheduleIssue): string {
+    return `${i.signature}: ${i.reason}`;
+}
+
+/* TESTS
+================================================== */
+describe("Fee Schedules", function () {
+    let dir: string;
+
+    async function setup() {
+        return await TestDeployment.create();
+    }
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "fee-schedule-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should build initializer args from the schedule of a contract", function () {
+        expect(scheduledFees("NFTAuction")).to.deep.equal({
+            fnSigs: ["startAuction()", "bid()", "endAuction()"],
+            fnFees: [0n, parseUnits("2", 18), 0n],
+        });
+    });
+
+    it("Should report every problem with a schedule at once", function () {
+        const file = writeSchedule(dir, {
+            "incrementCount(": "1",
+            "decrementCount()": "1",
+            "decrementCount( )": "2",
+            "resetCount()": 1,
+            "count()": "1",
+            "setFee(string,uint)": "6",
+        });
+        const max = parseUnits("5", 18);
+
+        expect(
+            issuesOf(() => loadFeeSchedule(file), FeeScheduleError, formatIssue)
+        ).to.deep.equal([
+            "incrementCount(: invalid signature",
+            "decrementCount(): listed more than once",
+            "resetCount(): invalid USD fee 1",
+        ]);
+
+        const valid = writeSchedule(dir, {
+            "count()": "1",
+            "setFee(string,uint)": "6",
+        });
+
+        expect(
+            issuesOf(
+                () => loadFeeSchedule(valid, { min: 0n, max }),
+                FeeScheduleError,
+                formatIssue
+            )
+        ).to.deep.equal([
+            "count(): not a state-changing function of SimpleStorage",
+            "setFee(string,uint256): $6.0 is above the maximum fee of $5.0",
+        ]);
+    });
+
+    it("Should diff a schedule against the contract and reconcile them", async function () {
+        const t = await loadFixture(setup);
+        const address = t.simpleStorageAddress;
+        const bounds = await feeBounds(address);
+
+        // On-chain: incrementCount() = $2, decrementCount() = $1.
+        const schedule = loadFeeSchedule(
+            writeSchedule(dir, {
+                "incrementCount()": "2",
+                "resetCount()": "0.5",
+                "setFee(string,uint)": "0",
+            }),
+            bounds
+        );
+
+        const diffs = await diffFeeSchedule(address, schedule);
+
+        expect(diffs.map(d => [d.signature, d.status])).to.deep.equal([
+            ["incrementCount()", "unchanged"],
+            ["resetCount()", "added"],
+            ["setFee(string,uint256)", "unchanged"],
+            ["decrementCount()", "removed"],
+        ]);
+
+        const call = reconcileFees(address, diffs, bounds);
+
+        expect(call?.fnSigs).to.deep.equal([
+            "resetCount()",
+            "decrementCount()",
+        ]);
+        expect(call?.fnFees).to.deep.equal([parseUnits("0.5", 18), 0n]);
+
+        await t.developer.sendTransaction({ to: call!.to, data: call!.data });
+
+        const after = await diffFeeSchedule(address, schedule);
+        expect(after.every(d => d.status === "unchanged")).to.be.true;
+        expect(reconcileFees(address, after, bounds)).to.be.undefined;
+    });
+
+    it("Should not clear a fee below the minimum", function () {
+        const diffs: FeeDiff[] = [
+            {
+                signature: "decrementCount()",
+                selector: "0xb7f90f12",
+                onChain: 2n,
+                scheduled: undefined,
+                status: "removed",
+            },
+        ];
+
+        expect(() =>
+            reconcileFees("0x", diffs, { min: 1n, max: 10n })
+        ).to.throw(FeeScheduleError, "below the minimum fee");
+    });
+});
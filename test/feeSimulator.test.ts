@@ -0,0 +1,155 @@
+/* IMPORT NODE MODULES
+================================================== */
+import {
+    loadFixture,
+    time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Wallet, parseUnits } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import {
+    distribute,
+    feeTimeline,
+    fnFeeAdj,
+    readFeeModel,
+    simulateFees,
+} from "@lib/feeSimulator";
+import { fnSelector } from "@lib/fnSelector";
+
+/* CONSTANTS
+================================================== */
+const SIGS = ["incrementCount()", "decrementCount()"];
+const MIX = { "incrementCount()": 3, "decrementCount()": 1 };
+
+/* TESTS
+================================================== */
+describe("Fee Simulator", function () {
+    async function setup() {
+        return await TestDeployment.create();
+    }
+
+    it("Should reproduce the fees charged by the application", async function () {
+        const t = await loadFixture(setup);
+        const app = t.simpleStorage;
+        const fee = t.fee.contract.connect(t.association);
+
+        // Raise the minimum above the $1 fee of decrementCount().
+        await fee.setMinFee(parseUnits("1.5", 18));
+
+        const model = await readFeeModel(t.simpleStorageAddress, SIGS);
+        const h1USD = await fee.h1USD();
+
+        for (const sig of SIGS) {
+            expect(
+                fnFeeAdj(
+                    model.fnFees[sig],
+                    h1USD,
+                    model.minDevFee,
+                    model.maxDevFee
+                )
+            ).to.equal(await app.getFnFeeAdj(fnSelector(sig)));
+        }
+
+        expect(model.fnFees["decrementCount()"]).to.equal(parseUnits("1", 18));
+        expect(model.graceContract).to.be.true;
+    });
+
+    it("Should match the payouts of the Fee Contract over several epochs", async function () {
+        const t = await loadFixture(setup);
+        const fee = t.fee.contract.connect(t.association);
+        const oracle = await ethers.getContractAt(
+            "FixedFeeOracle",
+            await fee.getOracleAddress(),
+            t.association
+        );
+
+        const channels = [3n, 7n].map(weight => ({
+            address: Wallet.createRandom().address,
+            weight,
+        }));
+        for (const c of channels) {
+            await fee.addChannel(c.address, c.weight);
+        }
+
+        const model = await readFeeModel(t.simpleStorageAddress, SIGS);
+        expect(model.channels).to.deep.equal(channels);
+
+        const prices = ["1.5", "2", "1.2"].map(p => parseUnits(p, 18));
+        expect(prices[0]).to.equal(await fee.h1USD());
+
+        const sim = simulateFees(model, MIX, prices);
+
+        // The first call after the update to $2 is still in the grace period
+        // and pays the old price.
+        expect(sim.calls[4].devFee).to.equal(parseUnits("3", 18));
+        expect(sim.calls[5].devFee).to.equal(parseUnits("2", 18));
+
+        // Replay the simulation on the network.
+        const caller = t.accounts[0];
+        const app = t.simpleStorage.connect(caller);
+        const start = Number(await fee.getLastDistribution());
+        const balanceOf = (a: string) => ethers.provider.getBalance(a);
+        const collectorStart = await balanceOf(t.developerAddress);
+
+        for (const e of sim.epochs) {
+            if (e.epoch > 0) await oracle.updateVal(e.h1USD);
+
+            for (const c of sim.calls.filter(c => c.epoch === e.epoch)) {
+                await time.setNextBlockTimestamp(start + c.at);
+                await app.getFunction(c.signature)({ value: c.devFee });
+
+                await caller.sendTransaction({
+                    to: t.fee.address,
+                    value: c.applicationFee,
+                });
+            }
+
+            const before = await Promise.all(
+                channels.map(c => balanceOf(c.address))
+            );
+
+            await time.setNextBlockTimestamp(start + e.distributedAt);
+            await fee.distributeFees();
+
+            for (let i = 0; i < channels.length; ++i) {
+                expect(
+                    (await balanceOf(channels[i].address)) - before[i]
+                ).to.equal(e.channels[i]);
+            }
+            expect(await balanceOf(t.fee.address)).to.equal(e.remainder);
+        }
+
+        expect((await balanceOf(t.developerAddress)) - collectorStart).to.equal(
+            sim.collector
+        );
+    });
+
+    it("Should lay out the calls and carry the rounding of the shares", function () {
+        const timeline = feeTimeline(MIX, 2, 9);
+
+        expect(timeline.map(c => [c.epoch, c.at, c.signature])).to.deep.equal([
+            [0, 2, "incrementCount()"],
+            [0, 4, "decrementCount()"],
+            [0, 6, "incrementCount()"],
+            [0, 8, "incrementCount()"],
+            [1, 12, "incrementCount()"],
+            [1, 14, "decrementCount()"],
+            [1, 16, "incrementCount()"],
+            [1, 18, "incrementCount()"],
+        ]);
+
+        const weights = [1n, 1n, 1n].map(weight => ({ address: "", weight }));
+        expect(distribute(10n, weights)).to.deep.equal({
+            shares: [3n, 3n, 3n],
+            remainder: 1n,
+        });
+
+        expect(() => feeTimeline({ "bid()": 1.5 }, 1, 9)).to.throw(
+            "Invalid call count"
+        );
+    });
+});
@@ -0,0 +1,114 @@
+/* IMPORT NODE MODULES
+================================================== */
+import {
+    loadFixture,
+    time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { artifacts, ethers } from "hardhat";
+import { expect } from "chai";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import { feeableSignatures, inspectFees } from "@lib/fees";
+import { fnSelector } from "@lib/fnSelector";
+
+/* CONSTANTS
+================================================== */
+const SCALE = 10n ** 18n;
+const SIGS = ["incrementCount()", "decrementCount()"];
+
+/* TESTS
+================================================== */
+describe("Fee Inspector", function () {
+    async function setup() {
+        return await TestDeployment.create();
+    }
+
+    it("Should report the USD and adjusted fees of each function", async function () {
+        const t = await loadFixture(setup);
+        const caller = t.accountAddresses[0];
+        const fees = t.simpleStorageArgs.fnFees;
+
+        const r = await inspectFees(t.simpleStorageAddress, SIGS, caller);
+
+        expect(r.feeContract).to.equal(t.fee.address);
+        expect(r.caller).to.equal(caller);
+        expect(r.h1USD).to.equal(await t.fee.contract.h1USD());
+
+        expect(r.fns.map(f => f.selector)).to.deep.equal(SIGS.map(fnSelector));
+        expect(r.fns.map(f => f.feeUSD)).to.deep.equal(fees);
+        expect(r.fns.map(f => f.feeAdj)).to.deep.equal(
+            fees.map(f => (BigInt(f) * r.h1USD) / SCALE)
+        );
+        expect(r.fns.every(f => !f.exempt)).to.be.true;
+    });
+
+    it("Should report the price that applies to the contract during a grace period", async function () {
+        const t = await loadFixture(setup);
+        const fee = t.fee.contract.connect(t.association);
+        const oracle = await ethers.getContractAt(
+            "FixedFeeOracle",
+            await fee.getOracleAddress(),
+            t.association
+        );
+
+        const prev = await fee.h1USD();
+        await oracle.updateVal(prev * 2n);
+        await time.increaseTo(await fee.nextResetTime());
+        await fee.updateFee();
+
+        const r = await inspectFees(
+            t.simpleStorageAddress,
+            SIGS,
+            t.accountAddresses[0]
+        );
+
+        expect(await fee.h1USD()).to.equal(prev * 2n);
+        expect(r.h1USD).to.equal(prev);
+        expect(r.fns.map(f => f.feeAdj)).to.deep.equal(
+            t.simpleStorageArgs.fnFees.map(f => (BigInt(f) * prev) / SCALE)
+        );
+    });
+
+    it("Should report the exemptions that apply to the caller", async function () {
+        const t = await loadFixture(setup);
+        const [exempt, other] = t.accountAddresses;
+        const storage = t.simpleStorageAddress;
+        const fee = t.fee.contract.connect(t.association);
+
+        await fee.setExemptCaller(storage, exempt, true);
+        await fee.setExemptFunction(storage, fnSelector(SIGS[1]), true);
+
+        const r = await inspectFees(storage, SIGS, exempt);
+
+        expect(r.fns.map(f => f.exempt)).to.deep.equal([true, true]);
+        expect(r.fns.map(f => f.feeAdj)).to.deep.equal([0n, 0n]);
+        expect(r.fns.map(f => f.exemptions)).to.deep.equal([
+            ["caller"],
+            ["caller", "function"],
+        ]);
+
+        const o = await inspectFees(storage, SIGS, other);
+
+        expect(o.fns.map(f => f.exempt)).to.deep.equal([false, true]);
+        expect(o.fns[0].feeAdj).to.be.greaterThan(0n);
+    });
+
+    it("Should only list the state-changing functions of an ABI", async function () {
+        const { abi } = await artifacts.readArtifact("SimpleStorage");
+        const sigs = feeableSignatures(abi);
+
+        expect(sigs).to.include.members([...SIGS, "resetCount()"]);
+        expect(sigs).to.not.include("count()");
+        expect(sigs).to.not.include("getFnFeeUSD(bytes4)");
+    });
+
+    it("Should reject a contract that is not an H1DevelopedApplication", async function () {
+        const t = await loadFixture(setup);
+
+        await expect(
+            inspectFees(t.fee.address, SIGS, t.associationAddress)
+        ).to.be.rejectedWith("is not an H1DevelopedApplication");
+    });
+});
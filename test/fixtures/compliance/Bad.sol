@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { H1DevelopedApplication } from "../../../contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+
+interface IBad {
+    function doThing() external;
+}
+
+/**
+ * @notice Breaks the `modifiers` rule on `doThing`. It overrides one of the
+ * project's own interfaces rather than a dependency and so is not exempt from
+ * `developerFee`.
+ */
+contract Bad is H1DevelopedApplication, IBad {
+    uint256 private _x;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address a) external initializer {
+        __H1DevelopedApplication_init(
+            a,
+            a,
+            a,
+            a,
+            a,
+            new string[](0),
+            new uint256[](0),
+            false
+        );
+    }
+
+    function doThing() external override whenNotGuardianPaused {
+        _x++;
+    }
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { ERC721Upgradeable } from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import { H1DevelopedApplication } from "../../../contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+import { NetworkGuardian } from "../../../contracts/vendor/network-guardian/NetworkGuardian.sol";
+
+/**
+ * @notice Passes every compliance rule. `transferFrom` overrides a non-payable
+ * dependency function and so only applies `whenNotGuardianPaused`.
+ */
+contract Compliant is H1DevelopedApplication, ERC721Upgradeable {
+    uint256 private _count;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address a) external initializer {
+        __H1DevelopedApplication_init(
+            a,
+            a,
+            a,
+            a,
+            a,
+            new string[](0),
+            new uint256[](0),
+            false
+        );
+    }
+
+    function increment()
+        external
+        payable
+        whenNotGuardianPaused
+        developerFee(false, true)
+    {
+        _count++;
+    }
+
+    function transferFrom(
+        address from,
+        address to,
+        uint256 tokenId
+    ) public override whenNotGuardianPaused {
+        super.transferFrom(from, to, tokenId);
+    }
+
+    function supportsInterface(
+        bytes4 interfaceId
+    )
+        public
+        view
+        override(NetworkGuardian, ERC721Upgradeable)
+        returns (bool)
+    {
+        return super.supportsInterface(interfaceId);
+    }
+}
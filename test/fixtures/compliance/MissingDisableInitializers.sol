@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { H1DevelopedApplication } from "../../../contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+
+/**
+ * @notice Breaks the `constructor` rule.
+ */
+contract MissingDisableInitializers is H1DevelopedApplication {
+    function initialize(address a) external initializer {
+        __H1DevelopedApplication_init(
+            a,
+            a,
+            a,
+            a,
+            a,
+            new string[](0),
+            new uint256[](0),
+            false
+        );
+    }
+}
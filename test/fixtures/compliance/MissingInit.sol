@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { H1DevelopedApplication } from "../../../contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+
+/**
+ * @notice Breaks the `initializer` rule.
+ */
+contract MissingInit is H1DevelopedApplication {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize() external initializer {}
+}
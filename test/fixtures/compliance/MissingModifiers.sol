@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { H1DevelopedApplication } from "../../../contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+
+/**
+ * @notice Breaks the `modifiers` rule on `increment` and `decrement`.
+ */
+contract MissingModifiers is H1DevelopedApplication {
+    uint256 private _count;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address a) external initializer {
+        __H1DevelopedApplication_init(
+            a,
+            a,
+            a,
+            a,
+            a,
+            new string[](0),
+            new uint256[](0),
+            false
+        );
+    }
+
+    function increment() external payable developerFee(false, true) {
+        _count++;
+    }
+
+    function decrement() external whenNotGuardianPaused {
+        _count--;
+    }
+}
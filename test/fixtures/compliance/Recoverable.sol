@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { H1DevelopedApplication } from "../../../contracts/vendor/h1-developed-application/H1DevelopedApplication.sol";
+import { IRecoverable } from "../../../contracts/vendor/utils/interfaces/IRecoverable.sol";
+
+/**
+ * @notice Passes every compliance rule. The `IRecoverable` functions override
+ * a non-payable vendored interface and so only apply `whenNotGuardianPaused`.
+ */
+contract Recoverable is H1DevelopedApplication, IRecoverable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address a) external initializer {
+        __H1DevelopedApplication_init(
+            a,
+            a,
+            a,
+            a,
+            a,
+            new string[](0),
+            new uint256[](0),
+            false
+        );
+    }
+
+    function recoverH1(
+        address payable to,
+        uint256 amount
+    ) external whenNotGuardianPaused {
+        to.transfer(amount);
+    }
+
+    function recoverAllH1(address to) external whenNotGuardianPaused {
+        payable(to).transfer(address(this).balance);
+    }
+
+    function recoverHRC20(
+        address token,
+        address to,
+        uint256 amount
+    ) external whenNotGuardianPaused {}
+
+    function recoverAllHRC20(
+        address token,
+        address to
+    ) external whenNotGuardianPaused {}
+}
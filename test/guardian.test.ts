@@ -0,0 +1,157 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { Wallet } from "ethers";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import {
+    guardianCalls,
+    listGuardianContracts,
+    runGuardianAction,
+} from "@lib/guardian";
+
+/* TESTS
+================================================== */
+describe("Network Guardian Operations", function () {
+    async function setup() {
+        const t = await TestDeployment.create();
+
+        await t.simpleStorage.register();
+        await t.fee.contract.register();
+
+        return t;
+    }
+
+    it("Should list the registered contracts and their pause state", async function () {
+        const t = await loadFixture(setup);
+        const controller = t.guardianController.address;
+
+        await t.guardianController.contract.pause(t.fee.address, true);
+
+        expect(await listGuardianContracts(controller)).to.deep.equal([
+            { index: 0, address: t.simpleStorageAddress, paused: false },
+            { index: 1, address: t.fee.address, paused: true },
+        ]);
+
+        expect(await listGuardianContracts(controller, 1)).to.deep.equal([
+            { index: 1, address: t.fee.address, paused: true },
+        ]);
+    });
+
+    it("Should decode the result for each contract", async function () {
+        const t = await loadFixture(setup);
+        const controller = t.guardianController.address;
+        const storage = t.simpleStorageAddress;
+
+        const single = await runGuardianAction(
+            controller,
+            t.association,
+            "pause",
+            { addresses: [storage] },
+            true
+        );
+
+        expect(single.calls.map(c => c.method)).to.deep.equal(["pause"]);
+        expect(single.results).to.deep.equal([
+            { address: storage, event: "Paused", before: false, after: true },
+        ]);
+
+        // The storage contract is already paused, so fails without reverting.
+        const multiple = await runGuardianAction(
+            controller,
+            t.association,
+            "pause",
+            { addresses: [storage, t.fee.address] },
+            false
+        );
+
+        expect(multiple.calls.map(c => c.method)).to.deep.equal([
+            "pauseMultiple",
+        ]);
+        expect(multiple.results.map(r => [r.event, r.after])).to.deep.equal([
+            ["PauseFailed", true],
+            ["Paused", true],
+        ]);
+
+        const range = await runGuardianAction(
+            controller,
+            t.association,
+            "unpause",
+            { start: 0, end: 2 },
+            true
+        );
+
+        expect(range.calls.map(c => c.method)).to.deep.equal(["unpauseRange"]);
+        expect(range.results.map(r => [r.event, r.after])).to.deep.equal([
+            ["Unpaused", false],
+            ["Unpaused", false],
+        ]);
+    });
+
+    it("Should revert a safe action and require the role", async function () {
+        const t = await loadFixture(setup);
+        const controller = t.guardianController.address;
+
+        await expect(
+            runGuardianAction(
+                controller,
+                t.association,
+                "unpause",
+                { start: 0, end: 2 },
+                true
+            )
+        ).to.be.rejected;
+
+        await expect(
+            runGuardianAction(
+                controller,
+                t.developer,
+                "pause",
+                { start: 0, end: 2 },
+                false
+            )
+        ).to.be.rejectedWith("is missing the role NETWORK_GUARDIAN");
+
+        expect((await listGuardianContracts(controller)).every(c => !c.paused))
+            .to.be.true;
+    });
+
+    it("Should split the calls by the maximum iterations", function () {
+        const addresses = Array.from(
+            { length: 5 },
+            () => Wallet.createRandom().address
+        );
+
+        const multiple = guardianCalls(
+            "pause",
+            { addresses },
+            addresses,
+            false,
+            2
+        );
+
+        expect(multiple.map(c => c.addresses)).to.deep.equal([
+            addresses.slice(0, 2),
+            addresses.slice(2, 4),
+            addresses.slice(4),
+        ]);
+
+        const range = guardianCalls(
+            "unpause",
+            { start: 1, end: 6 },
+            addresses,
+            true,
+            2
+        );
+
+        expect(range.map(c => [c.method, ...c.args])).to.deep.equal([
+            ["unpauseRange", 1, 3, true],
+            ["unpauseRange", 3, 5, true],
+            ["unpauseRange", 5, 6, true],
+        ]);
+        expect(range[2].addresses).to.deep.equal([addresses[4]]);
+    });
+});
@@ -0,0 +1,177 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { network } from "hardhat";
+import { expect } from "chai";
+
+/* IMPORT TYPES
+================================================== */
+import type { HttpNetworkUserConfig } from "hardhat/types";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { EnvError } from "@lib/env";
+import { networkProfiles } from "@lib/networks";
+import { deployDefaults } from "@lib/deploy/wrapper";
+
+/* CONSTANTS
+================================================== */
+const KEY = "ab".repeat(32);
+const ADDR = "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed";
+const CHECKSUMMED = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+/* TESTS
+================================================== */
+describe("Network Profiles", function () {
+    it("Should only define the remote profiles that are configured", function () {
+        const networks = networkProfiles({}, {});
+
+        expect(Object.keys(networks).sort()).to.deep.equal([
+            "hardhat",
+            "localhost",
+        ]);
+        expect(networks.localhost?.deploy?.confirmations).to.equal(1);
+    });
+
+    it("Should build a profile from the environment", function () {
+        const networks = networkProfiles(
+            {},
+            {
+                MAINNET_RPC: "https://rpc.example.org",
+                MAINNET_CHAIN_ID: "8811",
+                MAINNET_DEPLOYER_KEY: KEY,
+                MAINNET_GAS_MULTIPLIER: "1.2",
+                TESTNET_RPC: "https://testnet.example.org",
+                TESTNET_CHAIN_ID: "810",
+                TESTNET_CONFIRMATIONS: "3",
+            }
+        );
+
+        const mainnet = networks.haven_mainnet as HttpNetworkUserConfig;
+        const testnet = networks.haven_testnet as HttpNetworkUserConfig;
+
+        expect(mainnet.url).to.equal("https://rpc.example.org");
+        expect(mainnet.chainId).to.equal(8811);
+        expect(mainnet.accounts).to.deep.equal([`0x${KEY}`]);
+        expect(mainnet.gasMultiplier).to.equal(1.2);
+        expect(mainnet.deploy?.confirmations).to.equal(2);
+
+        expect(testnet.accounts).to.equal("remote");
+        expect(testnet.gasPrice).to.equal("auto");
+        expect(testnet.deploy?.confirmations).to.equal(3);
+    });
+
+    it("Should fork a configured network", function () {
+        const networks = networkProfiles(
+            { mining: { auto: true } },
+            {
+                FORK: "testnet",
+                FORK_BLOCK: "100",
+                TESTNET_RPC: "https://testnet.example.org",
+                TESTNET_CHAIN_ID: "810",
+            }
+        );
+
+        expect(networks.hardhat?.chainId).to.equal(810);
+        expect(networks.hardhat?.mining).to.deep.equal({ auto: true });
+        expect(networks.hardhat?.forking).to.deep.equal({
+            url: "https://testnet.example.org",
+            blockNumber: 100,
+        });
+    });
+
+    it("Should report every invalid variable of every profile at once", function () {
+        let err: unknown;
+        try {
+            networkProfiles(
+                {},
+                {
+                    FORK: "devnet",
+                    MAINNET_RPC: "ftp://rpc.example.org",
+                    MAINNET_DEPLOYER_KEY: "0x1234",
+                    TESTNET_RPC: "https://testnet.example.org",
+                }
+            );
+        } catch (e) {
+            err = e;
+        }
+
+        expect(err).to.be.instanceOf(EnvError);
+        expect((err as EnvError).issues.map(i => i.key)).to.deep.equal([
+            "FORK",
+            "TESTNET_CHAIN_ID",
+            "MAINNET_RPC",
+            "MAINNET_CHAIN_ID",
+            "MAINNET_DEPLOYER_KEY",
+        ]);
+        expect((err as EnvError).message).to.not.include("0x1234");
+    });
+
+    it("Should configure the signer of each profile", function () {
+        const networks = networkProfiles(
+            {},
+            {
+                FORK: "mainnet",
+                MAINNET_RPC: "https://rpc.example.org",
+                MAINNET_CHAIN_ID: "8811",
+                MAINNET_SIGNER: "offline",
+                MAINNET_SIGNER_ADDRESS: ADDR,
+                TESTNET_RPC: "https://testnet.example.org",
+                TESTNET_CHAIN_ID: "810",
+                TESTNET_SIGNER: "keystore",
+                TESTNET_KEYSTORE: "./keystore.json",
+            }
+        );
+
+        const mainnet = networks.haven_mainnet as HttpNetworkUserConfig;
+        const testnet = networks.haven_testnet as HttpNetworkUserConfig;
+
+        expect(mainnet.accounts).to.equal("remote");
+        expect(mainnet.signer).to.deep.equal({
+            kind: "offline",
+            address: CHECKSUMMED,
+        });
+        expect(networks.hardhat?.signer).to.deep.equal(mainnet.signer);
+
+        expect(testnet.accounts).to.equal("remote");
+        expect(testnet.signer).to.deep.equal({
+            kind: "keystore",
+            path: "./keystore.json",
+            address: undefined,
+        });
+    });
+
+    it("Should report the variables a signer is missing", function () {
+        let err: unknown;
+        try {
+            networkProfiles(
+                {},
+                {
+                    MAINNET_RPC: "https://rpc.example.org",
+                    MAINNET_CHAIN_ID: "8811",
+                    MAINNET_SIGNER: "rpc",
+                    MAINNET_DEPLOYER_KEY: KEY,
+                }
+            );
+        } catch (e) {
+            err = e;
+        }
+
+        expect(err).to.be.instanceOf(EnvError);
+        expect((err as EnvError).issues).to.deep.equal([
+            {
+                key: "MAINNET_DEPLOYER_KEY",
+                reason: "must not be set (MAINNET_SIGNER is rpc)",
+            },
+            {
+                key: "MAINNET_SIGNER_RPC",
+                reason: "missing (MAINNET_SIGNER is rpc)",
+            },
+        ]);
+    });
+
+    it("Should pass the defaults of the network to the deploy wrapper", function () {
+        expect(network.name).to.equal("hardhat");
+        expect(deployDefaults()).to.deep.equal(network.config.deploy);
+        expect(deployDefaults().confirmations).to.equal(1);
+    });
+});
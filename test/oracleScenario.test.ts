@@ -0,0 +1,174 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { PriceSeriesIssue } from "@lib/oracleScenario";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { TestDeployment } from "@test/examples/simple-storage/setup";
+import {
+    PriceSeriesError,
+    loadPriceSeries,
+    runPriceScenario,
+} from "@lib/oracleScenario";
+import { issuesOf } from "@test/utils";
+
+/* CONSTANTS
+================================================== */
+const SIGS = ["incrementCount()", "decrementCount()"];
+const HOUR = 3600;
+
+/* HELPERS
+================================================== */
+/**
+ * @function    formatIssue
+ * @param       {PriceSeriesIssue}    i
+ * @returns     {string}
+ */
+function formatIssue(i: PriceSeriesIssue): string {
+    return `${i.entry}: ${i.reason}`;
+}
+
+/**
+ * Returns `v` to 18 decimals.
+ *
+ * @function    h1
+ * @param       {string}    v
+ * @returns     {bigint}
+ */
+function h1(v: string): bigint {
+    return parseUnits(v, 18);
+}
+
+/* TESTS
+================================================== */
+describe("Oracle Price Scenarios", function () {
+    let dir: string;
+
+    async function setup() {
+        return await TestDeployment.create();
+    }
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "price-series-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should load a price series from CSV or JSON", function () {
+        const csv = path.join(dir, "prices.csv");
+        fs.writeFileSync(
+            csv,
+            "timestamp,h1USD\n1700000000,1.5\n\n2023-11-14T23:13:20Z,2\n"
+        );
+
+        const json = path.join(dir, "prices.json");
+        fs.writeFileSync(
+            json,
+            JSON.stringify({ "1700000000": "1.5", "1700003600": 2 })
+        );
+
+        const expected = [
+            { timestamp: 1700000000, h1USD: h1("1.5") },
+            { timestamp: 1700003600, h1USD: h1("2") },
+        ];
+
+        expect(loadPriceSeries(csv)).to.deep.equal(expected);
+        expect(loadPriceSeries(json)).to.deep.equal(expected);
+
+        fs.writeFileSync(
+            json,
+            JSON.stringify([
+                { timestamp: 1700000000, h1USD: "1.5" },
+                { timestamp: "yesterday", h1USD: "1" },
+                { timestamp: 1600000000, h1USD: "0" },
+                { timestamp: 1500000000, h1USD: "2" },
+            ])
+        );
+
+        expect(
+            issuesOf(() => loadPriceSeries(json), PriceSeriesError, formatIssue)
+        ).to.deep.equal([
+            "2: invalid timestamp yesterday",
+            "3: invalid price 0",
+            "4: timestamp is not after the previous entry",
+        ]);
+    });
+
+    it("Should keep the fees within the fee bounds under volatile prices", async function () {
+        const t = await loadFixture(setup);
+        const fee = t.fee.contract.connect(t.association);
+        const epoch = Number(await fee.getFeeUpdateEpoch());
+
+        // Cap the $2 fee of incrementCount() at $1.5.
+        await fee.setMaxFee(h1("1.5"));
+
+        const series = ["1.5", "10", "0.1", "3"].map((p, i) => ({
+            timestamp: 1700000000 + i * HOUR,
+            h1USD: h1(p),
+        }));
+
+        const s = await runPriceScenario({
+            address: t.simpleStorageAddress,
+            signatures: SIGS,
+            series,
+            operator: t.association,
+            caller: t.accountAddresses[0],
+        });
+
+        expect(s.violations).to.equal(0);
+
+        // Each step waits out the fee update epoch.
+        for (let i = 1; i < s.steps.length; ++i) {
+            expect(
+                s.steps[i].blockTimestamp - s.steps[i - 1].blockTimestamp
+            ).to.be.greaterThan(epoch);
+        }
+
+        // The application fee is $1 at the new price, while the application
+        // pays the lower of the old and new prices during the grace period.
+        expect(s.steps.map(x => x.fee)).to.deep.equal(series.map(p => p.h1USD));
+        expect(s.steps.map(x => x.appH1USD)).to.deep.equal(
+            ["1.5", "1.5", "0.1", "0.1"].map(h1)
+        );
+
+        expect(s.steps.map(x => x.fns[0].feeAdj)).to.deep.equal(
+            ["2.25", "2.25", "0.15", "0.15"].map(h1)
+        );
+        expect(s.steps.map(x => x.fns[1].feeAdj)).to.deep.equal(
+            ["1.5", "1.5", "0.1", "0.1"].map(h1)
+        );
+    });
+
+    it("Should expect no fee from an exempt caller", async function () {
+        const t = await loadFixture(setup);
+        const fee = t.fee.contract.connect(t.association);
+        const caller = t.accountAddresses[0];
+
+        await fee.setExemptCaller(t.simpleStorageAddress, caller, true);
+
+        const s = await runPriceScenario({
+            address: t.simpleStorageAddress,
+            signatures: SIGS,
+            series: [{ timestamp: 0, h1USD: h1("2") }],
+            operator: t.association,
+            caller,
+        });
+
+        expect(s.steps[0].fns.map(f => [f.exempt, f.feeAdj])).to.deep.equal([
+            [true, 0n],
+            [true, 0n],
+        ]);
+        expect(s.violations).to.equal(0);
+    });
+});
@@ -0,0 +1,196 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import { Interface } from "ethers";
+
+/* IMPORT TYPES
+================================================== */
+import type { FailEvent, ReportEvent } from "@lib/deploy/reporter";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { d, tx } from "@lib/deploy/wrapper";
+import { TxError } from "@lib/deploy/retry";
+import { decodeRevert, formatRevert, revertDecoder } from "@lib/revert";
+
+/* TESTS
+================================================== */
+describe("Revert Decoding", function () {
+    /* Decoder
+    ========================================*/
+    describe("Decoder", function () {
+        it("Should decode custom errors declared outside of a contract", async function () {
+            const iface = new Interface([
+                "error Auction__BidTooLow(uint256 bid, uint256 highestBid)",
+            ]);
+            const data = iface.encodeErrorResult("Auction__BidTooLow", [1, 2]);
+
+            const decoded = (await revertDecoder()).decode(data);
+
+            expect(decoded?.error).to.equal("Auction__BidTooLow");
+            expect(decoded?.signature).to.equal(
+                "Auction__BidTooLow(uint256,uint256)"
+            );
+            expect(decoded?.args).to.deep.equal([1n, 2n]);
+            expect(decoded?.contract).to.not.equal("");
+        });
+
+        it("Should decode custom errors declared in a contract", async function () {
+            const iface = new Interface(["error MockNFT__MaxSupply()"]);
+            const data = iface.encodeErrorResult("MockNFT__MaxSupply", []);
+
+            const decoded = (await revertDecoder()).decode(data);
+
+            expect(decoded?.contract).to.equal("MockNFT");
+            expect(formatRevert(decoded!)).to.equal(
+                "MockNFT: MockNFT__MaxSupply()"
+            );
+        });
+
+        it("Should decode Error(string) and Panic(uint256)", async function () {
+            const decoder = await revertDecoder();
+            const iface = new Interface([
+                "error Error(string)",
+                "error Panic(uint256)",
+            ]);
+
+            const err = decoder.decode(
+                iface.encodeErrorResult("Error", ["Nope"])
+            );
+            const panic = decoder.decode(
+                iface.encodeErrorResult("Panic", [0x11])
+            );
+
+            expect(formatRevert(err!)).to.equal('Error("Nope")');
+            expect(formatRevert(panic!)).to.equal("Panic(17)");
+        });
+
+        it("Should not decode unknown or malformed data", async function () {
+            const decoder = await revertDecoder();
+
+            expect(decoder.decode("0x")).to.be.undefined;
+            expect(decoder.decode("0xdeadbeef")).to.be.undefined;
+            expect(decoder.decode("not hex")).to.be.undefined;
+        });
+
+        it("Should decode the revert data of a failed call", async function () {
+            const f = await ethers.getContractFactory("MockNFT");
+            const nft = await f.deploy(10);
+
+            let decoded;
+            try {
+                await nft.mint.staticCall(ethers.ZeroAddress);
+            } catch (e) {
+                decoded = await decodeRevert(e);
+            }
+
+            expect(decoded?.contract).to.equal("MockNFT");
+            expect(decoded?.error).to.equal("MockNFT__ZeroAddress");
+        });
+    });
+
+    /* Wrapper
+    ========================================*/
+    describe("Wrapper", function () {
+        let events: ReportEvent[];
+
+        const reporter = (e: ReportEvent) => events.push(e);
+        const failed = () => events.find(e => e.event === "fail") as FailEvent;
+
+        beforeEach(function () {
+            events = [];
+        });
+
+        it("Should report the decoded revert of a transaction that is never sent", async function () {
+            const nft = await d(
+                "MockNFT",
+                async () => {
+                    const f = await ethers.getContractFactory("MockNFT");
+                    return await f.deploy(10);
+                },
+                { reporter }
+            );
+
+            await expect(
+                tx(
+                    "Mint",
+                    async () => await nft.contract.mint(ethers.ZeroAddress),
+                    1,
+                    { reporter }
+                )
+            ).to.be.rejected;
+
+            const e = failed();
+
+            expect(e.kind).to.equal("tx");
+            expect(e.status).to.equal("reverted");
+            expect(e.hash).to.equal("");
+            expect(e.nonce).to.be.null;
+            expect(e.revert?.error).to.equal("MockNFT__ZeroAddress");
+            expect(e.message).to.equal("MockNFT: MockNFT__ZeroAddress()");
+        });
+
+        it("Should report the decoded revert of a mined transaction", async function () {
+            const [, account] = await ethers.getSigners();
+
+            const nft = await d(
+                "MockNFT",
+                async () => {
+                    const f = await ethers.getContractFactory("MockNFT");
+                    return await f.deploy(0);
+                },
+                { reporter }
+            );
+
+            // Hardhat throws on send if automining, so the revert is mined.
+            await network.provider.send("evm_setAutomine", [false]);
+
+            try {
+                await expect(
+                    tx(
+                        "Mint",
+                        async () => {
+                            const t = await nft.contract.mint(account.address, {
+                                gasLimit: 100_000,
+                            });
+                            await network.provider.send("evm_mine");
+                            return t;
+                        },
+                        1,
+                        { reporter }
+                    )
+                ).to.be.rejectedWith(TxError);
+            } finally {
+                await network.provider.send("evm_setAutomine", [true]);
+            }
+
+            const e = failed();
+
+            expect(e.status).to.equal("reverted");
+            expect(e.hash).to.not.equal("");
+            expect(e.revert?.error).to.equal("MockNFT__MaxSupply");
+        });
+
+        it("Should report the decoded revert of a failed deployment", async function () {
+            const f = await ethers.getContractFactory("MockNFT");
+
+            await expect(
+                d(
+                    "MockNFT",
+                    async () => {
+                        const nft = await f.deploy(0);
+                        await nft.mint.staticCall(ethers.ZeroAddress);
+                        return nft;
+                    },
+                    { reporter }
+                )
+            ).to.be.rejected;
+
+            const e = failed();
+
+            expect(e.kind).to.equal("deploy");
+            expect(e.message).to.equal("MockNFT: MockNFT__ZeroAddress()");
+        });
+    });
+});
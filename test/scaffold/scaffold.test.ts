@@ -0,0 +1,267 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT TYPES
+================================================== */
+import type { ScaffoldErrorCode, ScaffoldOptions } from "@lib/scaffold";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import {
+    ScaffoldError,
+    scaffoldContract,
+    TEMPLATES,
+    writeScaffold,
+} from "@lib/scaffold";
+import { checkBuild } from "@lib/compliance";
+import { compileWithProject } from "@test/utils";
+
+/* HELPERS
+================================================== */
+/**
+ * Returns the code of the `ScaffoldError` thrown by `scaffoldContract`, or
+ * an empty string if it does not throw.
+ *
+ * @async
+ * @function    errorCode
+ * @param       {ScaffoldOptions}   opts
+ * @returns     {Promise<ScaffoldErrorCode | "">}
+ */
+async function errorCode(
+    opts: ScaffoldOptions
+): Promise<ScaffoldErrorCode | ""> {
+    try {
+        await scaffoldContract(opts);
+    } catch (e) {
+        expect(e).to.be.instanceOf(ScaffoldError);
+        return (e as ScaffoldError).code;
+    }
+
+    return "";
+}
+
+/* TESTS
+================================================== */
+describe("Scaffold", function () {
+    let root: string;
+
+    beforeEach(function () {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), "scaffold-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    /* Generation
+    ========================================*/
+    describe("Generation", function () {
+        it("Should generate the contract, deploy module and tests", async function () {
+            const res = await scaffoldContract({
+                name: "MyNFTContract",
+                path: "contracts/my-nft/MyNFTContract.sol",
+                root,
+            });
+
+            expect(res.template).to.equal("default");
+            expect(res.dir).to.equal("my-nft-contract");
+            expect(res.files.map(f => f.path)).to.deep.equal([
+                path.join("contracts", "my-nft", "MyNFTContract.sol"),
+                path.join("lib", "deploy", "my-nft-contract", "deploy.ts"),
+                path.join("lib", "deploy", "my-nft-contract", "index.ts"),
+                path.join("test", "examples", "my-nft-contract", "setup.ts"),
+                path.join(
+                    "test",
+                    "examples",
+                    "my-nft-contract",
+                    "myNFTContract.test.ts"
+                ),
+            ]);
+
+            const [contract, deploy] = res.files;
+
+            expect(contract.content).to.include(
+                'from "../vendor/h1-developed-application/H1DevelopedApplication.sol"'
+            );
+            expect(contract.content).to.include(
+                "contract MyNFTContract is H1DevelopedApplication {"
+            );
+            expect(deploy.content).to.include("export type MyNFTContractArgs");
+            expect(deploy.content).to.include(
+                "export async function deployMyNFTContract("
+            );
+        });
+
+        it("Should not write any files", async function () {
+            await scaffoldContract({
+                name: "MyContract",
+                path: "contracts/MyContract.sol",
+                root,
+            });
+
+            expect(fs.readdirSync(root)).to.have.length(0);
+        });
+
+        it("Should include the template args in the deploy module", async function () {
+            for (const [name, tpl] of Object.entries(TEMPLATES)) {
+                const res = await scaffoldContract({
+                    name: "MyContract",
+                    path: "contracts/MyContract.sol",
+                    template: name,
+                    root,
+                });
+
+                const deploy = res.files[1].content;
+
+                for (const arg of tpl.args) {
+                    expect(deploy).to.include(
+                        `readonly ${arg.name}: ${arg.type};`
+                    );
+                    expect(deploy).to.include(`args.${arg.name},`);
+                }
+            }
+        });
+
+        it("Should write the files", async function () {
+            const res = await scaffoldContract({
+                name: "MyContract",
+                path: "contracts/MyContract.sol",
+                root,
+            });
+
+            const written = writeScaffold(res);
+
+            expect(written).to.deep.equal(res.files.map(f => f.path));
+            for (const f of res.files) {
+                const content = fs.readFileSync(
+                    path.join(root, f.path),
+                    "utf8"
+                );
+                expect(content).to.equal(f.content);
+            }
+        });
+    });
+
+    /* Compliance
+    ========================================*/
+    describe("Compliance", function () {
+        it("Should generate contracts that pass every compliance rule", async function () {
+            const sources: Record<string, string> = {};
+            const names: string[] = [];
+
+            for (const template of Object.keys(TEMPLATES)) {
+                const name = `${template
+                    .split("-")
+                    .map(w => w[0].toUpperCase() + w.slice(1))
+                    .join("")}Contract`;
+
+                const res = await scaffoldContract({
+                    name,
+                    path: `contracts/scaffold/${name}.sol`,
+                    template,
+                    root,
+                });
+
+                const [contract] = res.files;
+                sources[contract.path.split(path.sep).join("/")] =
+                    contract.content;
+                names.push(name);
+            }
+
+            const info = await compileWithProject(sources);
+
+            expect(checkBuild(info, names)).to.be.empty;
+        });
+    });
+
+    /* Errors
+    ========================================*/
+    describe("Errors", function () {
+        it("Should reject an invalid Solidity identifier", async function () {
+            for (const name of [
+                "",
+                "1Contract",
+                "My-Contract",
+                "My Contract",
+            ]) {
+                const code = await errorCode({
+                    name,
+                    path: "contracts/MyContract.sol",
+                    root,
+                });
+
+                expect(code).to.equal("INVALID_IDENTIFIER");
+            }
+        });
+
+        it("Should reject a reserved name", async function () {
+            for (const name of ["contract", "this", "H1DevelopedApplication"]) {
+                const code = await errorCode({
+                    name,
+                    path: "contracts/MyContract.sol",
+                    root,
+                });
+
+                expect(code).to.equal("RESERVED_NAME");
+            }
+        });
+
+        it("Should reject a path that does not end with .sol", async function () {
+            const code = await errorCode({
+                name: "MyContract",
+                path: "contracts/MyContract.ts",
+                root,
+            });
+
+            expect(code).to.equal("INVALID_PATH");
+        });
+
+        it("Should reject a path outside of contracts/", async function () {
+            const paths = [
+                "MyContract.sol",
+                "lib/MyContract.sol",
+                "contracts/../MyContract.sol",
+                path.join(os.tmpdir(), "contracts", "MyContract.sol"),
+            ];
+
+            for (const p of paths) {
+                const code = await errorCode({
+                    name: "MyContract",
+                    path: p,
+                    root,
+                });
+                expect(code).to.equal("OUTSIDE_CONTRACTS");
+            }
+        });
+
+        it("Should reject an unknown template", async function () {
+            const code = await errorCode({
+                name: "MyContract",
+                path: "contracts/MyContract.sol",
+                template: "unknown",
+                root,
+            });
+
+            expect(code).to.equal("UNKNOWN_TEMPLATE");
+        });
+
+        it("Should reject a file that already exists", async function () {
+            const opts = {
+                name: "MyContract",
+                path: "contracts/MyContract.sol",
+                root,
+            };
+
+            writeScaffold(await scaffoldContract(opts));
+            expect(await errorCode(opts)).to.equal("FILE_EXISTS");
+
+            // Any of the generated files, not only the contract.
+            fs.rmSync(path.join(root, "contracts"), { recursive: true });
+            expect(await errorCode(opts)).to.equal("FILE_EXISTS");
+        });
+    });
+});
@@ -0,0 +1,195 @@
+/* IMPORT NODE MODULES
+================================================== */
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/* IMPORT CONSTANTS AND UTILS
+================================================== */
+import { sha256, tarGz } from "@lib/archive";
+import {
+    collectSubmission,
+    coverageSummary,
+    proposedFees,
+} from "@lib/submission";
+import { fnSelector } from "@lib/fnSelector";
+import { untarGz } from "@test/utils";
+
+/* CONSTANTS
+================================================== */
+const CONTRACT = "SimpleStorage";
+const SOURCE = "contracts/examples/simple-storage/SimpleStorage.sol";
+
+/* TESTS
+================================================== */
+describe("Submission Coverage", function () {
+    let dir: string;
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "coverage-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Writes `content` as a `coverage.json` and returns its relative path.
+     *
+     * @function    write
+     * @param       {unknown}   content
+     * @returns     {string}
+     */
+    function write(content: unknown): string {
+        const p = path.join(dir, "coverage.json");
+        fs.writeFileSync(p, JSON.stringify(content));
+        return path.relative(process.cwd(), p);
+    }
+
+    it("Should summarize the coverage of the submitted sources", function () {
+        const file = write({
+            [path.join(process.cwd(), SOURCE)]: {
+                l: { 1: 1, 2: 0 },
+                s: { 1: 1, 2: 1, 3: 0 },
+                f: { 1: 2 },
+                b: {},
+            },
+            "contracts/Other.sol": { l: { 1: 0 }, s: {}, f: {}, b: {} },
+        });
+
+        const summary = coverageSummary(file, [SOURCE]);
+
+        expect(Object.keys(summary.files)).to.deep.equal([SOURCE]);
+        expect(summary.total).to.deep.equal({
+            lines: { covered: 1, total: 2, pct: 50 },
+            statements: { covered: 2, total: 3, pct: 66.67 },
+            functions: { covered: 1, total: 1, pct: 100 },
+            branches: { covered: 0, total: 0, pct: null },
+        });
+    });
+
+    it("Should fail if none of the submitted sources were covered", function () {
+        const empty = write({});
+
+        expect(() => coverageSummary(empty, [SOURCE])).to.throw(
+            `None of the submitted sources appear in ${empty}`
+        );
+
+        expect(() => coverageSummary("nope.json", [SOURCE])).to.throw(
+            "No coverage found at nope.json"
+        );
+    });
+});
+
+describe("Submission", function () {
+    let dir: string;
+    let coverage: string;
+
+    const initializerArgs = {
+        fnSigs: ["incrementCount()", "decrementCount()", "unknown()"],
+        fnFees: [10n ** 18n, "2000000000000000000", 3n],
+    };
+
+    before(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "submission-"));
+
+        const p = path.join(dir, "coverage.json");
+        fs.writeFileSync(
+            p,
+            JSON.stringify({
+                [path.join(process.cwd(), SOURCE)]: {
+                    l: { 1: 1 },
+                    s: { 1: 1 },
+                    f: { 1: 1 },
+                    b: {},
+                },
+            })
+        );
+
+        coverage = path.relative(process.cwd(), p);
+    });
+
+    after(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should produce the same archive each time it is collected", async function () {
+        const opts = { contract: CONTRACT, initializerArgs, coverage };
+
+        const first = tarGz(await collectSubmission(opts));
+        const second = tarGz(await collectSubmission(opts));
+
+        expect(first.equals(second)).to.be.true;
+    });
+
+    it("Should list a checksum for every other file in the archive", async function () {
+        const files = untarGz(
+            tarGz(
+                await collectSubmission({
+                    contract: CONTRACT,
+                    initializerArgs,
+                    coverage,
+                })
+            )
+        );
+
+        const manifest = `${CONTRACT}/CHECKSUMS.sha256`;
+        const sums = files.get(manifest)?.toString("utf8");
+        const archived = [...files].filter(([p]) => p !== manifest);
+
+        expect(archived.map(([p]) => p)).to.include.members([
+            `${CONTRACT}/sources/${SOURCE}`,
+            `${CONTRACT}/fees.json`,
+            `${CONTRACT}/submission.json`,
+        ]);
+
+        expect(sums?.trimEnd().split("\n")).to.deep.equal(
+            archived.map(
+                ([p, content]) =>
+                    `${sha256(content)}  ${p.slice(CONTRACT.length + 1)}`
+            )
+        );
+    });
+
+    it("Should join the proposed fees with the fee-bearing functions", async function () {
+        const fees = await proposedFees(CONTRACT, initializerArgs);
+        const bySig = new Map(fees.map(f => [f.signature, f]));
+
+        expect(fees).to.have.length(4);
+
+        expect(bySig.get("incrementCount()")).to.deep.equal({
+            signature: "incrementCount()",
+            selector: fnSelector("incrementCount()"),
+            feeBearing: true,
+            proposedFee: "1000000000000000000",
+        });
+
+        expect(bySig.get("decrementCount()")).to.deep.include({
+            feeBearing: true,
+            proposedFee: "2000000000000000000",
+        });
+
+        expect(bySig.get("resetCount()")).to.deep.include({
+            feeBearing: true,
+            proposedFee: "",
+        });
+
+        expect(bySig.get("unknown()")).to.deep.equal({
+            signature: "unknown()",
+            selector: fnSelector("unknown()"),
+            feeBearing: false,
+            proposedFee: "3",
+        });
+    });
+
+    it("Should fail if the contract has not been compiled", async function () {
+        await expect(
+            collectSubmission({
+                contract: "NotAContract",
+                initializerArgs,
+                coverage,
+            })
+        ).to.be.rejectedWith("NotAContract");
+    });
+});
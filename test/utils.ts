@@ -1,8 +1,18 @@
 /* IMPORT NODE MODULES
 ================================================== */
-import { ethers } from "hardhat";
+import { artifacts, config, ethers, run } from "hardhat";
+import {
+    TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+    TASK_COMPILE_SOLIDITY_RUN_SOLC,
+    TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { gunzipSync } from "zlib";
 
 import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { BuildInfo, CompilerInput, SolcBuild } from "hardhat/types";
 import {
     parseUnits,
     type AddressLike,
@@ -31,6 +41,11 @@ import {
 import { type FeeInitalizerArgs, deployFeeContract } from "@lib/deploy/fee";
 import { addTime } from "@lib/time";
 
+/* CONSTANTS
+================================================== */
+const H1_DEVELOPED_APPLICATION =
+    "contracts/vendor/h1-developed-application/H1DevelopedApplication.sol:H1DevelopedApplication";
+
 /* TYPES
 ================================================== */
 type IssueIdArgs = {
@@ -230,12 +245,15 @@ export class POI {
     ): Promise<POI> {
         // Account Manager
         // ----------------------------------------
-        const accManager = await this.deployAccountManager();
+        const accManager = await this.deployAccountManager(signer);
         const accManagerAddr = await accManager.getAddress();
 
         // Permissions Interface
         // ----------------------------------------
-        const permInterface = await this.deployPermInterface(accManagerAddr);
+        const permInterface = await this.deployPermInterface(
+            accManagerAddr,
+            signer
+        );
         const permInterfaceAddr = await permInterface.getAddress();
 
         // POI
@@ -402,21 +420,30 @@ export class POI {
 
     /**
      * @method   deployMockAccountManager
+     * @param   {HardhatEthersSigner}   signer
      * @returns {Promise<MockAccountManager>}
      */
-    private async deployAccountManager(): Promise<MockAccountManager> {
-        const f = await ethers.getContractFactory("MockAccountManager");
+    private async deployAccountManager(
+        signer: HardhatEthersSigner
+    ): Promise<MockAccountManager> {
+        const f = await ethers.getContractFactory("MockAccountManager", signer);
         const c = await f.deploy();
         return await c.waitForDeployment();
     }
     /**
      * @method   deployMockPermissionsInterface
+     * @param   {string}                accountManager
+     * @param   {HardhatEthersSigner}   signer
      * @returns {Promise<MockPermissionsInterface>}
      */
     private async deployPermInterface(
-        accountManager: string
+        accountManager: string,
+        signer: HardhatEthersSigner
     ): Promise<MockPermissionsInterface> {
-        const f = await ethers.getContractFactory("MockPermissionsInterface");
+        const f = await ethers.getContractFactory(
+            "MockPermissionsInterface",
+            signer
+        );
         const c = await f.deploy(accountManager);
         return await c.waitForDeployment();
     }
@@ -490,7 +517,7 @@ export class Fee {
     ): Promise<Fee> {
         // Oracle
         // ----------------------------------------
-        const oracle = await this.deployOracle(association);
+        const oracle = await this.deployOracle(association, signer);
         const oracleAddress = await oracle.getAddress();
 
         // Fee Contract
@@ -589,12 +616,16 @@ export class Fee {
      *
      * @method   deployOracle
      *
-     * @param   {string} association
+     * @param   {string}                association
+     * @param   {HardhatEthersSigner}   signer
      *
      * @returns {Promise<FixedFeeOracle>}
      */
-    private async deployOracle(association: string): Promise<FixedFeeOracle> {
-        const f = await ethers.getContractFactory("FixedFeeOracle");
+    private async deployOracle(
+        association: string,
+        signer: HardhatEthersSigner
+    ): Promise<FixedFeeOracle> {
+        const f = await ethers.getContractFactory("FixedFeeOracle", signer);
         const c = await f.deploy(association, parseUnits("1.5", 18));
         return await c.waitForDeployment();
     }
@@ -619,3 +650,159 @@ export class Fee {
         }
     }
 }
+
+/* HELPERS
+================================================== */
+/**
+ * Returns the issues reported by `fn`, each formatted by `format`, or an empty
+ * array if it did not throw. Fails the test if `fn` throws anything other than
+ * an `errorType`.
+ *
+ * @function    issuesOf
+ *
+ * @param       {() => unknown}         fn
+ * @param       {Function}              errorType   An error class with an
+ *                                                  `issues` array.
+ * @param       {(issue: I) => string}  format
+ *
+ * @returns     {string[]}
+ */
+export function issuesOf<I>(
+    fn: () => unknown,
+    errorType: new (...args: never[]) => Error & {
+        readonly issues: readonly I[];
+    },
+    format: (issue: I) => string
+): string[] {
+    try {
+        fn();
+    } catch (e) {
+        expect(e).to.be.instanceOf(errorType);
+        return (e as InstanceType<typeof errorType>).issues.map(format);
+    }
+
+    return [];
+}
+
+/**
+ * Extracts the regular files of a `.tar.gz` archive, keyed by path.
+ *
+ * @function    untarGz
+ * @param       {Buffer}    archive
+ * @returns     {Map<string, Buffer>}
+ */
+export function untarGz(archive: Buffer): Map<string, Buffer> {
+    const tar = gunzipSync(archive);
+    const files = new Map<string, Buffer>();
+
+    const field = (offset: number, length: number) =>
+        tar
+            .subarray(offset, offset + length)
+            .toString("utf8")
+            .replace(/\0.*$/s, "");
+
+    // The archive ends with an empty block.
+    for (let i = 0; i < tar.length && tar[i] !== 0; ) {
+        const name = field(i, 100);
+        const prefix = field(i + 345, 155);
+        const size = parseInt(field(i + 124, 12), 8);
+
+        files.set(
+            prefix ? `${prefix}/${name}` : name,
+            tar.subarray(i + 512, i + 512 + size)
+        );
+
+        i += 512 + Math.ceil(size / 512) * 512;
+    }
+
+    return files;
+}
+
+/**
+ * Compiles `sources`, keyed by source name, together with the sources of the
+ * project build that contains `H1DevelopedApplication`. Any other imports are
+ * read from the project or `node_modules`. Only the ASTs are output.
+ *
+ * # Error
+ *
+ * Will throw an error if the project has not been compiled or the sources do
+ * not compile.
+ *
+ * @async
+ * @throws
+ * @function    compileWithProject
+ *
+ * @param       {Record<string, string>}    sources
+ *
+ * @returns     {Promise<BuildInfo>}
+ */
+export async function compileWithProject(
+    sources: Record<string, string>
+): Promise<BuildInfo> {
+    const info = await artifacts.getBuildInfo(H1_DEVELOPED_APPLICATION);
+    if (!info) {
+        throw new Error(`No build info found for ${H1_DEVELOPED_APPLICATION}`);
+    }
+
+    const all = { ...info.input.sources };
+    for (const [name, content] of Object.entries(sources)) {
+        all[name] = { content };
+    }
+
+    const queue = Object.keys(sources);
+    while (queue.length > 0) {
+        const name = queue.pop() as string;
+        const imports = all[name].content.matchAll(
+            /^\s*import\s[^"']*["']([^"']+)["']/gm
+        );
+
+        for (const [, p] of imports) {
+            const dep = p.startsWith(".")
+                ? path.posix.join(path.posix.dirname(name), p)
+                : p;
+            if (all[dep]) continue;
+
+            const file = dep.startsWith("@")
+                ? path.join(config.paths.root, "node_modules", dep)
+                : path.join(config.paths.root, dep);
+
+            all[dep] = { content: fs.readFileSync(file, "utf8") };
+            queue.push(dep);
+        }
+    }
+
+    const input: CompilerInput = {
+        ...info.input,
+        sources: all,
+        settings: {
+            ...info.input.settings,
+            outputSelection: { "*": { "": ["ast"] } },
+        },
+    };
+
+    const solc: SolcBuild = await run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, {
+        quiet: true,
+        solcVersion: info.solcVersion,
+    });
+
+    const output = solc.isSolcJs
+        ? await run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, {
+              input,
+              solcJsPath: solc.compilerPath,
+          })
+        : await run(TASK_COMPILE_SOLIDITY_RUN_SOLC, {
+              input,
+              solcPath: solc.compilerPath,
+          });
+
+    const errors = (output.errors ?? []).filter(
+        (e: { severity: string }) => e.severity === "error"
+    );
+    if (errors.length > 0) {
+        throw new Error(
+            errors.map((e: { message: string }) => e.message).join("\n")
+        );
+    }
+
+    return { ...info, input, output };
+}